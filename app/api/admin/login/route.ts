@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateStaff, createStaffSession, setSessionCookie } from '../../../../src/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/login
+ * Exchange staff credentials for a session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username = typeof body?.username === 'string' ? body.username : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+
+    if (!username.trim() || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const staff = await authenticateStaff(username, password);
+    if (!staff) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const { token, session } = await createStaffSession(staff, request);
+
+    const response = NextResponse.json(
+      { staff: session.staff, expires_at: session.expires_at },
+      { status: 200 }
+    );
+    setSessionCookie(response, token, session.expires_at);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error in POST /api/admin/login:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
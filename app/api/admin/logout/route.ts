@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getStaffSession,
+  revokeStaffSession,
+  revokeAllStaffSessions,
+  clearSessionCookie
+} from '../../../../src/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/admin/logout
+ * Revoke the current session, or every session for this user with { all: true }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const session = await getStaffSession(request);
+
+    if (session) {
+      if (body?.all === true) {
+        await revokeAllStaffSessions(session.staff.id);
+      } else {
+        await revokeStaffSession(session.id);
+      }
+    }
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error in POST /api/admin/logout:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStaffSession, clearSessionCookie } from '../../../../src/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/admin/session
+ * Return the signed-in staff user, or 401 if there is no valid session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getStaffSession(request);
+
+    if (!session) {
+      const response = NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+      clearSessionCookie(response);
+      return response;
+    }
+
+    return NextResponse.json(
+      { staff: session.staff, expires_at: session.expires_at },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unexpected error in GET /api/admin/session:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
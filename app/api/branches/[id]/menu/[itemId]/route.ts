@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../../src/lib/auth';
+import { canAccessBranch } from '../../../../../../src/lib/permissions';
+import { parseBranchMenuOverrideInput } from '../../../../../../src/lib/branchMenu';
+import { deleteBranchMenuOverride, saveBranchMenuOverride } from '../../../../../../src/lib/branchMenu-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * PUT /api/branches/[id]/menu/[itemId]
+ * Sell an item differently at one branch: sold out there, or at the branch's
+ * own price or discount
+ * Body: { available, price, discountActive, discountPrice, discountStartDate, discountEndDate };
+ * a null price or discountActive keeps the main menu's.
+ * Requires menu.edit; branch staff can only change their own branch.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'menu.edit');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (!canAccessBranch(auth.session.staff, params.id)) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseBranchMenuOverrideInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    let override;
+    try {
+      override = await saveBranchMenuOverride(params.id, params.itemId, input.values);
+    } catch (error: any) {
+      if (error?.code === '23503') {
+        return NextResponse.json(
+          { error: 'Branch or menu item not found' },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ override }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/branches/[id]/menu/[itemId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/branches/[id]/menu/[itemId]
+ * Sell an item at the branch as on the main menu again
+ * Requires menu.edit; branch staff can only change their own branch.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'menu.edit');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (!canAccessBranch(auth.session.staff, params.id)) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteBranchMenuOverride(params.id, params.itemId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/branches/[id]/menu/[itemId]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
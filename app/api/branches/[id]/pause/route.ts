@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { canAccessBranch } from '../../../../../src/lib/permissions';
+import { staffActor } from '../../../../../src/lib/orderTransitions';
+import { parsePauseInput } from '../../../../../src/lib/branchHours';
+import { pauseOrdering, resumeOrdering } from '../../../../../src/lib/branchHours-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/branches/[id]/pause
+ * Stop taking online orders ("busy mode")
+ * Body: { minutes? }; without minutes the branch stays paused until resumed.
+ * Requires orders.pause; branch staff can only pause their own branch.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.pause');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (!canAccessBranch(auth.session.staff, params.id)) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parsePauseInput(body, new Date());
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    const branch = await pauseOrdering(params.id, input.until, staffActor(auth.session.staff).name);
+    if (!branch) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ branch }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/branches/[id]/pause:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/branches/[id]/pause
+ * Take online orders again
+ * Requires orders.pause; branch staff can only resume their own branch.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.pause');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (!canAccessBranch(auth.session.staff, params.id)) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const branch = await resumeOrdering(params.id);
+    if (!branch) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ branch }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/branches/[id]/pause:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
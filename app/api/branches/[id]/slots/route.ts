@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { staffActor } from '../../../../../src/lib/orderTransitions';
+import { DEFAULT_SCHEDULE_TIMEZONE, fromLocalTime, isValidDate, shiftDate, toLocalTime } from '../../../../../src/lib/schedule';
+import { getDaySlotStarts, parseSlotCapacityInput, parseSlotStart } from '../../../../../src/lib/slotCapacity';
+import {
+  fetchSlotUsage,
+  getSlotCapacity,
+  setSlotBlocked,
+  updateSlotCapacity
+} from '../../../../../src/lib/slotCapacity-server';
+import type { SlotUsage } from '../../../../../src/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/branches/[id]/slots?date=YYYY-MM-DD
+ * A branch's slot limits and every 15-minute slot of one day (default today
+ * in the store time zone) with the orders and items taken and whether it is blocked
+ * Requires branches.manage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'branches.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || toLocalTime(new Date(), DEFAULT_SCHEDULE_TIMEZONE).date;
+    if (!isValidDate(date)) {
+      return NextResponse.json(
+        { error: 'Date must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    const capacity = await getSlotCapacity(params.id);
+    if (!capacity) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const starts = getDaySlotStarts(date, DEFAULT_SCHEDULE_TIMEZONE);
+    const usage = await fetchSlotUsage(
+      params.id,
+      starts[0],
+      fromLocalTime(shiftDate(date, 1), 0, DEFAULT_SCHEDULE_TIMEZONE)
+    );
+    const slots: SlotUsage[] = starts.map(start => {
+      const key = start.toISOString();
+      return usage[key] || { start: key, orders: 0, items: 0, blocked: false };
+    });
+
+    return NextResponse.json({ date, capacity, slots }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in GET /api/branches/[id]/slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/branches/[id]/slots
+ * Change the most orders and items the branch takes per slot
+ * Body: { maxOrders, maxItems }; null or empty means no limit.
+ * Requires branches.manage
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'branches.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseSlotCapacityInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getSlotCapacity(params.id))) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    await updateSlotCapacity(params.id, input.capacity);
+
+    return NextResponse.json({ capacity: input.capacity }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/branches/[id]/slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/branches/[id]/slots
+ * Block a slot so it takes no new orders, or unblock it
+ * Body: { slotStart, blocked }. Orders already in the slot are kept.
+ * Requires branches.manage
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'branches.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const slotStart = parseSlotStart(body?.slotStart);
+    if (!slotStart || typeof body?.blocked !== 'boolean') {
+      return NextResponse.json(
+        { error: 'A quarter-hour slot start and blocked are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getSlotCapacity(params.id))) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    await setSlotBlocked(params.id, slotStart, body.blocked, staffActor(auth.session.staff).name);
+
+    return NextResponse.json({ slotStart: slotStart.toISOString(), blocked: body.blocked }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/branches/[id]/slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
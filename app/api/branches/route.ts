@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../src/lib/auth';
+import { getBranchScope } from '../../../src/lib/permissions';
+import { listBranchHours } from '../../../src/lib/branchHours-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/branches
+ * Active branches with their hours and pause state, for the order manager's
+ * pause control; branch staff only get their own branch
+ * Requires orders.pause
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.pause');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const branchScope = getBranchScope(auth.session.staff);
+    if (branchScope === false) {
+      return NextResponse.json(
+        { error: 'Your account is not assigned to a branch' },
+        { status: 403 }
+      );
+    }
+
+    const branches = await listBranchHours(branchScope);
+
+    return NextResponse.json({ branches }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in GET /api/branches:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
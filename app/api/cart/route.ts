@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../src/lib/supabase-server';
+import {
+  consumeCartRateLimit,
+  getOrderSessionId,
+  getRateLimitMessage,
+  setOrderSessionCookie
+} from '../../../src/lib/rateLimit-server';
+import { CART_STORAGE_VERSION, parseStoredCart } from '../../../src/lib/cart';
+
+export const runtime = 'nodejs';
+
+// A full cart is a few kilobytes; refuse anything far beyond that
+const MAX_CART_BYTES = 100_000;
+
+/**
+ * GET /api/cart
+ * The saved cart for this browser's order session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = getOrderSessionId(request);
+
+    const { data, error } = await (supabaseServer.from('carts' as any) as any)
+      .select('items')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching cart:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch cart' },
+        { status: 500 }
+      );
+    }
+
+    const response = NextResponse.json({ items: parseStoredCart(data?.items) }, { status: 200 });
+    setOrderSessionCookie(response, sessionId);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error in GET /api/cart:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/cart
+ * Replace this browser's saved cart
+ * Body: { items: CartItem[] }. Prices are not trusted here; the menu re-check
+ * in the storefront and the pricing in POST /api/orders still apply.
+ * Writes are limited per IP and carts untouched for 30 days are removed by
+ * cleanup_stale_carts(), run from /api/delivery-bookings/process.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Refuse oversized bodies before reading them when the size is declared
+    const declaredLength = Number(request.headers.get('content-length'));
+    if (declaredLength > MAX_CART_BYTES) {
+      return NextResponse.json(
+        { error: 'Cart is too large' },
+        { status: 413 }
+      );
+    }
+
+    const limited = await consumeCartRateLimit(request);
+    if (limited) {
+      return NextResponse.json(
+        { error: getRateLimitMessage(limited.retryAfter), retryAfter: limited.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } }
+      );
+    }
+
+    const raw = await request.text();
+    if (Buffer.byteLength(raw) > MAX_CART_BYTES) {
+      return NextResponse.json(
+        { error: 'Cart is too large' },
+        { status: 413 }
+      );
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid cart' },
+        { status: 400 }
+      );
+    }
+
+    const items = parseStoredCart({ version: CART_STORAGE_VERSION, items: body?.items });
+    const sessionId = getOrderSessionId(request);
+
+    const { error } = items.length === 0
+      ? await (supabaseServer.from('carts' as any) as any).delete().eq('session_id', sessionId)
+      : await (supabaseServer.from('carts' as any) as any).upsert({
+          session_id: sessionId,
+          items: { version: CART_STORAGE_VERSION, items }
+        });
+
+    if (error) {
+      console.error('Error saving cart:', error);
+      return NextResponse.json(
+        { error: 'Failed to save cart' },
+        { status: 500 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    setOrderSessionCookie(response, sessionId);
+    return response;
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/cart:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { processDueDeliveryBookings } from '../../../../src/lib/deliveryBooking';
+import { cleanupStaleCarts } from '../../../../src/lib/cart-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Check the scheduler's `Authorization: Bearer <CRON_SECRET>` header
+ */
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  // Hash both sides so the comparison does not leak the secret's length
+  const expected = createHash('sha256').update(secret).digest();
+  const received = createHash('sha256').update(header.slice('Bearer '.length)).digest();
+  return timingSafeEqual(expected, received);
+}
+
+/**
+ * GET|POST /api/delivery-bookings/process
+ * Run delivery bookings that are due for a retry, and remove stale saved carts
+ * (at most hourly)
+ * Call it every minute from a scheduler with `Authorization: Bearer <CRON_SECRET>`;
+ * the admin dashboard also triggers it while staff have the orders screen open.
+ */
+async function handle(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      const auth = await authorizeStaff(request, 'orders.update_status');
+      if ('error' in auth) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
+    }
+
+    const summary = await processDueDeliveryBookings();
+    await cleanupStaleCarts();
+    return NextResponse.json({ success: true, ...summary }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in /api/delivery-bookings/process:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
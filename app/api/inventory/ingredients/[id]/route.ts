@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { staffActor } from '../../../../../src/lib/orderTransitions';
+import { deleteIngredient, updateIngredient } from '../../../../../src/lib/inventory-server';
+import { parseIngredientInput } from '../../../../../src/lib/inventory';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/inventory/ingredients/[id]
+ * Update an ingredient's name, unit, alert level or counted stock
+ * Requires inventory.manage
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'inventory.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseIngredientInput(body, true);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    let ingredient;
+    try {
+      ingredient = await updateIngredient(params.id, input.values, staffActor(auth.session.staff).name);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return NextResponse.json(
+          { error: 'An ingredient with this name already exists' },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating ingredient:', error);
+      return NextResponse.json(
+        { error: 'Failed to update ingredient' },
+        { status: 500 }
+      );
+    }
+
+    if (!ingredient) {
+      return NextResponse.json(
+        { error: 'Ingredient not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ingredient }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/inventory/ingredients/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/inventory/ingredients/[id]
+ * Delete an ingredient; recipes that used it no longer count it
+ * Requires inventory.manage
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'inventory.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await deleteIngredient(params.id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/inventory/ingredients/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { staffActor } from '../../../../src/lib/orderTransitions';
+import { createIngredient } from '../../../../src/lib/inventory-server';
+import { parseIngredientInput } from '../../../../src/lib/inventory';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/inventory/ingredients
+ * Create an ingredient with its opening stock
+ * Requires inventory.manage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeStaff(request, 'inventory.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseIngredientInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const ingredient = await createIngredient(input.values, staffActor(auth.session.staff).name);
+      return NextResponse.json({ ingredient }, { status: 201 });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return NextResponse.json(
+          { error: 'An ingredient with this name already exists' },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating ingredient:', error);
+      return NextResponse.json(
+        { error: 'Failed to create ingredient' },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    console.error('Unexpected error in POST /api/inventory/ingredients:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { staffActor } from '../../../../../src/lib/orderTransitions';
+import { updateItemStock } from '../../../../../src/lib/inventory-server';
+import { parseItemStockInput } from '../../../../../src/lib/inventory';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/inventory/items/[id]
+ * Update a menu item's stock tracking, counted stock, alert level or recipe
+ * Requires inventory.manage
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'inventory.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseItemStockInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    let item;
+    try {
+      item = await updateItemStock(params.id, input.values, staffActor(auth.session.staff).name);
+    } catch (error: any) {
+      if (error?.code === '23503') {
+        return NextResponse.json(
+          { error: 'An ingredient in this recipe no longer exists' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Menu item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ item }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/inventory/items/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../src/lib/auth';
+import { listInventory } from '../../../src/lib/inventory-server';
+import { getLowStockAlerts } from '../../../src/lib/inventory';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/inventory
+ * Every menu item's stock settings, every ingredient and the low-stock alerts
+ * Requires inventory.manage
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeStaff(request, 'inventory.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { items, ingredients } = await listInventory();
+    return NextResponse.json(
+      { items, ingredients, alerts: getLowStockAlerts(items, ingredients) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unexpected error in GET /api/inventory:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookSignature, handleWebhookEvent } from '../../../../src/lib/lalamove-webhook';
+import type { LalamoveWebhookEvent } from '../../../../src/lib/lalamove-webhook';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/lalamove/webhook - Receive order updates from Lalamove
+ * Register this URL in the Lalamove partner portal. Lalamove retries any
+ * non-2xx response, so only signature and server errors are reported as such.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+
+    // Lalamove sends an empty POST when the webhook URL is registered
+    if (!rawBody.trim()) {
+      return NextResponse.json({ success: true });
+    }
+
+    let event: LalamoveWebhookEvent;
+    try {
+      event = JSON.parse(rawBody);
+    } catch (error) {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    if (!process.env.LALAMOVE_API_SECRET) {
+      console.error('Lalamove webhook received but LALAMOVE_API_SECRET is not set');
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+    }
+
+    const signaturePath = process.env.LALAMOVE_WEBHOOK_PATH || request.nextUrl.pathname;
+    if (!verifyWebhookSignature(event, signaturePath)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const result = await handleWebhookEvent(event);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, handled: result.handled, message: result.message });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/lalamove/webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
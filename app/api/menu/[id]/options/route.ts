@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { parseMenuItemOptionsInput } from '../../../../../src/lib/menuOptions';
+import { replaceMenuItemOptions } from '../../../../../src/lib/menuOptions-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * PUT /api/menu/[id]/options
+ * Replace a menu item's add-ons, add-on groups, variation dimensions (with
+ * their combination prices) and combo slots
+ * Body: { addOns, addOnGroups, variationDimensions, variationOverrides, bundleSlots }
+ * Requires menu.edit
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'menu.edit');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseMenuItemOptionsInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    let found;
+    try {
+      found = await replaceMenuItemOptions(params.id, input.options);
+    } catch (error: any) {
+      if (error?.code === '23503') {
+        return NextResponse.json(
+          { error: 'An item in this combo is no longer on the menu' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Menu item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/menu/[id]/options:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../../../src/lib/auth';
+import { canAccessBranch } from '../../../../../src/lib/permissions';
+import { needsDeliveryBooking, retryDeliveryBooking } from '../../../../../src/lib/deliveryBooking';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/orders/[id]/booking
+ * Retry booking the courier for a delivery order
+ * Requires orders.update_status. Starts a fresh set of attempts, re-quoting if
+ * the original quotation has expired.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'orders.update_status');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { data: order } = await (supabaseServer.from('orders') as any)
+      .select('id, status, service_type, branch_id, lalamove_order_id, lalamove_quotation_id, delivery_lat, delivery_lng')
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (!order || !canAccessBranch(auth.session.staff, order.branch_id)) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (order.status === 'pending' || order.status === 'cancelled' || order.status === 'completed') {
+      return NextResponse.json(
+        { error: `A courier cannot be booked for a ${order.status} order` },
+        { status: 409 }
+      );
+    }
+
+    if (!needsDeliveryBooking(order)) {
+      return NextResponse.json(
+        { error: order.lalamove_order_id ? 'A courier is already booked for this order' : 'This order has no delivery details to book' },
+        { status: 409 }
+      );
+    }
+
+    const booking = await retryDeliveryBooking(order.id);
+
+    return NextResponse.json({ booking }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/orders/[id]/booking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
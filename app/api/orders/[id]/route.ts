@@ -1,210 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer, isAdminRequest } from '../../../../src/lib/supabase-server';
-import type { Order, OrderStatus, SiteSettings } from '../../../../src/types';
-import { buildLalamoveConfig } from '../../../../src/lib/lalamove';
-import type { DeliveryStoreConfig } from '../../../../src/lib/lalamove';
+import { supabaseServer } from '../../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { canAccessBranch, hasPermission } from '../../../../src/lib/permissions';
+import { isOrderStatus } from '../../../../src/lib/orderStatus';
+import { transitionOrderStatus, staffActor, fetchStatusEvents } from '../../../../src/lib/orderTransitions';
+import { cancelCourierForCancelledOrder } from '../../../../src/lib/lalamove-orders';
+import type { CourierCancellation } from '../../../../src/lib/lalamove-orders';
+import type { Order, OrderStatus } from '../../../../src/types';
+import {
+  DELIVERY_BOOKING_COLUMNS,
+  toDeliveryBooking,
+  needsDeliveryBooking,
+  enqueueDeliveryBooking,
+  runDeliveryBooking,
+  cancelDeliveryBooking
+} from '../../../../src/lib/deliveryBooking';
 
 export const runtime = 'nodejs';
 
-/**
- * Normalize phone number for Lalamove API
- * Always ensures phone number starts with +63
- */
-function normalizePhoneNumber(phone?: string): string | undefined {
-  if (!phone) return undefined;
-  const trimmed = phone.trim();
-  if (!trimmed) return undefined;
-  
-  // Remove all non-digits
-  const digits = trimmed.replace(/\D/g, '');
-  if (!digits) return undefined;
-  
-  // Always normalize to +63 format
-  if (digits.startsWith('63')) {
-    return `+${digits}`;
-  } else if (digits.startsWith('0')) {
-    // Remove leading 0 and add 63
-    return `+63${digits.slice(1)}`;
-  } else if (digits.startsWith('9')) {
-    // Add 63 prefix
-    return `+63${digits}`;
-  } else {
-    // Add 63 prefix for any other format
-    return `+63${digits}`;
-  }
-}
-
-/**
- * Fetch site settings from database
- */
-async function getSiteSettings(): Promise<SiteSettings | null> {
-  try {
-    const { data, error } = await supabaseServer
-      .from('site_settings')
-      .select('*')
-      .order('id');
-
-    if (error) {
-      console.error('Error fetching site settings:', error);
-      return null;
-    }
-
-    const settingsLookup: Record<string, string> = {};
-    (data || []).forEach((setting: any) => {
-      settingsLookup[setting.id] = setting.value;
-    });
-
-    const getValue = (key: string, fallback = '') =>
-      settingsLookup[key] ?? fallback;
-
-    return {
-      site_name: getValue('site_name', 'Beracah Cafe'),
-      site_logo: getValue('site_logo', ''),
-      site_description: getValue('site_description', ''),
-      currency: getValue('currency', 'PHP'),
-      currency_code: getValue('currency_code', 'PHP'),
-      lalamove_market: getValue('lalamove_market', ''),
-      lalamove_service_type: getValue('lalamove_service_type', ''),
-      lalamove_sandbox: getValue('lalamove_sandbox', 'true'),
-      lalamove_api_key: getValue('lalamove_api_key', ''),
-      lalamove_api_secret: getValue('lalamove_api_secret', ''),
-      lalamove_store_name: getValue('lalamove_store_name', ''),
-      lalamove_store_phone: getValue('lalamove_store_phone', ''),
-      lalamove_store_address: getValue('lalamove_store_address', ''),
-      lalamove_store_latitude: getValue('lalamove_store_latitude', ''),
-      lalamove_store_longitude: getValue('lalamove_store_longitude', '')
-    };
-  } catch (error) {
-    console.error('Error fetching site settings:', error);
-    return null;
-  }
-}
-
-/**
- * Create Lalamove delivery order via API
- */
-async function createLalamoveOrder(
-  quotationId: string,
-  recipientName: string,
-  recipientPhone: string,
-  config: DeliveryStoreConfig,
-  orderId: string,
-  request?: NextRequest
-): Promise<{ orderId: string; status: string; shareLink: string; driverId?: string | null } | null> {
-  try {
-    const FUNCTION_BASE_URL = process.env.NEXT_PUBLIC_LALAMOVE_FUNCTION_URL;
-    const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-    if (!SUPABASE_ANON_KEY) {
-      throw new Error('Missing NEXT_PUBLIC_SUPABASE_ANON_KEY');
-    }
-
-    // Normalize phone number to always start with +63 (e.164 format)
-    const normalizePhone = (phone: string): string => {
-      if (!phone) return phone;
-      const digits = phone.replace(/\D/g, '');
-      if (!digits) return phone;
-      if (digits.startsWith('63')) {
-        return `+${digits}`;
-      } else if (digits.startsWith('0')) {
-        return `+63${digits.slice(1)}`;
-      } else if (digits.startsWith('9')) {
-        return `+63${digits}`;
-      } else {
-        return `+63${digits}`;
-      }
-    };
-
-    const normalizedPhone = normalizePhone(recipientPhone);
-    const normalizedStorePhone = normalizePhone(config.storePhone);
-
-    const getProxyBase = () => FUNCTION_BASE_URL ?? '/api/lalamove';
-    
-    // Build absolute URL for server-side fetch
-    const buildFunctionUrl = (path: string): string => {
-      const base = getProxyBase();
-      const trimmedPath = path.startsWith('/') ? path : `/${path}`;
-      const cleanBase = base.replace(/\/$/, '');
-      
-      // If base is already absolute (starts with http), use it as is
-      if (cleanBase.startsWith('http://') || cleanBase.startsWith('https://')) {
-        return `${cleanBase}${trimmedPath}?apikey=${encodeURIComponent(SUPABASE_ANON_KEY)}`;
-      }
-      
-      // For relative URLs, construct absolute URL from request or use environment variable
-      let origin = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_SITE_URL;
-      
-      if (!origin && request) {
-        // Try to get origin from request headers
-        const host = request.headers.get('host');
-        const protocol = request.headers.get('x-forwarded-proto') || 'http';
-        if (host) {
-          origin = `${protocol}://${host}`;
-        }
-      }
-      
-      // Fallback to localhost for development
-      if (!origin) {
-        origin = 'http://localhost:3000';
-      }
-      
-      return `${origin}${cleanBase}${trimmedPath}?apikey=${encodeURIComponent(SUPABASE_ANON_KEY)}`;
-    };
-
-    const buildProxyHeaders = () => ({
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-      apikey: SUPABASE_ANON_KEY
-    });
-
-    const response = await fetch(buildFunctionUrl('/order'), {
-      method: 'POST',
-      headers: buildProxyHeaders(),
-      body: JSON.stringify({
-        quotationId,
-        recipientName,
-        recipientPhone: normalizedPhone,
-        market: config.market,
-        sandbox: config.sandbox,
-        storeName: config.storeName,
-        storePhone: normalizedStorePhone,
-        storeAddress: config.storeAddress,
-        storeLatitude: config.storeLatitude,
-        storeLongitude: config.storeLongitude,
-        serviceType: config.serviceType,
-        metadata: {
-          orderId: orderId
-        }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(errorText || 'Failed to create Lalamove order');
-    }
-
-    const data = await response.json();
-    return {
-      orderId: data.orderId,
-      status: data.status,
-      shareLink: data.shareLink,
-      driverId: data.driverId
-    };
-  } catch (error) {
-    console.error('Error creating Lalamove order:', error);
-    return null;
-  }
-}
-
 /**
  * GET /api/orders/[id]
  * Fetch a single order by ID
+ * Requires orders.view; orders from other branches look like 404s to branch staff
+ * Includes the status history as `status_events`
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const auth = await authorizeStaff(request, 'orders.view');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
     const { id } = params;
 
     if (!id) {
@@ -218,7 +50,8 @@ export async function GET(
       .from('orders')
       .select(`
         *,
-        order_items (*)
+        order_items (*),
+        delivery_booking_jobs (${DELIVERY_BOOKING_COLUMNS})
       `)
       .eq('id', id)
       .single() as { data: any; error: any };
@@ -231,7 +64,7 @@ export async function GET(
       );
     }
 
-    if (!data) {
+    if (!data || !canAccessBranch(auth.session.staff, data.branch_id)) {
       return NextResponse.json(
         { error: 'Order not found' },
         { status: 404 }
@@ -250,6 +83,7 @@ export async function GET(
       pickup_time: data.pickup_time,
       party_size: data.party_size,
       dine_in_time: data.dine_in_time,
+      scheduled_for: data.scheduled_for,
       payment_method: data.payment_method,
       reference_number: data.reference_number,
       status: data.status as OrderStatus,
@@ -259,11 +93,27 @@ export async function GET(
       created_at: data.created_at,
       updated_at: data.updated_at,
       completed_at: data.completed_at,
-      delivery_fee: data.delivery_fee ? Number(data.delivery_fee) : null,
+      delivery_fee: data.delivery_fee != null ? Number(data.delivery_fee) : null,
+      delivery_courier_cost: data.delivery_courier_cost != null ? Number(data.delivery_courier_cost) : null,
       lalamove_quotation_id: data.lalamove_quotation_id,
       lalamove_order_id: data.lalamove_order_id,
       lalamove_status: data.lalamove_status,
       lalamove_tracking_url: data.lalamove_tracking_url,
+      lalamove_driver_name: data.lalamove_driver_name,
+      lalamove_driver_phone: data.lalamove_driver_phone,
+      lalamove_driver_plate: data.lalamove_driver_plate,
+      lalamove_price: data.lalamove_price ? Number(data.lalamove_price) : null,
+      lalamove_status_updated_at: data.lalamove_status_updated_at,
+      voucher_code: data.voucher_code,
+      discount_amount: Number(data.discount_amount ?? 0),
+      statutory_discount_type: data.statutory_discount_type,
+      statutory_name: data.statutory_name,
+      statutory_id_number: data.statutory_id_number,
+      vat_exempt_sales: Number(data.vat_exempt_sales ?? 0),
+      vat_exemption: Number(data.vat_exemption ?? 0),
+      statutory_discount: Number(data.statutory_discount ?? 0),
+      branch_id: data.branch_id,
+      delivery_booking: toDeliveryBooking(data.delivery_booking_jobs),
       order_items: (data.order_items as any[])?.map((item: any) => ({
         id: item.id,
         order_id: item.order_id,
@@ -274,8 +124,14 @@ export async function GET(
         total_price: Number(item.total_price),
         selected_variation: item.selected_variation,
         selected_add_ons: item.selected_add_ons,
+        bundle_selections: item.bundle_selections,
+        statutory_eligible: Boolean(item.statutory_eligible),
+        vat_exempt_base: Number(item.vat_exempt_base ?? 0),
+        vat_exemption: Number(item.vat_exemption ?? 0),
+        statutory_discount: Number(item.statutory_discount ?? 0),
         created_at: item.created_at
-      })) || []
+      })) || [],
+      status_events: await fetchStatusEvents(data.id)
     };
 
     return NextResponse.json({ order }, { status: 200 });
@@ -291,22 +147,29 @@ export async function GET(
 /**
  * PATCH /api/orders/[id]
  * Update order status
- * Admin users bypass rate limiting
+ * Requires orders.update_status (and orders.cancel to cancel) for the order's branch.
+ * Status changes must follow the transition graph in src/lib/orderStatus.ts and
+ * are recorded in order_status_events with the optional `reason`. Cancelling an
+ * order also cancels its Lalamove booking; the outcome is in `courier_cancellation`.
+ * The lalamove_* columns are only written by the booking jobs and the webhook.
  */
 export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check if request is from admin (for logging/consistency)
-    const isAdmin = isAdminRequest(request);
-    if (isAdmin) {
-      console.log('Admin order update - rate limiting bypassed');
+    const auth = await authorizeStaff(request, 'orders.update_status');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
     }
+    const { staff } = auth.session;
 
     const { id } = params;
     const body = await request.json();
-    const { status, lalamove_order_id, lalamove_status, lalamove_tracking_url } = body;
+    const { status, reason } = body;
 
     if (!id) {
       return NextResponse.json(
@@ -315,83 +178,100 @@ export async function PATCH(
       );
     }
 
-    // Build update object
-    const updateData: any = {};
-    
-    if (status !== undefined) {
-      // Validate status
-      const validStatuses: OrderStatus[] = [
-        'pending',
-        'confirmed',
-        'preparing',
-        'ready',
-        'out_for_delivery',
-        'completed',
-        'cancelled'
-      ];
-
-      if (!validStatuses.includes(status)) {
-        return NextResponse.json(
-          { error: 'Invalid status' },
-          { status: 400 }
-        );
-      }
-      updateData.status = status;
+    if (status === undefined) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
     }
 
-    // Allow updating Lalamove fields
-    if (lalamove_order_id !== undefined) {
-      updateData.lalamove_order_id = lalamove_order_id;
-    }
-    if (lalamove_status !== undefined) {
-      updateData.lalamove_status = lalamove_status;
-    }
-    if (lalamove_tracking_url !== undefined) {
-      updateData.lalamove_tracking_url = lalamove_tracking_url;
+    if (!isOrderStatus(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      );
     }
 
-    if (Object.keys(updateData).length === 0) {
+    if (status === 'cancelled' && !hasPermission(staff.role, 'orders.cancel')) {
       return NextResponse.json(
-        { error: 'No fields to update' },
-        { status: 400 }
+        { error: 'You do not have permission to cancel orders' },
+        { status: 403 }
       );
     }
 
-    // Fetch current order to check if we need to create Lalamove order
+    // Fetch current order to validate the transition and check if it needs a courier
     const { data: currentOrder } = await supabaseServer
       .from('orders')
       .select('*')
       .eq('id', id)
       .single() as { data: any; error: any };
 
-    // Check if status is changing to 'confirmed' and order is delivery type
-    const statusChangingToConfirmed = 
-      status === 'confirmed' && 
-      currentOrder?.status !== 'confirmed' &&
-      currentOrder?.service_type === 'delivery' &&
-      currentOrder?.lalamove_quotation_id &&
-      !currentOrder?.lalamove_order_id;
-
-    // Update the order
-    const { data, error } = await supabaseServer
-      .from('orders')
-      // @ts-expect-error - Supabase type definitions may not include all fields
-      .update(updateData)
-      .eq('id', id)
-      .select(`
-        *,
-        order_items (*)
-      `)
-      .single() as { data: any; error: any };
-
-    if (error) {
-      console.error('Error updating order:', error);
+    if (!currentOrder || !canAccessBranch(staff, currentOrder.branch_id)) {
       return NextResponse.json(
-        { error: 'Failed to update order', details: error.message },
-        { status: 500 }
+        { error: 'Order not found' },
+        { status: 404 }
       );
     }
 
+    const statusChanging = status !== currentOrder.status;
+
+    // Confirming a delivery order books the courier
+    const shouldBookDelivery =
+      statusChanging &&
+      status === 'confirmed' &&
+      needsDeliveryBooking(currentOrder);
+
+    let data: any;
+    let courierCancellation: CourierCancellation | null = null;
+
+    if (statusChanging) {
+      // Status changes go through the state machine and are recorded in the history
+      const result = await transitionOrderStatus(currentOrder, status, staffActor(staff), {
+        reason: typeof reason === 'string' ? reason : null,
+        select: `
+          *,
+          order_items (*),
+          delivery_booking_jobs (${DELIVERY_BOOKING_COLUMNS})
+        `
+      });
+
+      if ('error' in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+      data = result.order;
+
+      // Cancelling the order also calls off the courier, if one was booked
+      if (status === 'cancelled') {
+        await cancelDeliveryBooking(id);
+        courierCancellation = await cancelCourierForCancelledOrder(currentOrder);
+        if (courierCancellation?.cancelled) {
+          data.lalamove_status = 'CANCELED';
+        }
+      }
+    } else {
+      // Same status: nothing to change
+      const { data: unchanged, error } = await (supabaseServer.from('orders') as any)
+        .select(`
+          *,
+          order_items (*),
+          delivery_booking_jobs (${DELIVERY_BOOKING_COLUMNS})
+        `)
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        console.error('Error fetching order:', error);
+        return NextResponse.json(
+          { error: 'Failed to update order', details: error.message },
+          { status: 500 }
+        );
+      }
+      data = unchanged;
+    }
+
     if (!data) {
       return NextResponse.json(
         { error: 'Order not found' },
@@ -399,48 +279,20 @@ export async function PATCH(
       );
     }
 
-    // Automatically create Lalamove order if status changed to confirmed (non-blocking)
-    if (statusChangingToConfirmed) {
-      // Don't await - let it run in the background so it doesn't block the response
-      (async () => {
-        try {
-          const siteSettings = await getSiteSettings();
-          if (siteSettings) {
-            const lalamoveConfig = buildLalamoveConfig(siteSettings);
-            if (lalamoveConfig && data.lalamove_quotation_id) {
-              const normalizedPhone = normalizePhoneNumber(data.contact_number) || data.contact_number;
-              const lalamoveResult = await createLalamoveOrder(
-                data.lalamove_quotation_id,
-                data.customer_name,
-                normalizedPhone,
-                lalamoveConfig,
-                data.id,
-                request
-              );
-
-              if (lalamoveResult) {
-                // Update order with Lalamove tracking info
-                await supabaseServer
-                  .from('orders')
-                  // @ts-expect-error - Supabase type definitions may not include all fields
-                  .update({
-                    lalamove_order_id: lalamoveResult.orderId,
-                    lalamove_status: lalamoveResult.status,
-                    lalamove_tracking_url: lalamoveResult.shareLink
-                  })
-                  .eq('id', id);
-
-                console.log(`Lalamove order created automatically for order ${data.order_number}:`, lalamoveResult.orderId);
-              } else {
-                console.warn(`Failed to create Lalamove order for order ${data.order_number}`);
-              }
-            }
-          }
-        } catch (lalamoveError) {
-          console.error('Error creating Lalamove order automatically:', lalamoveError);
-          // Don't fail the order update if Lalamove creation fails
-        }
-      })();
+    // Book the courier now; failures stay queued for retry and show in the admin
+    if (shouldBookDelivery) {
+      await enqueueDeliveryBooking(id);
+      await runDeliveryBooking(id);
+
+      const { data: refreshed } = await (supabaseServer.from('orders') as any)
+        .select(`
+          *,
+          order_items (*),
+          delivery_booking_jobs (${DELIVERY_BOOKING_COLUMNS})
+        `)
+        .eq('id', id)
+        .single();
+      data = refreshed || data;
     }
 
     // Format order
@@ -455,6 +307,7 @@ export async function PATCH(
       pickup_time: data.pickup_time,
       party_size: data.party_size,
       dine_in_time: data.dine_in_time,
+      scheduled_for: data.scheduled_for,
       payment_method: data.payment_method,
       reference_number: data.reference_number,
       status: data.status as OrderStatus,
@@ -464,11 +317,27 @@ export async function PATCH(
       created_at: data.created_at,
       updated_at: data.updated_at,
       completed_at: data.completed_at,
-      delivery_fee: data.delivery_fee ? Number(data.delivery_fee) : null,
+      delivery_fee: data.delivery_fee != null ? Number(data.delivery_fee) : null,
+      delivery_courier_cost: data.delivery_courier_cost != null ? Number(data.delivery_courier_cost) : null,
       lalamove_quotation_id: data.lalamove_quotation_id,
       lalamove_order_id: data.lalamove_order_id,
       lalamove_status: data.lalamove_status,
       lalamove_tracking_url: data.lalamove_tracking_url,
+      lalamove_driver_name: data.lalamove_driver_name,
+      lalamove_driver_phone: data.lalamove_driver_phone,
+      lalamove_driver_plate: data.lalamove_driver_plate,
+      lalamove_price: data.lalamove_price ? Number(data.lalamove_price) : null,
+      lalamove_status_updated_at: data.lalamove_status_updated_at,
+      voucher_code: data.voucher_code,
+      discount_amount: Number(data.discount_amount ?? 0),
+      statutory_discount_type: data.statutory_discount_type,
+      statutory_name: data.statutory_name,
+      statutory_id_number: data.statutory_id_number,
+      vat_exempt_sales: Number(data.vat_exempt_sales ?? 0),
+      vat_exemption: Number(data.vat_exemption ?? 0),
+      statutory_discount: Number(data.statutory_discount ?? 0),
+      branch_id: data.branch_id,
+      delivery_booking: toDeliveryBooking(data.delivery_booking_jobs),
       order_items: (data.order_items as any[])?.map((item: any) => ({
         id: item.id,
         order_id: item.order_id,
@@ -479,11 +348,19 @@ export async function PATCH(
         total_price: Number(item.total_price),
         selected_variation: item.selected_variation,
         selected_add_ons: item.selected_add_ons,
+        bundle_selections: item.bundle_selections,
+        statutory_eligible: Boolean(item.statutory_eligible),
+        vat_exempt_base: Number(item.vat_exempt_base ?? 0),
+        vat_exemption: Number(item.vat_exemption ?? 0),
+        statutory_discount: Number(item.statutory_discount ?? 0),
         created_at: item.created_at
       })) || []
     };
 
-    return NextResponse.json({ order }, { status: 200 });
+    return NextResponse.json(
+      { order, ...(courierCancellation && { courier_cancellation: courierCancellation }) },
+      { status: 200 }
+    );
   } catch (error) {
     console.error('Unexpected error in PATCH /api/orders/[id]:', error);
     return NextResponse.json(
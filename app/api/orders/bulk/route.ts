@@ -1,24 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer, isAdminRequest } from '../../../../src/lib/supabase-server';
-import type { OrderStatus } from '../../../../src/types';
+import { supabaseServer } from '../../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { getBranchScope, hasPermission } from '../../../../src/lib/permissions';
+import { isOrderStatus } from '../../../../src/lib/orderStatus';
+import { transitionOrderStatus, staffActor } from '../../../../src/lib/orderTransitions';
+import { cancelCourierForCancelledOrder } from '../../../../src/lib/lalamove-orders';
+import {
+  needsDeliveryBooking,
+  enqueueDeliveryBooking,
+  runDeliveryBooking,
+  cancelDeliveryBooking
+} from '../../../../src/lib/deliveryBooking';
 
 export const runtime = 'nodejs';
 
 /**
  * PATCH /api/orders/bulk
  * Bulk update order statuses
- * Admin users bypass rate limiting
+ * Requires orders.bulk_update; branch staff can only update their own branch's orders.
+ * Each order is moved through the state machine on its own; orders that cannot
+ * make the transition are skipped and reported back in `skipped`. Cancelled
+ * orders also cancel their Lalamove booking; failures are listed in `courier_errors`.
+ * Confirmed delivery orders get their courier booked like a single confirm.
  */
 export async function PATCH(request: NextRequest) {
   try {
-    // Check if request is from admin (for logging/consistency)
-    const isAdmin = isAdminRequest(request);
-    if (isAdmin) {
-      console.log('Admin bulk order update - rate limiting bypassed');
+    const auth = await authorizeStaff(request, 'orders.bulk_update');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+    const { staff } = auth.session;
+
+    const branchScope = getBranchScope(staff);
+    if (branchScope === false) {
+      return NextResponse.json(
+        { error: 'Your account is not assigned to a branch' },
+        { status: 403 }
+      );
     }
 
     const body = await request.json();
-    const { ids, status } = body;
+    const { ids, status, reason } = body;
 
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
       return NextResponse.json(
@@ -35,23 +60,20 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Validate status
-    const validStatuses: OrderStatus[] = [
-      'pending',
-      'confirmed',
-      'preparing',
-      'ready',
-      'out_for_delivery',
-      'completed',
-      'cancelled'
-    ];
-
-    if (!validStatuses.includes(status)) {
+    if (!isOrderStatus(status)) {
       return NextResponse.json(
         { error: 'Invalid status' },
         { status: 400 }
       );
     }
 
+    if (status === 'cancelled' && !hasPermission(staff.role, 'orders.cancel')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to cancel orders' },
+        { status: 403 }
+      );
+    }
+
     // Validate all IDs are strings
     if (!ids.every((id: any) => typeof id === 'string')) {
       return NextResponse.json(
@@ -60,25 +82,70 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { data, error } = await (supabaseServer
+    let query = (supabaseServer
       .from('orders') as any)
-      .update({ status })
-      .in('id', ids)
-      .select();
+      .select('id, order_number, status, service_type, branch_id, lalamove_order_id, lalamove_status, lalamove_quotation_id, delivery_lat, delivery_lng')
+      .in('id', ids);
+
+    // Orders outside the caller's branch are silently skipped
+    if (branchScope) {
+      query = query.eq('branch_id', branchScope);
+    }
+
+    const { data: currentOrders, error } = await query;
 
     if (error) {
-      console.error('Error bulk updating orders:', error);
+      console.error('Error fetching orders for bulk update:', error);
       return NextResponse.json(
         { error: 'Failed to update orders', details: error.message },
         { status: 500 }
       );
     }
 
+    const actor = staffActor(staff);
+    const skipped: { id: string; order_number: string; reason: string }[] = [];
+    const courierErrors: { id: string; order_number: string; error: string }[] = [];
+    let updated = 0;
+
+    for (const order of (currentOrders || []) as any[]) {
+      if (order.status === status) {
+        continue;
+      }
+
+      const result = await transitionOrderStatus(order, status, actor, {
+        reason: typeof reason === 'string' ? reason : null,
+        select: 'id'
+      });
+
+      if ('error' in result) {
+        skipped.push({ id: order.id, order_number: order.order_number, reason: result.error });
+      } else {
+        updated++;
+
+        if (status === 'confirmed' && needsDeliveryBooking(order)) {
+          await enqueueDeliveryBooking(order.id);
+          await runDeliveryBooking(order.id);
+        }
+
+        if (status === 'cancelled') {
+          await cancelDeliveryBooking(order.id);
+          const cancellation = await cancelCourierForCancelledOrder(order);
+          if (cancellation?.error) {
+            courierErrors.push({ id: order.id, order_number: order.order_number, error: cancellation.error });
+          }
+        }
+      }
+    }
+
     return NextResponse.json(
       {
         success: true,
-        updated: data?.length || 0,
-        message: `Successfully updated ${data?.length || 0} order(s)`
+        updated,
+        skipped,
+        courier_errors: courierErrors,
+        message: skipped.length > 0
+          ? `Updated ${updated} order(s); ${skipped.length} could not change to ${status}`
+          : `Successfully updated ${updated} order(s)`
       },
       { status: 200 }
     );
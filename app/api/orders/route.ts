@@ -1,15 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseServer, getClientIP } from '../../../src/lib/supabase-server';
-import type { Order, OrderFilters, OrderStatus } from '../../../src/types';
+import { supabaseServer, getClientIP, getSiteSettings } from '../../../src/lib/supabase-server';
+import { applyStatutoryDiscount, priceOrder } from '../../../src/lib/orderPricing';
+import { parseStatutoryClaim } from '../../../src/lib/statutoryDiscount';
+import { getOrderAheadSettings, parseScheduledFor } from '../../../src/lib/orderAhead';
+import { applyVoucher, redeemVoucher } from '../../../src/lib/vouchers-server';
+import { countOrderItems, getOrderSlotStart } from '../../../src/lib/slotCapacity';
+import { claimOrderSlot } from '../../../src/lib/slotCapacity-server';
+import { checkBranchOrderTime } from '../../../src/lib/branchHours';
+import { getBranchHours, getDefaultBranchHours } from '../../../src/lib/branchHours-server';
+import { authorizeStaff } from '../../../src/lib/auth';
+import { getBranchScope } from '../../../src/lib/permissions';
+import { recordStatusEvent, CUSTOMER_ACTOR } from '../../../src/lib/orderTransitions';
+import { DELIVERY_BOOKING_COLUMNS, toDeliveryBooking } from '../../../src/lib/deliveryBooking';
+import {
+  consumeOrderRateLimit,
+  getOrderSessionId,
+  getRateLimitMessage,
+  setOrderSessionCookie
+} from '../../../src/lib/rateLimit-server';
+import type { Coordinates, Order, OrderFilters, OrderStatus } from '../../../src/types';
 
 export const runtime = 'nodejs';
 
+// Map pin from checkout, kept so an expired delivery quote can be re-quoted
+const toCoordinate = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// The delivery address's map point, when it was picked from the suggestions
+const toDeliveryPoint = (options: any): Coordinates | null => {
+  const lat = toCoordinate(options?.deliveryLat);
+  const lng = toCoordinate(options?.deliveryLng);
+  return lat !== null && lng !== null ? { lat, lng } : null;
+};
+
 /**
  * GET /api/orders
  * Fetch orders with optional filters
+ * Requires orders.view; branch staff only see their own branch
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeStaff(request, 'orders.view');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
 
     // Parse filters from query parameters
@@ -26,15 +64,29 @@ export async function GET(request: NextRequest) {
     if (dateTo) filters.date_to = dateTo;
     if (search) filters.search = search;
 
+    // Limit branch staff to their own branch
+    const branchScope = getBranchScope(auth.session.staff);
+    if (branchScope === false) {
+      return NextResponse.json(
+        { error: 'Your account is not assigned to a branch' },
+        { status: 403 }
+      );
+    }
+
     // Build query
     let query = supabaseServer
       .from('orders')
       .select(`
         *,
-        order_items (*)
+        order_items (*),
+        delivery_booking_jobs (${DELIVERY_BOOKING_COLUMNS})
       `)
       .order('created_at', { ascending: false });
 
+    if (branchScope) {
+      query = query.eq('branch_id', branchScope);
+    }
+
     // Apply filters
     if (filters.status) {
       query = query.eq('status', filters.status);
@@ -79,6 +131,7 @@ export async function GET(request: NextRequest) {
       pickup_time: order.pickup_time,
       party_size: order.party_size,
       dine_in_time: order.dine_in_time,
+      scheduled_for: order.scheduled_for,
       payment_method: order.payment_method,
       reference_number: order.reference_number,
       status: order.status as OrderStatus,
@@ -88,11 +141,25 @@ export async function GET(request: NextRequest) {
       created_at: order.created_at,
       updated_at: order.updated_at,
       completed_at: order.completed_at,
-      delivery_fee: order.delivery_fee ? Number(order.delivery_fee) : null,
+      delivery_fee: order.delivery_fee != null ? Number(order.delivery_fee) : null,
+      delivery_courier_cost: order.delivery_courier_cost != null ? Number(order.delivery_courier_cost) : null,
       lalamove_quotation_id: order.lalamove_quotation_id,
       lalamove_order_id: order.lalamove_order_id,
       lalamove_status: order.lalamove_status,
       lalamove_tracking_url: order.lalamove_tracking_url,
+      lalamove_driver_name: order.lalamove_driver_name,
+      lalamove_driver_phone: order.lalamove_driver_phone,
+      lalamove_driver_plate: order.lalamove_driver_plate,
+      lalamove_price: order.lalamove_price ? Number(order.lalamove_price) : null,
+      lalamove_status_updated_at: order.lalamove_status_updated_at,
+      voucher_code: order.voucher_code,
+      discount_amount: Number(order.discount_amount ?? 0),
+      statutory_discount_type: order.statutory_discount_type,
+      statutory_name: order.statutory_name,
+      statutory_id_number: order.statutory_id_number,
+      vat_exempt_sales: Number(order.vat_exempt_sales ?? 0),
+      vat_exemption: Number(order.vat_exemption ?? 0),
+      statutory_discount: Number(order.statutory_discount ?? 0),
       order_items: (order.order_items as any[])?.map((item: any) => ({
         id: item.id,
         order_id: item.order_id,
@@ -103,9 +170,15 @@ export async function GET(request: NextRequest) {
         total_price: Number(item.total_price),
         selected_variation: item.selected_variation,
         selected_add_ons: item.selected_add_ons,
+        bundle_selections: item.bundle_selections,
+        statutory_eligible: Boolean(item.statutory_eligible),
+        vat_exempt_base: Number(item.vat_exempt_base ?? 0),
+        vat_exemption: Number(item.vat_exemption ?? 0),
+        statutory_discount: Number(item.statutory_discount ?? 0),
         created_at: item.created_at
       })) || [],
-      branch_id: order.branch_id
+      branch_id: order.branch_id,
+      delivery_booking: toDeliveryBooking(order.delivery_booking_jobs)
     }));
 
     return NextResponse.json({ orders }, { status: 200 });
@@ -121,6 +194,14 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/orders
  * Create a new order
+ * Prices are recomputed server-side; the client total is only used to detect drift
+ * An optional options.voucherCode is validated and redeemed with the order
+ * An optional options.statutoryDiscount claims the senior citizen / PWD discount
+ * An optional options.scheduledFor (ISO timestamp) orders ahead for that slot
+ * Orders without options.branchId are for the main branch, if there are any branches
+ * Orders for a branch take a place in their time slot; a full or blocked slot is a 409
+ * The branch must be open and not paused now, or at the scheduled time (409 otherwise)
+ * Delivery addresses, where the Lalamove quote drops off, must be inside the branch's delivery zone (400 otherwise)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -152,7 +233,134 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Rate limiting disabled - allow all orders
+    const siteSettings = await getSiteSettings();
+
+    // Orders for later must fall in the order-ahead window
+    const now = new Date();
+    const orderAhead = getOrderAheadSettings(siteSettings);
+    const schedule = parseScheduledFor(options?.scheduledFor, now, orderAhead);
+    if ('error' in schedule) {
+      return NextResponse.json(
+        { error: schedule.error },
+        { status: 400 }
+      );
+    }
+    const scheduledFor = schedule.scheduledFor?.toISOString() || null;
+
+    // Orders without a branch are for the main branch, so its hours, slots,
+    // delivery zone and menu apply all the same
+    const branch = options?.branchId
+      ? await getBranchHours(options.branchId)
+      : await getDefaultBranchHours();
+    if (options?.branchId && !branch) {
+      return NextResponse.json(
+        { error: 'This branch is not taking orders' },
+        { status: 400 }
+      );
+    }
+    const branchId: string | null = branch?.id || null;
+
+    // Closed or paused branches only take orders for when they are open again
+    if (branch) {
+      const closed = checkBranchOrderTime(branch, schedule.scheduledFor, now);
+      if (closed) {
+        return NextResponse.json(
+          { error: closed, branchClosed: true },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Re-price the cart against the branch's menu instead of trusting client
+    // prices; delivery orders are also checked against the branch's zone here
+    const pricing = await priceOrder(
+      cartItems,
+      serviceType,
+      options?.lalamoveQuotationId,
+      serviceType === 'delivery' ? siteSettings : null,
+      branchId,
+      schedule.scheduledFor,
+      toDeliveryPoint(options)
+    );
+
+    if ('error' in pricing) {
+      return NextResponse.json(
+        { error: pricing.error, ...(pricing.outsideDeliveryZone && { outsideDeliveryZone: true }) },
+        { status: pricing.status }
+      );
+    }
+
+    let pricedOrder = pricing.order;
+
+    // The senior citizen / PWD discount can't be combined with other promos
+    if (options?.statutoryDiscount && options?.voucherCode) {
+      return NextResponse.json(
+        { error: 'Vouchers cannot be combined with the senior citizen / PWD discount' },
+        { status: 400 }
+      );
+    }
+
+    if (options?.statutoryDiscount) {
+      const parsed = parseStatutoryClaim(options.statutoryDiscount);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+
+      const discounted = applyStatutoryDiscount(pricedOrder, parsed.claim, cartItems);
+      if ('error' in discounted) {
+        return NextResponse.json(
+          { error: discounted.error },
+          { status: discounted.status }
+        );
+      }
+      pricedOrder = discounted.order;
+    }
+
+    // Take off a voucher discount, checked against the server-side prices
+    if (options?.voucherCode) {
+      const discounted = await applyVoucher(pricedOrder, options.voucherCode, {
+        serviceType,
+        branchId,
+        contactNumber: String(contactNumber)
+      });
+
+      if ('error' in discounted) {
+        return NextResponse.json(
+          { error: discounted.error },
+          { status: discounted.status }
+        );
+      }
+      pricedOrder = discounted.order;
+    }
+
+    const clientTotal = Number(total);
+    const priceAdjusted = !Number.isFinite(clientTotal) || Math.abs(clientTotal - pricedOrder.total) > 0.01;
+
+    if (priceAdjusted) {
+      console.warn('Client total does not match server pricing, using server total', {
+        clientTotal: total,
+        serverTotal: pricedOrder.total,
+        clientIP
+      });
+    }
+
+    // Limit orders per IP, phone number and browser session
+    const orderSessionId = getOrderSessionId(request);
+    const limited = await consumeOrderRateLimit(request, siteSettings, String(contactNumber), orderSessionId);
+
+    if (limited) {
+      console.warn('Order rate limit reached', { key: limited.key, clientIP });
+      const response = NextResponse.json(
+        { error: getRateLimitMessage(limited.retryAfter), retryAfter: limited.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } }
+      );
+      setOrderSessionCookie(response, orderSessionId);
+      return response;
+    }
+
     // Generate order number
     const { data: orderNumber, error: orderNumberError } = await supabaseServer
       .rpc('generate_order_number');
@@ -177,19 +385,32 @@ export async function POST(request: NextRequest) {
         landmark: options?.landmark || null,
         pickup_time: options?.pickupTime || null,
         party_size: options?.partySize || null,
-        dine_in_time: options?.dineInTime || null,
+        dine_in_time: (serviceType === 'dine-in' && scheduledFor) || options?.dineInTime || null,
+        scheduled_for: scheduledFor,
         payment_method: paymentMethod,
         reference_number: options?.referenceNumber || null,
         status: 'pending',
-        total: total,
-        delivery_fee: options?.deliveryFee ?? null,
+        total: pricedOrder.total,
+        delivery_fee: pricedOrder.deliveryFee,
+        delivery_courier_cost: pricedOrder.courierCost,
+        voucher_id: pricedOrder.voucher?.id || null,
+        voucher_code: pricedOrder.voucher?.code || null,
+        discount_amount: pricedOrder.discount,
+        statutory_discount_type: pricedOrder.statutory?.claim.type || null,
+        statutory_name: pricedOrder.statutory?.claim.name || null,
+        statutory_id_number: pricedOrder.statutory?.claim.idNumber || null,
+        vat_exempt_sales: pricedOrder.statutory?.vatExemptSales ?? 0,
+        vat_exemption: pricedOrder.statutory?.vatExemption ?? 0,
+        statutory_discount: pricedOrder.statutory?.discount ?? 0,
         lalamove_quotation_id: options?.lalamoveQuotationId || null,
         lalamove_order_id: null,
         lalamove_status: null,
         lalamove_tracking_url: null,
         notes: options?.notes || null,
         customer_ip: clientIP,
-        branch_id: options?.branchId || null
+        branch_id: branchId,
+        delivery_lat: serviceType === 'delivery' ? toCoordinate(options?.deliveryLat) : null,
+        delivery_lng: serviceType === 'delivery' ? toCoordinate(options?.deliveryLng) : null
       } as any)
       .select()
       .single();
@@ -202,29 +423,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create order items
     const orderData = order as any;
-    const orderItems = cartItems.map((item: any) => {
-      // Extract menu item ID from cart item ID
-      let menuItemId: string | null = null;
-      if (item.id) {
-        const uuidMatch = item.id.match(/^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
-        if (uuidMatch && uuidMatch[1]) {
-          menuItemId = uuidMatch[1];
-        }
+
+    // Take a place in the branch's time slot; capacity is enforced here under a lock
+    if (branchId) {
+      const refused = await claimOrderSlot(
+        orderData.id,
+        branchId,
+        getOrderSlotStart(schedule.scheduledFor, now, orderAhead),
+        countOrderItems(pricedOrder.lines)
+      );
+      if (refused) {
+        await supabaseServer.from('orders').delete().eq('id', orderData.id);
+        return NextResponse.json(
+          { error: refused, slotUnavailable: true },
+          { status: 409 }
+        );
       }
+    }
 
-      return {
-        order_id: orderData.id,
-        menu_item_id: menuItemId,
-        menu_item_name: item.name,
-        quantity: item.quantity,
-        unit_price: item.totalPrice,
-        total_price: item.totalPrice * item.quantity,
-        selected_variation: item.selectedVariation || null,
-        selected_add_ons: item.selectedAddOns || null
-      };
-    });
+    // Claim the voucher; usage limits are enforced here under a lock
+    if (pricedOrder.voucher) {
+      const refused = await redeemVoucher(pricedOrder.voucher.id, orderData.id, String(contactNumber), pricedOrder.discount);
+      if (refused) {
+        await supabaseServer.from('orders').delete().eq('id', orderData.id);
+        return NextResponse.json(
+          { error: refused },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Create order items from the server-side pricing
+    const orderItems = pricedOrder.lines.map(line => ({
+      order_id: orderData.id,
+      ...line
+    }));
 
     const { error: itemsError } = await supabaseServer
       .from('order_items')
@@ -240,6 +474,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Start the status history
+    await recordStatusEvent(orderData.id, null, 'pending', CUSTOMER_ACTOR);
+
+    // The saved cart has been ordered
+    await (supabaseServer.from('carts' as any) as any).delete().eq('session_id', orderSessionId);
+
     // Fetch complete order with items
     const { data: completeOrder, error: fetchError } = await supabaseServer
       .from('orders')
@@ -271,6 +511,7 @@ export async function POST(request: NextRequest) {
       pickup_time: completeOrderData.pickup_time,
       party_size: completeOrderData.party_size,
       dine_in_time: completeOrderData.dine_in_time,
+      scheduled_for: completeOrderData.scheduled_for,
       payment_method: completeOrderData.payment_method,
       reference_number: completeOrderData.reference_number,
       status: completeOrderData.status as OrderStatus,
@@ -280,11 +521,25 @@ export async function POST(request: NextRequest) {
       created_at: completeOrderData.created_at,
       updated_at: completeOrderData.updated_at,
       completed_at: completeOrderData.completed_at,
-      delivery_fee: completeOrderData.delivery_fee ? Number(completeOrderData.delivery_fee) : null,
+      delivery_fee: completeOrderData.delivery_fee != null ? Number(completeOrderData.delivery_fee) : null,
+      delivery_courier_cost: completeOrderData.delivery_courier_cost != null ? Number(completeOrderData.delivery_courier_cost) : null,
       lalamove_quotation_id: completeOrderData.lalamove_quotation_id,
       lalamove_order_id: completeOrderData.lalamove_order_id,
       lalamove_status: completeOrderData.lalamove_status,
       lalamove_tracking_url: completeOrderData.lalamove_tracking_url,
+      lalamove_driver_name: completeOrderData.lalamove_driver_name,
+      lalamove_driver_phone: completeOrderData.lalamove_driver_phone,
+      lalamove_driver_plate: completeOrderData.lalamove_driver_plate,
+      lalamove_price: completeOrderData.lalamove_price ? Number(completeOrderData.lalamove_price) : null,
+      lalamove_status_updated_at: completeOrderData.lalamove_status_updated_at,
+      voucher_code: completeOrderData.voucher_code,
+      discount_amount: Number(completeOrderData.discount_amount ?? 0),
+      statutory_discount_type: completeOrderData.statutory_discount_type,
+      statutory_name: completeOrderData.statutory_name,
+      statutory_id_number: completeOrderData.statutory_id_number,
+      vat_exempt_sales: Number(completeOrderData.vat_exempt_sales ?? 0),
+      vat_exemption: Number(completeOrderData.vat_exemption ?? 0),
+      statutory_discount: Number(completeOrderData.statutory_discount ?? 0),
       order_items: (completeOrderData.order_items as any[])?.map((item: any) => ({
         id: item.id,
         order_id: item.order_id,
@@ -295,11 +550,34 @@ export async function POST(request: NextRequest) {
         total_price: Number(item.total_price),
         selected_variation: item.selected_variation,
         selected_add_ons: item.selected_add_ons,
+        bundle_selections: item.bundle_selections,
+        statutory_eligible: Boolean(item.statutory_eligible),
+        vat_exempt_base: Number(item.vat_exempt_base ?? 0),
+        vat_exemption: Number(item.vat_exemption ?? 0),
+        statutory_discount: Number(item.statutory_discount ?? 0),
         created_at: item.created_at
       })) || []
     };
 
-    return NextResponse.json({ order: formattedOrder }, { status: 201 });
+    const response = NextResponse.json(
+      {
+        order: formattedOrder,
+        pricing: {
+          subtotal: pricedOrder.subtotal,
+          delivery_fee: pricedOrder.deliveryFee,
+          discount: pricedOrder.discount,
+          voucher_code: pricedOrder.voucher?.code ?? null,
+          vat_exemption: pricedOrder.statutory?.vatExemption ?? 0,
+          statutory_discount: pricedOrder.statutory?.discount ?? 0,
+          total: pricedOrder.total,
+          client_total: Number.isFinite(clientTotal) ? clientTotal : null,
+          adjusted: priceAdjusted
+        }
+      },
+      { status: 201 }
+    );
+    setOrderSessionCookie(response, orderSessionId);
+    return response;
   } catch (error) {
     console.error('Unexpected error in POST /api/orders:', error);
     return NextResponse.json(
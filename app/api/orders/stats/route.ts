@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '../../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { getBranchScope } from '../../../../src/lib/permissions';
 import type { OrderStats } from '../../../../src/types';
 
 export const runtime = 'nodejs';
@@ -7,27 +9,46 @@ export const runtime = 'nodejs';
 /**
  * GET /api/orders/stats
  * Get order statistics
+ * Requires orders.view_stats; branch staff get stats for their own branch
  */
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeStaff(request, 'orders.view_stats');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    // Every count below is limited to the caller's branch when they have one
+    const branchScope = getBranchScope(auth.session.staff);
+    if (branchScope === false) {
+      return NextResponse.json(
+        { error: 'Your account is not assigned to a branch' },
+        { status: 403 }
+      );
+    }
+
+    const ordersQuery = (columns: string, options?: { count: 'exact'; head: boolean }) => {
+      const query = supabaseServer.from('orders').select(columns, options);
+      return branchScope ? query.eq('branch_id', branchScope) : query;
+    };
+
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     const todayStart = today.toISOString();
     const todayEnd = new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString();
 
     // Get total orders
-    const { count: totalOrders, error: totalError } = await supabaseServer
-      .from('orders')
-      .select('*', { count: 'exact', head: true });
+    const { count: totalOrders, error: totalError } = await ordersQuery('*', { count: 'exact', head: true });
 
     if (totalError) {
       console.error('Error fetching total orders:', totalError);
     }
 
     // Get pending orders
-    const { count: pendingOrders, error: pendingError } = await supabaseServer
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
+    const { count: pendingOrders, error: pendingError } = await ordersQuery('*', { count: 'exact', head: true })
       .eq('status', 'pending');
 
     if (pendingError) {
@@ -35,9 +56,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get today's orders
-    const { count: todayOrders, error: todayError } = await supabaseServer
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
+    const { count: todayOrders, error: todayError } = await ordersQuery('*', { count: 'exact', head: true })
       .gte('created_at', todayStart)
       .lt('created_at', todayEnd);
 
@@ -46,9 +65,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get today's revenue (only from completed orders)
-    const { data: todayOrdersData, error: revenueError } = await supabaseServer
-      .from('orders')
-      .select('total')
+    const { data: todayOrdersData, error: revenueError } = await ordersQuery('total')
       .gte('created_at', todayStart)
       .lt('created_at', todayEnd)
       .eq('status', 'completed');
@@ -60,9 +77,7 @@ export async function GET(request: NextRequest) {
     const todayRevenue = (todayOrdersData as any[])?.reduce((sum: number, order: any) => sum + Number(order.total), 0) || 0;
 
     // Get completed orders
-    const { count: completedOrders, error: completedError } = await supabaseServer
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
+    const { count: completedOrders, error: completedError } = await ordersQuery('*', { count: 'exact', head: true })
       .eq('status', 'completed');
 
     if (completedError) {
@@ -70,9 +85,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get cancelled orders
-    const { count: cancelledOrders, error: cancelledError } = await supabaseServer
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
+    const { count: cancelledOrders, error: cancelledError } = await ordersQuery('*', { count: 'exact', head: true })
       .eq('status', 'cancelled');
 
     if (cancelledError) {
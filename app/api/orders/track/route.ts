@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { trackOrder } from '../../../../src/lib/orderTracking';
+import { consumeTrackingRateLimit, getRateLimitMessage, releaseTrackingRateLimit } from '../../../../src/lib/rateLimit-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/orders/track
+ * Public order lookup for the tracking page
+ * Body: { orderNumber, contactNumber }. Both must match the same order; the
+ * contact number travels in the body so it stays out of URLs and access logs.
+ * Lookups that match no order count towards a per-IP limit; verified
+ * refreshes do not.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const orderNumber = typeof body?.orderNumber === 'string' ? body.orderNumber.trim() : '';
+    const contactNumber = typeof body?.contactNumber === 'string' ? body.contactNumber.trim() : '';
+
+    if (!orderNumber || !contactNumber) {
+      return NextResponse.json(
+        { error: 'Order number and contact number are required' },
+        { status: 400 }
+      );
+    }
+
+    // Stop anyone from guessing contact numbers for a known order number.
+    // Every lookup holds a hit while it runs, so parallel guesses cannot
+    // slip past the limit; only lookups that match no order keep theirs.
+    const limited = await consumeTrackingRateLimit(request);
+    if (limited) {
+      return NextResponse.json(
+        { error: getRateLimitMessage(limited.retryAfter), retryAfter: limited.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } }
+      );
+    }
+
+    const result = await trackOrder(orderNumber, contactNumber);
+    if (!('error' in result) || result.status !== 404) {
+      await releaseTrackingRateLimit(request);
+    }
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ order: result }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/orders/track:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSiteSettings } from '../../../src/lib/supabase-server';
+import { getOrderAheadSettings } from '../../../src/lib/orderAhead';
+import { getSlotWindow, hasRoom, listUnavailableSlots } from '../../../src/lib/slotCapacity';
+import { fetchSlotUsage, getSlotCapacity } from '../../../src/lib/slotCapacity-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/slots?branchId=...&items=3
+ * Time slots a branch cannot take an order of that many items for, from the
+ * earliest slot to the end of the order-ahead window
+ * `tooManyItems` is true when the order is bigger than any slot allows.
+ * Only slot starts are returned, never how many orders a slot holds.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const branchId = searchParams.get('branchId');
+    const items = Number(searchParams.get('items') || 1);
+
+    if (!branchId) {
+      return NextResponse.json(
+        { error: 'Branch is required' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(items) || items < 1) {
+      return NextResponse.json(
+        { error: 'Item count must be a whole number above zero' },
+        { status: 400 }
+      );
+    }
+
+    const capacity = await getSlotCapacity(branchId);
+    if (!capacity) {
+      return NextResponse.json(
+        { error: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const { from, to } = getSlotWindow(new Date(), getOrderAheadSettings(await getSiteSettings()));
+    const usage = await fetchSlotUsage(branchId, from, to);
+
+    return NextResponse.json({
+      unavailable: listUnavailableSlots(usage, capacity, items),
+      tooManyItems: !hasRoom(undefined, capacity, items)
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in GET /api/slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
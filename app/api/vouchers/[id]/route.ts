@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../../src/lib/auth';
+import { parseVoucherInput, toVoucher } from '../../../../src/lib/vouchers-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * PATCH /api/vouchers/[id]
+ * Update some or all of a voucher's fields
+ * Requires vouchers.manage
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'vouchers.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseVoucherInput(body, true);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await (supabaseServer.from('vouchers' as any) as any)
+      .update(input.values)
+      .eq('id', params.id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A voucher with this code already exists' },
+          { status: 409 }
+        );
+      }
+      if (error.code === '23514') {
+        return NextResponse.json(
+          { error: 'These voucher settings are not valid together' },
+          { status: 400 }
+        );
+      }
+      console.error('Error updating voucher:', error);
+      return NextResponse.json(
+        { error: 'Failed to update voucher' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Voucher not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ voucher: toVoucher(data) }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/vouchers/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vouchers/[id]
+ * Delete a voucher that has never been redeemed
+ * Requires vouchers.manage; redeemed vouchers must be deactivated instead
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorizeStaff(request, 'vouchers.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { error } = await (supabaseServer.from('vouchers' as any) as any)
+      .delete()
+      .eq('id', params.id);
+
+    if (error) {
+      if (error.code === '23503') {
+        return NextResponse.json(
+          { error: 'This voucher has been redeemed. Deactivate it instead.' },
+          { status: 409 }
+        );
+      }
+      console.error('Error deleting voucher:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete voucher' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/vouchers/[id]:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
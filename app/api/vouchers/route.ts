@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../src/lib/supabase-server';
+import { authorizeStaff } from '../../../src/lib/auth';
+import { listVouchers, parseVoucherInput, toVoucher } from '../../../src/lib/vouchers-server';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/vouchers
+ * Every voucher with its redemption stats
+ * Requires vouchers.manage
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeStaff(request, 'vouchers.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const vouchers = await listVouchers();
+    return NextResponse.json({ vouchers }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in GET /api/vouchers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vouchers
+ * Create a voucher
+ * Requires vouchers.manage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeStaff(request, 'vouchers.manage');
+    if ('error' in auth) {
+      return NextResponse.json(
+        { error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const input = parseVoucherInput(body);
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await (supabaseServer.from('vouchers' as any) as any)
+      .insert(input.values)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A voucher with this code already exists' },
+          { status: 409 }
+        );
+      }
+      if (error.code === '23514') {
+        return NextResponse.json(
+          { error: 'These voucher settings are not valid together' },
+          { status: 400 }
+        );
+      }
+      console.error('Error creating voucher:', error);
+      return NextResponse.json(
+        { error: 'Failed to create voucher' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { voucher: { ...toVoucher(data), redemption_count: 0, discount_total: 0 } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Unexpected error in POST /api/vouchers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceCartItems } from '../../../../src/lib/orderPricing';
+import { checkVoucher } from '../../../../src/lib/vouchers-server';
+import { consumeVoucherRateLimit, getRateLimitMessage } from '../../../../src/lib/rateLimit-server';
+import type { AppliedVoucher } from '../../../../src/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/vouchers/validate
+ * Preview a voucher at checkout
+ * Body: { code, cartItems, serviceType, branchId?, contactNumber?, deliveryFee? }.
+ * The delivery fee is only used to preview free delivery; POST /api/orders
+ * applies the voucher again against the verified fee.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { code, cartItems, serviceType, branchId, contactNumber, deliveryFee } = body || {};
+
+    if (!code || !Array.isArray(cartItems) || cartItems.length === 0 || !serviceType) {
+      return NextResponse.json(
+        { error: 'Voucher code, cart items and service type are required' },
+        { status: 400 }
+      );
+    }
+
+    // Stop anyone from guessing codes
+    const limited = await consumeVoucherRateLimit(request);
+    if (limited) {
+      return NextResponse.json(
+        { error: getRateLimitMessage(limited.retryAfter), retryAfter: limited.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } }
+      );
+    }
+
+    const priced = await priceCartItems(cartItems, typeof branchId === 'string' ? branchId : null);
+    if ('error' in priced) {
+      return NextResponse.json(
+        { error: priced.error },
+        { status: priced.status }
+      );
+    }
+
+    const fee = Number(deliveryFee);
+    const checked = await checkVoucher(
+      code,
+      { ...priced, deliveryFee: Number.isFinite(fee) && fee > 0 ? fee : null },
+      {
+        serviceType,
+        branchId: typeof branchId === 'string' ? branchId : null,
+        contactNumber: typeof contactNumber === 'string' ? contactNumber : null
+      }
+    );
+
+    if ('error' in checked) {
+      return NextResponse.json(
+        { error: checked.error },
+        { status: checked.status }
+      );
+    }
+
+    const voucher: AppliedVoucher = {
+      code: checked.voucher.code,
+      description: checked.voucher.description,
+      discount_type: checked.voucher.discount_type,
+      discount: checked.discount
+    };
+
+    return NextResponse.json({ voucher }, { status: 200 });
+  } catch (error) {
+    console.error('Unexpected error in POST /api/vouchers/validate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,12 +6,18 @@ import Menu from '@/components/Menu';
 import Cart from '@/components/Cart';
 import Checkout from '@/components/Checkout';
 import FloatingCartButton from '@/components/FloatingCartButton';
+import BranchSelector from '@/components/BranchSelector';
 import { useCart } from '@/hooks/useCart';
 import { useMenu } from '@/hooks/useMenu';
+import { useSelectedBranch } from '@/hooks/useSelectedBranch';
 
 const HomePage = () => {
-  const cart = useCart();
-  const { menuItems } = useMenu();
+  const { selectedBranch, selectBranch } = useSelectedBranch();
+  const [showBranchSelector, setShowBranchSelector] = React.useState(false);
+  // The menu as the selected branch sells it (the main menu until one is chosen)
+  const { menuItems, loading: menuLoading } = useMenu(selectedBranch?.id);
+  // Saved carts are re-checked against the menu once it has loaded
+  const cart = useCart(menuLoading ? undefined : menuItems);
   const [currentView, setCurrentView] = React.useState<'menu' | 'cart' | 'checkout'>('menu');
 
   const handleViewChange = (view: 'menu' | 'cart' | 'checkout') => {
@@ -31,6 +37,16 @@ const HomePage = () => {
           addToCart={cart.addToCart}
           cartItems={cart.cartItems}
           updateQuantity={cart.updateQuantity}
+          branch={selectedBranch}
+          onChangeBranch={() => setShowBranchSelector(true)}
+        />
+      )}
+      {currentView === 'menu' && (
+        <BranchSelector
+          isOpen={showBranchSelector}
+          onClose={() => setShowBranchSelector(false)}
+          onSelect={selectBranch}
+          selectedBranchId={selectedBranch?.id}
         />
       )}
       {currentView === 'cart' && (
@@ -39,6 +55,9 @@ const HomePage = () => {
           updateQuantity={cart.updateQuantity}
           removeFromCart={cart.removeFromCart}
           clearCart={cart.clearCart}
+          cartIssues={cart.cartIssues}
+          hasBlockingIssues={cart.hasBlockingIssues}
+          onDismissIssues={cart.dismissCartIssues}
           getTotalPrice={cart.getTotalPrice}
           onContinueShopping={() => handleViewChange('menu')}
           onCheckout={() => handleViewChange('checkout')}
@@ -49,6 +68,7 @@ const HomePage = () => {
           cartItems={cart.cartItems}
           totalPrice={cart.getTotalPrice()}
           onBack={() => handleViewChange('cart')}
+          onOrderPlaced={cart.clearCart}
         />
       )}
       {currentView === 'menu' && (
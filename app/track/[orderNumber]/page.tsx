@@ -0,0 +1,13 @@
+'use client';
+
+import OrderTracker from '@/components/OrderTracker';
+
+const TrackOrderPage = ({ params }: { params: { orderNumber: string } }) => {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-starrs-mint-light to-starrs-cream-light font-inter">
+      <OrderTracker orderNumber={decodeURIComponent(params.orderNumber).toUpperCase()} />
+    </div>
+  );
+};
+
+export default TrackOrderPage;
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Create or reset a staff account for the admin dashboard
+ * Hashes the password with scrypt (same format as src/lib/auth.ts) and
+ * upserts it into `staff_users`. Resetting a password revokes that user's sessions.
+ *
+ * Usage: node scripts/create-staff-user.js <username> <password> [display name] [--role=<role>] [--branch=<branch id>]
+ * Roles: owner, branch_manager, cashier (default), kitchen
+ * Requires NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import { randomBytes, scryptSync } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+const ROLES = ['owner', 'branch_manager', 'cashier', 'kitchen'];
+
+const flags = Object.fromEntries(
+  process.argv
+    .slice(2)
+    .filter((arg) => arg.startsWith('--'))
+    .map((arg) => {
+      const [key, ...value] = arg.slice(2).split('=');
+      return [key, value.join('=')];
+    })
+);
+const [rawUsername, password, ...displayNameParts] = process.argv
+  .slice(2)
+  .filter((arg) => !arg.startsWith('--'));
+
+const role = flags.role || 'cashier';
+const branchId = flags.branch || null;
+
+if (!rawUsername || !password) {
+  console.error('Usage: node scripts/create-staff-user.js <username> <password> [display name] [--role=<role>] [--branch=<branch id>]');
+  process.exit(1);
+}
+
+if (!ROLES.includes(role)) {
+  console.error(`Role must be one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+
+if (role === 'branch_manager' && !branchId) {
+  console.error('Branch managers need --branch=<branch id>');
+  process.exit(1);
+}
+
+if (password.length < 10) {
+  console.error('Password must be at least 10 characters');
+  process.exit(1);
+}
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const hashPassword = (plain) => {
+  const salt = randomBytes(16);
+  const key = scryptSync(plain, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const main = async () => {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  });
+
+  const username = rawUsername.trim().toLowerCase();
+  const displayName = displayNameParts.join(' ').trim() || username;
+
+  const { data, error } = await supabase
+    .from('staff_users')
+    .upsert(
+      {
+        username,
+        display_name: displayName,
+        password_hash: hashPassword(password),
+        role,
+        branch_id: branchId,
+        is_active: true
+      },
+      { onConflict: 'username' }
+    )
+    .select('id, username')
+    .single();
+
+  if (error) {
+    console.error('Failed to save staff user:', error.message);
+    process.exit(1);
+  }
+
+  const { error: revokeError } = await supabase
+    .from('staff_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('staff_id', data.id)
+    .is('revoked_at', null);
+
+  if (revokeError) {
+    console.warn('Saved user but could not revoke existing sessions:', revokeError.message);
+  }
+
+  console.log(`Staff user "${data.username}" saved as ${role} (${data.id})`);
+};
+
+main();
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Send a fake Lalamove webhook to a local server
+ * Builds the same payload and signature Lalamove would (see src/lib/lalamove-webhook.ts)
+ * so delivery status syncing can be tested without a real courier.
+ *
+ * Usage:
+ *   node scripts/send-lalamove-webhook.js ORDER_STATUS_CHANGED <lalamove order id> --status=PICKED_UP
+ *   node scripts/send-lalamove-webhook.js DRIVER_ASSIGNED <lalamove order id> [--name=Juan] [--phone=+639171234567] [--plate=ABC1234]
+ *   node scripts/send-lalamove-webhook.js ORDER_AMOUNT_CHANGED <lalamove order id> --amount=185
+ *
+ * Other flags: --url=<base url> (default API_BASE_URL or http://localhost:3000), --bad-signature
+ * Requires LALAMOVE_API_KEY and LALAMOVE_API_SECRET matching the server's.
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+
+const WEBHOOK_PATH = process.env.LALAMOVE_WEBHOOK_PATH || '/api/lalamove/webhook';
+
+const flags = Object.fromEntries(
+  process.argv
+    .slice(2)
+    .filter((arg) => arg.startsWith('--'))
+    .map((arg) => {
+      const [key, ...value] = arg.slice(2).split('=');
+      return [key, value.join('=') || true];
+    })
+);
+const [eventType, lalamoveOrderId] = process.argv
+  .slice(2)
+  .filter((arg) => !arg.startsWith('--'));
+
+const apiKey = process.env.LALAMOVE_API_KEY;
+const secret = process.env.LALAMOVE_API_SECRET;
+const baseUrl = flags.url || process.env.API_BASE_URL || 'http://localhost:3000';
+
+if (!eventType || !lalamoveOrderId) {
+  console.error('Usage: node scripts/send-lalamove-webhook.js <event type> <lalamove order id> [--status=] [--amount=] [--name=] [--phone=] [--plate=]');
+  process.exit(1);
+}
+
+if (!apiKey || !secret) {
+  console.error('LALAMOVE_API_KEY and LALAMOVE_API_SECRET are required');
+  process.exit(1);
+}
+
+const buildData = () => {
+  const updatedAt = new Date().toISOString();
+
+  switch (eventType) {
+    case 'ORDER_STATUS_CHANGED':
+      return {
+        order: {
+          orderId: lalamoveOrderId,
+          status: flags.status || 'PICKED_UP',
+          shareLink: `https://share.sandbox.lalamove.com/?${lalamoveOrderId}`
+        },
+        updatedAt
+      };
+    case 'DRIVER_ASSIGNED':
+      return {
+        order: { orderId: lalamoveOrderId },
+        driver: {
+          driverId: '80557',
+          name: flags.name || 'Test Driver',
+          phone: flags.phone || '+639171234567',
+          plateNumber: flags.plate || 'TEST123'
+        },
+        updatedAt
+      };
+    case 'ORDER_AMOUNT_CHANGED':
+      return {
+        order: {
+          orderId: lalamoveOrderId,
+          priceBreakdown: { total: String(flags.amount || '150'), currency: 'PHP' }
+        },
+        updatedAt
+      };
+    default:
+      return { order: { orderId: lalamoveOrderId }, updatedAt };
+  }
+};
+
+const send = async () => {
+  const data = buildData();
+  const timestamp = Math.floor(Date.now() / 1000);
+  const message = `${timestamp}\r\nPOST\r\n${WEBHOOK_PATH}\r\n\r\n${JSON.stringify(data)}`;
+  const signature = flags['bad-signature']
+    ? '0'.repeat(64)
+    : createHmac('sha256', secret).update(message).digest('hex');
+
+  const event = {
+    apiKey,
+    timestamp,
+    signature,
+    eventId: randomUUID(),
+    eventType,
+    eventVersion: 'v3',
+    data
+  };
+
+  const response = await fetch(`${baseUrl}${WEBHOOK_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(event)
+  });
+
+  const body = await response.text();
+  console.log(`${response.status} ${body}`);
+  if (!response.ok) {
+    process.exit(1);
+  }
+};
+
+send().catch((error) => {
+  console.error('Failed to send webhook:', error);
+  process.exit(1);
+});
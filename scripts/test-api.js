@@ -5,9 +5,12 @@
  * Tests the order management API endpoints without requiring Jest
  * 
  * Usage: node scripts/test-api.js
+ * Env: API_BASE_URL, TEST_MENU_ITEM_ID, TEST_STAFF_USERNAME, TEST_STAFF_PASSWORD
  */
 
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+// Orders are re-priced against the menu, so this must be a real, available menu item
+const TEST_MENU_ITEM_ID = process.env.TEST_MENU_ITEM_ID || 'test-item-1';
 
 const colors = {
   reset: '\x1b[0m',
@@ -18,6 +21,7 @@ const colors = {
 };
 
 let testOrderId = null;
+let staffCookie = null;
 let passedTests = 0;
 let failedTests = 0;
 
@@ -49,12 +53,40 @@ async function fetchJSON(url, options = {}) {
   return { response, data };
 }
 
+/**
+ * Sign in with TEST_STAFF_USERNAME / TEST_STAFF_PASSWORD and keep the session cookie
+ */
+async function loginStaff() {
+  const username = process.env.TEST_STAFF_USERNAME;
+  const password = process.env.TEST_STAFF_PASSWORD;
+  if (!username || !password) {
+    log('⚠️  TEST_STAFF_USERNAME / TEST_STAFF_PASSWORD not set - staff-only tests will fail', 'yellow');
+    return;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/admin/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const setCookie = response.headers.get('set-cookie');
+  if (response.ok && setCookie) {
+    staffCookie = setCookie.split(';')[0];
+  }
+}
+
+const staffHeaders = () => (staffCookie ? { Cookie: staffCookie } : {});
+
 async function runTests() {
   log('\n🧪 Running API Tests\n', 'blue');
 
+  await loginStaff();
+
   // Test 1: GET /api/orders
   await test('GET /api/orders - should fetch orders', async () => {
-    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders`);
+    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders`, {
+      headers: staffHeaders(),
+    });
     if (response.status !== 200) {
       throw new Error(`Expected 200, got ${response.status}`);
     }
@@ -65,7 +97,9 @@ async function runTests() {
 
   // Test 2: GET /api/orders with filters
   await test('GET /api/orders?status=pending - should filter by status', async () => {
-    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders?status=pending`);
+    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders?status=pending`, {
+      headers: staffHeaders(),
+    });
     if (response.status !== 200) {
       throw new Error(`Expected 200, got ${response.status}`);
     }
@@ -79,7 +113,7 @@ async function runTests() {
     const orderData = {
       cartItems: [
         {
-          id: 'test-item-1',
+          id: TEST_MENU_ITEM_ID,
           name: 'Test Item',
           quantity: 1,
           totalPrice: 100,
@@ -116,7 +150,9 @@ async function runTests() {
     if (!testOrderId) {
       throw new Error('No test order ID available');
     }
-    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/${testOrderId}`);
+    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/${testOrderId}`, {
+      headers: staffHeaders(),
+    });
     if (response.status !== 200) {
       throw new Error(`Expected 200, got ${response.status}`);
     }
@@ -125,13 +161,27 @@ async function runTests() {
     }
   });
 
-  // Test 5: PATCH /api/orders/[id]
+  // Test 5: PATCH /api/orders/[id] requires a staff session
+  await test('PATCH /api/orders/[id] - should reject requests without a session', async () => {
+    if (!testOrderId) {
+      throw new Error('No test order ID available');
+    }
+    const { response } = await fetchJSON(`${API_BASE_URL}/api/orders/${testOrderId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'confirmed' }),
+    });
+    if (response.status !== 401) {
+      throw new Error(`Expected 401, got ${response.status}`);
+    }
+  });
+
   await test('PATCH /api/orders/[id] - should update order status', async () => {
     if (!testOrderId) {
       throw new Error('No test order ID available');
     }
     const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/${testOrderId}`, {
       method: 'PATCH',
+      headers: staffHeaders(),
       body: JSON.stringify({ status: 'confirmed' }),
     });
     if (response.status !== 200) {
@@ -149,6 +199,7 @@ async function runTests() {
     }
     const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/bulk`, {
       method: 'PATCH',
+      headers: staffHeaders(),
       body: JSON.stringify({
         ids: [testOrderId],
         status: 'preparing'
@@ -164,7 +215,9 @@ async function runTests() {
 
   // Test 7: GET /api/orders/stats
   await test('GET /api/orders/stats - should fetch statistics', async () => {
-    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/stats`);
+    const { response, data } = await fetchJSON(`${API_BASE_URL}/api/orders/stats`, {
+      headers: staffHeaders(),
+    });
     if (response.status !== 200) {
       throw new Error(`Expected 200, got ${response.status}`);
     }
@@ -186,6 +239,7 @@ async function runTests() {
     }
     const { response } = await fetchJSON(`${API_BASE_URL}/api/orders/${testOrderId}`, {
       method: 'PATCH',
+      headers: staffHeaders(),
       body: JSON.stringify({ status: 'invalid_status' }),
     });
     if (response.status !== 400) {
@@ -1,12 +1,18 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, lazy, Suspense } from 'react';
-import { Plus, Edit, Trash2, Save, X, ArrowLeft, Coffee, TrendingUp, Package, Users, Lock, FolderOpen, CreditCard, Settings, ShoppingCart, Loader2, MapPin } from 'lucide-react';
-import { MenuItem, Variation, AddOn } from '../types';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, Coffee, TrendingUp, Package, Users, Lock, FolderOpen, CreditCard, Settings, ShoppingCart, Loader2, MapPin, Tag, FileText, Boxes, AlertTriangle } from 'lucide-react';
+import { LowStockAlert, MenuItem, Variation, VariationDimension, VariationDimensionOption, VariationPriceOverride, AddOn, AddOnGroup, BundleSlot, BundleSlotOption } from '../types';
 import { addOnCategories } from '../data/menuData';
+import { describeAddOnGroup } from '../lib/addOnGroups';
+import { describeStockLevel } from '../lib/inventory';
+import { validateSchedule } from '../lib/schedule';
 import { useMenu } from '../hooks/useMenu';
 import { useCategories, Category } from '../hooks/useCategories';
 import { useOrders } from '../hooks/useOrders';
+import { useStaffSession } from '../hooks/useStaffSession';
+import { ROLE_LABELS } from '../lib/permissions';
+import type { Permission } from '../lib/permissions';
 
 // Lazy load heavy sub-components for code splitting
 const ImageUpload = lazy(() => import('./ImageUpload'));
@@ -15,6 +21,10 @@ const PaymentMethodManager = lazy(() => import('./PaymentMethodManager'));
 const SiteSettingsManager = lazy(() => import('./SiteSettingsManager'));
 const OrderManager = lazy(() => import('./OrderManager'));
 const BranchManager = lazy(() => import('./BranchManager'));
+const VoucherManager = lazy(() => import('./VoucherManager'));
+const InventoryManager = lazy(() => import('./InventoryManager'));
+const SalesReports = lazy(() => import('./SalesReports'));
+const ScheduleEditor = lazy(() => import('./ScheduleEditor'));
 
 // Loading fallback component
 const LoadingFallback = ({ message = 'Loading...' }: { message?: string }) => (
@@ -26,21 +36,34 @@ const LoadingFallback = ({ message = 'Loading...' }: { message?: string }) => (
   </div>
 );
 
+type AdminView = 'dashboard' | 'items' | 'add' | 'edit' | 'categories' | 'payments' | 'settings' | 'orders' | 'branches' | 'vouchers' | 'inventory' | 'reports';
+
+// Permission needed to open each admin view (the dashboard itself is open to all staff)
+const VIEW_PERMISSIONS: Record<Exclude<AdminView, 'dashboard'>, Permission> = {
+  items: 'menu.edit',
+  add: 'menu.edit',
+  edit: 'menu.edit',
+  categories: 'categories.manage',
+  payments: 'payments.manage',
+  settings: 'settings.manage',
+  orders: 'orders.view',
+  branches: 'branches.manage',
+  vouchers: 'vouchers.manage',
+  inventory: 'inventory.manage',
+  reports: 'orders.view_stats'
+};
+
 const AdminDashboard: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { staff, loading: sessionLoading, error: loginError, login, logout, can } = useStaffSession();
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [loginError, setLoginError] = useState('');
-
-  // Check authentication status on client-side only
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      setIsAuthenticated(localStorage.getItem('beracah_admin_auth') === 'true');
-    }
-  }, []);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const isAuthenticated = Boolean(staff);
   const { menuItems, loading, addMenuItem, updateMenuItem, deleteMenuItem } = useMenu();
   const { categories } = useCategories();
-  const { getOrderStats } = useOrders();
-  const [currentView, setCurrentView] = useState<'dashboard' | 'items' | 'add' | 'edit' | 'categories' | 'payments' | 'settings' | 'orders' | 'branches'>('dashboard');
+  const { getOrderStats } = useOrders({ enabled: false });
+  const [currentView, setCurrentView] = useState<AdminView>('dashboard');
+  const canOpen = (view: AdminView) => view === 'dashboard' || can(VIEW_PERMISSIONS[view]);
   const [orderStats, setOrderStats] = useState({
     total_orders: 0,
     pending_orders: 0,
@@ -61,7 +84,12 @@ const AdminDashboard: React.FC = () => {
     popular: false,
     available: true,
     variations: [],
-    addOns: []
+    variationDimensions: [],
+    variationOverrides: [],
+    addOns: [],
+    addOnGroups: [],
+    itemType: 'single',
+    bundleSlots: []
   });
 
   const handleAddItem = () => {
@@ -75,7 +103,12 @@ const AdminDashboard: React.FC = () => {
       popular: false,
       available: true,
       variations: [],
-      addOns: []
+      variationDimensions: [],
+      variationOverrides: [],
+      addOns: [],
+      addOnGroups: [],
+      itemType: 'single',
+      bundleSlots: []
     });
   };
 
@@ -104,6 +137,52 @@ const AdminDashboard: React.FC = () => {
       return;
     }
 
+    const dimensions = formData.variationDimensions || [];
+    if (dimensions.length > 0) {
+      if (formData.variations && formData.variations.length > 0) {
+        alert('Use either size variations or variation dimensions, not both');
+        return;
+      }
+      if (dimensions.some(dimension => !dimension.name.trim() || dimension.options.length === 0 || dimension.options.some(option => !option.name.trim()))) {
+        alert('Each variation dimension needs a name and at least one named option');
+        return;
+      }
+      const overrideKeys = (formData.variationOverrides || []).map(override => [...override.optionIds].sort().join(','));
+      if (new Set(overrideKeys).size !== overrideKeys.length) {
+        alert('Each combination can only have one price override');
+        return;
+      }
+    }
+
+    for (const group of formData.addOnGroups || []) {
+      if (!group.name.trim()) {
+        alert('Each add-on group needs a name');
+        return;
+      }
+      if (group.maxSelect != null && group.maxSelect < Math.max(group.minSelect, 1)) {
+        alert(`"${group.name}": the most picks must be at least 1 and not below the required picks`);
+        return;
+      }
+      if (group.minSelect > 0 && !formData.addOns?.some(addOn => addOn.groupId === group.id)) {
+        alert(`"${group.name}" is required but has no add-ons`);
+        return;
+      }
+    }
+
+    if (formData.itemType === 'bundle') {
+      const slots = formData.bundleSlots || [];
+      if (slots.length === 0 || slots.some(slot => !slot.name.trim() || slot.options.length === 0 || slot.options.some(option => !option.menuItemId))) {
+        alert('Each combo slot needs a name and at least one item');
+        return;
+      }
+    }
+
+    const scheduleError = validateSchedule(formData.schedule || null);
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+
     try {
       if (editingItem) {
         await updateMenuItem(editingItem.id, formData);
@@ -228,6 +307,70 @@ const AdminDashboard: React.FC = () => {
     setFormData({ ...formData, variations: updatedVariations });
   };
 
+  // Overrides hold one option per dimension by position, so changing the
+  // dimensions themselves clears them
+  const updateVariationDimensions = (variationDimensions: VariationDimension[], variationOverrides = formData.variationOverrides || []) => {
+    setFormData({ ...formData, variationDimensions, variationOverrides });
+  };
+
+  const addVariationDimension = () => {
+    updateVariationDimensions([...(formData.variationDimensions || []), { id: `dimension-${Date.now()}`, name: '', options: [] }], []);
+  };
+
+  const updateVariationDimensionName = (index: number, name: string) => {
+    updateVariationDimensions((formData.variationDimensions || []).map((dimension, i) => (i === index ? { ...dimension, name } : dimension)));
+  };
+
+  const removeVariationDimension = (index: number) => {
+    updateVariationDimensions((formData.variationDimensions || []).filter((_, i) => i !== index), []);
+  };
+
+  const addDimensionOption = (dimensionIndex: number) => {
+    updateVariationDimensions((formData.variationDimensions || []).map((dimension, i) =>
+      i === dimensionIndex
+        ? { ...dimension, options: [...dimension.options, { id: `option-${Date.now()}`, name: '', priceDelta: 0 }] }
+        : dimension
+    ));
+  };
+
+  const updateDimensionOption = (dimensionIndex: number, optionIndex: number, changes: Partial<VariationDimensionOption>) => {
+    updateVariationDimensions((formData.variationDimensions || []).map((dimension, i) =>
+      i === dimensionIndex
+        ? { ...dimension, options: dimension.options.map((option, j) => (j === optionIndex ? { ...option, ...changes } : option)) }
+        : dimension
+    ));
+  };
+
+  const removeDimensionOption = (dimensionIndex: number, optionIndex: number) => {
+    const optionId = formData.variationDimensions?.[dimensionIndex]?.options[optionIndex]?.id;
+    updateVariationDimensions(
+      (formData.variationDimensions || []).map((dimension, i) =>
+        i === dimensionIndex ? { ...dimension, options: dimension.options.filter((_, j) => j !== optionIndex) } : dimension
+      ),
+      (formData.variationOverrides || []).filter(override => !override.optionIds.includes(optionId))
+    );
+  };
+
+  const addVariationOverride = () => {
+    const newOverride: VariationPriceOverride = {
+      id: `override-${Date.now()}`,
+      optionIds: (formData.variationDimensions || []).map(dimension => dimension.options[0]?.id),
+      price: 0
+    };
+    setFormData({ ...formData, variationOverrides: [...(formData.variationOverrides || []), newOverride] });
+  };
+
+  const updateVariationOverride = (index: number, changes: Partial<VariationPriceOverride>) => {
+    setFormData({
+      ...formData,
+      variationOverrides: (formData.variationOverrides || []).map((override, i) => (i === index ? { ...override, ...changes } : override))
+    });
+  };
+
+  const removeVariationOverride = (index: number) => {
+    setFormData({ ...formData, variationOverrides: (formData.variationOverrides || []).filter((_, i) => i !== index) });
+  };
+
   const addAddOn = () => {
     const newAddOn: AddOn = {
       id: `addon-${Date.now()}`,
@@ -241,7 +384,7 @@ const AdminDashboard: React.FC = () => {
     });
   };
 
-  const updateAddOn = (index: number, field: keyof AddOn, value: string | number) => {
+  const updateAddOn = (index: number, field: keyof AddOn, value: string | number | null) => {
     const updatedAddOns = [...(formData.addOns || [])];
     updatedAddOns[index] = { ...updatedAddOns[index], [field]: value };
     setFormData({ ...formData, addOns: updatedAddOns });
@@ -252,6 +395,79 @@ const AdminDashboard: React.FC = () => {
     setFormData({ ...formData, addOns: updatedAddOns });
   };
 
+  const addAddOnGroup = () => {
+    const newGroup: AddOnGroup = {
+      id: `group-${Date.now()}`,
+      name: '',
+      minSelect: 0,
+      maxSelect: null,
+      maxPerOption: null
+    };
+    setFormData({
+      ...formData,
+      addOnGroups: [...(formData.addOnGroups || []), newGroup]
+    });
+  };
+
+  const updateAddOnGroup = (index: number, changes: Partial<AddOnGroup>) => {
+    const updatedGroups = [...(formData.addOnGroups || [])];
+    updatedGroups[index] = { ...updatedGroups[index], ...changes };
+    setFormData({ ...formData, addOnGroups: updatedGroups });
+  };
+
+  const removeAddOnGroup = (index: number) => {
+    const groupId = formData.addOnGroups?.[index]?.id;
+    setFormData({
+      ...formData,
+      addOnGroups: formData.addOnGroups?.filter((_, i) => i !== index) || [],
+      // Its add-ons stay on the item without a group
+      addOns: formData.addOns?.map(addOn => (addOn.groupId === groupId ? { ...addOn, groupId: null } : addOn)) || []
+    });
+  };
+
+  // Blank limit fields mean "no limit"
+  const toLimitValue = (value: string): number | null => (value === '' ? null : Math.max(0, Math.floor(Number(value))));
+
+  const updateBundleSlots = (bundleSlots: BundleSlot[]) => {
+    setFormData({ ...formData, bundleSlots });
+  };
+
+  const addBundleSlot = () => {
+    updateBundleSlots([...(formData.bundleSlots || []), { id: `slot-${Date.now()}`, name: '', options: [] }]);
+  };
+
+  const updateBundleSlotName = (slotIndex: number, name: string) => {
+    updateBundleSlots((formData.bundleSlots || []).map((slot, i) => (i === slotIndex ? { ...slot, name } : slot)));
+  };
+
+  const removeBundleSlot = (slotIndex: number) => {
+    updateBundleSlots((formData.bundleSlots || []).filter((_, i) => i !== slotIndex));
+  };
+
+  const addBundleOption = (slotIndex: number) => {
+    const newOption: BundleSlotOption = { id: `option-${Date.now()}`, menuItemId: '', name: '', upcharge: 0 };
+    updateBundleSlots((formData.bundleSlots || []).map((slot, i) =>
+      i === slotIndex ? { ...slot, options: [...slot.options, newOption] } : slot
+    ));
+  };
+
+  const updateBundleOption = (slotIndex: number, optionIndex: number, updates: Partial<BundleSlotOption>) => {
+    updateBundleSlots((formData.bundleSlots || []).map((slot, i) =>
+      i === slotIndex
+        ? { ...slot, options: slot.options.map((option, j) => (j === optionIndex ? { ...option, ...updates } : option)) }
+        : slot
+    ));
+  };
+
+  const removeBundleOption = (slotIndex: number, optionIndex: number) => {
+    updateBundleSlots((formData.bundleSlots || []).map((slot, i) =>
+      i === slotIndex ? { ...slot, options: slot.options.filter((_, j) => j !== optionIndex) } : slot
+    ));
+  };
+
+  // Items a combo slot can offer: anything that isn't itself a combo
+  const bundleComponentItems = menuItems.filter(item => item.itemType !== 'bundle' && item.id !== editingItem?.id);
+
   const loadOrderStats = useCallback(async () => {
     try {
       const stats = await getOrderStats();
@@ -263,10 +479,39 @@ const AdminDashboard: React.FC = () => {
 
   // Load order stats when dashboard is active
   useEffect(() => {
-    if (currentView === 'dashboard') {
+    if (isAuthenticated && currentView === 'dashboard' && can('orders.view_stats')) {
       loadOrderStats();
     }
-  }, [currentView, loadOrderStats]);
+  }, [isAuthenticated, currentView, loadOrderStats, can]);
+
+  const [stockAlerts, setStockAlerts] = useState<LowStockAlert[]>([]);
+
+  const loadStockAlerts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inventory');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch inventory (${response.status})`);
+      }
+      const data = await response.json();
+      setStockAlerts(data.alerts || []);
+    } catch (error) {
+      console.error('Error loading stock alerts:', error);
+    }
+  }, []);
+
+  // Load low-stock alerts when dashboard is active
+  useEffect(() => {
+    if (isAuthenticated && currentView === 'dashboard' && can('inventory.manage')) {
+      loadStockAlerts();
+    }
+  }, [isAuthenticated, currentView, loadStockAlerts, can]);
+
+  // Fall back to the dashboard if the role cannot use the requested view
+  useEffect(() => {
+    if (currentView !== 'dashboard' && !can(VIEW_PERMISSIONS[currentView])) {
+      setCurrentView('dashboard');
+    }
+  }, [currentView, can]);
 
   // Dashboard Stats
   const totalItems = menuItems.length;
@@ -277,24 +522,26 @@ const AdminDashboard: React.FC = () => {
     count: menuItems.filter(item => item.category === cat.id).length
   }));
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === 'Starrs@Admin!2025') {
-      setIsAuthenticated(true);
-      localStorage.setItem('beracah_admin_auth', 'true');
-      setLoginError('');
-    } else {
-      setLoginError('Invalid password');
+    setIsSigningIn(true);
+    const success = await login(username, password);
+    setIsSigningIn(false);
+    if (success) {
+      setPassword('');
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('beracah_admin_auth');
+  const handleLogout = async () => {
+    await logout();
     setPassword('');
     setCurrentView('dashboard');
   };
 
+  if (sessionLoading) {
+    return <LoadingFallback message="Checking session..." />;
+  }
+
   // Login Screen
   if (!isAuthenticated) {
     return (
@@ -305,10 +552,23 @@ const AdminDashboard: React.FC = () => {
               <Lock className="h-8 w-8 text-white" />
             </div>
             <h1 className="text-2xl font-playfair font-semibold text-black">Admin Access</h1>
-            <p className="text-gray-600 mt-2">Enter password to access the admin dashboard</p>
+            <p className="text-gray-600 mt-2">Sign in with your staff account to access the admin dashboard</p>
           </div>
 
           <form onSubmit={handleLogin}>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-black mb-2">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                placeholder="Enter username"
+                autoComplete="username"
+                required
+              />
+            </div>
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-black mb-2">Password</label>
               <input
@@ -316,7 +576,8 @@ const AdminDashboard: React.FC = () => {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
-                placeholder="Enter admin password"
+                placeholder="Enter password"
+                autoComplete="current-password"
                 required
               />
               {loginError && (
@@ -326,9 +587,10 @@ const AdminDashboard: React.FC = () => {
 
             <button
               type="submit"
-              className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors duration-200 font-medium"
+              disabled={isSigningIn}
+              className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Access Dashboard
+              {isSigningIn ? 'Signing in...' : 'Access Dashboard'}
             </button>
           </form>
         </div>
@@ -347,6 +609,10 @@ const AdminDashboard: React.FC = () => {
     );
   }
 
+  if (!canOpen(currentView)) {
+    return null;
+  }
+
   // Form View (Add/Edit)
   if (currentView === 'add' || currentView === 'edit') {
     return (
@@ -446,6 +712,9 @@ const AdminDashboard: React.FC = () => {
                   />
                   <span className="text-sm font-medium text-black">Available for Order</span>
                 </label>
+                {formData.autoSoldOut && !formData.available && (
+                  <span className="ml-3 text-xs text-gray-500">Sold out — back on sale once restocked</span>
+                )}
               </div>
             </div>
 
@@ -501,6 +770,20 @@ const AdminDashboard: React.FC = () => {
               </p>
             </div>
 
+            {/* Schedule Section */}
+            <div className="mb-8">
+              <h3 className="text-lg font-playfair font-medium text-black mb-4">Schedule</h3>
+              <Suspense fallback={<LoadingFallback message="Loading schedule..." />}>
+                <ScheduleEditor
+                  schedule={formData.schedule || null}
+                  onChange={(schedule) => setFormData({ ...formData, schedule })}
+                />
+              </Suspense>
+              <p className="text-sm text-gray-500 mt-2">
+                The item's category can have a schedule too; the item is only on sale when both allow it.
+              </p>
+            </div>
+
             <div className="mb-8">
               <label className="block text-sm font-medium text-black mb-2">Description *</label>
               <textarea
@@ -522,6 +805,97 @@ const AdminDashboard: React.FC = () => {
             </div>
 
             {/* Variations Section */}
+            {/* Combo Section */}
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.itemType === 'bundle'}
+                    onChange={(e) => setFormData({ ...formData, itemType: e.target.checked ? 'bundle' : 'single' })}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  <span className="text-lg font-playfair font-medium text-black">Combo Meal</span>
+                </label>
+                {formData.itemType === 'bundle' && (
+                  <button
+                    onClick={addBundleSlot}
+                    className="flex items-center space-x-2 px-3 py-2 bg-cream-100 text-black rounded-lg hover:bg-cream-200 transition-colors duration-200"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Add Slot</span>
+                  </button>
+                )}
+              </div>
+
+              {formData.itemType === 'bundle' && (
+                <>
+                  <p className="text-sm text-gray-500 mb-4">
+                    The combo sells at its base price. Customers pick one item per slot, in order; upcharges are added on top.
+                  </p>
+                  {formData.bundleSlots?.map((slot, slotIndex) => (
+                    <div key={slot.id} className="mb-4 p-4 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3 mb-3">
+                        <span className="text-sm font-medium text-gray-500">Step {slotIndex + 1}</span>
+                        <input
+                          type="text"
+                          value={slot.name}
+                          onChange={(e) => updateBundleSlotName(slotIndex, e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                          placeholder="Slot name (e.g., Choose your shake)"
+                        />
+                        <button
+                          onClick={() => removeBundleSlot(slotIndex)}
+                          className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+
+                      {slot.options.map((option, optionIndex) => (
+                        <div key={option.id} className="flex items-center space-x-3 mb-2 ml-6">
+                          <select
+                            value={option.menuItemId}
+                            onChange={(e) => updateBundleOption(slotIndex, optionIndex, {
+                              menuItemId: e.target.value,
+                              name: menuItems.find(item => item.id === e.target.value)?.name || ''
+                            })}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                          >
+                            <option value="">Select an item</option>
+                            {bundleComponentItems.map(item => (
+                              <option key={item.id} value={item.id}>{item.name}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="0"
+                            value={option.upcharge}
+                            onChange={(e) => updateBundleOption(slotIndex, optionIndex, { upcharge: Number(e.target.value) })}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                            placeholder="Upcharge"
+                          />
+                          <button
+                            onClick={() => removeBundleOption(slotIndex, optionIndex)}
+                            className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => addBundleOption(slotIndex)}
+                        className="ml-6 flex items-center space-x-1 text-sm text-green-700 hover:text-green-800"
+                      >
+                        <Plus className="h-3 w-3" />
+                        <span>Add item</span>
+                      </button>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+
             <div className="mb-8">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-playfair font-medium text-black">Size Variations</h3>
@@ -560,6 +934,193 @@ const AdminDashboard: React.FC = () => {
               ))}
             </div>
 
+            {/* Variation Dimensions Section */}
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-playfair font-medium text-black">Variation Dimensions</h3>
+                  <p className="text-sm text-gray-500">Independent choices such as Size, Temperature and Sugar level. Each option adds its price to the item; use instead of Size Variations.</p>
+                </div>
+                <button
+                  onClick={addVariationDimension}
+                  className="flex items-center space-x-2 px-3 py-2 bg-cream-100 text-black rounded-lg hover:bg-cream-200 transition-colors duration-200"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Dimension</span>
+                </button>
+              </div>
+
+              {formData.variationDimensions?.map((dimension, dimensionIndex) => (
+                <div key={dimension.id} className="mb-3 p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-3 mb-3">
+                    <input
+                      type="text"
+                      value={dimension.name}
+                      onChange={(e) => updateVariationDimensionName(dimensionIndex, e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="Dimension name (e.g., Temperature)"
+                    />
+                    <button
+                      onClick={() => addDimensionOption(dimensionIndex)}
+                      className="flex items-center space-x-1 px-3 py-2 text-sm bg-white border border-gray-300 text-black rounded hover:bg-gray-100 transition-colors duration-200"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Option</span>
+                    </button>
+                    <button
+                      onClick={() => removeVariationDimension(dimensionIndex)}
+                      className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  {dimension.options.map((option, optionIndex) => (
+                    <div key={option.id} className="flex items-center space-x-3 mb-2 pl-4">
+                      <input
+                        type="text"
+                        value={option.name}
+                        onChange={(e) => updateDimensionOption(dimensionIndex, optionIndex, { name: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        placeholder="Option name (e.g., Iced)"
+                      />
+                      <input
+                        type="number"
+                        value={option.priceDelta}
+                        onChange={(e) => updateDimensionOption(dimensionIndex, optionIndex, { priceDelta: Number(e.target.value) })}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        placeholder="+ Price"
+                      />
+                      <button
+                        onClick={() => removeDimensionOption(dimensionIndex, optionIndex)}
+                        className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              {(formData.variationDimensions?.length || 0) > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-600">Price overrides: a fixed price for one exact combination instead of adding up its options.</p>
+                    <button
+                      onClick={addVariationOverride}
+                      className="flex items-center space-x-1 px-3 py-2 text-sm bg-cream-100 text-black rounded-lg hover:bg-cream-200 transition-colors duration-200"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Add Override</span>
+                    </button>
+                  </div>
+                  {formData.variationOverrides?.map((override, overrideIndex) => (
+                    <div key={override.id} className="flex items-center space-x-3 mb-2 p-3 bg-gray-50 rounded-lg">
+                      {formData.variationDimensions?.map((dimension, dimensionIndex) => (
+                        <select
+                          key={dimension.id}
+                          value={override.optionIds[dimensionIndex] || ''}
+                          onChange={(e) => {
+                            const optionIds = [...override.optionIds];
+                            optionIds[dimensionIndex] = e.target.value;
+                            updateVariationOverride(overrideIndex, { optionIds });
+                          }}
+                          className="px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        >
+                          {dimension.options.map(option => (
+                            <option key={option.id} value={option.id}>{option.name || 'Unnamed option'}</option>
+                          ))}
+                        </select>
+                      ))}
+                      <input
+                        type="number"
+                        min="0"
+                        value={override.price}
+                        onChange={(e) => updateVariationOverride(overrideIndex, { price: Number(e.target.value) })}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        placeholder="Price"
+                      />
+                      <button
+                        onClick={() => removeVariationOverride(overrideIndex)}
+                        className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Add-on Groups Section */}
+            <div className="mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-playfair font-medium text-black">Add-on Groups</h3>
+                  <p className="text-sm text-gray-500">Rules for picking add-ons, e.g. "Choose milk" (required, exactly 1) or "Toppings" (up to 3). Leave a limit blank for no limit.</p>
+                </div>
+                <button
+                  onClick={addAddOnGroup}
+                  className="flex items-center space-x-2 px-3 py-2 bg-cream-100 text-black rounded-lg hover:bg-cream-200 transition-colors duration-200"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Group</span>
+                </button>
+              </div>
+
+              {formData.addOnGroups?.map((group, index) => (
+                <div key={group.id} className="mb-3 p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateAddOnGroup(index, { name: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="Group name (e.g., Choose milk)"
+                    />
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <span>Min</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={group.minSelect}
+                        onChange={(e) => updateAddOnGroup(index, { minSelect: toLimitValue(e.target.value) ?? 0 })}
+                        className="w-16 px-2 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </label>
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <span>Max</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={group.maxSelect ?? ''}
+                        onChange={(e) => updateAddOnGroup(index, { maxSelect: toLimitValue(e.target.value) })}
+                        className="w-16 px-2 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </label>
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <span>Max each</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={group.maxPerOption ?? ''}
+                        onChange={(e) => updateAddOnGroup(index, { maxPerOption: toLimitValue(e.target.value) || null })}
+                        className="w-16 px-2 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </label>
+                    <button
+                      onClick={() => removeAddOnGroup(index)}
+                      className="p-2 text-red-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {describeAddOnGroup(group)} · {formData.addOns?.filter(addOn => addOn.groupId === group.id).length || 0} add-ons
+                  </p>
+                </div>
+              ))}
+            </div>
+
             {/* Add-ons Section */}
             <div className="mb-8">
               <div className="flex items-center justify-between mb-4">
@@ -591,6 +1152,18 @@ const AdminDashboard: React.FC = () => {
                       <option key={cat.id} value={cat.id}>{cat.name}</option>
                     ))}
                   </select>
+                  {(formData.addOnGroups?.length || 0) > 0 && (
+                    <select
+                      value={addOn.groupId || ''}
+                      onChange={(e) => updateAddOn(index, 'groupId', e.target.value || null)}
+                      className="px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    >
+                      <option value="">No group</option>
+                      {formData.addOnGroups?.map(group => (
+                        <option key={group.id} value={group.id}>{group.name || 'Unnamed group'}</option>
+                      ))}
+                    </select>
+                  )}
                   <input
                     type="number"
                     value={addOn.price}
@@ -688,14 +1261,16 @@ const AdminDashboard: React.FC = () => {
                   </div>
 
                   {/* Remove Items */}
-                  <button
-                    onClick={handleBulkRemove}
-                    disabled={isProcessing}
-                    className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                    <span>{isProcessing ? 'Removing...' : 'Remove Selected'}</span>
-                  </button>
+                  {can('menu.delete') && (
+                    <button
+                      onClick={handleBulkRemove}
+                      disabled={isProcessing}
+                      className="flex items-center space-x-2 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span>{isProcessing ? 'Removing...' : 'Remove Selected'}</span>
+                    </button>
+                  )}
 
                   {/* Clear Selection */}
                   <button
@@ -814,7 +1389,7 @@ const AdminDashboard: React.FC = () => {
                             ? 'bg-green-100 text-green-800'
                             : 'bg-red-100 text-red-800'
                             }`}>
-                            {item.available ? 'Available' : 'Unavailable'}
+                            {item.available ? 'Available' : item.autoSoldOut ? 'Sold out' : 'Unavailable'}
                           </span>
                         </div>
                       </td>
@@ -827,13 +1402,15 @@ const AdminDashboard: React.FC = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => handleDeleteItem(item.id)}
-                            disabled={isProcessing}
-                            className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {can('menu.delete') && (
+                            <button
+                              onClick={() => handleDeleteItem(item.id)}
+                              disabled={isProcessing}
+                              className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -864,13 +1441,15 @@ const AdminDashboard: React.FC = () => {
                       >
                         <Edit className="h-4 w-4" />
                       </button>
-                      <button
-                        onClick={() => handleDeleteItem(item.id)}
-                        disabled={isProcessing}
-                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {can('menu.delete') && (
+                        <button
+                          onClick={() => handleDeleteItem(item.id)}
+                          disabled={isProcessing}
+                          className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
 
@@ -922,7 +1501,7 @@ const AdminDashboard: React.FC = () => {
                         ? 'bg-green-100 text-green-800'
                         : 'bg-red-100 text-red-800'
                         }`}>
-                        {item.available ? 'Available' : 'Unavailable'}
+                        {item.available ? 'Available' : item.autoSoldOut ? 'Sold out' : 'Unavailable'}
                       </span>
                     </div>
                   </div>
@@ -974,6 +1553,45 @@ const AdminDashboard: React.FC = () => {
     );
   }
 
+  // Vouchers View
+  if (currentView === 'vouchers') {
+    return (
+      <Suspense fallback={
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <LoadingFallback message="Loading Vouchers..." />
+        </div>
+      }>
+        <VoucherManager onBack={() => setCurrentView('dashboard')} />
+      </Suspense>
+    );
+  }
+
+  // Inventory View
+  if (currentView === 'inventory') {
+    return (
+      <Suspense fallback={
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <LoadingFallback message="Loading Inventory..." />
+        </div>
+      }>
+        <InventoryManager onBack={() => setCurrentView('dashboard')} />
+      </Suspense>
+    );
+  }
+
+  // Sales Reports View
+  if (currentView === 'reports') {
+    return (
+      <Suspense fallback={
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <LoadingFallback message="Loading Reports..." />
+        </div>
+      }>
+        <SalesReports onBack={() => setCurrentView('dashboard')} />
+      </Suspense>
+    );
+  }
+
   // Site Settings View
   if (currentView === 'settings') {
     return (
@@ -1041,6 +1659,10 @@ const AdminDashboard: React.FC = () => {
               <h1 className="text-2xl font-noto font-semibold text-black">Starr's Famous Shakes Admin</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-500">
+                Signed in as {staff?.display_name || staff?.username}
+                {staff && ` (${ROLE_LABELS[staff.role]})`}
+              </span>
               <a
                 href="/"
                 className="text-gray-600 hover:text-black transition-colors duration-200"
@@ -1085,90 +1707,168 @@ const AdminDashboard: React.FC = () => {
             </div>
           </div>
 
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-yellow-500 rounded-lg">
-                <ShoppingCart className="h-6 w-6 text-white" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Pending Orders</p>
-                <p className="text-2xl font-semibold text-gray-900">{orderStats.pending_orders}</p>
+          {can('orders.view_stats') && (
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center">
+                <div className="p-2 bg-yellow-500 rounded-lg">
+                  <ShoppingCart className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Pending Orders</p>
+                  <p className="text-2xl font-semibold text-gray-900">{orderStats.pending_orders}</p>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
-          <div className="bg-white rounded-xl shadow-sm p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-emerald-500 rounded-lg">
-                <TrendingUp className="h-6 w-6 text-white" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Today's Revenue</p>
-                <p className="text-2xl font-semibold text-gray-900">₱{orderStats.today_revenue.toLocaleString()}</p>
+          {can('orders.view_stats') && (
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center">
+                <div className="p-2 bg-emerald-500 rounded-lg">
+                  <TrendingUp className="h-6 w-6 text-white" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-600">Today's Revenue</p>
+                  <p className="text-2xl font-semibold text-gray-900">₱{orderStats.today_revenue.toLocaleString()}</p>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
 
+        {/* Low Stock Alerts */}
+        {can('inventory.manage') && stockAlerts.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6 mb-8">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="flex items-center space-x-2 text-lg font-playfair font-medium text-black">
+                <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                <span>Low Stock</span>
+              </h3>
+              <button
+                onClick={() => setCurrentView('inventory')}
+                className="text-sm font-medium text-green-700 hover:text-green-800"
+              >
+                Manage Inventory
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+              {stockAlerts.map(alert => (
+                <div key={`${alert.kind}-${alert.id}`} className="flex justify-between bg-white rounded-lg px-3 py-2">
+                  <span className="text-gray-800">{alert.name}</span>
+                  <span className={alert.quantity <= 0 ? 'text-red-600 font-medium' : 'text-yellow-700'}>
+                    {describeStockLevel(alert)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h3 className="text-lg font-playfair font-medium text-black mb-4">Quick Actions</h3>
             <div className="space-y-3">
-              <button
-                onClick={handleAddItem}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Plus className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Add New Menu Item</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('items')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Package className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Manage Menu Items</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('orders')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <ShoppingCart className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Manage Orders</span>
-                {orderStats.pending_orders > 0 && (
-                  <span className="ml-auto bg-yellow-500 text-white text-xs font-medium px-2 py-1 rounded-full">
-                    {orderStats.pending_orders}
-                  </span>
-                )}
-              </button>
-              <button
-                onClick={() => setCurrentView('categories')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <FolderOpen className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Manage Categories</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('payments')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <CreditCard className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Payment Methods</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('branches')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <MapPin className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Manage Branches</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('settings')}
-                className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Settings className="h-5 w-5 text-gray-400" />
-                <span className="font-medium text-gray-900">Site Settings</span>
-              </button>
+              {can('menu.edit') && (
+                <button
+                  onClick={handleAddItem}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Plus className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Add New Menu Item</span>
+                </button>
+              )}
+              {can('menu.edit') && (
+                <button
+                  onClick={() => setCurrentView('items')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Package className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Manage Menu Items</span>
+                </button>
+              )}
+              {can('orders.view') && (
+                <button
+                  onClick={() => setCurrentView('orders')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <ShoppingCart className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Manage Orders</span>
+                  {orderStats.pending_orders > 0 && (
+                    <span className="ml-auto bg-yellow-500 text-white text-xs font-medium px-2 py-1 rounded-full">
+                      {orderStats.pending_orders}
+                    </span>
+                  )}
+                </button>
+              )}
+              {can('categories.manage') && (
+                <button
+                  onClick={() => setCurrentView('categories')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <FolderOpen className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Manage Categories</span>
+                </button>
+              )}
+              {can('payments.manage') && (
+                <button
+                  onClick={() => setCurrentView('payments')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <CreditCard className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Payment Methods</span>
+                </button>
+              )}
+              {can('vouchers.manage') && (
+                <button
+                  onClick={() => setCurrentView('vouchers')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Tag className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Vouchers</span>
+                </button>
+              )}
+              {can('inventory.manage') && (
+                <button
+                  onClick={() => setCurrentView('inventory')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Boxes className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Inventory</span>
+                  {stockAlerts.length > 0 && (
+                    <span className="ml-auto bg-yellow-500 text-white text-xs font-medium px-2 py-1 rounded-full">
+                      {stockAlerts.length}
+                    </span>
+                  )}
+                </button>
+              )}
+              {can('orders.view_stats') && (
+                <button
+                  onClick={() => setCurrentView('reports')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <FileText className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Sales Reports</span>
+                </button>
+              )}
+              {can('branches.manage') && (
+                <button
+                  onClick={() => setCurrentView('branches')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <MapPin className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Manage Branches</span>
+                </button>
+              )}
+              {can('settings.manage') && (
+                <button
+                  onClick={() => setCurrentView('settings')}
+                  className="w-full flex items-center space-x-3 p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Settings className="h-5 w-5 text-gray-400" />
+                  <span className="font-medium text-gray-900">Site Settings</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BranchHoliday, BranchOpeningHours, ScheduleTimeRange } from '../types';
+import { WEEKDAY_NAMES } from '../lib/schedule';
+
+interface BranchHoursEditorProps {
+  hours: BranchOpeningHours | null;
+  holidays: BranchHoliday[];
+  onHoursChange: (hours: BranchOpeningHours | null) => void;
+  onHolidaysChange: (holidays: BranchHoliday[]) => void;
+}
+
+const DEFAULT_RANGE: ScheduleTimeRange = { start: '10:00', end: '21:00' };
+const NEW_HOURS: BranchOpeningHours = WEEKDAY_NAMES.map(() => [DEFAULT_RANGE]);
+
+/**
+ * Weekly opening hours and holiday closures for a branch
+ * Without set hours the branch is open around the clock (except holidays).
+ */
+const BranchHoursEditor: React.FC<BranchHoursEditorProps> = ({ hours, holidays, onHoursChange, onHolidaysChange }) => {
+  const updateDay = (day: number, ranges: ScheduleTimeRange[]) => {
+    if (hours) onHoursChange(hours.map((existing, i) => (i === day ? ranges : existing)));
+  };
+
+  const updateRange = (day: number, index: number, field: 'start' | 'end', value: string) => {
+    if (!hours) return;
+    updateDay(day, hours[day].map((range, i) => (i === index ? { ...range, [field]: value } : range)));
+  };
+
+  const updateHoliday = (index: number, changes: Partial<BranchHoliday>) => {
+    onHolidaysChange(holidays.map((holiday, i) => (i === index ? { ...holiday, ...changes } : holiday)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={Boolean(hours)}
+            onChange={(e) => onHoursChange(e.target.checked ? NEW_HOURS : null)}
+            className="w-4 h-4 text-pink-500 rounded focus:ring-pink-500"
+          />
+          <span className="text-sm font-medium text-gray-700">Set opening hours</span>
+        </label>
+
+        {hours && (
+          <div className="mt-3 space-y-2 border border-gray-200 rounded-lg p-4">
+            {WEEKDAY_NAMES.map((name, day) => (
+              <div key={name} className="flex flex-col sm:flex-row sm:items-start gap-2">
+                <label className="flex items-center gap-2 w-32 pt-2">
+                  <input
+                    type="checkbox"
+                    checked={hours[day].length > 0}
+                    onChange={(e) => updateDay(day, e.target.checked ? [DEFAULT_RANGE] : [])}
+                    className="w-4 h-4 text-pink-500 rounded focus:ring-pink-500"
+                  />
+                  <span className="text-sm text-gray-700">{name}</span>
+                </label>
+                {hours[day].length === 0 ? (
+                  <p className="text-sm text-gray-400 pt-2">Closed</p>
+                ) : (
+                  <div className="space-y-2">
+                    {hours[day].map((range, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="time"
+                          value={range.start}
+                          onChange={(e) => updateRange(day, index, 'start', e.target.value)}
+                          className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                        />
+                        <span className="text-sm text-gray-500">to</span>
+                        <input
+                          type="time"
+                          value={range.end}
+                          onChange={(e) => updateRange(day, index, 'end', e.target.value)}
+                          className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                        />
+                        {index === 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => updateDay(day, [...hours[day], { start: '', end: '' }])}
+                            className="p-2 text-gray-400 hover:text-pink-500 hover:bg-pink-50 rounded-lg transition-colors"
+                            title="Add a second opening, e.g. after a midday break"
+                          >
+                            <Plus className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => updateDay(day, hours[day].filter((_, i) => i !== index))}
+                            className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Times are in Philippine time. A closing time earlier than the opening time runs past midnight.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">Holiday Closures</label>
+          <button
+            type="button"
+            onClick={() => onHolidaysChange([...holidays, { date: '', label: '' }])}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-pink-600"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add closure</span>
+          </button>
+        </div>
+        {holidays.length === 0 ? (
+          <p className="text-sm text-gray-400">No closures planned</p>
+        ) : (
+          <div className="space-y-2">
+            {holidays.map((holiday, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={holiday.date}
+                  onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                  className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                />
+                <input
+                  type="text"
+                  value={holiday.label}
+                  onChange={(e) => updateHoliday(index, { label: e.target.value })}
+                  className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                  placeholder="e.g. Christmas Day"
+                />
+                <button
+                  type="button"
+                  onClick={() => onHolidaysChange(holidays.filter((_, i) => i !== index))}
+                  className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BranchHoursEditor;
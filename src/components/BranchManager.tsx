@@ -1,14 +1,22 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
-import type { Branch } from '@/types';
-import { Plus, Edit2, Trash2, MapPin, Phone, Check, X } from 'lucide-react';
+import { getBranchStatus, normalizeHolidays, toBranch, validateBranchHours } from '@/lib/branchHours';
+import { describeDeliveryZone, getBranchLocation, validateDeliveryZone } from '@/lib/deliveryZones';
+import type { Branch, BranchHoliday, BranchOpeningHours, DeliveryZone } from '@/types';
+import { Plus, Edit2, Trash2, MapPin, Phone, Check, X, UtensilsCrossed, Clock, Navigation } from 'lucide-react';
 import LocationPicker from './LocationPicker';
+import BranchMenuManager from './BranchMenuManager';
+import SlotCapacityManager from './SlotCapacityManager';
+import BranchHoursEditor from './BranchHoursEditor';
+import DeliveryZoneEditor from './DeliveryZoneEditor';
 
 export default function BranchManager() {
     const [branches, setBranches] = useState<Branch[]>([]);
     const [loading, setLoading] = useState(true);
     const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
     const [isAdding, setIsAdding] = useState(false);
+    const [menuBranch, setMenuBranch] = useState<Branch | null>(null);
+    const [slotsBranch, setSlotsBranch] = useState<Branch | null>(null);
     const [formData, setFormData] = useState({
         name: '',
         address: '',
@@ -16,7 +24,10 @@ export default function BranchManager() {
         latitude: '',
         longitude: '',
         is_main: false,
-        is_active: true
+        is_active: true,
+        opening_hours: null as BranchOpeningHours | null,
+        holidays: [] as BranchHoliday[],
+        delivery_zone: null as DeliveryZone | null
     });
 
     useEffect(() => {
@@ -31,7 +42,7 @@ export default function BranchManager() {
                 .order('created_at', { ascending: true });
 
             if (error) throw error;
-            setBranches(data || []);
+            setBranches((data || []).map(toBranch));
         } catch (error) {
             console.error('Error fetching branches:', error);
         } finally {
@@ -41,17 +52,29 @@ export default function BranchManager() {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        const hoursError = validateBranchHours(formData.opening_hours, formData.holidays);
+        if (hoursError) {
+            alert(hoursError);
+            return;
+        }
+        const zoneError = validateDeliveryZone(formData.delivery_zone, getBranchLocation(formData));
+        if (zoneError) {
+            alert(zoneError);
+            return;
+        }
+        const values = { ...formData, holidays: normalizeHolidays(formData.holidays) };
+
         try {
             if (editingBranch) {
                 const { error } = await supabase
                     .from('branches')
-                    .update(formData)
+                    .update(values)
                     .eq('id', editingBranch.id);
                 if (error) throw error;
             } else {
                 const { error } = await supabase
                     .from('branches')
-                    .insert([formData]);
+                    .insert([values]);
                 if (error) throw error;
             }
 
@@ -89,7 +112,10 @@ export default function BranchManager() {
             latitude: branch.latitude,
             longitude: branch.longitude,
             is_main: branch.is_main,
-            is_active: branch.is_active
+            is_active: branch.is_active,
+            opening_hours: branch.opening_hours ?? null,
+            holidays: branch.holidays || [],
+            delivery_zone: branch.delivery_zone ?? null
         });
         setIsAdding(true);
     };
@@ -103,13 +129,24 @@ export default function BranchManager() {
             latitude: '',
             longitude: '',
             is_main: false,
-            is_active: true
+            is_active: true,
+            opening_hours: null,
+            holidays: [],
+            delivery_zone: null
         });
         setIsAdding(false);
     };
 
     if (loading) return <div className="p-4">Loading branches...</div>;
 
+    if (menuBranch) {
+        return <BranchMenuManager branch={menuBranch} onBack={() => setMenuBranch(null)} />;
+    }
+
+    if (slotsBranch) {
+        return <SlotCapacityManager branch={slotsBranch} onBack={() => setSlotsBranch(null)} />;
+    }
+
     return (
         <div className="space-y-6">
             <div className="flex justify-between items-center">
@@ -193,6 +230,23 @@ export default function BranchManager() {
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Zone</label>
+                        <DeliveryZoneEditor
+                            key={editingBranch?.id || 'new'}
+                            zone={formData.delivery_zone}
+                            location={getBranchLocation(formData)}
+                            onChange={delivery_zone => setFormData(prev => ({ ...prev, delivery_zone }))}
+                        />
+                    </div>
+
+                    <BranchHoursEditor
+                        hours={formData.opening_hours}
+                        holidays={formData.holidays}
+                        onHoursChange={opening_hours => setFormData(prev => ({ ...prev, opening_hours }))}
+                        onHolidaysChange={holidays => setFormData(prev => ({ ...prev, holidays }))}
+                    />
+
                     <div className="flex gap-4">
                         <label className="flex items-center gap-2 cursor-pointer">
                             <input
@@ -252,9 +306,29 @@ export default function BranchManager() {
                                 <p className="text-sm text-gray-500 flex items-center gap-2">
                                     <Phone className="w-4 h-4" /> {branch.phone}
                                 </p>
+                                <p className="text-sm text-gray-500 flex items-center gap-2">
+                                    <Clock className="w-4 h-4" /> {getBranchStatus(branch).label}
+                                </p>
+                                <p className="text-sm text-gray-500 flex items-center gap-2">
+                                    <Navigation className="w-4 h-4" /> {describeDeliveryZone(branch.delivery_zone)}
+                                </p>
                             </div>
                         </div>
                         <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                                onClick={() => setMenuBranch(branch)}
+                                className="p-2 text-gray-400 hover:text-pink-500 hover:bg-pink-50 rounded-lg transition-colors"
+                                title="Branch menu"
+                            >
+                                <UtensilsCrossed className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setSlotsBranch(branch)}
+                                className="p-2 text-gray-400 hover:text-pink-500 hover:bg-pink-50 rounded-lg transition-colors"
+                                title="Time slots"
+                            >
+                                <Clock className="w-4 h-4" />
+                            </button>
                             <button
                                 onClick={() => startEdit(branch)}
                                 className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
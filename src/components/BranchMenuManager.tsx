@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useMenu } from '@/hooks/useMenu';
+import { toBranchMenuOverrides } from '@/lib/branchMenu';
+import type { Branch, BranchMenuOverride, MenuItem } from '@/types';
+import { ArrowLeft, Check, RotateCcw, Search } from 'lucide-react';
+
+interface BranchMenuManagerProps {
+    branch: Branch;
+    onBack: () => void;
+}
+
+type DiscountMode = 'inherit' | 'none' | 'custom';
+
+// Form fields are kept as strings while editing
+interface OverrideDraft {
+    available: boolean;
+    price: string;
+    discountMode: DiscountMode;
+    discountPrice: string;
+    discountStartDate: string;
+    discountEndDate: string;
+}
+
+const EMPTY_DRAFT: OverrideDraft = {
+    available: true,
+    price: '',
+    discountMode: 'inherit',
+    discountPrice: '',
+    discountStartDate: '',
+    discountEndDate: ''
+};
+
+// ISO timestamp <-> value for a datetime-local input (local time)
+const toInputDate = (value: string | null) => {
+    if (!value) return '';
+    const date = new Date(value);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromInputDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toDraft = (override: BranchMenuOverride | undefined): OverrideDraft => {
+    if (!override) return EMPTY_DRAFT;
+    return {
+        available: override.available,
+        price: override.price !== null ? String(override.price) : '',
+        discountMode: override.discountActive === null ? 'inherit' : override.discountActive ? 'custom' : 'none',
+        discountPrice: override.discountPrice !== null ? String(override.discountPrice) : '',
+        discountStartDate: toInputDate(override.discountStartDate),
+        discountEndDate: toInputDate(override.discountEndDate)
+    };
+};
+
+const isEmptyDraft = (draft: OverrideDraft) =>
+    draft.available && !draft.price && draft.discountMode === 'inherit';
+
+/**
+ * Where one branch's menu differs from the main menu: items sold out at the
+ * branch, and its own prices and discounts. Items without an override are
+ * sold as on the main menu.
+ */
+export default function BranchMenuManager({ branch, onBack }: BranchMenuManagerProps) {
+    const { menuItems, loading: menuLoading } = useMenu();
+    const [overrides, setOverrides] = useState<BranchMenuOverride[]>([]);
+    const [drafts, setDrafts] = useState<Record<string, OverrideDraft>>({});
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+
+    const fetchOverrides = useCallback(async () => {
+        try {
+            const { data, error } = await supabase
+                .from('branch_menu_overrides')
+                .select('*')
+                .eq('branch_id', branch.id);
+
+            if (error) throw error;
+            const list = toBranchMenuOverrides(data);
+            setOverrides(list);
+            setDrafts(Object.fromEntries(list.map(override => [override.menuItemId, toDraft(override)])));
+        } catch (error) {
+            console.error('Error fetching branch menu:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [branch.id]);
+
+    useEffect(() => {
+        fetchOverrides();
+    }, [fetchOverrides]);
+
+    const getDraft = (itemId: string) => drafts[itemId] || EMPTY_DRAFT;
+    const getOverride = (itemId: string) => overrides.find(override => override.menuItemId === itemId);
+
+    const updateDraft = (itemId: string, changes: Partial<OverrideDraft>) => {
+        setDrafts(prev => ({ ...prev, [itemId]: { ...(prev[itemId] || EMPTY_DRAFT), ...changes } }));
+    };
+
+    const isDirty = (itemId: string) =>
+        JSON.stringify(getDraft(itemId)) !== JSON.stringify(toDraft(getOverride(itemId)));
+
+    const handleSave = async (item: MenuItem) => {
+        const draft = getDraft(item.id);
+        const price = draft.price ? Number(draft.price) : null;
+        const discountPrice = draft.discountPrice ? Number(draft.discountPrice) : null;
+
+        if (price !== null && (!Number.isFinite(price) || price < 0)) {
+            alert('Please enter a valid branch price');
+            return;
+        }
+        if (draft.discountMode === 'custom' && (discountPrice === null || !Number.isFinite(discountPrice) || discountPrice < 0)) {
+            alert('Please enter the branch discount price');
+            return;
+        }
+
+        try {
+            setSavingId(item.id);
+            const custom = draft.discountMode === 'custom';
+            // Overrides are written by the staff API; an empty draft resets the item
+            const response = await fetch(`/api/branches/${branch.id}/menu/${item.id}`, isEmptyDraft(draft)
+                ? { method: 'DELETE' }
+                : {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        available: draft.available,
+                        price,
+                        discountActive: draft.discountMode === 'inherit' ? null : custom,
+                        discountPrice: custom ? discountPrice : null,
+                        discountStartDate: custom ? fromInputDate(draft.discountStartDate) : null,
+                        discountEndDate: custom ? fromInputDate(draft.discountEndDate) : null
+                    })
+                });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to save branch menu');
+            }
+            await fetchOverrides();
+        } catch (error) {
+            console.error('Error saving branch menu:', error);
+            alert(error instanceof Error ? error.message : 'Failed to save branch menu');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleReset = (item: MenuItem) => {
+        setDrafts(prev => ({ ...prev, [item.id]: EMPTY_DRAFT }));
+    };
+
+    const visibleItems = menuItems.filter(item => item.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+    if (loading || menuLoading) return <div className="p-4">Loading branch menu...</div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={onBack}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Back to branches"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">{branch.name} Menu</h2>
+                        <p className="text-sm text-gray-500">
+                            {overrides.length} {overrides.length === 1 ? 'item differs' : 'items differ'} from the main menu
+                        </p>
+                    </div>
+                </div>
+                <div className="relative">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className="pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                        placeholder="Search items"
+                    />
+                </div>
+            </div>
+
+            <div className="grid gap-3">
+                {visibleItems.map(item => {
+                    const draft = getDraft(item.id);
+                    const overridden = Boolean(getOverride(item.id));
+                    return (
+                        <div key={item.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+                            <div className="flex justify-between items-start">
+                                <div>
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="font-semibold text-gray-900">{item.name}</h3>
+                                        {overridden && (
+                                            <span className="px-2 py-0.5 text-xs bg-pink-100 text-pink-700 rounded-full font-medium">Branch settings</span>
+                                        )}
+                                        {!item.available && (
+                                            <span className="px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded-full font-medium">Unavailable everywhere</span>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-gray-500">
+                                        Main menu: ₱{item.basePrice}
+                                        {item.isOnDiscount && ` (on sale at ₱${item.effectivePrice})`}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    {!isEmptyDraft(draft) && (
+                                        <button
+                                            onClick={() => handleReset(item)}
+                                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                                            title="Same as main menu"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    {isDirty(item.id) && (
+                                        <button
+                                            onClick={() => handleSave(item)}
+                                            disabled={savingId === item.id}
+                                            className="flex items-center gap-1 px-3 py-1.5 bg-pink-500 text-white text-sm rounded-lg hover:bg-pink-600 disabled:bg-gray-400 transition-colors"
+                                        >
+                                            <Check className="w-4 h-4" /> Save
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!draft.available}
+                                        onChange={e => updateDraft(item.id, { available: !e.target.checked })}
+                                        className="w-4 h-4 text-pink-500 rounded focus:ring-pink-500"
+                                    />
+                                    <span className="text-sm text-gray-700">Sold out at this branch</span>
+                                </label>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1">Branch Price (₱)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={draft.price}
+                                        onChange={e => updateDraft(item.id, { price: e.target.value })}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                                        placeholder={`${item.basePrice} (main menu)`}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1">Discount</label>
+                                    <select
+                                        value={draft.discountMode}
+                                        onChange={e => updateDraft(item.id, { discountMode: e.target.value as DiscountMode })}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                                    >
+                                        <option value="inherit">Same as main menu</option>
+                                        <option value="none">No discount here</option>
+                                        <option value="custom">Branch discount</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            {draft.discountMode === 'custom' && (
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-600 mb-1">Discount Price (₱)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={draft.discountPrice}
+                                            onChange={e => updateDraft(item.id, { discountPrice: e.target.value })}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-600 mb-1">Starts</label>
+                                        <input
+                                            type="datetime-local"
+                                            value={draft.discountStartDate}
+                                            onChange={e => updateDraft(item.id, { discountStartDate: e.target.value })}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-600 mb-1">Ends</label>
+                                        <input
+                                            type="datetime-local"
+                                            value={draft.discountEndDate}
+                                            onChange={e => updateDraft(item.id, { discountEndDate: e.target.value })}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {visibleItems.length === 0 && (
+                    <div className="text-center py-12 text-gray-500 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+                        No menu items found.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState } from 'react';
+import { PauseCircle, PlayCircle } from 'lucide-react';
+import { useBranchPause } from '../hooks/useBranchPause';
+import { useNow } from '../hooks/useNow';
+import { BRANCH_PAUSE_OPTIONS, getBranchStatus } from '../lib/branchHours';
+import { Branch } from '../types';
+
+/**
+ * One-click pause for online ordering ("busy mode"), per branch
+ * While paused, customers can still schedule orders for after the pause.
+ */
+const BranchPauseControl: React.FC = () => {
+  const { branches, pauseOrdering, resumeOrdering } = useBranchPause();
+  const now = useNow(30000);
+  const [pauseMinutes, setPauseMinutes] = useState<number | null>(30);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleToggle = async (branch: Branch, paused: boolean) => {
+    try {
+      setBusyId(branch.id);
+      if (paused) {
+        await resumeOrdering(branch.id);
+      } else {
+        await pauseOrdering(branch.id, pauseMinutes);
+      }
+    } catch (error) {
+      console.error('Error updating online ordering:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update online ordering');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (branches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Online Ordering</h3>
+          <p className="text-xs text-gray-500">Pause new orders when the kitchen is swamped. Scheduled orders for later still come in.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Pause for</span>
+          <select
+            value={pauseMinutes ?? ''}
+            onChange={(e) => setPauseMinutes(e.target.value ? Number(e.target.value) : null)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {BRANCH_PAUSE_OPTIONS.map(option => (
+              <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {branches.map(branch => {
+          const status = getBranchStatus(branch, now);
+          const paused = status.state === 'paused';
+          return (
+            <div key={branch.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{branch.name}</p>
+                <p className={`text-xs ${status.state === 'open' ? 'text-green-600' : 'text-red-600'}`}>
+                  {status.label}
+                  {paused && branch.ordering_paused_by && ` (paused by ${branch.ordering_paused_by})`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleToggle(branch, paused)}
+                disabled={busyId === branch.id}
+                className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 flex-shrink-0 ${paused
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-white text-red-600 border border-red-300 hover:bg-red-50'
+                  }`}
+              >
+                {paused ? <PlayCircle className="h-4 w-4" /> : <PauseCircle className="h-4 w-4" />}
+                <span>{paused ? 'Resume orders' : 'Pause orders'}</span>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BranchPauseControl;
@@ -1,7 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/lib/supabase';
-import type { Branch } from '@/types';
-import { MapPin, X, Check } from 'lucide-react';
+import { useNow } from '@/hooks/useNow';
+import { getBranchStatus, toBranch } from '@/lib/branchHours';
+import { formatDistance, rankBranchesByDistance } from '@/lib/deliveryZones';
+import type { Branch, Coordinates } from '@/types';
+import { MapPin, X, Check, Clock, Navigation } from 'lucide-react';
 
 interface BranchSelectorProps {
     onSelect: (branch: Branch) => void;
@@ -9,11 +12,13 @@ interface BranchSelectorProps {
     isOpen: boolean;
     onClose: () => void;
     forced?: boolean; // If true, cannot close without selecting
+    coordinates?: Coordinates | null; // Delivery address; lists the nearest branches first
 }
 
-export default function BranchSelector({ onSelect, selectedBranchId, isOpen, onClose, forced = false }: BranchSelectorProps) {
+export default function BranchSelector({ onSelect, selectedBranchId, isOpen, onClose, forced = false, coordinates = null }: BranchSelectorProps) {
     const [branches, setBranches] = useState<Branch[]>([]);
     const [loading, setLoading] = useState(true);
+    const now = useNow();
 
     useEffect(() => {
         if (isOpen) {
@@ -32,7 +37,7 @@ export default function BranchSelector({ onSelect, selectedBranchId, isOpen, onC
                 .order('name', { ascending: true });
 
             if (error) throw error;
-            setBranches(data || []);
+            setBranches((data || []).map(toBranch));
         } catch (error) {
             console.error('Error fetching branches:', error);
         } finally {
@@ -40,6 +45,13 @@ export default function BranchSelector({ onSelect, selectedBranchId, isOpen, onC
         }
     };
 
+    const ranked = useMemo(
+        () => coordinates
+            ? rankBranchesByDistance(branches, coordinates)
+            : branches.map(branch => ({ branch, distanceKm: null, delivers: true })),
+        [branches, coordinates]
+    );
+
     const handleSelect = (branch: Branch) => {
         onSelect(branch);
         onClose();
@@ -69,31 +81,45 @@ export default function BranchSelector({ onSelect, selectedBranchId, isOpen, onC
                         <div className="text-center py-8 text-gray-500">No active branches found.</div>
                     ) : (
                         <div className="space-y-3">
-                            {branches.map((branch) => (
-                                <button
-                                    key={branch.id}
-                                    onClick={() => handleSelect(branch)}
-                                    className={`w-full text-left p-4 rounded-xl border-2 transition-all duration-200 group relative ${selectedBranchId === branch.id
-                                            ? 'border-pink-500 bg-pink-50'
-                                            : 'border-gray-100 hover:border-pink-200 hover:bg-gray-50'
-                                        }`}
-                                >
-                                    <div className="flex justify-between items-start">
-                                        <div>
-                                            <h3 className={`font-bold ${selectedBranchId === branch.id ? 'text-pink-700' : 'text-gray-900'}`}>
-                                                {branch.name}
-                                            </h3>
-                                            <p className="text-sm text-gray-500 mt-1">{branch.address}</p>
-                                            <p className="text-xs text-gray-400 mt-1">{branch.phone}</p>
-                                        </div>
-                                        {selectedBranchId === branch.id && (
-                                            <div className="bg-pink-500 text-white p-1 rounded-full">
-                                                <Check className="w-4 h-4" />
+                            {ranked.map(({ branch, distanceKm, delivers }) => {
+                                const status = getBranchStatus(branch, now);
+                                return (
+                                    <button
+                                        key={branch.id}
+                                        onClick={() => handleSelect(branch)}
+                                        className={`w-full text-left p-4 rounded-xl border-2 transition-all duration-200 group relative ${selectedBranchId === branch.id
+                                                ? 'border-pink-500 bg-pink-50'
+                                                : 'border-gray-100 hover:border-pink-200 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        <div className="flex justify-between items-start">
+                                            <div>
+                                                <h3 className={`font-bold ${selectedBranchId === branch.id ? 'text-pink-700' : 'text-gray-900'}`}>
+                                                    {branch.name}
+                                                </h3>
+                                                <p className="text-sm text-gray-500 mt-1">{branch.address}</p>
+                                                <p className="text-xs text-gray-400 mt-1">{branch.phone}</p>
+                                                <p className={`text-xs font-medium mt-2 flex items-center gap-1 ${status.state === 'open' ? 'text-green-600' : 'text-red-600'}`}>
+                                                    <Clock className="w-3.5 h-3.5" /> {status.label}
+                                                </p>
+                                                {(distanceKm !== null || !delivers) && (
+                                                    <p className={`text-xs font-medium mt-1 flex items-center gap-1 ${delivers ? 'text-gray-500' : 'text-red-600'}`}>
+                                                        <Navigation className="w-3.5 h-3.5" />
+                                                        {distanceKm !== null && `${formatDistance(distanceKm)} away`}
+                                                        {distanceKm !== null && !delivers && ' · '}
+                                                        {!delivers && "Doesn't deliver to your address"}
+                                                    </p>
+                                                )}
                                             </div>
-                                        )}
-                                    </div>
-                                </button>
-                            ))}
+                                            {selectedBranchId === branch.id && (
+                                                <div className="bg-pink-500 text-white p-1 rounded-full">
+                                                    <Check className="w-4 h-4" />
+                                                </div>
+                                            )}
+                                        </div>
+                                    </button>
+                                );
+                            })}
                         </div>
                     )}
                 </div>
@@ -1,14 +1,19 @@
 'use client';
 
 import React from 'react';
-import { Trash2, Plus, Minus, ArrowLeft } from 'lucide-react';
+import { Trash2, Plus, Minus, ArrowLeft, AlertTriangle } from 'lucide-react';
 import { CartItem } from '../types';
+import { CartIssue, isBlockingCartIssue } from '../lib/cart';
+import { describeVariation } from '../lib/variations';
 
 interface CartProps {
   cartItems: CartItem[];
   updateQuantity: (id: string, quantity: number) => void;
   removeFromCart: (id: string) => void;
   clearCart: () => void;
+  cartIssues?: CartIssue[];
+  hasBlockingIssues?: boolean;
+  onDismissIssues?: () => void;
   getTotalPrice: () => number;
   onContinueShopping: () => void;
   onCheckout: () => void;
@@ -19,10 +24,15 @@ const Cart: React.FC<CartProps> = ({
   updateQuantity,
   removeFromCart,
   clearCart,
+  cartIssues = [],
+  hasBlockingIssues = false,
+  onDismissIssues,
   getTotalPrice,
   onContinueShopping,
   onCheckout
 }) => {
+  const blockedIds = new Set(cartIssues.filter(isBlockingCartIssue).map(issue => issue.cartItemId));
+
   if (cartItems.length === 0) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
@@ -60,14 +70,50 @@ const Cart: React.FC<CartProps> = ({
         </button>
       </div>
 
+      {cartIssues.length > 0 && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-300 rounded-xl">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-amber-800">Your cart changed since you last visited</p>
+              <ul className="mt-1 space-y-1 text-sm text-amber-700">
+                {cartIssues.map(issue => (
+                  <li key={`${issue.cartItemId}-${issue.kind}`}>{issue.message}</li>
+                ))}
+              </ul>
+              {hasBlockingIssues ? (
+                <p className="mt-2 text-xs text-amber-700">Remove the highlighted items to continue to checkout.</p>
+              ) : (
+                onDismissIssues && (
+                  <button
+                    onClick={onDismissIssues}
+                    className="mt-2 text-xs font-medium text-amber-800 underline hover:text-amber-900"
+                  >
+                    Got it
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-md border-2 border-starrs-teal/20 overflow-hidden mb-8">
         {cartItems.map((item, index) => (
-          <div key={item.id} className={`p-6 ${index !== cartItems.length - 1 ? 'border-b border-starrs-teal/20' : ''}`}>
+          <div key={item.id} className={`p-6 ${index !== cartItems.length - 1 ? 'border-b border-starrs-teal/20' : ''} ${blockedIds.has(item.id) ? 'bg-amber-50/60' : ''}`}>
             <div className="flex items-center justify-between">
               <div className="flex-1">
                 <h3 className="text-lg font-bold text-starrs-teal-dark mb-1">{item.name}</h3>
+                {blockedIds.has(item.id) && (
+                  <p className="text-sm font-medium text-amber-700 mb-1">Not available - please remove</p>
+                )}
                 {item.selectedVariation && (
-                  <p className="text-sm text-gray-500 mb-1">Size: {item.selectedVariation.name}</p>
+                  <p className="text-sm text-gray-500 mb-1">{describeVariation(item.selectedVariation)}</p>
+                )}
+                {item.selectedBundle && item.selectedBundle.length > 0 && (
+                  <p className="text-sm text-gray-500 mb-1">
+                    {item.selectedBundle.map(selection => selection.name).join(' + ')}
+                  </p>
                 )}
                 {item.selectedAddOns && item.selectedAddOns.length > 0 && (
                   <p className="text-sm text-gray-500 mb-1">
@@ -122,7 +168,8 @@ const Cart: React.FC<CartProps> = ({
         
         <button
           onClick={onCheckout}
-          className="w-full bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 transform hover:scale-[1.02] font-semibold text-lg shadow-lg"
+          disabled={hasBlockingIssues}
+          className="w-full bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 transform hover:scale-[1.02] font-semibold text-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
         >
           Proceed to Checkout
         </button>
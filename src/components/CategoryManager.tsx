@@ -3,6 +3,9 @@
 import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, ArrowLeft, GripVertical } from 'lucide-react';
 import { useCategories, Category } from '../hooks/useCategories';
+import { AvailabilitySchedule } from '../types';
+import { validateSchedule } from '../lib/schedule';
+import ScheduleEditor from './ScheduleEditor';
 
 interface CategoryManagerProps {
   onBack: () => void;
@@ -17,7 +20,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
     name: '',
     icon: '☕',
     sort_order: 0,
-    active: true
+    active: true,
+    availability_schedule: null as AvailabilitySchedule | null
   });
 
   const handleAddCategory = () => {
@@ -27,7 +31,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
       name: '',
       icon: '☕',
       sort_order: nextSortOrder,
-      active: true
+      active: true,
+      availability_schedule: null
     });
     setCurrentView('add');
   };
@@ -39,7 +44,8 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
       name: category.name,
       icon: category.icon,
       sort_order: category.sort_order,
-      active: category.active
+      active: category.active,
+      availability_schedule: category.availability_schedule || null
     });
     setCurrentView('edit');
   };
@@ -67,6 +73,12 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
       return;
     }
 
+    const scheduleError = validateSchedule(formData.availability_schedule);
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+
     try {
       if (editingCategory) {
         await updateCategory(editingCategory.id, formData);
@@ -217,6 +229,14 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
                   <span className="text-sm font-medium text-black">Active Category</span>
                 </label>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Schedule</label>
+                <ScheduleEditor
+                  schedule={formData.availability_schedule}
+                  onChange={(schedule) => setFormData({ ...formData, availability_schedule: schedule })}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -293,6 +313,12 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
                       }`}>
                         {category.active ? 'Active' : 'Inactive'}
                       </span>
+
+                      {category.availability_schedule && (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Scheduled
+                        </span>
+                      )}
                       
                       <button
                         onClick={() => handleEditCategory(category)}
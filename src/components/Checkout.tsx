@@ -1,25 +1,46 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { ArrowLeft, Clock, Search, Loader2, MapPin } from 'lucide-react';
-import { CartItem, PaymentMethod, ServiceType, AddressSuggestion, Branch } from '../types';
+import { ArrowLeft, Clock, Search, Loader2, MapPin, Tag, X } from 'lucide-react';
+import { CartItem, PaymentMethod, ServiceType, AddressSuggestion, Branch, StatutoryDiscountType } from '../types';
 import BranchSelector from './BranchSelector';
 import { usePaymentMethods } from '../hooks/usePaymentMethods';
-import { useOrders } from '../hooks/useOrders';
+import { useOrders, OrderRateLimitError } from '../hooks/useOrders';
 import { useAddressAutocomplete } from '../hooks/useAddressAutocomplete';
 import { useSiteSettings } from '../hooks/useSiteSettings';
+import { useVoucher } from '../hooks/useVoucher';
+import { useSelectedBranch } from '../hooks/useSelectedBranch';
+import { useSlotAvailability } from '../hooks/useSlotAvailability';
+import { useBranchStatus } from '../hooks/useBranchStatus';
+import { useNearestBranch } from '../hooks/useNearestBranch';
+import { useNow } from '../hooks/useNow';
 import { fetchDeliveryQuotation, buildLalamoveConfig } from '../lib/lalamove';
+import { getCooldownMessage } from '../lib/rateLimit';
+import { getLineTotal, roundCurrency } from '../lib/pricing';
+import { STATUTORY_DISCOUNT_LABELS, STATUTORY_DISCOUNT_TYPES, calculateStatutoryDiscount } from '../lib/statutoryDiscount';
+import { describeVariation } from '../lib/variations';
+import { getMenuItemScheduleStatus } from '../lib/schedule';
+import { describeScheduledFor, getEarliestSlot, getOrderAheadDays, getOrderAheadSettings } from '../lib/orderAhead';
+import { countOrderItems } from '../lib/slotCapacity';
+import { isBranchTakingOrdersAt } from '../lib/branchHours';
+import { checkDeliveryZone, formatDistance } from '../lib/deliveryZones';
+import { applyDeliveryFeePolicy, checkDeliveryMinimum, getAmountToFreeDelivery, getDeliveryFeePolicy } from '../lib/deliveryFee';
+import type { ScheduleStatus } from '../lib/schedule';
 
 interface CheckoutProps {
   cartItems: CartItem[];
   totalPrice: number;
   onBack: () => void;
+  /** Called once the order is saved, before leaving for the tracking page */
+  onOrderPlaced?: () => void;
 }
 
-const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack }) => {
+const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack, onOrderPlaced }) => {
   const { paymentMethods } = usePaymentMethods();
-  const { createOrder } = useOrders();
+  const { createOrder } = useOrders({ enabled: false });
   const [step, setStep] = useState<'details' | 'payment'>('details');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  // Seconds left before the server will accept another order (after a 429)
+  const [retryCountdown, setRetryCountdown] = useState(0);
   const [customerName, setCustomerName] = useState('');
   const [contactNumber, setContactNumber] = useState('');
   const [serviceType, setServiceType] = useState<ServiceType>('dine-in');
@@ -33,45 +54,153 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack }) =>
     serviceType === 'delivery' ? addressQuery : ''
   );
   const [landmark, setLandmark] = useState('');
-  const [pickupTime, setPickupTime] = useState('5-10');
-  const [customTime, setCustomTime] = useState('');
+  // Order ahead; `scheduledFor` is the ISO time of the picked slot
+  const [orderTiming, setOrderTiming] = useState<'asap' | 'later'>('asap');
+  const [scheduledDate, setScheduledDate] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
   // Dine-in specific state
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('gcash');
   const [referenceNumber, setReferenceNumber] = useState('');
   const [notes, setNotes] = useState('');
   const [deliveryCoordinates, setDeliveryCoordinates] = useState<{ lat: number; lng: number } | null>(null);
-  const [deliveryFee, setDeliveryFee] = useState<number | null>(null);
+  // What Lalamove quoted; the customer's fee is worked out from it below
+  const [courierCost, setCourierCost] = useState<number | null>(null);
   const [deliveryQuoteId, setDeliveryQuoteId] = useState<string | null>(null);
   const [deliveryFeeCurrency, setDeliveryFeeCurrency] = useState('PHP');
   const [isFetchingDeliveryFee, setIsFetchingDeliveryFee] = useState(false);
   const [deliveryFeeError, setDeliveryFeeError] = useState<string | null>(null);
   const { siteSettings } = useSiteSettings();
-  const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
+  const { selectedBranch, selectBranch, loaded: branchLoaded } = useSelectedBranch();
   const [showBranchSelector, setShowBranchSelector] = useState(false);
 
-  // Load branch from local storage on mount
+  // Ask for a branch if none was chosen yet
   useEffect(() => {
-    const storedBranch = localStorage.getItem('starrs_selected_branch');
-    if (storedBranch) {
-      try {
-        setSelectedBranch(JSON.parse(storedBranch));
-      } catch (e) {
-        console.error('Failed to parse stored branch');
-      }
-    } else {
+    if (branchLoaded && !selectedBranch) {
       setShowBranchSelector(true);
     }
-  }, []);
+  }, [branchLoaded, selectedBranch]);
 
   const handleBranchSelect = (branch: Branch) => {
-    setSelectedBranch(branch);
-    localStorage.setItem('starrs_selected_branch', JSON.stringify(branch));
+    selectBranch(branch);
+    setAutoSelectedBranchId(null);
     setShowBranchSelector(false);
   };
 
+  // Senior citizen / PWD discount; null when not claimed
+  const [statutoryType, setStatutoryType] = useState<StatutoryDiscountType | null>(null);
+  const [statutoryName, setStatutoryName] = useState('');
+  const [statutoryIdNumber, setStatutoryIdNumber] = useState('');
+  const [statutoryLineIds, setStatutoryLineIds] = useState<string[]>([]);
+
+  const statutoryBreakdown = useMemo(() => statutoryType
+    ? calculateStatutoryDiscount(cartItems.map(item => ({
+        lineTotal: getLineTotal(item.totalPrice, item.quantity),
+        eligible: statutoryLineIds.includes(item.id)
+      })))
+    : null,
+  [statutoryType, statutoryLineIds, cartItems]);
+
+  const now = useNow();
+  const orderAhead = useMemo(() => getOrderAheadSettings(siteSettings), [siteSettings]);
+  // Slots the branch has no room in for this order are not offered
+  const itemCount = useMemo(() => countOrderItems(cartItems), [cartItems]);
+  const {
+    unavailable: unavailableSlots,
+    tooManyItems,
+    refresh: refreshSlots
+  } = useSlotAvailability(selectedBranch?.id, itemCount);
+  // Closed or paused branches only take orders for when they are open again
+  const { branch: branchHours, status: branchStatus, refresh: refreshBranchStatus } = useBranchStatus(selectedBranch?.id);
+  const branchClosed = Boolean(branchStatus && branchStatus.state !== 'open');
+  const orderAheadDays = useMemo(() => {
+    if (orderTiming !== 'later') return [];
+    const full = new Set(unavailableSlots);
+    const isOffered = (value: string) =>
+      !full.has(value) && (!branchHours || isBranchTakingOrdersAt(branchHours, new Date(value)));
+    return getOrderAheadDays(now, orderAhead)
+      .map(day => ({ ...day, slots: day.slots.filter(slot => isOffered(slot.value)) }))
+      .filter(day => day.slots.length > 0);
+  }, [orderTiming, now, orderAhead, unavailableSlots, branchHours]);
+  const asapAvailable = !branchClosed && !unavailableSlots.includes(getEarliestSlot(now, orderAhead).toISOString());
+
+  useEffect(() => {
+    if (branchClosed && orderAhead.maxDays > 0) {
+      setOrderTiming('later');
+    }
+  }, [branchClosed, orderAhead.maxDays]);
+  const scheduledDay = orderAheadDays.find(day => day.date === scheduledDate) || orderAheadDays[0];
+  // Null for as soon as possible, and once the picked slot is no longer offered
+  const scheduledSlot = scheduledDay?.slots.find(slot => slot.value === scheduledFor) || null;
+  const timingLabel = serviceType === 'delivery' ? 'Delivery' : serviceType === 'pickup' ? 'Pickup' : 'Dine-in';
+  const timingSummary = scheduledSlot ? describeScheduledFor(scheduledSlot.value, now) : 'As soon as possible';
+
+  // Cart lines outside their item's or category's schedule at the time the
+  // order is for; these block the order
+  const scheduleIssues = useMemo(() => new Map<string, ScheduleStatus>(
+    cartItems
+      .map(item => [item.id, getMenuItemScheduleStatus(item, scheduledSlot ? new Date(scheduledSlot.value) : now)] as [string, ScheduleStatus])
+      .filter(([, schedule]) => !schedule.open)
+  ), [cartItems, now, scheduledSlot]);
+
   const lalamoveConfig = useMemo(() => buildLalamoveConfig(siteSettings, selectedBranch), [siteSettings, selectedBranch]);
   const lalamoveEnabled = Boolean(lalamoveConfig);
 
+  // Delivery zones: the nearest branch that delivers to the address picked is
+  // chosen for the customer, and addresses outside every zone get no quote
+  const {
+    ranked: rankedBranches,
+    nearest: nearestBranch,
+    loaded: branchesLoaded
+  } = useNearestBranch(serviceType === 'delivery' ? deliveryCoordinates : null);
+  const selectedRanked = rankedBranches.find(entry => entry.branch.id === selectedBranch?.id);
+  const deliveryZoneError = serviceType !== 'delivery' || !deliveryCoordinates
+    ? null
+    : rankedBranches.length > 0 && !nearestBranch
+      ? "Sorry, none of our branches deliver to this address yet. Try a nearby address, or order for pickup."
+      : selectedRanked
+        ? checkDeliveryZone(selectedRanked.branch, deliveryCoordinates)
+        : null;
+  // The address the nearest branch was last chosen for, so a branch the
+  // customer picks afterwards is kept
+  const autoSelectedFor = useRef<{ lat: number; lng: number } | null>(null);
+  const [autoSelectedBranchId, setAutoSelectedBranchId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!nearestBranch || autoSelectedFor.current === deliveryCoordinates) return;
+    autoSelectedFor.current = deliveryCoordinates;
+    if (nearestBranch.branch.id !== selectedBranch?.id) {
+      selectBranch(nearestBranch.branch);
+      setAutoSelectedBranchId(nearestBranch.branch.id);
+    }
+  }, [nearestBranch, deliveryCoordinates, selectedBranch?.id, selectBranch]);
+
+  // Delivery fee policy: the customer's fee from the courier cost, free
+  // delivery above a subtotal and the minimum order for delivery
+  const deliveryFeePolicy = useMemo(() => getDeliveryFeePolicy(siteSettings), [siteSettings]);
+  const flatDeliveryFee = (selectedRanked?.branch.delivery_zone ?? selectedBranch?.delivery_zone)?.flatFee ?? null;
+  const deliveryQuote = courierCost !== null
+    ? applyDeliveryFeePolicy(courierCost, totalPrice, deliveryFeePolicy, flatDeliveryFee)
+    : null;
+  const deliveryFee = deliveryQuote?.fee ?? null;
+  const deliveryMinimumError = serviceType === 'delivery' ? checkDeliveryMinimum(totalPrice, deliveryFeePolicy) : null;
+  const amountToFreeDelivery = serviceType === 'delivery' ? getAmountToFreeDelivery(totalPrice, deliveryFeePolicy) : null;
+
+  const [voucherCode, setVoucherCode] = useState('');
+  const {
+    voucher,
+    discount: voucherDiscount,
+    validating: validatingVoucher,
+    error: voucherError,
+    applyVoucher,
+    removeVoucher
+  } = useVoucher({
+    cartItems,
+    serviceType,
+    branchId: selectedBranch?.id,
+    contactNumber,
+    deliveryFee: serviceType === 'delivery' ? deliveryFee ?? undefined : undefined
+  });
+
   React.useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [step]);
@@ -92,14 +221,48 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack }) =>
 
   const selectedPaymentMethod = paymentMethods.find(method => method.id === paymentMethod);
   const deliveryCharge = serviceType === 'delivery' ? (deliveryFee ?? 0) : 0;
-  const totalWithDelivery = totalPrice + deliveryCharge;
+  const statutoryDeduction = statutoryBreakdown?.totalDeduction ?? 0;
+  const totalWithDelivery = roundCurrency(totalPrice + deliveryCharge - voucherDiscount - statutoryDeduction);
   const deliveryFeeLabel = isFetchingDeliveryFee
     ? 'Calculating...'
     : deliveryFeeError
       ? 'Unavailable'
-      : deliveryFee !== null
-        ? `₱${deliveryFee}`
-        : 'Pending';
+      : deliveryFee === 0
+        ? 'Free'
+        : deliveryFee !== null
+          ? `₱${deliveryFee}`
+          : 'Pending';
+
+  const handleApplyVoucher = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await applyVoucher(voucherCode);
+  };
+
+  const handleRemoveVoucher = () => {
+    removeVoucher();
+    setVoucherCode('');
+  };
+
+  const handleToggleStatutoryDiscount = (type: StatutoryDiscountType) => {
+    if (statutoryType === type) {
+      setStatutoryType(null);
+      return;
+    }
+    // Vouchers can't be stacked on the statutory discount
+    if (voucher) {
+      handleRemoveVoucher();
+    }
+    if (!statutoryType) {
+      setStatutoryLineIds(cartItems.map(item => item.id));
+    }
+    setStatutoryType(type);
+  };
+
+  const handleToggleStatutoryLine = (itemId: string) => {
+    setStatutoryLineIds(prev =>
+      prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]
+    );
+  };
 
   const handleProceedToPayment = () => {
     setStep('payment');
@@ -128,7 +291,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack }) =>
         {
           address: serviceType === 'delivery' ? address : undefined,
           landmark: serviceType === 'delivery' ? landmark : undefined,
-          pickupTime: serviceType === 'pickup' ? (pickupTime === 'custom' ? customTime : `${pickupTime} minutes`) : undefined,
+          scheduledFor: scheduledSlot?.value,
           referenceNumber: referenceNumber || undefined,
           notes: notes || undefined,
           deliveryFee: serviceType === 'delivery' ? deliveryFee ?? undefined : undefined,
@@ -136,30 +299,42 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, totalPrice, onBack }) =>
           deliveryLat: serviceType === 'delivery' ? deliveryCoordinates?.lat : undefined,
           deliveryLng: serviceType === 'delivery' ? deliveryCoordinates?.lng : undefined,
           branchId: selectedBranch?.id,
-          branch: selectedBranch || undefined
+          branch: selectedBranch || undefined,
+          voucherCode: voucher?.code,
+          statutoryDiscount: statutoryType
+            ? { type: statutoryType, name: statutoryName, idNumber: statutoryIdNumber, lineIds: statutoryLineIds }
+            : undefined
         }
       );
 
-      // Prepare order details for Messenger
-      const timeInfo = serviceType === 'pickup'
-        ? (pickupTime === 'custom' ? customTime : `${pickupTime} minutes`)
-        : '';
+      // The server re-prices the order; use its total from here on
+      const confirmedTotal = order.total;
+      const confirmedDeliveryFee = order.delivery_fee ?? deliveryFee;
+
+      // Public tracking page; the contact number is remembered for this tab so it opens straight away
+      const trackingUrl = `${window.location.origin}/track/${order.order_number}`;
+      sessionStorage.setItem(`order-tracking:${order.order_number}`, contactNumber);
 
+      // Prepare order details for Messenger
       const orderDetails = `
 🛒 Starr's Famous Shakes ORDER
 📦 Order Number: ${order.order_number}
+🔎 Track: ${trackingUrl}
 
 👤 Customer: ${customerName}
 📞 Contact: ${contactNumber}
 📍 Service: ${serviceType.charAt(0).toUpperCase() + serviceType.slice(1)}
  ${serviceType === 'delivery' ? `🏠 Address: ${address}${landmark ? `\n🗺️ Landmark: ${landmark}` : ''}` : ''}
-${serviceType === 'pickup' ? `⏰ Pickup Time: ${timeInfo}` : ''}
+⏰ ${timingLabel} Time: ${timingSummary}
 📋 ORDER DETAILS:
 ${cartItems.map(item => {
         let itemDetails = `• ${item.name}`;
         if (item.selectedVariation) {
           itemDetails += ` (${item.selectedVariation.name})`;
         }
+        if (item.selectedBundle && item.selectedBundle.length > 0) {
+          itemDetails += ` [${item.selectedBundle.map(selection => selection.name).join(' + ')}]`;
+        }
         if (item.selectedAddOns && item.selectedAddOns.length > 0) {
           itemDetails += ` + ${item.selectedAddOns.map(addOn =>
             addOn.quantity && addOn.quantity > 1
@@ -167,12 +342,12 @@ ${cartItems.map(item => {
               : addOn.name
           ).join(', ')}`;
         }
-        itemDetails += ` x${item.quantity} - ₱${item.totalPrice * item.quantity}`;
+        itemDetails += ` x${item.quantity} - ₱${getLineTotal(item.totalPrice, item.quantity)}`;
         return itemDetails;
       }).join('\n')}
 
-💰 TOTAL: ₱${totalWithDelivery}
-${serviceType === 'delivery' ? `🛵 DELIVERY FEE: ${deliveryFeeLabel}` : ''}
+${order.voucher_code ? `🏷️ VOUCHER ${order.voucher_code}: -₱${order.discount_amount}\n` : ''}${order.statutory_discount_type ? `🪪 ${STATUTORY_DISCOUNT_LABELS[order.statutory_discount_type].toUpperCase()} (${order.statutory_name}, ID ${order.statutory_id_number}): VAT exempt -₱${order.vat_exemption}, 20% discount -₱${order.statutory_discount}\n` : ''}💰 TOTAL: ₱${confirmedTotal}
+${serviceType === 'delivery' ? `🛵 DELIVERY FEE: ${confirmedDeliveryFee === 0 ? 'Free' : confirmedDeliveryFee !== null ? `₱${confirmedDeliveryFee}` : deliveryFeeLabel}` : ''}
 
 💳 Payment: ${selectedPaymentMethod?.name || paymentMethod}
 📸 Payment Screenshot: Please attach your payment receipt screenshot
@@ -185,31 +360,45 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
       const encodedMessage = encodeURIComponent(orderDetails);
       const messengerUrl = `https://m.me/StarrsFamousShakes?text=${encodedMessage}`;
 
-      // Show success message
-      alert(`Order placed successfully!\n\nOrder Number: ${order.order_number}\n\nYou will now be redirected to Messenger to confirm your order.`);
+      // Show success message, flagging any price correction made by the server
+      const priceNotice = Math.abs(confirmedTotal - finalTotal) > 0.01
+        ? `\n\nNote: Your total was updated to ₱${confirmedTotal} to match current menu prices.`
+        : '';
+      alert(`Order placed successfully!\n\nOrder Number: ${order.order_number}${priceNotice}\n\nYou will now be redirected to Messenger to confirm your order. You can follow its progress at:\n${trackingUrl}`);
 
-      // Open Messenger
+      // Open Messenger, and show the tracking page here
+      onOrderPlaced?.();
       window.open(messengerUrl, '_blank');
-
-      // Clear form and go back to menu (you might want to clear cart here)
-      // onBack();
+      window.location.href = trackingUrl;
 
     } catch (error) {
       console.error('Error placing order:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to place order. Please try again.';
-      setSubmitError(errorMessage);
 
-      // Check if it's a rate limit error
-      if (errorMessage.includes('Rate limit') || errorMessage.includes('wait')) {
-        alert(`⚠️ ${errorMessage}\n\nPlease wait before trying again.`);
-      } else {
-        alert(`❌ ${errorMessage}`);
+      // Too many orders: count down on the button instead of an alert
+      if (error instanceof OrderRateLimitError) {
+        setSubmitError(null);
+        setRetryCountdown(error.retryAfter);
+        return;
       }
+
+      // The time slot may have filled up, or the branch paused, meanwhile
+      refreshSlots();
+      refreshBranchStatus();
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to place order. Please try again.';
+      setSubmitError(errorMessage);
+      alert(`❌ ${errorMessage}`);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  useEffect(() => {
+    if (retryCountdown <= 0) return;
+    const timer = setTimeout(() => setRetryCountdown(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryCountdown]);
+
   // Handle address selection from autocomplete
   const handleAddressSelect = (suggestion: AddressSuggestion) => {
     setAddress(suggestion.display_name);
@@ -287,7 +476,7 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
       setShowSuggestions(false);
       setAddress('');
       setDeliveryCoordinates(null);
-      setDeliveryFee(null);
+      setCourierCost(null);
       setDeliveryQuoteId(null);
       setDeliveryFeeError(null);
     }
@@ -298,12 +487,14 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
       serviceType !== 'delivery' ||
       !address ||
       !deliveryCoordinates ||
-      !lalamoveConfig
+      !lalamoveConfig ||
+      !branchesLoaded ||
+      deliveryZoneError
     ) {
-      // Reset when delivery is not active or not fully configured
-      setDeliveryFee(null);
+      // Reset when delivery is not active, not fully configured or outside the zone
+      setCourierCost(null);
       setDeliveryQuoteId(null);
-      setDeliveryFeeError(null);
+      setDeliveryFeeError(deliveryZoneError);
       setIsFetchingDeliveryFee(false);
       setDeliveryFeeCurrency('PHP');
       return;
@@ -317,13 +508,13 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
       try {
         const quote = await fetchDeliveryQuotation(address, deliveryCoordinates, lalamoveConfig);
         if (isCancelled) return;
-        setDeliveryFee(quote.price);
+        setCourierCost(quote.price);
         setDeliveryQuoteId(quote.quotationId);
         setDeliveryFeeCurrency(quote.currency);
       } catch (error) {
         if (isCancelled) return;
         console.error('Failed to fetch delivery quote:', error);
-        setDeliveryFee(null);
+        setCourierCost(null);
         setDeliveryQuoteId(null);
         setDeliveryFeeError(
           error instanceof Error ? error.message : 'Unable to calculate delivery fee'
@@ -341,11 +532,12 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
     return () => {
       isCancelled = true;
     };
-  }, [serviceType, address, deliveryCoordinates, lalamoveConfig]);
+  }, [serviceType, address, deliveryCoordinates, lalamoveConfig, branchesLoaded, deliveryZoneError]);
 
-  const isDetailsValid = customerName && contactNumber &&
-    (serviceType !== 'delivery' || (address && deliveryFee !== null)) &&
-    (serviceType !== 'pickup' || (pickupTime !== 'custom' || customTime));
+  const isDetailsValid = scheduleIssues.size === 0 && customerName && contactNumber &&
+    (serviceType !== 'delivery' || (address && deliveryFee !== null && !deliveryMinimumError)) &&
+    !tooManyItems && (orderTiming === 'asap' ? asapAvailable : scheduledSlot) &&
+    (!statutoryType || (statutoryName.trim() && statutoryIdNumber.trim() && statutoryLineIds.length > 0));
 
   if (step === 'details') {
     return (
@@ -367,6 +559,7 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
           onSelect={handleBranchSelect}
           selectedBranchId={selectedBranch?.id}
           forced={!selectedBranch}
+          coordinates={serviceType === 'delivery' ? deliveryCoordinates : null}
         />
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -397,7 +590,10 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                   <div>
                     <h4 className="font-medium text-black">{item.name}</h4>
                     {item.selectedVariation && (
-                      <p className="text-sm text-gray-600">Size: {item.selectedVariation.name}</p>
+                      <p className="text-sm text-gray-600">{describeVariation(item.selectedVariation)}</p>
+                    )}
+                    {item.selectedBundle && item.selectedBundle.length > 0 && (
+                      <p className="text-sm text-gray-600">{item.selectedBundle.map(selection => selection.name).join(' + ')}</p>
                     )}
                     {item.selectedAddOns && item.selectedAddOns.length > 0 && (
                       <p className="text-sm text-gray-600">
@@ -405,8 +601,13 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                       </p>
                     )}
                     <p className="text-sm text-gray-600">₱{item.totalPrice} x {item.quantity}</p>
+                    {scheduleIssues.has(item.id) && (
+                      <p className="text-sm text-red-600">
+                        {scheduleIssues.get(item.id)?.label || 'No longer available'}. Remove it from your cart to continue.
+                      </p>
+                    )}
                   </div>
-                  <span className="font-semibold text-black">₱{item.totalPrice * item.quantity}</span>
+                  <span className="font-semibold text-black">₱{getLineTotal(item.totalPrice, item.quantity)}</span>
                 </div>
               ))}
             </div>
@@ -420,6 +621,29 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
             {serviceType === 'delivery' && deliveryFeeError && (
               <p className="text-xs text-red-600 mt-1">{deliveryFeeError}</p>
             )}
+            {deliveryMinimumError ? (
+              <p className="text-xs text-red-600 mt-1">{deliveryMinimumError}</p>
+            ) : amountToFreeDelivery !== null && (
+              <p className="text-xs text-green-700 mt-1">Add ₱{amountToFreeDelivery} more for free delivery</p>
+            )}
+            {voucher && (
+              <div className="flex items-center justify-between text-sm text-green-700 pt-2">
+                <span>Voucher {voucher.code}</span>
+                <span className="font-semibold">-₱{voucherDiscount}</span>
+              </div>
+            )}
+            {statutoryBreakdown && statutoryType && (
+              <>
+                <div className="flex items-center justify-between text-sm text-green-700 pt-2">
+                  <span>VAT exemption ({STATUTORY_DISCOUNT_LABELS[statutoryType]})</span>
+                  <span className="font-semibold">-₱{statutoryBreakdown.vatExemption}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm text-green-700 pt-1">
+                  <span>20% {STATUTORY_DISCOUNT_LABELS[statutoryType]} discount</span>
+                  <span className="font-semibold">-₱{statutoryBreakdown.discount}</span>
+                </div>
+              </>
+            )}
             <div className="border-t border-red-200 pt-4">
               <div className="flex items-center justify-between text-2xl font-noto font-semibold text-black">
                 <span>Total:</span>
@@ -509,23 +733,22 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                 </div>
               </div>
 
-              {/* Pickup Time Selection */}
-              {serviceType === 'pickup' && (
+              {/* Order Ahead */}
+              {orderAhead.maxDays > 0 && (
                 <div>
-                  <label className="block text-sm font-medium text-black mb-3">Pickup Time *</label>
+                  <label className="block text-sm font-medium text-black mb-3">{timingLabel} Time *</label>
                   <div className="space-y-3">
                     <div className="grid grid-cols-2 gap-3">
                       {[
-                        { value: '5-10', label: '5-10 minutes' },
-                        { value: '15-20', label: '15-20 minutes' },
-                        { value: '25-30', label: '25-30 minutes' },
-                        { value: 'custom', label: 'Custom Time' }
+                        { value: 'asap', label: 'As soon as possible' },
+                        { value: 'later', label: 'Schedule for later' }
                       ].map((option) => (
                         <button
                           key={option.value}
                           type="button"
-                          onClick={() => setPickupTime(option.value)}
-                          className={`p-3 rounded-lg border-2 transition-all duration-200 text-sm ${pickupTime === option.value
+                          onClick={() => setOrderTiming(option.value as 'asap' | 'later')}
+                          disabled={option.value === 'asap' && branchClosed}
+                          className={`p-3 rounded-lg border-2 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed ${orderTiming === option.value
                             ? 'border-red-600 bg-red-600 text-white'
                             : 'border-red-300 bg-white text-gray-700 hover:border-red-400'
                             }`}
@@ -536,20 +759,62 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                       ))}
                     </div>
 
-                    {pickupTime === 'custom' && (
-                      <input
-                        type="text"
-                        value={customTime}
-                        onChange={(e) => setCustomTime(e.target.value)}
-                        className="w-full px-4 py-3 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
-                        placeholder="e.g., 45 minutes, 1 hour, 2:30 PM"
-                        required
-                      />
+                    {orderTiming === 'later' && (
+                      <>
+                        <div className="grid grid-cols-2 gap-3">
+                          <select
+                            value={scheduledDay?.date || ''}
+                            onChange={(e) => {
+                              setScheduledDate(e.target.value);
+                              setScheduledFor('');
+                            }}
+                            className="w-full px-4 py-3 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                          >
+                            {orderAheadDays.map(day => (
+                              <option key={day.date} value={day.date}>{day.label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={scheduledSlot?.value || ''}
+                            onChange={(e) => setScheduledFor(e.target.value)}
+                            className="w-full px-4 py-3 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                          >
+                            <option value="">Pick a time</option>
+                            {scheduledDay?.slots.map(slot => (
+                              <option key={slot.value} value={slot.value}>{slot.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          You can order up to {orderAhead.maxDays} day{orderAhead.maxDays === 1 ? '' : 's'} ahead. We start on your order shortly before this time.
+                        </p>
+                      </>
                     )}
                   </div>
                 </div>
               )}
 
+              {/* Branch hours */}
+              {branchClosed && branchStatus && (
+                <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+                  {selectedBranch?.name}: {branchStatus.label}.{' '}
+                  {orderAhead.maxDays > 0
+                    ? 'You can still schedule your order for when it is open.'
+                    : 'Please come back when it is open.'}
+                </div>
+              )}
+
+              {/* Time-slot capacity */}
+              {!branchClosed && (tooManyItems || (orderTiming === 'asap' && !asapAvailable)) && (
+                <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+                  {tooManyItems
+                    ? 'This order is bigger than we can make in one time slot. Please split it into smaller orders or contact the store.'
+                    : orderAhead.maxDays > 0
+                      ? "We're fully booked for the next few minutes. Please schedule your order for later."
+                      : "We're fully booked for the next few minutes. Please try again shortly."}
+                </div>
+              )}
+
               {/* Delivery Address */}
               {serviceType === 'delivery' && (
                 <>
@@ -684,6 +949,17 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                         </div>
                       </div>
                     )}
+
+                    {/* Delivery zones */}
+                    {deliveryZoneError ? (
+                      <p className="text-sm text-red-600 mt-2">{deliveryZoneError}</p>
+                    ) : selectedRanked && autoSelectedBranchId === selectedRanked.branch.id && (
+                      <p className="text-sm text-gray-600 mt-2 flex items-center gap-1">
+                        <MapPin className="h-4 w-4 text-pink-500 flex-shrink-0" />
+                        Delivering from {selectedRanked.branch.name}, our nearest branch
+                        {selectedRanked.distanceKm !== null ? ` (${formatDistance(selectedRanked.distanceKm)} away)` : ''}.
+                      </p>
+                    )}
                   </div>
 
                   <div>
@@ -713,6 +989,75 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                 </>
               )}
 
+              {/* Senior Citizen / PWD Discount */}
+              <div>
+                <label className="block text-sm font-medium text-black mb-3">Senior Citizen / PWD Discount</label>
+                <div className="grid grid-cols-2 gap-3">
+                  {STATUTORY_DISCOUNT_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => handleToggleStatutoryDiscount(type)}
+                      className={`p-3 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${statutoryType === type
+                        ? 'border-red-600 bg-red-600 text-white'
+                        : 'border-red-300 bg-white text-gray-700 hover:border-red-400'
+                        }`}
+                    >
+                      {STATUTORY_DISCOUNT_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+
+                {statutoryType && (
+                  <div className="mt-4 space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-black mb-2">Name on ID *</label>
+                      <input
+                        type="text"
+                        value={statutoryName}
+                        onChange={(e) => setStatutoryName(e.target.value)}
+                        className="w-full px-4 py-3 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                        placeholder="As written on the ID"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-black mb-2">
+                        {statutoryType === 'senior' ? 'OSCA' : 'PWD'} ID Number *
+                      </label>
+                      <input
+                        type="text"
+                        value={statutoryIdNumber}
+                        onChange={(e) => setStatutoryIdNumber(e.target.value)}
+                        className="w-full px-4 py-3 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                        placeholder="ID number"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-black mb-2">Items for the {STATUTORY_DISCOUNT_LABELS[statutoryType]}'s own use *</p>
+                      <div className="space-y-2">
+                        {cartItems.map((item) => (
+                          <label key={item.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={statutoryLineIds.includes(item.id)}
+                              onChange={() => handleToggleStatutoryLine(item.id)}
+                              className="rounded border-red-300 text-red-600 focus:ring-red-500"
+                            />
+                            <span>{item.name}{item.selectedVariation ? ` (${item.selectedVariation.name})` : ''} x{item.quantity}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Please present the ID when you receive your order. The discount is VAT-exempt,
+                      does not apply to the delivery fee and cannot be combined with vouchers.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               {/* Special Notes */}
               <div>
                 <label className="block text-sm font-medium text-black mb-2">Special Instructions</label>
@@ -829,11 +1174,7 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                   {landmark && <p className="text-sm text-gray-600">Landmark: {landmark}</p>}
                 </>
               )}
-              {serviceType === 'pickup' && (
-                <p className="text-sm text-gray-600">
-                  Pickup Time: {pickupTime === 'custom' ? customTime : `${pickupTime} minutes`}
-                </p>
-              )}
+              <p className="text-sm text-gray-600">{timingLabel} Time: {timingSummary}</p>
             </div>
 
             {cartItems.map((item) => (
@@ -841,7 +1182,10 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                 <div>
                   <h4 className="font-medium text-black">{item.name}</h4>
                   {item.selectedVariation && (
-                    <p className="text-sm text-gray-600">Size: {item.selectedVariation.name}</p>
+                    <p className="text-sm text-gray-600">{describeVariation(item.selectedVariation)}</p>
+                  )}
+                  {item.selectedBundle && item.selectedBundle.length > 0 && (
+                    <p className="text-sm text-gray-600">{item.selectedBundle.map(selection => selection.name).join(' + ')}</p>
                   )}
                   {item.selectedAddOns && item.selectedAddOns.length > 0 && (
                     <p className="text-sm text-gray-600">
@@ -854,7 +1198,7 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
                   )}
                   <p className="text-sm text-gray-600">₱{item.totalPrice} x {item.quantity}</p>
                 </div>
-                <span className="font-semibold text-black">₱{item.totalPrice * item.quantity}</span>
+                <span className="font-semibold text-black">₱{getLineTotal(item.totalPrice, item.quantity)}</span>
               </div>
             ))}
           </div>
@@ -868,6 +1212,70 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
           {serviceType === 'delivery' && deliveryFeeError && (
             <p className="text-xs text-red-600 mb-3">{deliveryFeeError}</p>
           )}
+
+          {statutoryBreakdown && statutoryType && (
+            <div className="mb-2">
+              <div className="flex items-center justify-between text-sm text-green-700">
+                <span>VAT exemption ({STATUTORY_DISCOUNT_LABELS[statutoryType]})</span>
+                <span className="font-semibold">-₱{statutoryBreakdown.vatExemption}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm text-green-700 pt-1">
+                <span>20% {STATUTORY_DISCOUNT_LABELS[statutoryType]} discount</span>
+                <span className="font-semibold">-₱{statutoryBreakdown.discount}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Voucher */}
+          <div className="pt-2 mb-4">
+            {statutoryType ? (
+              <p className="text-xs text-gray-500">Vouchers cannot be combined with the senior citizen / PWD discount.</p>
+            ) : voucher ? (
+              <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <Tag className="h-4 w-4 text-green-700" />
+                  <div>
+                    <p className="text-sm font-medium text-green-800">{voucher.code} applied</p>
+                    {voucher.description && (
+                      <p className="text-xs text-green-700">{voucher.description}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm font-semibold text-green-800">-₱{voucherDiscount}</span>
+                  <button
+                    type="button"
+                    onClick={handleRemoveVoucher}
+                    className="text-green-700 hover:text-green-900"
+                    aria-label="Remove voucher"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleApplyVoucher} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={voucherCode}
+                  onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                  className="flex-1 px-4 py-2 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent uppercase"
+                  placeholder="Voucher code"
+                />
+                <button
+                  type="submit"
+                  disabled={validatingVoucher || !voucherCode.trim()}
+                  className="px-4 py-2 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {validatingVoucher ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                </button>
+              </form>
+            )}
+            {voucherError && (
+              <p className="text-xs text-red-600 mt-2">{voucherError}</p>
+            )}
+          </div>
+
           <div className="border-t border-red-200 pt-4 mb-6">
             <div className="flex items-center justify-between text-2xl font-noto font-semibold text-black">
               <span>Total:</span>
@@ -881,6 +1289,33 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
             </div>
           )}
 
+          {scheduleIssues.size > 0 && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">
+                {cartItems.filter(item => scheduleIssues.has(item.id)).map(item => item.name).join(', ')}
+                {scheduledSlot
+                  ? ` can't be ordered for ${timingSummary}. Go back to pick another time or remove ${scheduleIssues.size === 1 ? 'it' : 'them'}.`
+                  : ` can't be ordered right now. Go back to your cart to remove ${scheduleIssues.size === 1 ? 'it' : 'them'}.`}
+              </p>
+            </div>
+          )}
+
+          {retryCountdown > 0 && (
+            <div className="mb-4 p-4 bg-amber-50 border border-amber-300 rounded-lg">
+              <div className="flex items-start space-x-2">
+                <Clock className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-amber-800">
+                    We've received several orders from you in a short time
+                  </p>
+                  <p className="text-xs text-amber-700 mt-1">
+                    {getCooldownMessage(retryCountdown)} If you already placed this order, check Messenger for our reply.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Warning when address couldn't be located and no landmark provided */}
           {serviceType === 'delivery' && address && !deliveryCoordinates && (
             <div className="mb-4 p-4 bg-amber-50 border border-amber-300 rounded-lg">
@@ -912,13 +1347,17 @@ Please confirm this order to proceed. Thank you for choosing Starr's Famous Shak
 
           <button
             onClick={handlePlaceOrder}
-            disabled={isSubmitting}
-            className={`w-full py-4 rounded-xl font-medium text-lg transition-all duration-200 transform ${isSubmitting
+            disabled={isSubmitting || retryCountdown > 0 || scheduleIssues.size > 0}
+            className={`w-full py-4 rounded-xl font-medium text-lg transition-all duration-200 transform ${isSubmitting || retryCountdown > 0 || scheduleIssues.size > 0
               ? 'bg-gray-400 text-white cursor-not-allowed'
               : 'bg-red-600 text-white hover:bg-red-700 hover:scale-[1.02]'
               }`}
           >
-            {isSubmitting ? 'Placing Order...' : 'Place Order via Messenger'}
+            {isSubmitting
+              ? 'Placing Order...'
+              : retryCountdown > 0
+                ? `Try again in ${retryCountdown}s`
+                : 'Place Order via Messenger'}
           </button>
 
           <p className="text-xs text-gray-500 text-center mt-3">
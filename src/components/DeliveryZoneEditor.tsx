@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { MapContainer, TileLayer, Circle, CircleMarker, Polygon, Polyline, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MAX_DELIVERY_RADIUS_KM } from '@/lib/deliveryZones';
+import type { Coordinates, DeliveryZone } from '@/types';
+import { Undo2, Trash2 } from 'lucide-react';
+
+interface DeliveryZoneEditorProps {
+    zone: DeliveryZone | null;
+    // The branch's pin; a radius is drawn around it
+    location: Coordinates | null;
+    onChange: (zone: DeliveryZone | null) => void;
+}
+
+const DEFAULT_RADIUS_KM = 5;
+const ZONE_COLOR = '#ec4899';
+
+// Adds a corner wherever the map is clicked
+function CornerPicker({ onAdd }: { onAdd: (point: [number, number]) => void }) {
+    useMapEvents({
+        click(e) {
+            onAdd([e.latlng.lat, e.latlng.lng]);
+        },
+    });
+    return null;
+}
+
+/**
+ * Where a branch delivers: anywhere, within a radius of its pin, or inside an
+ * area drawn by clicking its corners on the map. Checkout only offers delivery
+ * from a branch to addresses inside its zone. A zone can charge customers a
+ * flat fee in place of the quoted courier cost.
+ */
+export default function DeliveryZoneEditor({ zone, location, onChange }: DeliveryZoneEditorProps) {
+    const [radiusInput, setRadiusInput] = useState(zone?.type === 'radius' ? String(zone.radiusKm) : String(DEFAULT_RADIUS_KM));
+    const [flatFeeInput, setFlatFeeInput] = useState(typeof zone?.flatFee === 'number' ? String(zone.flatFee) : '');
+    // A flat fee stays with the zone when its shape changes
+    const flatFee = flatFeeInput.trim() === '' ? null : Number(flatFeeInput);
+
+    // Manila if the branch has not been pinned yet
+    const center = location || (zone?.type === 'polygon' ? { lat: zone.points[0][0], lng: zone.points[0][1] } : { lat: 14.5995, lng: 120.9842 });
+
+    const setType = (type: 'none' | DeliveryZone['type']) => {
+        if (type === 'none') {
+            onChange(null);
+        } else if (type === 'radius') {
+            onChange({ type: 'radius', radiusKm: Number(radiusInput), flatFee });
+        } else {
+            onChange({ type: 'polygon', points: [], flatFee });
+        }
+    };
+
+    const points = zone?.type === 'polygon' ? zone.points : [];
+    const setPoints = (next: [number, number][]) => onChange({ type: 'polygon', points: next, flatFee });
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-4">
+                {([
+                    ['none', 'Deliver anywhere'],
+                    ['radius', 'Within a radius'],
+                    ['polygon', 'Draw an area']
+                ] as const).map(([type, label]) => (
+                    <label key={type} className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="radio"
+                            checked={(zone?.type || 'none') === type}
+                            onChange={() => setType(type)}
+                            className="w-4 h-4 text-pink-500 focus:ring-pink-500"
+                        />
+                        <span className="text-sm text-gray-700">{label}</span>
+                    </label>
+                ))}
+            </div>
+
+            {zone?.type === 'radius' && (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min="0.1"
+                        max={MAX_DELIVERY_RADIUS_KM}
+                        step="0.1"
+                        value={radiusInput}
+                        onChange={e => {
+                            setRadiusInput(e.target.value);
+                            onChange({ type: 'radius', radiusKm: Number(e.target.value), flatFee });
+                        }}
+                        className="w-28 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                    />
+                    <span className="text-sm text-gray-500">km from the branch pin</span>
+                </div>
+            )}
+
+            {zone?.type === 'polygon' && (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-500">
+                        Click the map to add corners ({points.length} so far, at least 3).
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setPoints(points.slice(0, -1))}
+                            disabled={points.length === 0}
+                            className="p-2 text-gray-400 hover:text-pink-500 hover:bg-pink-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Remove the last corner"
+                        >
+                            <Undo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setPoints([])}
+                            disabled={points.length === 0}
+                            className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Start over"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {zone && (
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-500">Flat delivery fee ₱</span>
+                    <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={flatFeeInput}
+                        onChange={e => {
+                            setFlatFeeInput(e.target.value);
+                            onChange({ ...zone, flatFee: e.target.value.trim() === '' ? null : Number(e.target.value) });
+                        }}
+                        placeholder="Optional"
+                        className="w-28 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                    />
+                    <span className="text-sm text-gray-500">instead of the Lalamove price</span>
+                </div>
+            )}
+
+            {zone && (
+                <div className="h-[300px] w-full rounded-lg overflow-hidden border border-gray-300 relative z-0">
+                    <MapContainer
+                        center={center}
+                        zoom={12}
+                        style={{ height: '100%', width: '100%' }}
+                    >
+                        <TileLayer
+                            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                        />
+                        {location && (
+                            <CircleMarker center={location} radius={6} pathOptions={{ color: '#1f2937', fillOpacity: 1 }} />
+                        )}
+                        {zone.type === 'radius' && location && Number(radiusInput) > 0 && (
+                            <Circle center={location} radius={Number(radiusInput) * 1000} pathOptions={{ color: ZONE_COLOR }} />
+                        )}
+                        {zone.type === 'polygon' && (
+                            <>
+                                <CornerPicker onAdd={point => setPoints([...points, point])} />
+                                {points.length >= 3
+                                    ? <Polygon positions={points} pathOptions={{ color: ZONE_COLOR }} />
+                                    : <Polyline positions={points} pathOptions={{ color: ZONE_COLOR }} />}
+                                {points.map((point, index) => (
+                                    <CircleMarker key={index} center={point} radius={4} pathOptions={{ color: ZONE_COLOR }} />
+                                ))}
+                            </>
+                        )}
+                    </MapContainer>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,8 @@
 import React from 'react';
 import { ShoppingCart } from 'lucide-react';
 import { useSiteSettings } from '../hooks/useSiteSettings';
+import { useSelectedBranch } from '../hooks/useSelectedBranch';
+import { useBranchStatus } from '../hooks/useBranchStatus';
 
 interface HeaderProps {
   cartItemsCount: number;
@@ -12,6 +14,8 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ cartItemsCount, onCartClick, onMenuClick }) => {
   const { siteSettings, loading } = useSiteSettings();
+  const { selectedBranch } = useSelectedBranch();
+  const { status: branchStatus } = useBranchStatus(selectedBranch?.id);
 
   return (
     <header className="sticky top-0 z-50 bg-starrs-mint/95 backdrop-blur-md border-b border-starrs-teal/30 shadow-sm">
@@ -50,6 +54,18 @@ const Header: React.FC<HeaderProps> = ({ cartItemsCount, onCartClick, onMenuClic
           </button>
 
           <div className="flex items-center space-x-1 md:space-x-2">
+            {branchStatus && (
+              <span
+                className={`inline-flex items-center gap-1.5 max-w-[11rem] sm:max-w-none px-2.5 py-1 rounded-full text-[11px] md:text-xs font-medium ${branchStatus.state === 'open'
+                  ? 'bg-starrs-teal-light text-starrs-teal-dark'
+                  : 'bg-red-100 text-red-700'
+                  }`}
+                title={selectedBranch?.name}
+              >
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${branchStatus.state === 'open' ? 'bg-starrs-green' : 'bg-red-500'}`} />
+                <span className="truncate">{branchStatus.label}</span>
+              </span>
+            )}
             <button 
               onClick={onCartClick}
               className="relative p-2 md:p-3 text-starrs-teal-dark hover:text-starrs-teal-darker hover:bg-starrs-teal-light active:bg-starrs-teal-light rounded-full transition-all duration-200 touch-manipulation"
@@ -0,0 +1,546 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, Package, Loader2, AlertTriangle } from 'lucide-react';
+import { useInventory } from '../hooks/useInventory';
+import type { IngredientInput, ItemStockInput } from '../hooks/useInventory';
+import { describeStockLevel, isLowStock } from '../lib/inventory';
+import type { Ingredient, InventoryItem } from '../types';
+
+interface InventoryManagerProps {
+  onBack: () => void;
+}
+
+// Form fields are kept as strings while editing
+interface ItemStockForm {
+  track_stock: boolean;
+  stock_quantity: string;
+  low_stock_threshold: string;
+  recipe: { ingredient_id: string; quantity: string }[];
+}
+
+interface IngredientForm {
+  name: string;
+  unit: string;
+  stock_quantity: string;
+  low_stock_threshold: string;
+}
+
+const EMPTY_INGREDIENT_FORM: IngredientForm = {
+  name: '',
+  unit: 'pcs',
+  stock_quantity: '0',
+  low_stock_threshold: '0'
+};
+
+const InventoryManager: React.FC<InventoryManagerProps> = ({ onBack }) => {
+  const {
+    items,
+    ingredients,
+    alerts,
+    loading,
+    error,
+    updateItemStock,
+    addIngredient,
+    updateIngredient,
+    deleteIngredient
+  } = useInventory();
+  const [currentView, setCurrentView] = useState<'list' | 'item' | 'add-ingredient' | 'edit-ingredient'>('list');
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [itemForm, setItemForm] = useState<ItemStockForm>({ track_stock: false, stock_quantity: '0', low_stock_threshold: '5', recipe: [] });
+  const [ingredientForm, setIngredientForm] = useState<IngredientForm>(EMPTY_INGREDIENT_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const describeRecipeLine = (line: InventoryItem['recipe'][number]) => {
+    const ingredient = ingredients.find(entry => entry.id === line.ingredient_id);
+    return ingredient ? `${line.quantity} ${ingredient.unit} ${ingredient.name}` : `${line.quantity} of a deleted ingredient`;
+  };
+
+  const handleEditItem = (item: InventoryItem) => {
+    setEditingItem(item);
+    setItemForm({
+      track_stock: item.track_stock,
+      stock_quantity: String(item.stock_quantity),
+      low_stock_threshold: String(item.low_stock_threshold),
+      recipe: item.recipe.map(line => ({ ingredient_id: line.ingredient_id, quantity: String(line.quantity) }))
+    });
+    setCurrentView('item');
+  };
+
+  const handleAddIngredient = () => {
+    setEditingIngredient(null);
+    setIngredientForm(EMPTY_INGREDIENT_FORM);
+    setCurrentView('add-ingredient');
+  };
+
+  const handleEditIngredient = (ingredient: Ingredient) => {
+    setEditingIngredient(ingredient);
+    setIngredientForm({
+      name: ingredient.name,
+      unit: ingredient.unit,
+      stock_quantity: String(ingredient.stock_quantity),
+      low_stock_threshold: String(ingredient.low_stock_threshold)
+    });
+    setCurrentView('edit-ingredient');
+  };
+
+  const handleDeleteIngredient = async (ingredient: Ingredient) => {
+    if (!confirm(`Are you sure you want to delete ${ingredient.name}? It will be removed from every recipe.`)) return;
+    try {
+      await deleteIngredient(ingredient.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete ingredient');
+    }
+  };
+
+  const handleSaveItem = async () => {
+    if (!editingItem) return;
+    if (itemForm.recipe.some(line => !line.ingredient_id || !(Number(line.quantity) > 0))) {
+      alert('Please choose an ingredient and an amount for every recipe line');
+      return;
+    }
+
+    const updates: ItemStockInput = {
+      track_stock: itemForm.track_stock,
+      low_stock_threshold: Number(itemForm.low_stock_threshold || 0),
+      recipe: itemForm.recipe.map(line => ({ ingredient_id: line.ingredient_id, quantity: Number(line.quantity) }))
+    };
+    // Only send a count staff actually changed, so orders confirmed meanwhile are not undone
+    if (itemForm.track_stock && Number(itemForm.stock_quantity) !== editingItem.stock_quantity) {
+      updates.stock_quantity = Number(itemForm.stock_quantity || 0);
+    }
+
+    try {
+      setSaving(true);
+      await updateItemStock(editingItem.id, updates);
+      setCurrentView('list');
+      setEditingItem(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveIngredient = async () => {
+    if (!ingredientForm.name.trim()) {
+      alert('Please enter an ingredient name');
+      return;
+    }
+
+    const input: IngredientInput = {
+      name: ingredientForm.name,
+      unit: ingredientForm.unit || 'pcs',
+      stock_quantity: Number(ingredientForm.stock_quantity || 0),
+      low_stock_threshold: Number(ingredientForm.low_stock_threshold || 0)
+    };
+
+    try {
+      setSaving(true);
+      if (editingIngredient) {
+        const { stock_quantity, ...fields } = input;
+        await updateIngredient(
+          editingIngredient.id,
+          stock_quantity !== editingIngredient.stock_quantity ? input : fields
+        );
+      } else {
+        await addIngredient(input);
+      }
+      setCurrentView('list');
+      setEditingIngredient(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save ingredient');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setCurrentView('list');
+    setEditingItem(null);
+    setEditingIngredient(null);
+  };
+
+  const getItemStatus = (item: InventoryItem) => {
+    if (item.auto_sold_out) return { label: 'Sold out', className: 'bg-red-100 text-red-800' };
+    if (!item.available) return { label: 'Unavailable', className: 'bg-gray-100 text-gray-700' };
+    if (item.track_stock && isLowStock(item.stock_quantity, item.low_stock_threshold)) {
+      return { label: 'Low stock', className: 'bg-yellow-100 text-yellow-800' };
+    }
+    return { label: 'Available', className: 'bg-green-100 text-green-800' };
+  };
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  const renderFormHeader = (title: string, onSave: () => void) => (
+    <div className="bg-white shadow-sm border-b">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-16">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={handleCancel}
+              className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              <span>Back</span>
+            </button>
+            <h1 className="text-2xl font-playfair font-semibold text-black">{title}</h1>
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center space-x-2"
+            >
+              <X className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={onSave}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors duration-200 flex items-center space-x-2"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  // Item stock form
+  if (currentView === 'item' && editingItem) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {renderFormHeader(`Stock: ${editingItem.name}`, handleSaveItem)}
+
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-white rounded-xl shadow-sm p-8 space-y-6">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={itemForm.track_stock}
+                onChange={(e) => setItemForm({ ...itemForm, track_stock: e.target.checked })}
+                className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              <span className="text-sm font-medium text-black">Count stock for this item</span>
+            </label>
+
+            {itemForm.track_stock && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-black mb-2">In Stock</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={itemForm.stock_quantity}
+                    onChange={(e) => setItemForm({ ...itemForm, stock_quantity: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-black mb-2">Alert At or Below</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={itemForm.low_stock_threshold}
+                    onChange={(e) => setItemForm({ ...itemForm, low_stock_threshold: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-black">Recipe (per item sold)</label>
+                <button
+                  onClick={() => setItemForm({ ...itemForm, recipe: [...itemForm.recipe, { ingredient_id: '', quantity: '' }] })}
+                  disabled={ingredients.length === 0}
+                  className="flex items-center space-x-1 text-sm text-green-600 hover:text-green-700 disabled:text-gray-400"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Ingredient</span>
+                </button>
+              </div>
+              {itemForm.recipe.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {ingredients.length === 0
+                    ? 'Add ingredients first to use them in recipes.'
+                    : 'No recipe. Add ingredients to sell this item out when any of them runs short.'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {itemForm.recipe.map((line, index) => {
+                    const unit = ingredients.find(ingredient => ingredient.id === line.ingredient_id)?.unit;
+                    return (
+                      <div key={index} className="flex items-center space-x-2">
+                        <select
+                          value={line.ingredient_id}
+                          onChange={(e) => setItemForm({
+                            ...itemForm,
+                            recipe: itemForm.recipe.map((entry, i) => i === index ? { ...entry, ingredient_id: e.target.value } : entry)
+                          })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        >
+                          <option value="">Choose ingredient</option>
+                          {ingredients.map(ingredient => (
+                            <option key={ingredient.id} value={ingredient.id}>{ingredient.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={line.quantity}
+                          onChange={(e) => setItemForm({
+                            ...itemForm,
+                            recipe: itemForm.recipe.map((entry, i) => i === index ? { ...entry, quantity: e.target.value } : entry)
+                          })}
+                          className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                          placeholder="Amount"
+                        />
+                        <span className="w-12 text-sm text-gray-500">{unit || ''}</span>
+                        <button
+                          onClick={() => setItemForm({ ...itemForm, recipe: itemForm.recipe.filter((_, i) => i !== index) })}
+                          className="p-2 text-red-500 hover:bg-red-50 rounded transition-colors duration-200"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Confirming an order takes its items (and recipe ingredients) out of stock; cancelling it puts them back.
+              The item is marked unavailable when it runs out and comes back once restocked.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Ingredient form (Add/Edit)
+  if (currentView === 'add-ingredient' || currentView === 'edit-ingredient') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {renderFormHeader(currentView === 'add-ingredient' ? 'Add Ingredient' : 'Edit Ingredient', handleSaveIngredient)}
+
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-white rounded-xl shadow-sm p-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={ingredientForm.name}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., Fresh milk"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Unit</label>
+                <input
+                  type="text"
+                  value={ingredientForm.unit}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, unit: e.target.value })}
+                  className={inputClassName}
+                  placeholder="e.g., ml, g, pcs"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">In Stock</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={ingredientForm.stock_quantity}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, stock_quantity: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Alert At or Below</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={ingredientForm.low_stock_threshold}
+                  onChange={(e) => setIngredientForm({ ...ingredientForm, low_stock_threshold: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // List View
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+              >
+                <ArrowLeft className="h-5 w-5" />
+                <span>Dashboard</span>
+              </button>
+              <h1 className="text-2xl font-playfair font-semibold text-black">Inventory</h1>
+            </div>
+            <button
+              onClick={handleAddIngredient}
+              className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Ingredient</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {alerts.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
+            <h2 className="flex items-center space-x-2 text-lg font-playfair font-medium text-black mb-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              <span>Low Stock</span>
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {alerts.map(alert => (
+                <li key={`${alert.kind}-${alert.id}`} className="flex justify-between">
+                  <span className="text-gray-800">{alert.name}</span>
+                  <span className={alert.quantity <= 0 ? 'text-red-600 font-medium' : 'text-yellow-700'}>
+                    {describeStockLevel(alert)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="p-6">
+                <h2 className="text-lg font-playfair font-medium text-black mb-4">Menu Items</h2>
+                {items.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No menu items yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {items.map(item => {
+                      const status = getItemStatus(item);
+                      return (
+                        <div
+                          key={item.id}
+                          className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                        >
+                          <div>
+                            <h3 className="font-medium text-black">{item.name}</h3>
+                            <p className="text-sm text-gray-600">
+                              {item.track_stock ? `${item.stock_quantity} in stock • alert at ${item.low_stock_threshold}` : 'Stock not counted'}
+                            </p>
+                            {item.recipe.length > 0 && (
+                              <p className="text-xs text-gray-500">
+                                Uses {item.recipe.map(describeRecipeLine).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                              {status.label}
+                            </span>
+                            <button
+                              onClick={() => handleEditItem(item)}
+                              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="p-6">
+                <h2 className="text-lg font-playfair font-medium text-black mb-4">Ingredients</h2>
+                {ingredients.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500 mb-4">No ingredients yet</p>
+                    <button
+                      onClick={handleAddIngredient}
+                      className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors duration-200"
+                    >
+                      Add First Ingredient
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {ingredients.map(ingredient => (
+                      <div
+                        key={ingredient.id}
+                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                      >
+                        <div>
+                          <h3 className="font-medium text-black">{ingredient.name}</h3>
+                          <p className={`text-sm ${isLowStock(ingredient.stock_quantity, ingredient.low_stock_threshold) ? 'text-yellow-700' : 'text-gray-600'}`}>
+                            {ingredient.stock_quantity} {ingredient.unit} in stock • alert at {ingredient.low_stock_threshold} {ingredient.unit}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <button
+                            onClick={() => handleEditIngredient(ingredient)}
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteIngredient(ingredient)}
+                            className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InventoryManager;
@@ -1,8 +1,11 @@
 'use client';
 
 import React from 'react';
-import { MenuItem, CartItem } from '../types';
+import { MapPin } from 'lucide-react';
+import { Branch, MenuItem, CartItem } from '../types';
 import { useCategories } from '../hooks/useCategories';
+import { useNow } from '../hooks/useNow';
+import { getMenuItemScheduleStatus } from '../lib/schedule';
 import MenuItemCard from './MenuItemCard';
 import MobileNav from './MobileNav';
 
@@ -18,13 +21,17 @@ const preloadImages = (items: MenuItem[]) => {
 
 interface MenuProps {
   menuItems: MenuItem[];
-  addToCart: (item: MenuItem, quantity?: number, variation?: any, addOns?: any[]) => void;
+  addToCart: (item: MenuItem, quantity?: number, variation?: any, addOns?: any[], bundleSelections?: any[]) => void;
   cartItems: CartItem[];
   updateQuantity: (id: string, quantity: number) => void;
+  // Branch whose menu is shown; prices and sold-out items can differ per branch
+  branch?: Branch | null;
+  onChangeBranch?: () => void;
 }
 
-const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuantity }) => {
+const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuantity, branch, onChangeBranch }) => {
   const { categories } = useCategories();
+  const now = useNow();
   const [activeCategory, setActiveCategory] = React.useState('hot-coffee');
 
   // Preload images when menu items change
@@ -100,10 +107,24 @@ const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuan
           Discover our premium milkshakes, decadent bake & shake creations, and refreshing yogurt-based options, 
           all crafted with the finest ingredients.
         </p>
+        {onChangeBranch && (
+          <button
+            onClick={onChangeBranch}
+            className="mt-3 inline-flex items-center gap-1.5 text-sm font-medium text-starrs-teal-dark hover:underline"
+          >
+            <MapPin className="h-4 w-4" />
+            {branch ? `Menu for ${branch.name} · Change branch` : 'Choose a branch to see its menu'}
+          </button>
+        )}
       </div>
 
       {categories.map((category) => {
-        const categoryItems = menuItems.filter(item => item.category === category.id);
+        // Items outside their schedule are greyed out until they next open;
+        // items whose schedule has ended are left off
+        const categoryItems = menuItems
+          .filter(item => item.category === category.id)
+          .map(item => ({ item, schedule: getMenuItemScheduleStatus(item, now) }))
+          .filter(({ schedule }) => schedule.open || schedule.availableFrom);
         
         if (categoryItems.length === 0) return null;
         
@@ -115,15 +136,16 @@ const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuan
             </div>
             
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-              {categoryItems.map((item) => {
+              {categoryItems.map(({ item, schedule }) => {
                 const cartItem = cartItems.find(cartItem => cartItem.id === item.id);
                 return (
                   <MenuItemCard
                     key={item.id}
-                    item={item}
+                    item={schedule.open ? item : { ...item, available: false }}
                     onAddToCart={addToCart}
                     quantity={cartItem?.quantity || 0}
                     onUpdateQuantity={updateQuantity}
+                    availableFrom={item.available ? schedule.label : null}
                   />
                 );
               })}
@@ -1,42 +1,71 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Plus, Minus, X, ShoppingCart } from 'lucide-react';
-import { MenuItem, Variation, AddOn } from '../types';
+import { Plus, Minus, X, ShoppingCart, ChevronLeft, ChevronRight } from 'lucide-react';
+import { MenuItem, Variation, AddOn, AddOnGroup, BundleSelection } from '../types';
+import { priceLine } from '../lib/pricing';
+import { getMinBundleUpcharge, isBundle, resolveBundleSelections } from '../lib/bundles';
+import { checkAddOnGroups, describeAddOnGroup, getAddOnMaxQuantity, isAddOnGroupRequired } from '../lib/addOnGroups';
+import { getMinVariationPrice, resolveVariationChoice } from '../lib/variations';
 
 interface MenuItemCardProps {
   item: MenuItem;
-  onAddToCart: (item: MenuItem, quantity?: number, variation?: Variation, addOns?: AddOn[]) => void;
+  onAddToCart: (item: MenuItem, quantity?: number, variation?: Variation, addOns?: AddOn[], bundleSelections?: BundleSelection[]) => void;
   quantity: number;
   onUpdateQuantity: (id: string, quantity: number) => void;
+  // Set when the item is outside its schedule, e.g. "Available from 11:00 AM"
+  availableFrom?: string | null;
 }
 
 const MenuItemCard: React.FC<MenuItemCardProps> = ({ 
   item, 
   onAddToCart, 
   quantity, 
-  onUpdateQuantity 
+  onUpdateQuantity,
+  availableFrom
 }) => {
   const [showCustomization, setShowCustomization] = useState(false);
   const [selectedVariation, setSelectedVariation] = useState<Variation | undefined>(
     item.variations?.[0]
   );
   const [selectedAddOns, setSelectedAddOns] = useState<(AddOn & { quantity: number })[]>([]);
+  // Items with dimensions pick one option per dimension, starting from the first of each
+  const variationDimensions = item.variationDimensions || [];
+  const getDefaultDimensionPicks = () =>
+    Object.fromEntries(variationDimensions.map(dimension => [dimension.id, dimension.options[0]?.id]));
+  const [dimensionPicks, setDimensionPicks] = useState<Record<string, string>>(getDefaultDimensionPicks);
+  // Combo picker: one step per slot, then sizes and add-ons if the combo has any
+  const [bundleStep, setBundleStep] = useState(0);
+  const [bundlePicks, setBundlePicks] = useState<Record<string, string>>({});
+
+  const bundleSlots = isBundle(item) ? item.bundleSlots || [] : [];
+  const hasOptions = Boolean(item.variations?.length || variationDimensions.length || item.addOns?.length);
+  const currentSlot = bundleStep < bundleSlots.length ? bundleSlots[bundleStep] : null;
+  const totalSteps = bundleSlots.length + (hasOptions ? 1 : 0);
+
+  // Picks so far, for the running price
+  const pickedOptions = bundleSlots.flatMap(slot => slot.options.filter(option => option.id === bundlePicks[slot.id]));
+
+  const dimensionChoice = variationDimensions.length > 0
+    ? resolveVariationChoice(
+        variationDimensions,
+        item.variationOverrides || [],
+        Object.entries(dimensionPicks).map(([dimensionId, optionId]) => ({ dimensionId, optionId }))
+      )
+    : null;
+  const chosenVariation = dimensionChoice
+    ? ('variation' in dimensionChoice ? dimensionChoice.variation : undefined)
+    : selectedVariation;
 
   const calculatePrice = () => {
-    // Use effective price (discounted or regular) as base
-    let price = item.effectivePrice || item.basePrice;
-    if (selectedVariation) {
-      price = (item.effectivePrice || item.basePrice) + selectedVariation.price;
-    }
-    selectedAddOns.forEach(addOn => {
-      price += addOn.price * addOn.quantity;
-    });
-    return price;
+    return priceLine({ item, variation: chosenVariation, addOns: selectedAddOns, bundleSelections: pickedOptions }).unitPrice;
   };
 
   const handleAddToCart = () => {
-    if (item.variations?.length || item.addOns?.length) {
+    if (hasOptions || bundleSlots.length > 0) {
+      setBundleStep(0);
+      setBundlePicks({});
+      setDimensionPicks(getDefaultDimensionPicks());
       setShowCustomization(true);
     } else {
       onAddToCart(item, 1);
@@ -44,13 +73,37 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
   };
 
   const handleCustomizedAddToCart = () => {
+    if (addOnIssues.length > 0) {
+      alert(addOnIssues[0].message);
+      return;
+    }
+
+    let bundleSelections: BundleSelection[] | undefined;
+    if (bundleSlots.length > 0) {
+      const bundle = resolveBundleSelections(
+        bundleSlots,
+        Object.entries(bundlePicks).map(([slotId, optionId]) => ({ slotId, optionId }))
+      );
+      if ('error' in bundle) {
+        alert(bundle.error);
+        return;
+      }
+      bundleSelections = bundle.selections;
+    }
+
     // Convert selectedAddOns back to regular AddOn array for cart
     const addOnsForCart: AddOn[] = selectedAddOns.flatMap(addOn => 
       Array(addOn.quantity).fill({ ...addOn, quantity: undefined })
     );
-    onAddToCart(item, 1, selectedVariation, addOnsForCart);
+    if (dimensionChoice && 'error' in dimensionChoice) {
+      alert(dimensionChoice.error);
+      return;
+    }
+
+    onAddToCart(item, 1, chosenVariation, addOnsForCart, bundleSelections);
     setShowCustomization(false);
     setSelectedAddOns([]);
+    setBundlePicks({});
   };
 
   const handleIncrement = () => {
@@ -84,7 +137,74 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
     });
   };
 
-  const groupedAddOns = item.addOns?.reduce((groups, addOn) => {
+  const addOnGroups = item.addOnGroups || [];
+  const findAddOnGroup = (addOn: AddOn) => addOnGroups.find(group => group.id === addOn.groupId);
+  const addOnIssues = checkAddOnGroups(addOnGroups, selectedAddOns);
+
+  // Picking in a choose-one group swaps the previous pick
+  const pickAddOn = (addOn: AddOn, group?: AddOnGroup) => {
+    if (group?.maxSelect === 1) {
+      setSelectedAddOns(prev => [...prev.filter(a => a.groupId !== group.id), { ...addOn, quantity: 1 }]);
+      return;
+    }
+    updateAddOnQuantity(addOn, 1);
+  };
+
+  const renderAddOn = (addOn: AddOn, group?: AddOnGroup) => {
+    const selected = selectedAddOns.find(a => a.id === addOn.id);
+    const maxQuantity = getAddOnMaxQuantity(group, addOn, selectedAddOns);
+    return (
+      <div
+        key={addOn.id}
+        className="flex items-center justify-between p-4 border-2 border-starrs-teal/20 rounded-xl hover:border-starrs-teal hover:bg-starrs-mint-light transition-all duration-200"
+      >
+        <div className="flex-1">
+          <span className="font-semibold text-starrs-teal-dark">{addOn.name}</span>
+          <div className="text-sm text-starrs-teal-dark/70">
+            {addOn.price > 0 ? `₱${addOn.price.toFixed(2)} each` : 'Free'}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {selected ? (
+            <div className="flex items-center space-x-2 bg-starrs-teal-light rounded-xl p-1 border-2 border-starrs-teal/30">
+              <button
+                type="button"
+                onClick={() => updateAddOnQuantity(addOn, selected.quantity - 1)}
+                className="p-1.5 hover:bg-starrs-teal/20 rounded-lg transition-colors duration-200"
+              >
+                <Minus className="h-3 w-3 text-starrs-teal-dark" />
+              </button>
+              <span className="font-semibold text-starrs-teal-dark min-w-[24px] text-center text-sm">
+                {selected.quantity}
+              </span>
+              <button
+                type="button"
+                onClick={() => updateAddOnQuantity(addOn, selected.quantity + 1)}
+                disabled={maxQuantity !== null && selected.quantity >= maxQuantity}
+                className="p-1.5 hover:bg-starrs-teal/20 rounded-lg transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-3 w-3 text-starrs-teal-dark" />
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => pickAddOn(addOn, group)}
+              disabled={maxQuantity === 0 && group?.maxSelect !== 1}
+              className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 text-sm font-semibold shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-3 w-3" />
+              <span>Add</span>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Add-ons without a group are listed by category, with no limits
+  const groupedAddOns = item.addOns?.filter(addOn => !findAddOnGroup(addOn)).reduce((groups, addOn) => {
     const category = addOn.category;
     if (!groups[category]) {
       groups[category] = [];
@@ -95,14 +215,15 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
 
   // Calculate minimum price (for "from ₱" display)
   const getMinPrice = () => {
-    if (item.isOnDiscount && item.discountPrice) {
-      return item.discountPrice;
+    const bundleSelections = bundleSlots.length > 0 ? [{ upcharge: getMinBundleUpcharge(bundleSlots) }] : null;
+    if (variationDimensions.length > 0) {
+      const variation = { price: getMinVariationPrice(variationDimensions, item.variationOverrides || []) };
+      return priceLine({ item, variation, bundleSelections }).unitPrice;
     }
     if (item.variations && item.variations.length > 0) {
-      const minVariationPrice = Math.min(...item.variations.map(v => v.price));
-      return (item.effectivePrice || item.basePrice) + minVariationPrice;
+      return Math.min(...item.variations.map(variation => priceLine({ item, variation, bundleSelections }).unitPrice));
     }
-    return item.effectivePrice || item.basePrice;
+    return priceLine({ item, bundleSelections }).unitPrice;
   };
 
   return (
@@ -152,6 +273,15 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
             </div>
           )}
 
+          {/* Sold Out Badge - Top Right */}
+          {!item.available && item.autoSoldOut && (
+            <div className="absolute top-3 right-3 z-10">
+              <span className="inline-block bg-gray-900 text-white text-[10px] font-semibold px-2 py-0.5 rounded">
+                SOLD OUT
+              </span>
+            </div>
+          )}
+
           {/* Circular Add Button - Bottom Right */}
           {item.available && (
             <div className="absolute bottom-3 right-3 z-10">
@@ -204,7 +334,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
           
           {/* Price */}
           <p className="text-[16px] text-[#666666]" style={{ fontWeight: 400 }}>
-            {item.variations && item.variations.length > 0 ? (
+            {(item.variations && item.variations.length > 0) || variationDimensions.length > 0 ? (
               <>from ₱{getMinPrice().toFixed(2)}</>
             ) : item.isOnDiscount && item.discountPrice ? (
               <>
@@ -217,6 +347,10 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
               <>from ₱{getMinPrice().toFixed(2)}</>
             )}
           </p>
+
+          {availableFrom && (
+            <p className="text-[13px] font-medium text-starrs-teal-dark">{availableFrom}</p>
+          )}
         </div>
       </div>
 
@@ -226,8 +360,14 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
           <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl border-2 border-starrs-teal/20">
             <div className="sticky top-0 bg-gradient-to-r from-starrs-mint-light to-starrs-teal-light border-b border-starrs-teal/30 p-6 flex items-center justify-between rounded-t-2xl">
               <div>
-                <h3 className="text-xl font-bold text-starrs-teal-dark">Customize {item.name}</h3>
-                <p className="text-sm text-starrs-teal-dark/70 mt-1 font-medium">Choose your preferences</p>
+                <h3 className="text-xl font-bold text-starrs-teal-dark">
+                  {bundleSlots.length > 0 ? 'Build your' : 'Customize'} {item.name}
+                </h3>
+                <p className="text-sm text-starrs-teal-dark/70 mt-1 font-medium">
+                  {bundleSlots.length > 0
+                    ? `Step ${Math.min(bundleStep + 1, totalSteps)} of ${totalSteps}: ${currentSlot ? currentSlot.name : 'Choose your preferences'}`
+                    : 'Choose your preferences'}
+                </p>
               </div>
               <button
                 onClick={() => setShowCustomization(false)}
@@ -237,9 +377,133 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
               </button>
             </div>
 
+            {currentSlot ? (
             <div className="p-6">
+              {/* Combo slot */}
+              <div className="space-y-3 mb-6">
+                {currentSlot.options.map((option) => (
+                  <label
+                    key={option.id}
+                    className={`flex items-center justify-between p-4 border-2 rounded-xl transition-all duration-200 ${
+                      option.available === false
+                        ? 'border-gray-200 opacity-50 cursor-not-allowed'
+                        : bundlePicks[currentSlot.id] === option.id
+                          ? 'border-starrs-teal bg-starrs-teal-light cursor-pointer'
+                          : 'border-starrs-teal/30 hover:border-starrs-teal hover:bg-starrs-mint-light cursor-pointer'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="radio"
+                        name={`bundle-slot-${currentSlot.id}`}
+                        checked={bundlePicks[currentSlot.id] === option.id}
+                        disabled={option.available === false}
+                        onChange={() => setBundlePicks(prev => ({ ...prev, [currentSlot.id]: option.id }))}
+                        className="text-starrs-teal focus:ring-starrs-teal"
+                      />
+                      <span className="font-semibold text-starrs-teal-dark">{option.name}</span>
+                    </div>
+                    <span className="text-sm text-starrs-teal-dark/70 font-medium">
+                      {option.available === false ? 'Sold out' : option.upcharge > 0 ? `+₱${option.upcharge.toFixed(2)}` : 'Included'}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between text-lg font-bold text-starrs-teal-dark mb-6">
+                <span>So far:</span>
+                <span className="text-starrs-green">₱{calculatePrice().toFixed(2)}</span>
+              </div>
+
+              <div className="flex space-x-3">
+                {bundleStep > 0 && (
+                  <button
+                    onClick={() => setBundleStep(bundleStep - 1)}
+                    className="flex items-center justify-center px-4 py-4 border-2 border-starrs-teal/30 text-starrs-teal-dark rounded-xl hover:bg-starrs-mint-light transition-all duration-200 font-semibold"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                )}
+                {bundleStep === bundleSlots.length - 1 && !hasOptions ? (
+                  <button
+                    onClick={handleCustomizedAddToCart}
+                    disabled={!bundlePicks[currentSlot.id]}
+                    className="flex-1 bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 font-semibold flex items-center justify-center space-x-2 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ShoppingCart className="h-5 w-5" />
+                    <span>Add to Cart - ₱{calculatePrice().toFixed(2)}</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setBundleStep(bundleStep + 1)}
+                    disabled={!bundlePicks[currentSlot.id]}
+                    className="flex-1 bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 font-semibold flex items-center justify-center space-x-2 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span>Next</span>
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+            ) : (
+            <div className="p-6">
+              {/* Combo picks so far */}
+              {bundleSlots.length > 0 && (
+                <div className="mb-6 p-4 bg-starrs-mint-light rounded-xl">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-bold text-starrs-teal-dark">Your combo</h4>
+                    <button
+                      onClick={() => setBundleStep(bundleSlots.length - 1)}
+                      className="text-sm text-starrs-teal-dark/70 hover:text-starrs-teal-dark font-medium"
+                    >
+                      Change
+                    </button>
+                  </div>
+                  <ul className="text-sm text-starrs-teal-dark space-y-1">
+                    {pickedOptions.map(option => (
+                      <li key={option.id}>{option.name}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Variation dimensions, one selector each */}
+              {variationDimensions.map(dimension => (
+                <div key={dimension.id} className="mb-6">
+                  <h4 className="font-bold text-starrs-teal-dark mb-4">{dimension.name}</h4>
+                  <div className="grid grid-cols-2 gap-3">
+                    {dimension.options.map(option => (
+                      <label
+                        key={option.id}
+                        className={`flex items-center justify-between p-3 border-2 rounded-xl cursor-pointer transition-all duration-200 ${
+                          dimensionPicks[dimension.id] === option.id
+                            ? 'border-starrs-teal bg-starrs-teal-light'
+                            : 'border-starrs-teal/30 hover:border-starrs-teal hover:bg-starrs-mint-light'
+                        }`}
+                      >
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="radio"
+                            name={`dimension-${dimension.id}`}
+                            checked={dimensionPicks[dimension.id] === option.id}
+                            onChange={() => setDimensionPicks(prev => ({ ...prev, [dimension.id]: option.id }))}
+                            className="text-starrs-teal focus:ring-starrs-teal"
+                          />
+                          <span className="font-semibold text-starrs-teal-dark">{option.name}</span>
+                        </div>
+                        {option.priceDelta !== 0 && (
+                          <span className="text-sm text-starrs-teal-dark/70 font-medium">
+                            {option.priceDelta > 0 ? '+' : '-'}₱{Math.abs(option.priceDelta).toFixed(2)}
+                          </span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
               {/* Size Variations */}
-              {item.variations && item.variations.length > 0 && (
+              {variationDimensions.length === 0 && item.variations && item.variations.length > 0 && (
                 <div className="mb-6">
                   <h4 className="font-bold text-starrs-teal-dark mb-4">Choose Flavor</h4>
                   <div className="space-y-3">
@@ -263,7 +527,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                           <span className="font-semibold text-starrs-teal-dark">{variation.name}</span>
                         </div>
                         <span className="text-starrs-teal-dark font-bold">
-                          ₱{((item.effectivePrice || item.basePrice) + variation.price).toFixed(2)}
+                          ₱{priceLine({ item, variation }).unitPrice.toFixed(2)}
                         </span>
                       </label>
                     ))}
@@ -271,6 +535,25 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                 </div>
               )}
 
+              {/* Add-on groups, with their rules */}
+              {addOnGroups.map(group => {
+                const groupAddOns = item.addOns?.filter(addOn => addOn.groupId === group.id) || [];
+                if (groupAddOns.length === 0) return null;
+                return (
+                  <div key={group.id} className="mb-6">
+                    <div className="flex items-baseline justify-between mb-3">
+                      <h4 className="font-bold text-starrs-teal-dark">{group.name}</h4>
+                      <span className={`text-xs font-semibold ${isAddOnGroupRequired(group) ? 'text-orange-600' : 'text-starrs-teal-dark/60'}`}>
+                        {describeAddOnGroup(group)}
+                      </span>
+                    </div>
+                    <div className="space-y-3">
+                      {groupAddOns.map(addOn => renderAddOn(addOn, group))}
+                    </div>
+                  </div>
+                );
+              })}
+
               {/* Add-ons */}
               {groupedAddOns && Object.keys(groupedAddOns).length > 0 && (
                 <div className="mb-6">
@@ -281,58 +564,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                         {category.replace('-', ' ')}
                       </h5>
                       <div className="space-y-3">
-                        {addOns.map((addOn) => (
-                          <div
-                            key={addOn.id}
-                            className="flex items-center justify-between p-4 border-2 border-starrs-teal/20 rounded-xl hover:border-starrs-teal hover:bg-starrs-mint-light transition-all duration-200"
-                          >
-                            <div className="flex-1">
-                              <span className="font-semibold text-starrs-teal-dark">{addOn.name}</span>
-                              <div className="text-sm text-starrs-teal-dark/70">
-                                {addOn.price > 0 ? `₱${addOn.price.toFixed(2)} each` : 'Free'}
-                              </div>
-                            </div>
-                            
-                            <div className="flex items-center space-x-2">
-                              {selectedAddOns.find(a => a.id === addOn.id) ? (
-                                <div className="flex items-center space-x-2 bg-starrs-teal-light rounded-xl p-1 border-2 border-starrs-teal/30">
-                                  <button
-                                    type="button"
-                                    onClick={() => {
-                                      const current = selectedAddOns.find(a => a.id === addOn.id);
-                                      updateAddOnQuantity(addOn, (current?.quantity || 1) - 1);
-                                    }}
-                                    className="p-1.5 hover:bg-starrs-teal/20 rounded-lg transition-colors duration-200"
-                                  >
-                                    <Minus className="h-3 w-3 text-starrs-teal-dark" />
-                                  </button>
-                                  <span className="font-semibold text-starrs-teal-dark min-w-[24px] text-center text-sm">
-                                    {selectedAddOns.find(a => a.id === addOn.id)?.quantity || 0}
-                                  </span>
-                                  <button
-                                    type="button"
-                                    onClick={() => {
-                                      const current = selectedAddOns.find(a => a.id === addOn.id);
-                                      updateAddOnQuantity(addOn, (current?.quantity || 0) + 1);
-                                    }}
-                                    className="p-1.5 hover:bg-starrs-teal/20 rounded-lg transition-colors duration-200"
-                                  >
-                                    <Plus className="h-3 w-3 text-starrs-teal-dark" />
-                                  </button>
-                                </div>
-                              ) : (
-                                <button
-                                  type="button"
-                                  onClick={() => updateAddOnQuantity(addOn, 1)}
-                                  className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 text-sm font-semibold shadow-lg"
-                                >
-                                  <Plus className="h-3 w-3" />
-                                  <span>Add</span>
-                                </button>
-                              )}
-                            </div>
-                          </div>
-                        ))}
+                        {addOns.map(addOn => renderAddOn(addOn))}
                       </div>
                     </div>
                   ))}
@@ -347,14 +579,20 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                 </div>
               </div>
 
+              {addOnIssues.length > 0 && (
+                <p className="text-sm text-orange-600 font-medium mb-3">{addOnIssues[0].message}</p>
+              )}
+
               <button
                 onClick={handleCustomizedAddToCart}
-                className="w-full bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 font-semibold flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl transform hover:scale-105"
+                disabled={addOnIssues.length > 0}
+                className="w-full bg-gradient-to-r from-starrs-teal to-starrs-teal-dark text-white py-4 rounded-xl hover:from-starrs-teal-dark hover:to-starrs-teal-darker transition-all duration-200 font-semibold flex items-center justify-center space-x-2 shadow-lg hover:shadow-xl transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
               >
                 <ShoppingCart className="h-5 w-5" />
                 <span>Add to Cart - ₱{calculatePrice().toFixed(2)}</span>
               </button>
             </div>
+            )}
           </div>
         </div>
       )}
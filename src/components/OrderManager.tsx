@@ -1,16 +1,37 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ArrowLeft, Search, CheckCircle, XCircle, Clock, Package, Truck, CheckSquare, Square, ExternalLink, DollarSign, Activity, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ArrowLeft, Search, CheckCircle, XCircle, Clock, Package, Truck, CheckSquare, Square, ExternalLink, DollarSign, Activity, RefreshCw, User, AlertTriangle, CalendarClock } from 'lucide-react';
 import { useOrders } from '../hooks/useOrders';
-import { Order, OrderStatus, OrderFilters } from '../types';
+import { useSiteSettings } from '../hooks/useSiteSettings';
+import { useNow } from '../hooks/useNow';
+import BranchPauseControl from './BranchPauseControl';
+import { describeScheduledFor, getKitchenReleaseAt, getOrderAheadSettings, isHeldForLater } from '../lib/orderAhead';
+import { ORDER_STATUSES, getNextStatuses, formatStatus } from '../lib/orderStatus';
+import { STATUTORY_DISCOUNT_LABELS } from '../lib/statutoryDiscount';
+import { getDeliverySubsidy } from '../lib/deliveryFee';
+import { Order, OrderStatus, OrderFilters, OrderStatusEvent, LalamoveDriver } from '../types';
 
 interface OrderManagerProps {
   onBack: () => void;
 }
 
 const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
-  const { orders, loading, fetchOrders, updateOrderStatus, bulkUpdateStatus, getOrderStats } = useOrders();
+  const {
+    orders,
+    loading,
+    fetchOrders,
+    fetchOrderById,
+    updateOrderStatus,
+    bulkUpdateStatus,
+    cancelCourier,
+    refreshCourierStatus,
+    fetchCourierDriver,
+    addCourierPriorityFee,
+    retryDeliveryBooking,
+    processDeliveryBookings,
+    getOrderStats
+  } = useOrders();
   const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
   const [filters, setFilters] = useState<OrderFilters>({});
   const [searchTerm, setSearchTerm] = useState('');
@@ -27,10 +48,31 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
   });
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [statusEvents, setStatusEvents] = useState<OrderStatusEvent[]>([]);
+  const [loadingEvents, setLoadingEvents] = useState(false);
+  const [courierAction, setCourierAction] = useState<string | null>(null);
+  const [retryingBookingId, setRetryingBookingId] = useState<string | null>(null);
+  const [driverDetails, setDriverDetails] = useState<LalamoveDriver | null>(null);
   const [isRealTimeActive, setIsRealTimeActive] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const isInitialMount = useRef(true);
 
+  // Confirmed orders for later wait in the scheduled queue until the kitchen
+  // lead time before they are due
+  const { siteSettings } = useSiteSettings();
+  const now = useNow();
+  const [queue, setQueue] = useState<'active' | 'scheduled'>('active');
+  const leadMinutes = getOrderAheadSettings(siteSettings).leadMinutes;
+  const scheduledOrders = useMemo(
+    () => orders
+      .filter(order => isHeldForLater(order, leadMinutes, now))
+      .sort((a, b) => new Date(a.scheduled_for as string).getTime() - new Date(b.scheduled_for as string).getTime()),
+    [orders, leadMinutes, now]
+  );
+  const visibleOrders = queue === 'scheduled'
+    ? scheduledOrders
+    : orders.filter(order => !scheduledOrders.includes(order));
+
   const loadStats = useCallback(async () => {
     try {
       const orderStats = await getOrderStats();
@@ -97,20 +139,170 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
     return () => clearInterval(statsInterval);
   }, [isRealTimeActive, loadStats]);
 
-  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
+  // Retry courier bookings while this screen is open (a scheduler can also call the endpoint)
+  useEffect(() => {
+    const bookingInterval = setInterval(() => {
+      if (isRealTimeActive) {
+        processDeliveryBookings().catch(err => console.error('Error processing delivery bookings:', err));
+      }
+    }, 60000);
+
+    return () => clearInterval(bookingInterval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRealTimeActive]); // processDeliveryBookings only wraps fetch
+
+  // Load the full order (with status history) when the details modal opens
+  const selectedOrderId = selectedOrder?.id;
+  const loadOrderDetails = useCallback(async (orderId: string) => {
+    try {
+      setLoadingEvents(true);
+      const order = await fetchOrderById(orderId);
+      if (order) {
+        setSelectedOrder(order);
+        setStatusEvents(order.status_events || []);
+      }
+    } catch (error) {
+      console.error('Error loading order details:', error);
+    } finally {
+      setLoadingEvents(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // fetchOrderById only wraps fetch
+
+  useEffect(() => {
+    setStatusEvents([]);
+    setDriverDetails(null);
+    if (selectedOrderId) {
+      void loadOrderDetails(selectedOrderId);
+    }
+  }, [selectedOrderId, loadOrderDetails]);
+
+  // Cancelling asks for a reason, which is kept in the status history
+  const askStatusReason = (newStatus: OrderStatus): string | null | undefined => {
+    if (newStatus !== 'cancelled') return undefined;
+    return prompt('Reason for cancelling (optional):', '');
+  };
+
+  const handleStatusChange = async (orderId: string, newStatus: OrderStatus): Promise<boolean> => {
+    const reason = askStatusReason(newStatus);
+    if (reason === null) return false;
+
     try {
       setIsProcessing(true);
-      await updateOrderStatus(orderId, newStatus);
+      const result = await updateOrderStatus(orderId, newStatus, reason);
+      if (result.courierCancellation?.error) {
+        alert(`Order cancelled, but the Lalamove booking could not be cancelled: ${result.courierCancellation.error}\n\nUse "Cancel courier" in the order details to try again.`);
+      }
       setSelectedOrders([]);
       await loadStats();
       await fetchOrders(filters);
+      return true;
     } catch (error) {
       alert(error instanceof Error ? error.message : 'Failed to update order status');
+      return false;
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleRetryBooking = async (orderId: string) => {
+    try {
+      setRetryingBookingId(orderId);
+      const booking = await retryDeliveryBooking(orderId);
+      if (booking?.status === 'failed' || booking?.status === 'queued') {
+        alert(`Courier booking failed: ${booking.last_error || 'Unknown error'}`);
+      }
+      if (selectedOrder?.id === orderId) {
+        await loadOrderDetails(orderId);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to book courier');
+    } finally {
+      setRetryingBookingId(null);
+    }
+  };
+
+  // Booking in progress, or failed with a retry button
+  const renderBookingState = (order: Order) => {
+    const booking = order.delivery_booking;
+    if (!booking || order.lalamove_order_id) return null;
+
+    if (booking.status === 'failed') {
+      return (
+        <button
+          onClick={() => handleRetryBooking(order.id)}
+          disabled={retryingBookingId === order.id}
+          title={booking.last_error || undefined}
+          className="inline-flex items-center gap-1 text-xs text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+        >
+          <AlertTriangle className="h-3 w-3" />
+          <span>{retryingBookingId === order.id ? 'Booking...' : 'Booking failed — retry'}</span>
+        </button>
+      );
+    }
+
+    if (booking.status === 'queued' || booking.status === 'processing') {
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-amber-600 font-medium" title={booking.last_error || undefined}>
+          <Clock className="h-3 w-3" />
+          {booking.attempts > 0 ? `Booking courier (retry ${booking.attempts}/${booking.max_attempts})` : 'Booking courier...'}
+        </span>
+      );
+    }
+
+    return null;
+  };
+
+  // Lalamove booking actions from the order details modal
+  const runCourierAction = async (action: string, run: (orderId: string) => Promise<void>) => {
+    if (!selectedOrder) return;
+    try {
+      setCourierAction(action);
+      await run(selectedOrder.id);
+      await loadOrderDetails(selectedOrder.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Lalamove request failed');
+    } finally {
+      setCourierAction(null);
+    }
+  };
+
+  const handleCancelCourier = () => {
+    if (!confirm('Cancel the Lalamove booking for this order? The order itself will not be cancelled.')) return;
+    void runCourierAction('cancel', cancelCourier);
+  };
+
+  const handleRefreshCourier = () => {
+    void runCourierAction('status', refreshCourierStatus);
+  };
+
+  const handleFetchDriver = () => {
+    void runCourierAction('driver', async (orderId) => {
+      const driver = await fetchCourierDriver(orderId);
+      if (!driver) {
+        alert('No driver has been assigned yet');
+      }
+      setDriverDetails(driver);
+    });
+  };
+
+  const handleAddPriorityFee = () => {
+    const input = prompt('Priority fee to add (₱):', '20');
+    if (input === null) return;
+    const amount = Number(input);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert('Enter a positive amount');
+      return;
+    }
+    void runCourierAction('priority-fee', (orderId) => addCourierPriorityFee(orderId, amount));
+  };
+
+  // Only offer the current status and the statuses it can move to
+  const getStatusOptions = (order: Order): OrderStatus[] => [
+    order.status,
+    ...getNextStatuses(order.service_type, order.status)
+  ];
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -128,14 +320,25 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
       return;
     }
 
-    if (confirm(`Are you sure you want to update ${selectedOrders.length} order(s) to "${newStatus}"?`)) {
+    if (confirm(`Are you sure you want to update ${selectedOrders.length} order(s) to "${formatStatus(newStatus)}"?`)) {
+      const reason = askStatusReason(newStatus);
+      if (reason === null) return;
+
       try {
         setIsProcessing(true);
-        await bulkUpdateStatus(selectedOrders, newStatus);
+        const result = await bulkUpdateStatus(selectedOrders, newStatus, reason);
         setSelectedOrders([]);
         // Don't wait for stats to load - update in background
         loadStats().catch(err => console.error('Error loading stats:', err));
-        alert(`Successfully updated ${selectedOrders.length} order(s)`);
+        const courierNote = result.courierErrors.length > 0
+          ? `\n\nLalamove bookings that could not be cancelled:\n${result.courierErrors.map(order => `${order.order_number}: ${order.error}`).join('\n')}`
+          : '';
+        if (result.skipped.length > 0) {
+          const skippedList = result.skipped.map(order => `${order.order_number}: ${order.reason}`).join('\n');
+          alert(`Updated ${result.updated} order(s). ${result.skipped.length} could not be changed:\n\n${skippedList}${courierNote}`);
+        } else {
+          alert(`Successfully updated ${result.updated} order(s)${courierNote}`);
+        }
       } catch (error) {
         alert(error instanceof Error ? error.message : 'Failed to update orders');
       } finally {
@@ -153,10 +356,10 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
   };
 
   const handleSelectAll = () => {
-    if (selectedOrders.length === orders.length) {
+    if (selectedOrders.length === visibleOrders.length) {
       setSelectedOrders([]);
     } else {
-      setSelectedOrders(orders.map(order => order.id));
+      setSelectedOrders(visibleOrders.map(order => order.id));
     }
   };
 
@@ -183,7 +386,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
     });
   };
 
-  const statusOptions: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery', 'completed', 'cancelled'];
+  const statusOptions: OrderStatus[] = ORDER_STATUSES;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -210,7 +413,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
           <div>
             <h2 className="text-lg font-semibold text-gray-900">Orders Overview</h2>
             <p className="text-sm text-gray-500 mt-1">
-              {orders.length} {orders.length === 1 ? 'order' : 'orders'} found
+              {visibleOrders.length} {visibleOrders.length === 1 ? 'order' : 'orders'} found
             </p>
           </div>
           <div className="flex items-center gap-3">
@@ -231,6 +434,9 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
           </div>
         </div>
 
+        {/* Online ordering pause */}
+        <BranchPauseControl />
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 hover:shadow-md transition-shadow">
@@ -382,6 +588,30 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
           </div>
         )}
 
+        {/* Queues */}
+        <div className="flex items-center gap-2 mb-4">
+          {[
+            { value: 'active', label: 'Orders', count: orders.length - scheduledOrders.length },
+            { value: 'scheduled', label: 'Scheduled', count: scheduledOrders.length }
+          ].map(option => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setQueue(option.value as 'active' | 'scheduled');
+                setSelectedOrders([]);
+              }}
+              className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                queue === option.value
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.value === 'scheduled' && <CalendarClock className="h-4 w-4" />}
+              <span>{option.label} ({option.count})</span>
+            </button>
+          ))}
+        </div>
+
         {/* Orders List */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
           {loading ? (
@@ -389,11 +619,15 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
               <div className="animate-spin rounded-full h-10 w-10 border-2 border-gray-300 border-t-blue-600 mx-auto mb-4"></div>
               <p className="text-sm text-gray-500">Loading orders...</p>
             </div>
-          ) : orders.length === 0 ? (
+          ) : visibleOrders.length === 0 ? (
             <div className="p-12 text-center">
               <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
-              <p className="text-base font-medium text-gray-600 mb-1">No orders found</p>
-              <p className="text-sm text-gray-500">Try adjusting your filters</p>
+              <p className="text-base font-medium text-gray-600 mb-1">
+                {queue === 'scheduled' ? 'No scheduled orders waiting' : 'No orders found'}
+              </p>
+              <p className="text-sm text-gray-500">
+                {queue === 'scheduled' ? 'Confirmed orders for later wait here until they are due' : 'Try adjusting your filters'}
+              </p>
             </div>
           ) : (
             <>
@@ -408,7 +642,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                           className="flex items-center"
                           title="Select all"
                         >
-                          {selectedOrders.length === orders.length && orders.length > 0 ? (
+                          {selectedOrders.length === visibleOrders.length && visibleOrders.length > 0 ? (
                             <CheckSquare className="h-4 w-4 text-blue-600" />
                           ) : (
                             <Square className="h-4 w-4 text-gray-400" />
@@ -426,7 +660,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {orders.map((order) => (
+                    {visibleOrders.map((order) => (
                       <tr key={order.id} className="hover:bg-gray-50 transition-colors">
                         <td className="px-4 py-3 whitespace-nowrap">
                           <button 
@@ -442,6 +676,12 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
                           <div className="font-semibold text-gray-900">{order.order_number}</div>
+                          {order.scheduled_for && (
+                            <div className="inline-flex items-center gap-1 mt-1 text-xs font-medium text-purple-700">
+                              <CalendarClock className="h-3 w-3" />
+                              <span>{describeScheduledFor(order.scheduled_for, now)}</span>
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-3">
                           <div>
@@ -464,9 +704,9 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                             disabled={isProcessing}
                             className={`px-2 py-1 rounded-md text-xs font-medium border cursor-pointer ${getStatusColor(order.status)} focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed`}
                           >
-                            {statusOptions.map(status => (
+                            {getStatusOptions(order).map(status => (
                               <option key={status} value={status}>
-                                {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+                                {formatStatus(status)}
                               </option>
                             ))}
                           </select>
@@ -479,6 +719,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                                   ₱{order.delivery_fee.toLocaleString()}
                                 </div>
                               )}
+                              {renderBookingState(order)}
                               {order.lalamove_order_id && (
                                 <div className="flex items-center gap-1">
                                   <Activity className="h-3 w-3 text-blue-500" />
@@ -522,7 +763,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
 
               {/* Mobile/Tablet Card View */}
               <div className="lg:hidden">
-                {orders.map((order) => (
+                {visibleOrders.map((order) => (
                   <div key={order.id} className="p-4 border-b border-gray-200 hover:bg-gray-50 transition-colors">
                     <div className="flex items-start justify-between mb-3">
                       <div className="flex items-start gap-3 flex-1">
@@ -540,6 +781,12 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                           <div className="font-semibold text-gray-900 mb-1">{order.order_number}</div>
                           <div className="text-sm text-gray-600 mb-1">{order.customer_name}</div>
                           <div className="text-xs text-gray-500">{order.contact_number}</div>
+                          {order.scheduled_for && (
+                            <div className="inline-flex items-center gap-1 mt-1 text-xs font-medium text-purple-700">
+                              <CalendarClock className="h-3 w-3" />
+                              <span>{describeScheduledFor(order.scheduled_for, now)}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                       <select
@@ -548,9 +795,9 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                         disabled={isProcessing}
                         className={`px-2 py-1 rounded-md text-xs font-medium border ${getStatusColor(order.status)} focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50`}
                       >
-                        {statusOptions.map(status => (
+                        {getStatusOptions(order).map(status => (
                           <option key={status} value={status}>
-                            {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+                            {formatStatus(status)}
                           </option>
                         ))}
                       </select>
@@ -570,6 +817,24 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                           <span className="text-gray-900">₱{order.delivery_fee.toLocaleString()}</span>
                         </div>
                       )}
+                      {order.voucher_code && (
+                        <div>
+                          <span className="text-xs text-gray-500 block mb-0.5">Voucher</span>
+                          <span className="text-green-700">{order.voucher_code} (-₱{(order.discount_amount ?? 0).toLocaleString()})</span>
+                        </div>
+                      )}
+                      {order.statutory_discount_type && (
+                        <div>
+                          <span className="text-xs text-gray-500 block mb-0.5">{STATUTORY_DISCOUNT_LABELS[order.statutory_discount_type]}</span>
+                          <span className="text-green-700">-₱{((order.vat_exemption ?? 0) + (order.statutory_discount ?? 0)).toLocaleString()}</span>
+                        </div>
+                      )}
+                      {order.service_type === 'delivery' && order.delivery_booking && !order.lalamove_order_id && (
+                        <div>
+                          <span className="text-xs text-gray-500 block mb-0.5">Courier</span>
+                          {renderBookingState(order)}
+                        </div>
+                      )}
                       {order.service_type === 'delivery' && order.lalamove_tracking_url && (
                         <div>
                           <span className="text-xs text-gray-500 block mb-0.5">Tracking</span>
@@ -648,7 +913,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                 </div>
               </div>
               {/* Delivery/Pickup Information */}
-              {(selectedOrder.address || selectedOrder.pickup_time || selectedOrder.party_size) && (
+              {(selectedOrder.address || selectedOrder.pickup_time || selectedOrder.party_size || selectedOrder.scheduled_for) && (
                 <div className="bg-gray-50 rounded-lg p-4">
                   <h3 className="text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wide">
                     {selectedOrder.service_type === 'delivery' ? 'Delivery' : selectedOrder.service_type === 'pickup' ? 'Pickup' : 'Dine-in'} Information
@@ -664,6 +929,15 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                       )}
                     </div>
                   )}
+                  {selectedOrder.scheduled_for && (
+                    <div className="mb-3">
+                      <p className="text-xs text-gray-500 mb-1">Scheduled For</p>
+                      <p className="text-base text-gray-900">{formatDate(selectedOrder.scheduled_for)}</p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Sent to the kitchen at {formatDate(getKitchenReleaseAt(selectedOrder.scheduled_for, leadMinutes).toISOString())}
+                      </p>
+                    </div>
+                  )}
                   {selectedOrder.pickup_time && (
                     <div>
                       <p className="text-xs text-gray-500 mb-1">Pickup Time</p>
@@ -676,7 +950,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                       <p className="text-base text-gray-900">{selectedOrder.party_size} person{selectedOrder.party_size !== 1 ? 's' : ''}</p>
                     </div>
                   )}
-                  {selectedOrder.dine_in_time && (
+                  {selectedOrder.dine_in_time && !selectedOrder.scheduled_for && (
                     <div>
                       <p className="text-xs text-gray-500 mb-1">Preferred Time</p>
                       <p className="text-base text-gray-900">{formatDate(selectedOrder.dine_in_time)}</p>
@@ -733,7 +1007,7 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                           selectedOrder.lalamove_status.toLowerCase().includes('picked') ||
                           selectedOrder.lalamove_status.toLowerCase().includes('delivered')
                             ? 'bg-green-100 text-green-800 border border-green-200'
-                            : selectedOrder.lalamove_status.toLowerCase().includes('cancelled') || 
+                            : selectedOrder.lalamove_status.toLowerCase().includes('cancel') || 
                               selectedOrder.lalamove_status.toLowerCase().includes('failed')
                             ? 'bg-red-100 text-red-800 border border-red-200'
                             : 'bg-blue-100 text-blue-800 border border-blue-200'
@@ -744,6 +1018,57 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                     </div>
                   )}
 
+                  {selectedOrder.lalamove_driver_name && (
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <User className="h-4 w-4 text-gray-500" />
+                        <span className="text-sm font-medium text-gray-700">Driver</span>
+                      </div>
+                      <p className="text-sm text-gray-900">
+                        {selectedOrder.lalamove_driver_name}
+                        {selectedOrder.lalamove_driver_plate && ` · ${selectedOrder.lalamove_driver_plate}`}
+                        {selectedOrder.lalamove_driver_phone && (
+                          <a href={`tel:${selectedOrder.lalamove_driver_phone}`} className="ml-2 text-blue-600 hover:text-blue-800">
+                            {selectedOrder.lalamove_driver_phone}
+                          </a>
+                        )}
+                      </p>
+                    </div>
+                  )}
+
+                  {selectedOrder.lalamove_price !== null && selectedOrder.lalamove_price !== undefined ? (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <DollarSign className="h-4 w-4 text-gray-500" />
+                        <span className="text-sm font-medium text-gray-700">Courier Cost</span>
+                      </div>
+                      <span className="text-sm font-semibold text-black">₱{selectedOrder.lalamove_price.toLocaleString()}</span>
+                    </div>
+                  ) : selectedOrder.delivery_courier_cost !== null && selectedOrder.delivery_courier_cost !== undefined && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <DollarSign className="h-4 w-4 text-gray-500" />
+                        <span className="text-sm font-medium text-gray-700">Courier Cost (quoted)</span>
+                      </div>
+                      <span className="text-sm font-semibold text-black">₱{selectedOrder.delivery_courier_cost.toLocaleString()}</span>
+                    </div>
+                  )}
+
+                  {(() => {
+                    const subsidy = getDeliverySubsidy(selectedOrder);
+                    return subsidy !== null && subsidy !== 0 && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <DollarSign className="h-4 w-4 text-gray-500" />
+                          <span className="text-sm font-medium text-gray-700">
+                            {subsidy > 0 ? 'Delivery Subsidy' : 'Delivery Margin'}
+                          </span>
+                        </div>
+                        <span className="text-sm font-semibold text-black">₱{Math.abs(subsidy).toLocaleString()}</span>
+                      </div>
+                    );
+                  })()}
+
                   {selectedOrder.lalamove_tracking_url && (
                     <div>
                       <a
@@ -758,6 +1083,95 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                     </div>
                   )}
 
+                  {driverDetails?.location && (
+                    <div className="text-sm text-gray-700">
+                      Driver last seen at{' '}
+                      <a
+                        href={`https://www.google.com/maps?q=${driverDetails.location.lat},${driverDetails.location.lng}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {driverDetails.location.lat.toFixed(5)}, {driverDetails.location.lng.toFixed(5)}
+                      </a>
+                      {driverDetails.location.updatedAt && ` (${formatDate(driverDetails.location.updatedAt)})`}
+                    </div>
+                  )}
+
+                  {selectedOrder.lalamove_order_id && (
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      <button
+                        onClick={handleRefreshCourier}
+                        disabled={courierAction !== null}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        <RefreshCw className={`h-3 w-3 ${courierAction === 'status' ? 'animate-spin' : ''}`} />
+                        Refresh status
+                      </button>
+                      <button
+                        onClick={handleFetchDriver}
+                        disabled={courierAction !== null}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        <User className="h-3 w-3" />
+                        {courierAction === 'driver' ? 'Loading driver...' : 'Driver details'}
+                      </button>
+                      <button
+                        onClick={handleAddPriorityFee}
+                        disabled={courierAction !== null}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        <DollarSign className="h-3 w-3" />
+                        Add priority fee
+                      </button>
+                      <button
+                        onClick={handleCancelCourier}
+                        disabled={courierAction !== null}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <XCircle className="h-3 w-3" />
+                        {courierAction === 'cancel' ? 'Cancelling...' : 'Cancel courier'}
+                      </button>
+                    </div>
+                  )}
+
+                  {selectedOrder.delivery_booking && !selectedOrder.lalamove_order_id && (
+                    <div className={`rounded-lg border p-3 text-sm ${
+                      selectedOrder.delivery_booking.status === 'failed'
+                        ? 'bg-red-50 border-red-200 text-red-800'
+                        : 'bg-amber-50 border-amber-200 text-amber-800'
+                    }`}>
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <p className="font-medium">
+                            {selectedOrder.delivery_booking.status === 'failed'
+                              ? 'Courier booking failed'
+                              : selectedOrder.delivery_booking.status === 'cancelled'
+                                ? 'Courier booking cancelled'
+                                : 'Booking courier'}
+                            {' '}({selectedOrder.delivery_booking.attempts}/{selectedOrder.delivery_booking.max_attempts} attempts)
+                          </p>
+                          {selectedOrder.delivery_booking.last_error && (
+                            <p className="text-xs mt-1">{selectedOrder.delivery_booking.last_error}</p>
+                          )}
+                          {selectedOrder.delivery_booking.status === 'queued' && selectedOrder.delivery_booking.attempts > 0 && (
+                            <p className="text-xs mt-1">Next attempt {formatDate(selectedOrder.delivery_booking.next_attempt_at)}</p>
+                          )}
+                        </div>
+                        {selectedOrder.delivery_booking.status !== 'cancelled' && selectedOrder.status !== 'cancelled' && (
+                          <button
+                            onClick={() => handleRetryBooking(selectedOrder.id)}
+                            disabled={retryingBookingId === selectedOrder.id || selectedOrder.delivery_booking.status === 'processing'}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-white border border-current rounded-lg hover:bg-gray-50 disabled:opacity-50 whitespace-nowrap"
+                          >
+                            <RefreshCw className={`h-3 w-3 ${retryingBookingId === selectedOrder.id ? 'animate-spin' : ''}`} />
+                            Retry now
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {!selectedOrder.lalamove_order_id && !selectedOrder.lalamove_quotation_id && (
                     <div className="text-sm text-gray-500 italic">
                       No Lalamove delivery information available yet.
@@ -774,10 +1188,26 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                       <div className="flex-1">
                         <p className="font-semibold text-gray-900 mb-1">{item.menu_item_name}</p>
                         <div className="space-y-1">
-                          {item.selected_variation && (
+                          {item.selected_variation && (item.selected_variation.options?.length ? (
+                            item.selected_variation.options.map(choice => (
+                              <p key={choice.dimensionId} className="text-sm text-gray-600">
+                                <span className="font-medium">{choice.dimensionName}:</span> {choice.name}
+                              </p>
+                            ))
+                          ) : (
                             <p className="text-sm text-gray-600">
                               <span className="font-medium">Variation:</span> {item.selected_variation.name}
                             </p>
+                          ))}
+                          {item.bundle_selections && item.bundle_selections.length > 0 && (
+                            <ul className="text-sm text-gray-600 list-disc pl-5">
+                              {item.bundle_selections.map(selection => (
+                                <li key={selection.slotId}>
+                                  <span className="font-medium">{selection.slotName}:</span> {selection.name}
+                                  {selection.upcharge > 0 && ` (+₱${selection.upcharge.toLocaleString()})`}
+                                </li>
+                              ))}
+                            </ul>
                           )}
                           {item.selected_add_ons && item.selected_add_ons.length > 0 && (
                             <p className="text-sm text-gray-600">
@@ -787,6 +1217,11 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                           <p className="text-xs text-gray-500">
                             Quantity: {item.quantity} × ₱{item.unit_price.toLocaleString()}
                           </p>
+                          {item.statutory_eligible && (
+                            <p className="text-xs text-green-700">
+                              {STATUTORY_DISCOUNT_LABELS[selectedOrder.statutory_discount_type ?? 'senior']}: VAT-exempt ₱{(item.vat_exempt_base ?? 0).toLocaleString()}, less 20% ₱{(item.statutory_discount ?? 0).toLocaleString()}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="ml-4 text-right">
@@ -799,6 +1234,32 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
 
               {/* Order Summary */}
               <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                {selectedOrder.voucher_code && (
+                  <div className="flex items-center justify-between text-sm text-green-700 mb-2">
+                    <span>Voucher {selectedOrder.voucher_code}</span>
+                    <span className="font-semibold">-₱{(selectedOrder.discount_amount ?? 0).toLocaleString()}</span>
+                  </div>
+                )}
+                {selectedOrder.statutory_discount_type && (
+                  <div className="mb-3 pb-3 border-b border-gray-200 space-y-1 text-sm">
+                    <div className="flex items-center justify-between text-gray-700">
+                      <span className="font-medium">{STATUTORY_DISCOUNT_LABELS[selectedOrder.statutory_discount_type]} discount</span>
+                      <span>{selectedOrder.statutory_name} · ID {selectedOrder.statutory_id_number}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-gray-600">
+                      <span>VAT-exempt sales</span>
+                      <span>₱{(selectedOrder.vat_exempt_sales ?? 0).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-green-700">
+                      <span>Less VAT exemption (12%)</span>
+                      <span className="font-semibold">-₱{(selectedOrder.vat_exemption ?? 0).toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-green-700">
+                      <span>Less 20% discount</span>
+                      <span className="font-semibold">-₱{(selectedOrder.statutory_discount ?? 0).toLocaleString()}</span>
+                    </div>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-base font-semibold text-gray-700">Order Total</span>
                   <span className="text-2xl font-bold text-gray-900">₱{selectedOrder.total.toLocaleString()}</span>
@@ -812,6 +1273,43 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                 </div>
               )}
 
+              {/* Status Timeline */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-3 uppercase tracking-wide">Status History</h3>
+                {loadingEvents && statusEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500">Loading history...</p>
+                ) : statusEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">No status changes recorded yet.</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                    {statusEvents.map((event) => (
+                      <li key={event.id} className="ml-4">
+                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={`px-2 py-0.5 rounded-md text-xs font-medium border ${getStatusColor(event.to_status)}`}>
+                            {formatStatus(event.to_status)}
+                          </span>
+                          {event.from_status && (
+                            <span className="text-xs text-gray-500">from {formatStatus(event.from_status)}</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDate(event.created_at)} · {event.actor_name}
+                        </p>
+                        {event.reason && (
+                          <p className="text-sm text-gray-700 mt-1">{event.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {selectedOrder.completed_at && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Completed {formatDate(selectedOrder.completed_at)}
+                  </p>
+                )}
+              </div>
+
               {/* Order Status & Actions */}
               <div className="border-t border-gray-200 pt-4">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
@@ -819,16 +1317,18 @@ const OrderManager: React.FC<OrderManagerProps> = ({ onBack }) => {
                     <p className="text-xs text-gray-500 mb-2">Order Status</p>
                     <select
                       value={selectedOrder.status}
-                      onChange={(e) => {
-                        handleStatusChange(selectedOrder.id, e.target.value as OrderStatus);
-                        setSelectedOrder({ ...selectedOrder, status: e.target.value as OrderStatus });
+                      onChange={async (e) => {
+                        const changed = await handleStatusChange(selectedOrder.id, e.target.value as OrderStatus);
+                        if (changed) {
+                          await loadOrderDetails(selectedOrder.id);
+                        }
                       }}
                       disabled={isProcessing}
                       className={`px-4 py-2 rounded-lg text-sm font-medium border ${getStatusColor(selectedOrder.status)} focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed`}
                     >
-                      {statusOptions.map(status => (
+                      {getStatusOptions(selectedOrder).map(status => (
                         <option key={status} value={status}>
-                          {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
+                          {formatStatus(status)}
                         </option>
                       ))}
                     </select>
@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Circle, Clock, ExternalLink, Phone, Search, Truck, XCircle } from 'lucide-react';
+import { useOrderTracking } from '../hooks/useOrderTracking';
+import { findStatusPath, formatStatus } from '../lib/orderStatus';
+import { describeScheduledFor } from '../lib/orderAhead';
+import type { OrderStatus, OrderTracking } from '../types';
+
+interface OrderTrackerProps {
+  orderNumber: string;
+}
+
+const formatTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * Steps to show on the timeline: every status the order has been through,
+ * followed by the ones it still has ahead of it
+ */
+const getTimelineSteps = (order: OrderTracking): { status: OrderStatus; at: string | null }[] => {
+  const reached = order.timeline.map(entry => ({ status: entry.status, at: entry.at as string | null }));
+  if (reached.length === 0) {
+    reached.push({ status: 'pending', at: order.created_at });
+  }
+
+  if (order.status === 'cancelled') {
+    return reached;
+  }
+
+  const upcoming = findStatusPath(order.service_type, order.status, 'completed') || [];
+  return [...reached, ...upcoming.map(status => ({ status, at: null }))];
+};
+
+const getEstimateLabel = (order: OrderTracking): string | null => {
+  if (order.scheduled_for && order.status === 'confirmed') {
+    return `Scheduled for ${describeScheduledFor(order.scheduled_for)}`;
+  }
+  if (order.estimated_ready_at) {
+    const time = new Date(order.estimated_ready_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+    return order.service_type === 'delivery' ? `Ready for the courier around ${time}` : `Ready around ${time}`;
+  }
+  if (order.status === 'pending') {
+    return 'Waiting for the store to confirm your order';
+  }
+  if (order.service_type === 'pickup' && order.pickup_time && order.status !== 'completed' && order.status !== 'cancelled') {
+    return `Pickup time: ${order.pickup_time}`;
+  }
+  if (order.service_type === 'dine-in' && order.dine_in_time && order.status !== 'completed' && order.status !== 'cancelled') {
+    return `Dine-in time: ${formatTime(order.dine_in_time)}`;
+  }
+  return null;
+};
+
+const OrderTracker: React.FC<OrderTrackerProps> = ({ orderNumber }) => {
+  const { order, verified, loading, error, verify } = useOrderTracking(orderNumber);
+  const [contactInput, setContactInput] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (contactInput.trim()) {
+      verify(contactInput.trim());
+    }
+  };
+
+  if (!verified || !order) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-12">
+        <div className="bg-white rounded-xl shadow-sm border border-starrs-teal/20 p-6">
+          <h1 className="text-2xl font-bold text-starrs-teal-dark mb-1">Track your order</h1>
+          <p className="text-sm text-gray-600 mb-6">
+            Order <span className="font-mono font-semibold">{orderNumber}</span>. Enter the contact number you ordered with to see its status.
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="relative">
+              <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="tel"
+                value={contactInput}
+                onChange={(e) => setContactInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border border-starrs-teal/30 rounded-lg focus:ring-2 focus:ring-starrs-teal focus:border-transparent"
+                placeholder="09XX XXX XXXX"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full flex items-center justify-center space-x-2 bg-starrs-teal text-white py-3 rounded-lg font-medium hover:bg-starrs-teal-dark transition-colors disabled:opacity-50"
+            >
+              <Search className="h-4 w-4" />
+              <span>{loading ? 'Checking...' : 'View order status'}</span>
+            </button>
+          </form>
+        </div>
+        <div className="text-center mt-6">
+          <Link href="/" className="text-sm text-starrs-teal-dark hover:underline">Back to menu</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const steps = getTimelineSteps(order);
+  const estimate = getEstimateLabel(order);
+  const courier = order.courier;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-starrs-teal/20 p-6">
+        <p className="text-sm text-gray-500">Order <span className="font-mono">{order.order_number}</span></p>
+        <h1 className="text-2xl font-bold text-starrs-teal-dark mt-1">
+          {order.status === 'cancelled' ? 'Order cancelled' : formatStatus(order.status)}
+        </h1>
+        {estimate && (
+          <p className="flex items-center text-sm text-gray-700 mt-2">
+            <Clock className="h-4 w-4 mr-2 text-starrs-teal" />
+            {estimate}
+          </p>
+        )}
+        <p className="text-xs text-gray-400 mt-2">Updates automatically · last change {formatTime(order.updated_at)}</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-starrs-teal/20 p-6">
+        <h2 className="text-lg font-semibold text-starrs-teal-dark mb-4">Progress</h2>
+        <ol className="space-y-4">
+          {steps.map((step, index) => {
+            const done = step.at !== null;
+            const Icon = step.status === 'cancelled' ? XCircle : done ? CheckCircle : Circle;
+            return (
+              <li key={`${step.status}-${index}`} className="flex items-start">
+                <Icon
+                  className={`h-5 w-5 mr-3 flex-shrink-0 ${step.status === 'cancelled' ? 'text-red-500' : done ? 'text-starrs-teal' : 'text-gray-300'}`}
+                />
+                <div>
+                  <p className={`font-medium ${done ? 'text-starrs-teal-dark' : 'text-gray-400'}`}>{formatStatus(step.status)}</p>
+                  {step.at && <p className="text-xs text-gray-500">{formatTime(step.at)}</p>}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {courier && (courier.tracking_url || courier.driver_name) && (
+        <div className="bg-white rounded-xl shadow-sm border border-starrs-teal/20 p-6">
+          <h2 className="flex items-center text-lg font-semibold text-starrs-teal-dark mb-4">
+            <Truck className="h-5 w-5 mr-2" />
+            Delivery
+          </h2>
+          {courier.driver_name && (
+            <div className="text-sm text-gray-700 space-y-1 mb-4">
+              <p><span className="text-gray-500">Driver:</span> {courier.driver_name}</p>
+              {courier.driver_plate && <p><span className="text-gray-500">Plate:</span> {courier.driver_plate}</p>}
+              {courier.driver_phone && (
+                <p>
+                  <span className="text-gray-500">Phone:</span>{' '}
+                  <a href={`tel:${courier.driver_phone}`} className="text-starrs-teal-dark hover:underline">{courier.driver_phone}</a>
+                </p>
+              )}
+            </div>
+          )}
+          {courier.tracking_url && (
+            <a
+              href={courier.tracking_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center space-x-2 bg-starrs-teal text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-starrs-teal-dark transition-colors"
+            >
+              <span>Follow the courier on the map</span>
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-starrs-teal/20 p-6">
+        <h2 className="text-lg font-semibold text-starrs-teal-dark mb-4">Your order</h2>
+        <ul className="divide-y divide-gray-100">
+          {order.items.map((item, index) => (
+            <li key={index} className="py-2 flex justify-between text-sm">
+              <div>
+                <p className="text-gray-800">
+                  {item.name}{item.variation ? ` (${item.variation})` : ''} x{item.quantity}
+                </p>
+                {item.components.length > 0 && (
+                  <p className="text-xs text-gray-500">{item.components.join(', ')}</p>
+                )}
+                {item.add_ons.length > 0 && (
+                  <p className="text-xs text-gray-500">+ {item.add_ons.join(', ')}</p>
+                )}
+              </div>
+              <span className="text-gray-800">₱{item.total_price}</span>
+            </li>
+          ))}
+        </ul>
+        {order.delivery_fee !== null && (
+          <div className="flex justify-between text-sm text-gray-600 pt-2">
+            <span>Delivery fee</span>
+            <span>{order.delivery_fee === 0 ? 'Free' : `₱${order.delivery_fee}`}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-starrs-teal-dark pt-2 border-t border-gray-100 mt-2">
+          <span>Total</span>
+          <span>₱{order.total}</span>
+        </div>
+      </div>
+
+      <div className="text-center">
+        <Link href="/" className="text-sm text-starrs-teal-dark hover:underline">Back to menu</Link>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracker;
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Download, Loader2, RefreshCw } from 'lucide-react';
+import { useOrders } from '../hooks/useOrders';
+import { STATUTORY_DISCOUNT_LABELS } from '../lib/statutoryDiscount';
+import type { SalesReport } from '../types';
+
+interface SalesReportsProps {
+  onBack: () => void;
+}
+
+// YYYY-MM-DD for a date input, in local time
+const toInputDate = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+const formatAmount = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const SalesReports: React.FC<SalesReportsProps> = ({ onBack }) => {
+  const { getSalesReport } = useOrders({ enabled: false });
+  const [dateFrom, setDateFrom] = useState(() => {
+    const today = new Date();
+    return toInputDate(new Date(today.getFullYear(), today.getMonth(), 1));
+  });
+  const [dateTo, setDateTo] = useState(() => toInputDate(new Date()));
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await getSalesReport(dateFrom, dateTo));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sales report');
+    } finally {
+      setLoading(false);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dateFrom, dateTo]); // getSalesReport is recreated every render
+
+  useEffect(() => {
+    loadReport();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Load the default range once; later ranges load on Refresh
+
+  const csvUrl = `/api/orders/report?${new URLSearchParams({ date_from: dateFrom, date_to: dateTo, format: 'csv' }).toString()}`;
+
+  const summaryRows: { label: string; value: number; deduction?: boolean }[] = report ? [
+    { label: 'Gross sales', value: report.gross_sales },
+    { label: 'Voucher discounts', value: report.voucher_discounts, deduction: true },
+    { label: 'VAT exemption (SC/PWD)', value: report.vat_exemption, deduction: true },
+    { label: '20% SC/PWD discount', value: report.statutory_discounts, deduction: true },
+    { label: 'Delivery fees', value: report.delivery_fees },
+    { label: 'Net sales', value: report.net_sales }
+  ] : [];
+
+  // What the store spent on delivery on top of the fees customers paid
+  const deliveryRows: { label: string; value: number }[] = report ? [
+    { label: 'Delivery fees charged', value: report.delivery_fees },
+    { label: 'Courier costs', value: report.courier_costs },
+    { label: 'Delivery subsidy', value: report.delivery_subsidy }
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+              >
+                <ArrowLeft className="h-5 w-5" />
+                <span>Dashboard</span>
+              </button>
+              <h1 className="text-2xl font-playfair font-semibold text-black">Sales Reports</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">From</label>
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">To</label>
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={loadReport}
+              disabled={loading || !dateFrom || !dateTo}
+              className="flex items-center justify-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors duration-200"
+            >
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              <span>Refresh</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">Completed orders only. Amounts are in PHP, VAT inclusive unless noted.</p>
+          {error && (
+            <p className="text-sm text-red-600 mt-3">{error}</p>
+          )}
+        </div>
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <p className="text-sm font-medium text-gray-600">Completed Orders</p>
+                <p className="text-2xl font-semibold text-gray-900">{report.order_count}</p>
+              </div>
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <p className="text-sm font-medium text-gray-600">VATable Sales</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatAmount(report.vatable_sales)}</p>
+                <p className="text-xs text-gray-500">VAT {formatAmount(report.vat_amount)}</p>
+              </div>
+              <div className="bg-white rounded-xl shadow-sm p-6">
+                <p className="text-sm font-medium text-gray-600">VAT-Exempt Sales</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatAmount(report.vat_exempt_sales)}</p>
+                <p className="text-xs text-gray-500">Senior citizen / PWD, net of VAT</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-playfair font-medium text-black mb-4">Summary</h2>
+              <div className="divide-y divide-gray-100">
+                {summaryRows.map((row) => (
+                  <div key={row.label} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">{row.label}</span>
+                    <span className={row.deduction ? 'text-red-600' : 'font-semibold text-gray-900'}>
+                      {row.deduction ? '-' : ''}{formatAmount(row.value)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-playfair font-medium text-black mb-4">Delivery</h2>
+              <div className="divide-y divide-gray-100">
+                {deliveryRows.map((row) => (
+                  <div key={row.label} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">{row.label}</span>
+                    <span className="font-semibold text-gray-900">{formatAmount(row.value)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">The subsidy is the part of the courier cost the store covered; it is negative when fees came to more than the courier charged.</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-playfair font-medium text-black">Senior Citizen / PWD Discounts</h2>
+                <a
+                  href={csvUrl}
+                  className="flex items-center space-x-2 text-sm text-green-700 hover:text-green-800 font-medium"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Download CSV</span>
+                </a>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                {(['senior', 'pwd'] as const).map((type) => (
+                  <div key={type} className="p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+                    <p className="font-medium text-gray-900 mb-2">{STATUTORY_DISCOUNT_LABELS[type]} ({report[type].order_count})</p>
+                    <div className="flex justify-between text-gray-600">
+                      <span>VAT-exempt sales</span>
+                      <span>{formatAmount(report[type].vat_exempt_sales)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>VAT exemption</span>
+                      <span>{formatAmount(report[type].vat_exemption)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>20% discount</span>
+                      <span>{formatAmount(report[type].discount)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {report.statutory_entries.length === 0 ? (
+                <p className="text-sm text-gray-500">No senior citizen or PWD sales in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                        <th className="py-2 pr-4">Date</th>
+                        <th className="py-2 pr-4">Order</th>
+                        <th className="py-2 pr-4">Name / ID</th>
+                        <th className="py-2 pr-4 text-right">VAT-Exempt</th>
+                        <th className="py-2 pr-4 text-right">VAT</th>
+                        <th className="py-2 text-right">20%</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {report.statutory_entries.map((entry) => (
+                        <tr key={entry.order_number}>
+                          <td className="py-2 pr-4 text-gray-600">{new Date(entry.created_at).toLocaleDateString()}</td>
+                          <td className="py-2 pr-4 text-gray-900">{entry.order_number}</td>
+                          <td className="py-2 pr-4">
+                            <p className="text-gray-900">{entry.name}</p>
+                            <p className="text-xs text-gray-500">{STATUTORY_DISCOUNT_LABELS[entry.type]} · {entry.id_number}</p>
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(entry.vat_exempt_sales)}</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(entry.vat_exemption)}</td>
+                          <td className="py-2 text-right">{formatAmount(entry.discount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SalesReports;
@@ -0,0 +1,166 @@
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AvailabilitySchedule } from '../types';
+import { DEFAULT_SCHEDULE_TIMEZONE, WEEKDAY_LABELS } from '../lib/schedule';
+
+interface ScheduleEditorProps {
+  schedule: AvailabilitySchedule | null;
+  onChange: (schedule: AvailabilitySchedule | null) => void;
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const NEW_SCHEDULE: AvailabilitySchedule = {
+  days: ALL_DAYS,
+  timeRanges: [{ start: '06:00', end: '11:00' }],
+  startDate: null,
+  endDate: null,
+  timezone: DEFAULT_SCHEDULE_TIMEZONE
+};
+
+/**
+ * Days, times and dates a category or menu item can be ordered
+ * Saved schedules use an empty `days` for every day; the editor ticks them all.
+ */
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onChange }) => {
+  const days = schedule && schedule.days.length > 0 ? schedule.days : ALL_DAYS;
+
+  const update = (changes: Partial<AvailabilitySchedule>) => {
+    if (schedule) onChange({ ...schedule, ...changes });
+  };
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    // At least one day has to stay ticked
+    if (next.length > 0) update({ days: next });
+  };
+
+  const updateRange = (index: number, field: 'start' | 'end', value: string) => {
+    if (!schedule) return;
+    update({
+      timeRanges: schedule.timeRanges.map((range, i) => (i === index ? { ...range, [field]: value } : range))
+    });
+  };
+
+  return (
+    <div>
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={Boolean(schedule)}
+          onChange={(e) => onChange(e.target.checked ? NEW_SCHEDULE : null)}
+          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+        />
+        <span className="text-sm font-medium text-black">Only available at certain times</span>
+      </label>
+
+      {schedule && (
+        <div className="mt-4 space-y-4 border border-gray-200 rounded-lg p-4">
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Days</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-3 py-1.5 rounded-lg text-sm border transition-colors duration-200 ${
+                    days.includes(day)
+                      ? 'bg-black text-white border-black'
+                      : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-black">Times</label>
+              <button
+                type="button"
+                onClick={() => update({ timeRanges: [...schedule.timeRanges, { start: '', end: '' }] })}
+                className="flex items-center space-x-1 text-sm text-gray-600 hover:text-black"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add time range</span>
+              </button>
+            </div>
+            {schedule.timeRanges.length === 0 ? (
+              <p className="text-sm text-gray-500">All day</p>
+            ) : (
+              <div className="space-y-2">
+                {schedule.timeRanges.map((range, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="time"
+                      value={range.start}
+                      onChange={(e) => updateRange(index, 'start', e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={range.end}
+                      onChange={(e) => updateRange(index, 'end', e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => update({ timeRanges: schedule.timeRanges.filter((_, i) => i !== index) })}
+                      className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">From Date</label>
+              <input
+                type="date"
+                value={schedule.startDate || ''}
+                onChange={(e) => update({ startDate: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">Until Date</label>
+              <input
+                type="date"
+                value={schedule.endDate || ''}
+                onChange={(e) => update({ endDate: e.target.value || null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">Time Zone</label>
+              <input
+                type="text"
+                value={schedule.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                placeholder={DEFAULT_SCHEDULE_TIMEZONE}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Outside these times it is greyed out on the menu and cannot be ordered. A time range that ends earlier
+            than it starts runs past midnight. Leave the dates empty to repeat every week.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleEditor;
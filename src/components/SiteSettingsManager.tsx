@@ -5,6 +5,12 @@ import { Save, Upload, X } from 'lucide-react';
 import { useSiteSettings } from '../hooks/useSiteSettings';
 import { useImageUpload } from '../hooks/useImageUpload';
 import { useAddressAutocomplete } from '../hooks/useAddressAutocomplete';
+import {
+  DELIVERY_FEE_ROUNDING_LABELS,
+  DELIVERY_SUBSIDY_LABELS,
+  describeDeliveryFeePolicy,
+  getDeliveryFeePolicy
+} from '../lib/deliveryFee';
 import type { AddressSuggestion } from '../types';
 
 const SiteSettingsManager: React.FC = () => {
@@ -25,7 +31,22 @@ const SiteSettingsManager: React.FC = () => {
     lalamove_store_phone: '',
     lalamove_store_address: '',
     lalamove_store_latitude: '',
-    lalamove_store_longitude: ''
+    lalamove_store_longitude: '',
+    rate_limit_enabled: 'true',
+    rate_limit_ip_max: '5',
+    rate_limit_ip_window_minutes: '10',
+    rate_limit_phone_max: '3',
+    rate_limit_phone_window_minutes: '10',
+    rate_limit_session_max: '2',
+    rate_limit_session_window_minutes: '5',
+    order_ahead_max_days: '7',
+    order_ahead_lead_minutes: '30',
+    delivery_min_order: '0',
+    delivery_free_above: '0',
+    delivery_subsidy_type: 'none',
+    delivery_subsidy_value: '0',
+    delivery_markup: '0',
+    delivery_fee_rounding: 'none'
   });
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>('');
@@ -54,7 +75,22 @@ const SiteSettingsManager: React.FC = () => {
         lalamove_store_phone: siteSettings.lalamove_store_phone || '',
         lalamove_store_address: siteSettings.lalamove_store_address || '',
         lalamove_store_latitude: siteSettings.lalamove_store_latitude || '',
-        lalamove_store_longitude: siteSettings.lalamove_store_longitude || ''
+        lalamove_store_longitude: siteSettings.lalamove_store_longitude || '',
+        rate_limit_enabled: siteSettings.rate_limit_enabled || 'true',
+        rate_limit_ip_max: siteSettings.rate_limit_ip_max || '5',
+        rate_limit_ip_window_minutes: siteSettings.rate_limit_ip_window_minutes || '10',
+        rate_limit_phone_max: siteSettings.rate_limit_phone_max || '3',
+        rate_limit_phone_window_minutes: siteSettings.rate_limit_phone_window_minutes || '10',
+        rate_limit_session_max: siteSettings.rate_limit_session_max || '2',
+        rate_limit_session_window_minutes: siteSettings.rate_limit_session_window_minutes || '5',
+        order_ahead_max_days: siteSettings.order_ahead_max_days || '7',
+        order_ahead_lead_minutes: siteSettings.order_ahead_lead_minutes || '30',
+        delivery_min_order: siteSettings.delivery_min_order || '0',
+        delivery_free_above: siteSettings.delivery_free_above || '0',
+        delivery_subsidy_type: siteSettings.delivery_subsidy_type || 'none',
+        delivery_subsidy_value: siteSettings.delivery_subsidy_value || '0',
+        delivery_markup: siteSettings.delivery_markup || '0',
+        delivery_fee_rounding: siteSettings.delivery_fee_rounding || 'none'
       });
       setLogoPreview(siteSettings.site_logo);
       setStoreAddressQuery(siteSettings.lalamove_store_address || '');
@@ -184,7 +220,22 @@ const SiteSettingsManager: React.FC = () => {
         lalamove_store_phone: formData.lalamove_store_phone,
         lalamove_store_address: formData.lalamove_store_address,
         lalamove_store_latitude: formData.lalamove_store_latitude,
-        lalamove_store_longitude: formData.lalamove_store_longitude
+        lalamove_store_longitude: formData.lalamove_store_longitude,
+        rate_limit_enabled: formData.rate_limit_enabled,
+        rate_limit_ip_max: formData.rate_limit_ip_max,
+        rate_limit_ip_window_minutes: formData.rate_limit_ip_window_minutes,
+        rate_limit_phone_max: formData.rate_limit_phone_max,
+        rate_limit_phone_window_minutes: formData.rate_limit_phone_window_minutes,
+        rate_limit_session_max: formData.rate_limit_session_max,
+        rate_limit_session_window_minutes: formData.rate_limit_session_window_minutes,
+        order_ahead_max_days: formData.order_ahead_max_days,
+        order_ahead_lead_minutes: formData.order_ahead_lead_minutes,
+        delivery_min_order: formData.delivery_min_order,
+        delivery_free_above: formData.delivery_free_above,
+        delivery_subsidy_type: formData.delivery_subsidy_type,
+        delivery_subsidy_value: formData.delivery_subsidy_value,
+        delivery_markup: formData.delivery_markup,
+        delivery_fee_rounding: formData.delivery_fee_rounding
       });
 
       setIsEditing(false);
@@ -210,7 +261,22 @@ const SiteSettingsManager: React.FC = () => {
         lalamove_store_phone: siteSettings.lalamove_store_phone || '',
         lalamove_store_address: siteSettings.lalamove_store_address || '',
         lalamove_store_latitude: siteSettings.lalamove_store_latitude || '',
-        lalamove_store_longitude: siteSettings.lalamove_store_longitude || ''
+        lalamove_store_longitude: siteSettings.lalamove_store_longitude || '',
+        rate_limit_enabled: siteSettings.rate_limit_enabled || 'true',
+        rate_limit_ip_max: siteSettings.rate_limit_ip_max || '5',
+        rate_limit_ip_window_minutes: siteSettings.rate_limit_ip_window_minutes || '10',
+        rate_limit_phone_max: siteSettings.rate_limit_phone_max || '3',
+        rate_limit_phone_window_minutes: siteSettings.rate_limit_phone_window_minutes || '10',
+        rate_limit_session_max: siteSettings.rate_limit_session_max || '2',
+        rate_limit_session_window_minutes: siteSettings.rate_limit_session_window_minutes || '5',
+        order_ahead_max_days: siteSettings.order_ahead_max_days || '7',
+        order_ahead_lead_minutes: siteSettings.order_ahead_lead_minutes || '30',
+        delivery_min_order: siteSettings.delivery_min_order || '0',
+        delivery_free_above: siteSettings.delivery_free_above || '0',
+        delivery_subsidy_type: siteSettings.delivery_subsidy_type || 'none',
+        delivery_subsidy_value: siteSettings.delivery_subsidy_value || '0',
+        delivery_markup: siteSettings.delivery_markup || '0',
+        delivery_fee_rounding: siteSettings.delivery_fee_rounding || 'none'
       });
       setLogoPreview(siteSettings.site_logo);
       setStoreAddressQuery(siteSettings.lalamove_store_address || '');
@@ -566,6 +632,272 @@ const SiteSettingsManager: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Order Rate Limits */}
+        <div className="border-t border-gray-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-black">Order Rate Limits</h3>
+              <p className="text-sm text-gray-500">Cap how many orders can be placed from one IP address, contact number or browser within a time window.</p>
+            </div>
+          </div>
+
+          {isEditing ? (
+            <div className="space-y-4">
+              <label className="block text-sm font-medium text-gray-700 lg:w-1/3">
+                Rate Limiting
+                <select
+                  name="rate_limit_enabled"
+                  value={formData.rate_limit_enabled}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="true">Enabled</option>
+                  <option value="false">Disabled</option>
+                </select>
+              </label>
+              <div>
+                <p className="text-sm font-medium text-black mb-2">Per IP address</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Max orders
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_ip_max"
+                      value={formData.rate_limit_ip_max}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Window (minutes)
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_ip_window_minutes"
+                      value={formData.rate_limit_ip_window_minutes}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-black mb-2">Per contact number</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Max orders
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_phone_max"
+                      value={formData.rate_limit_phone_max}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Window (minutes)
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_phone_window_minutes"
+                      value={formData.rate_limit_phone_window_minutes}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-black mb-2">Per browser session</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Max orders
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_session_max"
+                      value={formData.rate_limit_session_max}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Window (minutes)
+                    <input
+                      type="number"
+                      min="1"
+                      name="rate_limit_session_window_minutes"
+                      value={formData.rate_limit_session_window_minutes}
+                      onChange={handleInputChange}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </label>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-2 text-sm text-gray-600">
+              {siteSettings?.rate_limit_enabled === 'false' ? (
+                <p>Rate limiting is disabled</p>
+              ) : (
+                <>
+                  <p>Per IP address: {siteSettings?.rate_limit_ip_max} orders per {siteSettings?.rate_limit_ip_window_minutes} minutes</p>
+                  <p>Per contact number: {siteSettings?.rate_limit_phone_max} orders per {siteSettings?.rate_limit_phone_window_minutes} minutes</p>
+                  <p>Per browser session: {siteSettings?.rate_limit_session_max} orders per {siteSettings?.rate_limit_session_window_minutes} minutes</p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Order Ahead */}
+        <div className="border-t border-gray-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-black">Order Ahead</h3>
+              <p className="text-sm text-gray-500">Let customers schedule pickup, delivery or dine-in for a later time. Scheduled orders are held until shortly before they are due.</p>
+            </div>
+          </div>
+
+          {isEditing ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Days ahead
+                <input
+                  type="number"
+                  min="0"
+                  name="order_ahead_max_days"
+                  value={formData.order_ahead_max_days}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">Set to 0 to only take orders for as soon as possible.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Kitchen lead time (minutes)
+                <input
+                  type="number"
+                  min="1"
+                  name="order_ahead_lead_minutes"
+                  value={formData.order_ahead_lead_minutes}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">Orders reach the kitchen this long before they are due. Also the shortest notice a customer can schedule with.</span>
+              </label>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-2 text-sm text-gray-600">
+              {siteSettings?.order_ahead_max_days === '0' ? (
+                <p>Ordering ahead is turned off</p>
+              ) : (
+                <>
+                  <p>Customers can schedule up to {siteSettings?.order_ahead_max_days} days ahead</p>
+                  <p>Scheduled orders reach the kitchen {siteSettings?.order_ahead_lead_minutes} minutes before they are due</p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Delivery Fees */}
+        <div className="border-t border-gray-100 pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-black">Delivery Fees</h3>
+              <p className="text-sm text-gray-500">Work out what customers pay for delivery from the Lalamove quote. Flat fees per delivery zone are set on each branch.</p>
+            </div>
+          </div>
+
+          {isEditing ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Minimum order for delivery (₱)
+                <input
+                  type="number"
+                  min="0"
+                  name="delivery_min_order"
+                  value={formData.delivery_min_order}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">Food subtotal before discounts. Set to 0 for no minimum.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Free delivery from (₱)
+                <input
+                  type="number"
+                  min="0"
+                  name="delivery_free_above"
+                  value={formData.delivery_free_above}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">The store pays the whole courier cost from this subtotal. Set to 0 to turn it off.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Store subsidy
+                <select
+                  name="delivery_subsidy_type"
+                  value={formData.delivery_subsidy_type}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  {Object.entries(DELIVERY_SUBSIDY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Subsidy {formData.delivery_subsidy_type === 'percent' ? '(%)' : '(₱)'}
+                <input
+                  type="number"
+                  min="0"
+                  max={formData.delivery_subsidy_type === 'percent' ? 100 : undefined}
+                  name="delivery_subsidy_value"
+                  value={formData.delivery_subsidy_value}
+                  onChange={handleInputChange}
+                  disabled={formData.delivery_subsidy_type === 'none'}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50"
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Packaging markup (₱)
+                <input
+                  type="number"
+                  min="0"
+                  name="delivery_markup"
+                  value={formData.delivery_markup}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">Added to every fee, after the subsidy.</span>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Rounding
+                <select
+                  name="delivery_fee_rounding"
+                  value={formData.delivery_fee_rounding}
+                  onChange={handleInputChange}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  {Object.entries(DELIVERY_FEE_ROUNDING_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-2 text-sm text-gray-600">
+              {describeDeliveryFeePolicy(getDeliveryFeePolicy(siteSettings)).map(line => (
+                <p key={line}>{line}</p>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { useBranchSlots } from '@/hooks/useBranchSlots';
+import { DEFAULT_SCHEDULE_TIMEZONE, formatMinutes, toLocalTime } from '@/lib/schedule';
+import { hasRoom } from '@/lib/slotCapacity';
+import type { Branch, SlotUsage } from '@/types';
+import { ArrowLeft, Ban, Check } from 'lucide-react';
+
+interface SlotCapacityManagerProps {
+    branch: Branch;
+    onBack: () => void;
+}
+
+const slotLabel = (slot: SlotUsage) =>
+    formatMinutes(toLocalTime(new Date(slot.start), DEFAULT_SCHEDULE_TIMEZONE).minutes);
+
+const toInput = (limit: number | null | undefined) => (limit ? String(limit) : '');
+
+/**
+ * How many orders and items a branch takes per 15-minute slot, and one day of
+ * slots with what has been booked. Blocked slots take no new orders; orders
+ * already in them are kept.
+ */
+export default function SlotCapacityManager({ branch, onBack }: SlotCapacityManagerProps) {
+    const [date, setDate] = useState('');
+    const { capacity, slots, date: slotDate, loading, error, updateCapacity, setBlocked } = useBranchSlots(
+        branch.id,
+        date || undefined
+    );
+    const [maxOrders, setMaxOrders] = useState('');
+    const [maxItems, setMaxItems] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [togglingSlot, setTogglingSlot] = useState<string | null>(null);
+
+    useEffect(() => {
+        setMaxOrders(toInput(capacity?.maxOrders));
+        setMaxItems(toInput(capacity?.maxItems));
+    }, [capacity]);
+
+    const isDirty = toInput(capacity?.maxOrders) !== maxOrders || toInput(capacity?.maxItems) !== maxItems;
+
+    const handleSave = async () => {
+        try {
+            setSaving(true);
+            await updateCapacity({
+                maxOrders: maxOrders ? Number(maxOrders) : null,
+                maxItems: maxItems ? Number(maxItems) : null
+            });
+        } catch (err) {
+            console.error('Error saving slot limits:', err);
+            alert(err instanceof Error ? err.message : 'Failed to save slot limits');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggle = async (slot: SlotUsage) => {
+        try {
+            setTogglingSlot(slot.start);
+            await setBlocked(slot.start, !slot.blocked);
+        } catch (err) {
+            console.error('Error updating slot:', err);
+            alert(err instanceof Error ? err.message : 'Failed to update slot');
+        } finally {
+            setTogglingSlot(null);
+        }
+    };
+
+    const limits = capacity || { maxOrders: null, maxItems: null };
+    const busySlots = slots.filter(slot => slot.orders > 0 || slot.blocked).length;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={onBack}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Back to branches"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">{branch.name} Time Slots</h2>
+                        <p className="text-sm text-gray-500">
+                            {busySlots} {busySlots === 1 ? 'slot has' : 'slots have'} orders or blocks on this day
+                        </p>
+                    </div>
+                </div>
+                <input
+                    type="date"
+                    value={date || slotDate || ''}
+                    onChange={e => setDate(e.target.value)}
+                    className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                />
+            </div>
+
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h3 className="font-semibold text-gray-900">Capacity per 15 minutes</h3>
+                        <p className="text-sm text-gray-500">
+                            Leave empty for no limit. Customers only see times with room for their order.
+                        </p>
+                    </div>
+                    {isDirty && (
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-pink-500 text-white text-sm rounded-lg hover:bg-pink-600 disabled:bg-gray-400 transition-colors"
+                        >
+                            <Check className="w-4 h-4" /> Save
+                        </button>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Max Orders</label>
+                        <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={maxOrders}
+                            onChange={e => setMaxOrders(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                            placeholder="No limit"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Max Items</label>
+                        <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={maxItems}
+                            onChange={e => setMaxItems(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-pink-500 outline-none text-sm"
+                            placeholder="No limit"
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+            )}
+
+            {loading && slots.length === 0 ? (
+                <div className="p-4">Loading time slots...</div>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+                    {slots.map(slot => {
+                        const full = !slot.blocked && !hasRoom(slot, limits, 1);
+                        return (
+                            <button
+                                key={slot.start}
+                                onClick={() => handleToggle(slot)}
+                                disabled={togglingSlot === slot.start}
+                                title={slot.blocked ? 'Unblock this slot' : 'Block this slot'}
+                                className={`p-2 text-left rounded-lg border transition-colors disabled:opacity-50 ${slot.blocked
+                                    ? 'bg-gray-100 border-gray-300 text-gray-500'
+                                    : full
+                                        ? 'bg-pink-50 border-pink-300 text-pink-700'
+                                        : 'bg-white border-gray-100 text-gray-700 hover:border-pink-300'
+                                    }`}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm font-semibold">{slotLabel(slot)}</span>
+                                    {slot.blocked && <Ban className="w-3.5 h-3.5" />}
+                                    {full && <span className="text-xs font-medium">Full</span>}
+                                </div>
+                                <div className="text-xs">
+                                    {slot.orders} order{slot.orders === 1 ? '' : 's'} · {slot.items} item{slot.items === 1 ? '' : 's'}
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,587 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, Tag, Loader2 } from 'lucide-react';
+import { useVouchers } from '../hooks/useVouchers';
+import type { VoucherInput } from '../hooks/useVouchers';
+import { useCategories } from '../hooks/useCategories';
+import { useMenu } from '../hooks/useMenu';
+import { supabase } from '../lib/supabase';
+import { VOUCHER_DISCOUNT_TYPES, VOUCHER_TYPE_LABELS, describeVoucher } from '../lib/vouchers';
+import type { Branch, ServiceType, Voucher } from '../types';
+
+interface VoucherManagerProps {
+  onBack: () => void;
+}
+
+const SERVICE_TYPE_OPTIONS: { value: ServiceType; label: string }[] = [
+  { value: 'dine-in', label: 'Dine In' },
+  { value: 'pickup', label: 'Pickup' },
+  { value: 'delivery', label: 'Delivery' }
+];
+
+// Form fields are kept as strings while editing
+interface VoucherForm {
+  code: string;
+  description: string;
+  discount_type: Voucher['discount_type'];
+  discount_value: string;
+  max_discount: string;
+  min_spend: string;
+  usage_limit: string;
+  per_customer_limit: string;
+  starts_at: string;
+  ends_at: string;
+  branch_ids: string[];
+  service_types: ServiceType[];
+  category_ids: string[];
+  menu_item_ids: string[];
+  active: boolean;
+}
+
+const EMPTY_FORM: VoucherForm = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  max_discount: '',
+  min_spend: '0',
+  usage_limit: '',
+  per_customer_limit: '1',
+  starts_at: '',
+  ends_at: '',
+  branch_ids: [],
+  service_types: [],
+  category_ids: [],
+  menu_item_ids: [],
+  active: true
+};
+
+// ISO timestamp <-> value for a datetime-local input (local time)
+const toInputDate = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromInputDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(entry => entry !== value) : [...list, value];
+
+const VoucherManager: React.FC<VoucherManagerProps> = ({ onBack }) => {
+  const { vouchers, loading, error, addVoucher, updateVoucher, deleteVoucher } = useVouchers();
+  const { categories } = useCategories();
+  const { menuItems } = useMenu();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [currentView, setCurrentView] = useState<'list' | 'add' | 'edit'>('list');
+  const [editingVoucher, setEditingVoucher] = useState<Voucher | null>(null);
+  const [formData, setFormData] = useState<VoucherForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchBranches = async () => {
+      const { data, error: fetchError } = await supabase
+        .from('branches')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching branches:', fetchError);
+        return;
+      }
+      setBranches(data || []);
+    };
+    fetchBranches();
+  }, []);
+
+  const totalRedemptions = vouchers.reduce((sum, voucher) => sum + (voucher.redemption_count || 0), 0);
+  const totalDiscount = vouchers.reduce((sum, voucher) => sum + (voucher.discount_total || 0), 0);
+
+  const handleAddVoucher = () => {
+    setEditingVoucher(null);
+    setFormData(EMPTY_FORM);
+    setCurrentView('add');
+  };
+
+  const handleEditVoucher = (voucher: Voucher) => {
+    setEditingVoucher(voucher);
+    setFormData({
+      code: voucher.code,
+      description: voucher.description || '',
+      discount_type: voucher.discount_type,
+      discount_value: String(voucher.discount_value),
+      max_discount: voucher.max_discount !== null ? String(voucher.max_discount) : '',
+      min_spend: String(voucher.min_spend),
+      usage_limit: voucher.usage_limit !== null ? String(voucher.usage_limit) : '',
+      per_customer_limit: voucher.per_customer_limit !== null ? String(voucher.per_customer_limit) : '',
+      starts_at: toInputDate(voucher.starts_at),
+      ends_at: toInputDate(voucher.ends_at),
+      branch_ids: voucher.branch_ids,
+      service_types: voucher.service_types,
+      category_ids: voucher.category_ids,
+      menu_item_ids: voucher.menu_item_ids,
+      active: voucher.active
+    });
+    setCurrentView('edit');
+  };
+
+  const handleDeleteVoucher = async (voucher: Voucher) => {
+    if (!confirm(`Are you sure you want to delete the voucher ${voucher.code}?`)) return;
+    try {
+      await deleteVoucher(voucher.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete voucher');
+    }
+  };
+
+  const handleToggleActive = async (voucher: Voucher) => {
+    try {
+      await updateVoucher(voucher.id, { active: !voucher.active });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update voucher');
+    }
+  };
+
+  const handleSaveVoucher = async () => {
+    if (!formData.code.trim()) {
+      alert('Please enter a voucher code');
+      return;
+    }
+    if (formData.discount_type !== 'free_delivery' && !formData.discount_value) {
+      alert('Please enter the discount amount');
+      return;
+    }
+
+    const input: VoucherInput = {
+      code: formData.code,
+      description: formData.description || null,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_type === 'free_delivery' ? 0 : Number(formData.discount_value),
+      max_discount: formData.discount_type === 'percentage' && formData.max_discount ? Number(formData.max_discount) : null,
+      min_spend: Number(formData.min_spend || 0),
+      usage_limit: formData.usage_limit ? Number(formData.usage_limit) : null,
+      per_customer_limit: formData.per_customer_limit ? Number(formData.per_customer_limit) : null,
+      starts_at: fromInputDate(formData.starts_at),
+      ends_at: fromInputDate(formData.ends_at),
+      branch_ids: formData.branch_ids,
+      service_types: formData.service_types,
+      category_ids: formData.discount_type === 'free_delivery' ? [] : formData.category_ids,
+      menu_item_ids: formData.discount_type === 'free_delivery' ? [] : formData.menu_item_ids,
+      active: formData.active
+    };
+
+    try {
+      setSaving(true);
+      if (editingVoucher) {
+        await updateVoucher(editingVoucher.id, input);
+      } else {
+        await addVoucher(input);
+      }
+      setCurrentView('list');
+      setEditingVoucher(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save voucher');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setCurrentView('list');
+    setEditingVoucher(null);
+  };
+
+  const getVoucherStatus = (voucher: Voucher) => {
+    const now = new Date();
+    if (!voucher.active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-700' };
+    if (voucher.ends_at && now > new Date(voucher.ends_at)) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+    if (voucher.starts_at && now < new Date(voucher.starts_at)) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+    if (voucher.usage_limit !== null && (voucher.redemption_count || 0) >= voucher.usage_limit) {
+      return { label: 'Used up', className: 'bg-yellow-100 text-yellow-800' };
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-800' };
+  };
+
+  const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  // Form View (Add/Edit)
+  if (currentView === 'add' || currentView === 'edit') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="bg-white shadow-sm border-b">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between h-16">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                  <span>Back</span>
+                </button>
+                <h1 className="text-2xl font-playfair font-semibold text-black">
+                  {currentView === 'add' ? 'Add Voucher' : 'Edit Voucher'}
+                </h1>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleCancel}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center space-x-2"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel</span>
+                </button>
+                <button
+                  onClick={handleSaveVoucher}
+                  disabled={saving}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors duration-200 flex items-center space-x-2"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  <span>Save</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-white rounded-xl shadow-sm p-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Code *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  className={`${inputClassName} uppercase`}
+                  placeholder="e.g., SHAKE10"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Type *</label>
+                <select
+                  value={formData.discount_type}
+                  onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as Voucher['discount_type'] })}
+                  className={inputClassName}
+                >
+                  {VOUCHER_DISCOUNT_TYPES.map(type => (
+                    <option key={type} value={type}>{VOUCHER_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className={inputClassName}
+                placeholder="Shown to the customer once applied"
+              />
+            </div>
+
+            {formData.discount_type !== 'free_delivery' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-black mb-2">
+                    {formData.discount_type === 'percentage' ? 'Percent Off *' : 'Amount Off (₱) *'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={formData.discount_type === 'percentage' ? 100 : undefined}
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                {formData.discount_type === 'percentage' && (
+                  <div>
+                    <label className="block text-sm font-medium text-black mb-2">Maximum Discount (₱)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.max_discount}
+                      onChange={(e) => setFormData({ ...formData, max_discount: e.target.value })}
+                      className={inputClassName}
+                      placeholder="No cap"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Minimum Spend (₱)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.min_spend}
+                  onChange={(e) => setFormData({ ...formData, min_spend: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Total Uses</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.usage_limit}
+                  onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Uses per Customer</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.per_customer_limit}
+                  onChange={(e) => setFormData({ ...formData, per_customer_limit: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Starts</label>
+                <input
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={formData.ends_at}
+                  onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-black mb-2">Order Types</label>
+              <div className="flex flex-wrap gap-3">
+                {SERVICE_TYPE_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.service_types.includes(option.value)}
+                      onChange={() => setFormData({ ...formData, service_types: toggle(formData.service_types, option.value) })}
+                      className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    <span className="text-sm text-black">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Leave all unticked to allow every order type</p>
+            </div>
+
+            {branches.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Branches</label>
+                <div className="flex flex-wrap gap-3">
+                  {branches.map(branch => (
+                    <label key={branch.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.branch_ids.includes(branch.id)}
+                        onChange={() => setFormData({ ...formData, branch_ids: toggle(formData.branch_ids, branch.id) })}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-black">{branch.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave all unticked to allow every branch</p>
+              </div>
+            )}
+
+            {formData.discount_type !== 'free_delivery' && (
+              <div>
+                <label className="block text-sm font-medium text-black mb-2">Eligible Items</label>
+                <div className="flex flex-wrap gap-3 mb-3">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.category_ids.includes(category.id)}
+                        onChange={() => setFormData({ ...formData, category_ids: toggle(formData.category_ids, category.id) })}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-black">{category.icon} {category.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-3 space-y-2">
+                  {menuItems.map(item => (
+                    <label key={item.id} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.menu_item_ids.includes(item.id)}
+                        onChange={() => setFormData({ ...formData, menu_item_ids: toggle(formData.menu_item_ids, item.id) })}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-sm text-black">{item.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  The discount comes off the ticked categories and items only. Leave all unticked to discount the whole cart.
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                <span className="text-sm font-medium text-black">Active Voucher</span>
+              </label>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // List View
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+              >
+                <ArrowLeft className="h-5 w-5" />
+                <span>Dashboard</span>
+              </button>
+              <h1 className="text-2xl font-playfair font-semibold text-black">Vouchers</h1>
+            </div>
+            <button
+              onClick={handleAddVoucher}
+              className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Voucher</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <p className="text-sm font-medium text-gray-600">Active Vouchers</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {vouchers.filter(voucher => getVoucherStatus(voucher).label === 'Active').length}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <p className="text-sm font-medium text-gray-600">Redemptions</p>
+            <p className="text-2xl font-semibold text-gray-900">{totalRedemptions}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <p className="text-sm font-medium text-gray-600">Total Discount Given</p>
+            <p className="text-2xl font-semibold text-gray-900">₱{totalDiscount.toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-6">
+            <h2 className="text-lg font-playfair font-medium text-black mb-4">Vouchers</h2>
+
+            {error && (
+              <p className="text-sm text-red-600 mb-4">{error}</p>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+              </div>
+            ) : vouchers.length === 0 ? (
+              <div className="text-center py-8">
+                <Tag className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500 mb-4">No vouchers yet</p>
+                <button
+                  onClick={handleAddVoucher}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors duration-200"
+                >
+                  Add First Voucher
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {vouchers.map((voucher) => {
+                  const status = getVoucherStatus(voucher);
+                  return (
+                    <div
+                      key={voucher.id}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <div>
+                        <h3 className="font-medium text-black font-mono">{voucher.code}</h3>
+                        <p className="text-sm text-gray-600">
+                          {describeVoucher(voucher)}
+                          {voucher.min_spend > 0 && ` • min. spend ₱${voucher.min_spend}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Used {voucher.redemption_count || 0}{voucher.usage_limit !== null ? ` / ${voucher.usage_limit}` : ''} times
+                          {' • '}₱{(voucher.discount_total || 0).toLocaleString()} discounted
+                          {voucher.ends_at && ` • ends ${new Date(voucher.ends_at).toLocaleDateString()}`}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => handleToggleActive(voucher)}
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
+                          title={voucher.active ? 'Deactivate' : 'Activate'}
+                        >
+                          {status.label}
+                        </button>
+
+                        <button
+                          onClick={() => handleEditVoucher(voucher)}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+
+                        <button
+                          onClick={() => handleDeleteVoucher(voucher)}
+                          className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoucherManager;
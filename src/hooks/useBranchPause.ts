@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toBranch } from '../lib/branchHours';
+import { Branch } from '../types';
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({ error: fallback }));
+  return new Error(errorData.error || fallback);
+};
+
+/**
+ * Branches the signed-in staff member can pause online ordering for
+ */
+export const useBranchPause = () => {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBranches = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/branches');
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch branches');
+      }
+      const data = await response.json();
+      setBranches((data.branches || []).map(toBranch));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching branches:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch branches');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const replaceBranch = (branch: Branch) => {
+    setBranches(prev => prev.map(existing => (existing.id === branch.id ? toBranch(branch) : existing)));
+  };
+
+  const pauseOrdering = async (branchId: string, minutes: number | null) => {
+    const response = await fetch(`/api/branches/${branchId}/pause`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ minutes })
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to pause ordering');
+    }
+    const data = await response.json();
+    replaceBranch(data.branch);
+  };
+
+  const resumeOrdering = async (branchId: string) => {
+    const response = await fetch(`/api/branches/${branchId}/pause`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to resume ordering');
+    }
+    const data = await response.json();
+    replaceBranch(data.branch);
+  };
+
+  useEffect(() => {
+    fetchBranches();
+  }, [fetchBranches]);
+
+  return {
+    branches,
+    loading,
+    error,
+    pauseOrdering,
+    resumeOrdering,
+    refetch: fetchBranches
+  };
+};
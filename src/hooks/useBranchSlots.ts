@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SlotCapacity, SlotUsage } from '../types';
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({ error: fallback }));
+  return new Error(errorData.error || fallback);
+};
+
+/**
+ * A branch's slot limits and one day of slots, for the admin time-slot view
+ * Pass no date for today in the store time zone.
+ */
+export const useBranchSlots = (branchId: string, date?: string) => {
+  const [capacity, setCapacity] = useState<SlotCapacity | null>(null);
+  const [slots, setSlots] = useState<SlotUsage[]>([]);
+  const [slotDate, setSlotDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSlots = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = date ? `?date=${encodeURIComponent(date)}` : '';
+      const response = await fetch(`/api/branches/${branchId}/slots${query}`);
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch time slots');
+      }
+      const data = await response.json();
+      setCapacity(data.capacity);
+      setSlots(data.slots || []);
+      setSlotDate(data.date);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching time slots:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch time slots');
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId, date]);
+
+  const updateCapacity = async (values: SlotCapacity) => {
+    const response = await fetch(`/api/branches/${branchId}/slots`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update slot limits');
+    }
+    const data = await response.json();
+    setCapacity(data.capacity);
+  };
+
+  const setBlocked = async (slotStart: string, blocked: boolean) => {
+    const response = await fetch(`/api/branches/${branchId}/slots`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ slotStart, blocked })
+    });
+    if (!response.ok) {
+      throw await readError(response, blocked ? 'Failed to block slot' : 'Failed to unblock slot');
+    }
+    setSlots(prev => prev.map(slot => (slot.start === slotStart ? { ...slot, blocked } : slot)));
+  };
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  return {
+    capacity,
+    slots,
+    date: slotDate,
+    loading,
+    error,
+    updateCapacity,
+    setBlocked,
+    refetch: fetchSlots
+  };
+};
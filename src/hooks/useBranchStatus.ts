@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { getBranchStatus, toBranch } from '../lib/branchHours';
+import { useNow } from './useNow';
+import { Branch } from '../types';
+
+// Pauses are switched on and off during service, so look again this often
+const REFRESH_MS = 60000;
+
+/**
+ * Whether the customer's branch is open, closed or paused right now
+ * The branch saved in localStorage can be out of date, so its hours and pause
+ * state are read fresh and re-read every minute. `branch` is null until then.
+ */
+export const useBranchStatus = (branchId: string | undefined) => {
+  const [branch, setBranch] = useState<Branch | null>(null);
+  const now = useNow();
+
+  const fetchBranch = useCallback(async () => {
+    if (!branchId) {
+      setBranch(null);
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from('branches')
+        .select('*')
+        .eq('id', branchId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setBranch(data ? toBranch(data) : null);
+    } catch (err) {
+      console.error('Error fetching branch hours:', err);
+    }
+  }, [branchId]);
+
+  useEffect(() => {
+    fetchBranch();
+    const timer = setInterval(fetchBranch, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchBranch]);
+
+  const status = useMemo(() => (branch ? getBranchStatus(branch, now) : null), [branch, now]);
+
+  return { branch, status, now, refresh: fetchBranch };
+};
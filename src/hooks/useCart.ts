@@ -1,42 +1,138 @@
-import { useState, useCallback } from 'react';
-import { CartItem, MenuItem, Variation, AddOn } from '../types';
+import { useState, useCallback, useEffect } from 'react';
+import { CartItem, MenuItem, Variation, AddOn, BundleSelection } from '../types';
+import {
+  CART_STORAGE_KEY,
+  CART_STORAGE_VERSION,
+  CartIssue,
+  isBlockingCartIssue,
+  parseStoredCart,
+  validateCartItems
+} from '../lib/cart';
+import { getLineTotal, groupAddOns, priceLine, sumLineTotals } from '../lib/pricing';
+import { getBundleKey } from '../lib/bundles';
 
-export const useCart = () => {
+// Also keep the cart server-side, keyed by the browser's order session
+const SERVER_CART_ENABLED = process.env.NEXT_PUBLIC_SERVER_CART === 'true';
+const SERVER_SAVE_DELAY_MS = 1000;
+
+const readLocalCart = (): CartItem[] => {
+  try {
+    const stored = localStorage.getItem(CART_STORAGE_KEY);
+    return stored ? parseStoredCart(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.error('Error reading cart from storage:', error);
+    return [];
+  }
+};
+
+const writeLocalCart = (items: CartItem[]) => {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(CART_STORAGE_KEY);
+    } else {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify({ version: CART_STORAGE_VERSION, items }));
+    }
+  } catch (error) {
+    console.error('Error saving cart to storage:', error);
+  }
+};
+
+const fetchServerCart = async (): Promise<CartItem[]> => {
+  try {
+    const response = await fetch('/api/cart');
+    if (!response.ok) return [];
+    const data = await response.json();
+    return Array.isArray(data.items) ? data.items : [];
+  } catch (error) {
+    console.error('Error fetching saved cart:', error);
+    return [];
+  }
+};
+
+const saveServerCart = async (items: CartItem[]) => {
+  try {
+    await fetch('/api/cart', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items })
+    });
+  } catch (error) {
+    console.error('Error saving cart:', error);
+  }
+};
+
+/**
+ * Shopping cart, saved in localStorage (and optionally on the server)
+ * Pass the loaded menu to re-check saved lines: removed or unavailable items
+ * and price changes are reported in `cartIssues`.
+ */
+export const useCart = (menuItems?: MenuItem[]) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [cartIssues, setCartIssues] = useState<CartIssue[]>([]);
+  const [hydrated, setHydrated] = useState(false);
   const [isCartOpen, setIsCartOpen] = useState(false);
 
-  const calculateItemPrice = useCallback((item: MenuItem, variation?: Variation, addOns?: AddOn[]) => {
-    let price = item.basePrice;
-    if (variation) {
-      price += variation.price;
-    }
-    if (addOns) {
-      addOns.forEach(addOn => {
-        price += addOn.price;
-      });
-    }
-    return price;
+  // Restore the saved cart once on load
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      let saved = readLocalCart();
+      if (saved.length === 0 && SERVER_CART_ENABLED) {
+        saved = await fetchServerCart();
+      }
+      if (cancelled) return;
+      if (saved.length > 0) {
+        // Anything added while the server cart was loading wins
+        setCartItems(prev => (prev.length > 0 ? prev : saved));
+      }
+      setHydrated(true);
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save every change once the saved cart has been restored
+  useEffect(() => {
+    if (!hydrated) return;
+    writeLocalCart(cartItems);
+
+    if (!SERVER_CART_ENABLED) return;
+    const timer = setTimeout(() => saveServerCart(cartItems), SERVER_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [cartItems, hydrated]);
+
+  // Re-check the restored cart whenever the menu (re)loads
+  useEffect(() => {
+    if (!hydrated || !menuItems || menuItems.length === 0 || cartItems.length === 0) return;
+
+    const { items, issues } = validateCartItems(cartItems, menuItems);
+    setCartItems(items);
+    setCartIssues(issues);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hydrated, menuItems]); // Only when the menu changes - new lines are priced from it already
+
+  const calculateItemPrice = useCallback((item: MenuItem, variation?: Variation, addOns?: AddOn[], bundleSelections?: BundleSelection[]) => {
+    return priceLine({ item, variation, addOns, bundleSelections }).unitPrice;
   }, []);
 
-  const addToCart = useCallback((item: MenuItem, quantity: number = 1, variation?: Variation, addOns?: AddOn[]) => {
-    const totalPrice = calculateItemPrice(item, variation, addOns);
+  // A combo is one line; `bundleSelections` holds the item picked for each slot
+  const addToCart = useCallback((item: MenuItem, quantity: number = 1, variation?: Variation, addOns?: AddOn[], bundleSelections?: BundleSelection[]) => {
+    const totalPrice = calculateItemPrice(item, variation, addOns, bundleSelections);
+    const bundleKey = getBundleKey(bundleSelections);
     
     // Group add-ons by name and sum their quantities
-    const groupedAddOns = addOns?.reduce((groups, addOn) => {
-      const existing = groups.find(g => g.id === addOn.id);
-      if (existing) {
-        existing.quantity = (existing.quantity || 1) + 1;
-      } else {
-        groups.push({ ...addOn, quantity: 1 });
-      }
-      return groups;
-    }, [] as (AddOn & { quantity: number })[]);
+    const groupedAddOns = groupAddOns(addOns);
     
     setCartItems(prev => {
       const existingItem = prev.find(cartItem => 
         cartItem.id === item.id && 
         cartItem.selectedVariation?.id === variation?.id &&
-        JSON.stringify(cartItem.selectedAddOns?.map(a => `${a.id}-${a.quantity || 1}`).sort()) === JSON.stringify(groupedAddOns?.map(a => `${a.id}-${a.quantity}`).sort())
+        getBundleKey(cartItem.selectedBundle) === bundleKey &&
+        JSON.stringify(cartItem.selectedAddOns?.map(a => `${a.id}-${a.quantity || 1}`).sort()) === JSON.stringify(groupedAddOns.map(a => `${a.id}-${a.quantity}`).sort())
       );
       
       if (existingItem) {
@@ -46,13 +142,14 @@ export const useCart = () => {
             : cartItem
         );
       } else {
-        const uniqueId = `${item.id}-${variation?.id || 'default'}-${addOns?.map(a => a.id).join(',') || 'none'}`;
+        const uniqueId = `${item.id}-${variation?.id || 'default'}-${addOns?.map(a => a.id).join(',') || 'none'}${bundleKey ? `-${bundleKey}` : ''}`;
         return [...prev, { 
           ...item,
           id: uniqueId,
           quantity,
           selectedVariation: variation,
-          selectedAddOns: groupedAddOns || [],
+          selectedAddOns: groupedAddOns,
+          selectedBundle: bundleSelections,
           totalPrice
         }];
       }
@@ -62,6 +159,7 @@ export const useCart = () => {
   const updateQuantity = useCallback((id: string, quantity: number) => {
     if (quantity <= 0) {
       setCartItems(prev => prev.filter(cartItem => cartItem.id !== id));
+      setCartIssues(prev => prev.filter(issue => issue.cartItemId !== id));
       return;
     }
     
@@ -74,14 +172,26 @@ export const useCart = () => {
 
   const removeFromCart = useCallback((id: string) => {
     setCartItems(prev => prev.filter(item => item.id !== id));
+    setCartIssues(prev => prev.filter(issue => issue.cartItemId !== id));
   }, []);
 
   const clearCart = useCallback(() => {
     setCartItems([]);
+    setCartIssues([]);
+    // Write straight away: this also runs right before leaving the page after an order
+    writeLocalCart([]);
+    if (SERVER_CART_ENABLED) {
+      saveServerCart([]);
+    }
+  }, []);
+
+  // The customer has seen the price changes; lines that must be removed stay flagged
+  const dismissCartIssues = useCallback(() => {
+    setCartIssues(prev => prev.filter(isBlockingCartIssue));
   }, []);
 
   const getTotalPrice = useCallback(() => {
-    return cartItems.reduce((total, item) => total + (item.totalPrice * item.quantity), 0);
+    return sumLineTotals(cartItems.map(item => getLineTotal(item.totalPrice, item.quantity)));
   }, [cartItems]);
 
   const getTotalItems = useCallback(() => {
@@ -93,11 +203,14 @@ export const useCart = () => {
 
   return {
     cartItems,
+    cartIssues,
+    hasBlockingIssues: cartIssues.some(isBlockingCartIssue),
     isCartOpen,
     addToCart,
     updateQuantity,
     removeFromCart,
     clearCart,
+    dismissCartIssues,
     getTotalPrice,
     getTotalItems,
     openCart,
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { normalizeSchedule } from '../lib/schedule';
+import { AvailabilitySchedule } from '../types';
 
 export interface Category {
   id: string;
@@ -7,6 +9,8 @@ export interface Category {
   icon: string;
   sort_order: number;
   active: boolean;
+  // Items in the category can only be ordered inside this; null means always
+  availability_schedule?: AvailabilitySchedule | null;
   created_at: string;
   updated_at: string;
 }
@@ -28,7 +32,10 @@ export const useCategories = () => {
 
       if (fetchError) throw fetchError;
 
-      setCategories(data || []);
+      setCategories((data || []).map(category => ({
+        ...category,
+        availability_schedule: normalizeSchedule(category.availability_schedule)
+      })));
       setError(null);
     } catch (err) {
       console.error('Error fetching categories:', err);
@@ -47,7 +54,8 @@ export const useCategories = () => {
           name: category.name,
           icon: category.icon,
           sort_order: category.sort_order,
-          active: category.active
+          active: category.active,
+          availability_schedule: normalizeSchedule(category.availability_schedule)
         })
         .select()
         .single();
@@ -70,7 +78,8 @@ export const useCategories = () => {
           name: updates.name,
           icon: updates.icon,
           sort_order: updates.sort_order,
-          active: updates.active
+          active: updates.active,
+          availability_schedule: normalizeSchedule(updates.availability_schedule)
         })
         .eq('id', id);
 
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Ingredient, InventoryItem, LowStockAlert, RecipeItem } from '../types';
+
+export type ItemStockInput = Partial<Pick<InventoryItem, 'track_stock' | 'low_stock_threshold' | 'stock_quantity'>> & {
+  recipe?: RecipeItem[];
+};
+
+export type IngredientInput = Pick<Ingredient, 'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold'>;
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({ error: fallback }));
+  return new Error(errorData.error || fallback);
+};
+
+/**
+ * Stock levels, ingredients and low-stock alerts, for the admin inventory view
+ */
+export const useInventory = () => {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [alerts, setAlerts] = useState<LowStockAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInventory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/inventory');
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch inventory');
+      }
+      const data = await response.json();
+      setItems(data.items || []);
+      setIngredients(data.ingredients || []);
+      setAlerts(data.alerts || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching inventory:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch inventory');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateItemStock = async (id: string, updates: ItemStockInput) => {
+    const response = await fetch(`/api/inventory/items/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update stock');
+    }
+    await fetchInventory();
+  };
+
+  const addIngredient = async (ingredient: IngredientInput) => {
+    const response = await fetch('/api/inventory/ingredients', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ingredient)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to create ingredient');
+    }
+    await fetchInventory();
+  };
+
+  const updateIngredient = async (id: string, updates: Partial<IngredientInput>) => {
+    const response = await fetch(`/api/inventory/ingredients/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update ingredient');
+    }
+    await fetchInventory();
+  };
+
+  const deleteIngredient = async (id: string) => {
+    const response = await fetch(`/api/inventory/ingredients/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete ingredient');
+    }
+    await fetchInventory();
+  };
+
+  useEffect(() => {
+    fetchInventory();
+  }, [fetchInventory]);
+
+  return {
+    items,
+    ingredients,
+    alerts,
+    loading,
+    error,
+    updateItemStock,
+    addIngredient,
+    updateIngredient,
+    deleteIngredient,
+    refetch: fetchInventory
+  };
+};
@@ -1,40 +1,104 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { MenuItem } from '../types';
+import { getEffectiveBasePrice, isDiscountActive } from '../lib/pricing';
+import { BUNDLE_SLOTS_SELECT, toBundleSlots } from '../lib/bundles';
+import { ADD_ON_GROUPS_SELECT, toAddOnGroups } from '../lib/addOnGroups';
+import { VARIATION_DIMENSIONS_SELECT, toVariationDimensions, toVariationOverrides } from '../lib/variations';
+import { applyBranchOverrides, toBranchMenuOverrides } from '../lib/branchMenu';
+import { CATEGORY_SCHEDULE_SELECT, normalizeSchedule, toMenuItemSchedules } from '../lib/schedule';
 
-export const useMenu = () => {
+// One `menu` channel per page, shared by every useMenu instance: the realtime
+// client hands out the same channel for a topic, so each instance removing
+// its own would cut the others off
+const menuChangeListeners = new Set<() => void>();
+let menuChannel: RealtimeChannel | null = null;
+
+const subscribeToMenuChanges = (listener: () => void) => {
+  menuChangeListeners.add(listener);
+  if (!menuChannel) {
+    // The database broadcasts a payload-free signal when items change
+    // (including automatic sell-outs); listeners refetch the menu
+    menuChannel = supabase
+      .channel('menu')
+      .on('broadcast', { event: 'menu_changed' }, () => {
+        menuChangeListeners.forEach(notify => notify());
+      })
+      .subscribe();
+  }
+
+  return () => {
+    menuChangeListeners.delete(listener);
+    if (menuChangeListeners.size === 0 && menuChannel) {
+      supabase.removeChannel(menuChannel);
+      menuChannel = null;
+    }
+  };
+};
+
+// Add-ons, add-on groups, variation dimensions and combo slots feed server
+// pricing, so they are replaced through the staff API rather than written here
+const saveMenuItemOptions = async (menuItemId: string, item: Partial<MenuItem>) => {
+  const response = await fetch(`/api/menu/${menuItemId}/options`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      addOns: item.addOns || [],
+      addOnGroups: item.addOnGroups || [],
+      variationDimensions: item.variationDimensions || [],
+      variationOverrides: item.variationOverrides || [],
+      bundleSlots: item.itemType === 'bundle' ? item.bundleSlots || [] : []
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to save menu item options');
+  }
+};
+
+/**
+ * Menu items with their options
+ * With a `branchId`, the menu as that branch sells it (its sold-out items and
+ * prices); without one, the main menu, as the admin edits it.
+ */
+export const useMenu = (branchId?: string | null) => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchMenuItems = async () => {
+  // Live refreshes pass showLoading = false so the storefront does not flash a spinner
+  const fetchMenuItems = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       
-      // Fetch menu items with their variations and add-ons
+      // Fetch menu items with their variations, add-ons and combo slots
       const { data: items, error: itemsError } = await supabase
         .from('menu_items')
         .select(`
           *,
           variations (*),
-          add_ons (*)
+          add_ons (*),
+          ${ADD_ON_GROUPS_SELECT},
+          ${VARIATION_DIMENSIONS_SELECT},
+          ${BUNDLE_SLOTS_SELECT},
+          ${CATEGORY_SCHEDULE_SELECT}
         `)
         .order('created_at', { ascending: true });
 
       if (itemsError) throw itemsError;
 
       const formattedItems: MenuItem[] = items?.map(item => {
-        // Calculate if discount is currently active
         const now = new Date();
-        const discountStart = item.discount_start_date ? new Date(item.discount_start_date) : null;
-        const discountEnd = item.discount_end_date ? new Date(item.discount_end_date) : null;
-        
-        const isDiscountActive = item.discount_active && 
-          (!discountStart || now >= discountStart) && 
-          (!discountEnd || now <= discountEnd);
-        
-        // Calculate effective price
-        const effectivePrice = isDiscountActive && item.discount_price ? item.discount_price : item.base_price;
+        const variationDimensions = toVariationDimensions(item.variation_dimensions);
+        const pricingItem = {
+          basePrice: item.base_price,
+          discountPrice: item.discount_price,
+          discountActive: item.discount_active,
+          discountStartDate: item.discount_start_date,
+          discountEndDate: item.discount_end_date
+        };
 
         return {
           id: item.id,
@@ -44,28 +108,46 @@ export const useMenu = () => {
           category: item.category,
           popular: item.popular,
           available: item.available ?? true,
+          autoSoldOut: item.auto_sold_out || false,
           image: item.image_url || undefined,
           discountPrice: item.discount_price || undefined,
           discountStartDate: item.discount_start_date || undefined,
           discountEndDate: item.discount_end_date || undefined,
           discountActive: item.discount_active || false,
-          effectivePrice,
-          isOnDiscount: isDiscountActive,
+          effectivePrice: getEffectiveBasePrice(pricingItem, now),
+          isOnDiscount: isDiscountActive(pricingItem, now),
           variations: item.variations?.map(v => ({
             id: v.id,
             name: v.name,
             price: v.price
           })) || [],
+          variationDimensions,
+          variationOverrides: toVariationOverrides(item.variation_price_overrides, variationDimensions),
           addOns: item.add_ons?.map(a => ({
             id: a.id,
             name: a.name,
             price: a.price,
-            category: a.category
-          })) || []
+            category: a.category,
+            groupId: a.group_id || null
+          })) || [],
+          addOnGroups: toAddOnGroups(item.add_on_groups),
+          itemType: item.item_type || 'single',
+          bundleSlots: toBundleSlots(item.bundle_slots),
+          ...toMenuItemSchedules(item)
         };
       }) || [];
 
-      setMenuItems(formattedItems);
+      if (branchId) {
+        const { data: overrides, error: overridesError } = await supabase
+          .from('branch_menu_overrides')
+          .select('*')
+          .eq('branch_id', branchId);
+
+        if (overridesError) throw overridesError;
+        setMenuItems(applyBranchOverrides(formattedItems, toBranchMenuOverrides(overrides)));
+      } else {
+        setMenuItems(formattedItems);
+      }
       setError(null);
     } catch (err) {
       console.error('Error fetching menu items:', err);
@@ -91,7 +173,9 @@ export const useMenu = () => {
           discount_price: item.discountPrice || null,
           discount_start_date: item.discountStartDate || null,
           discount_end_date: item.discountEndDate || null,
-          discount_active: item.discountActive || false
+          discount_active: item.discountActive || false,
+          item_type: item.itemType || 'single',
+          availability_schedule: normalizeSchedule(item.schedule)
         })
         .select()
         .single();
@@ -113,21 +197,8 @@ export const useMenu = () => {
         if (variationsError) throw variationsError;
       }
 
-      // Insert add-ons if any
-      if (item.addOns && item.addOns.length > 0) {
-        const { error: addOnsError } = await supabase
-          .from('add_ons')
-          .insert(
-            item.addOns.map(a => ({
-              menu_item_id: menuItem.id,
-              name: a.name,
-              price: a.price,
-              category: a.category
-            }))
-          );
-
-        if (addOnsError) throw addOnsError;
-      }
+      // Save variation dimensions, add-ons and combo slots
+      await saveMenuItemOptions(menuItem.id, item);
 
       await fetchMenuItems();
       return menuItem;
@@ -149,19 +220,22 @@ export const useMenu = () => {
           category: updates.category,
           popular: updates.popular,
           available: updates.available,
+          // Switching a sold-out item back on by hand clears the automatic sell-out
+          auto_sold_out: !updates.available && Boolean(updates.autoSoldOut),
           image_url: updates.image || null,
           discount_price: updates.discountPrice || null,
           discount_start_date: updates.discountStartDate || null,
           discount_end_date: updates.discountEndDate || null,
-          discount_active: updates.discountActive
+          discount_active: updates.discountActive,
+          item_type: updates.itemType,
+          availability_schedule: normalizeSchedule(updates.schedule)
         })
         .eq('id', id);
 
       if (itemError) throw itemError;
 
-      // Delete existing variations and add-ons
+      // Delete existing variations
       await supabase.from('variations').delete().eq('menu_item_id', id);
-      await supabase.from('add_ons').delete().eq('menu_item_id', id);
 
       // Insert new variations
       if (updates.variations && updates.variations.length > 0) {
@@ -178,21 +252,8 @@ export const useMenu = () => {
         if (variationsError) throw variationsError;
       }
 
-      // Insert new add-ons
-      if (updates.addOns && updates.addOns.length > 0) {
-        const { error: addOnsError } = await supabase
-          .from('add_ons')
-          .insert(
-            updates.addOns.map(a => ({
-              menu_item_id: id,
-              name: a.name,
-              price: a.price,
-              category: a.category
-            }))
-          );
-
-        if (addOnsError) throw addOnsError;
-      }
+      // Replace variation dimensions, add-ons and combo slots
+      await saveMenuItemOptions(id, updates);
 
       await fetchMenuItems();
     } catch (err) {
@@ -219,7 +280,9 @@ export const useMenu = () => {
 
   useEffect(() => {
     fetchMenuItems();
-  }, []);
+    return subscribeToMenuChanges(() => fetchMenuItems(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [branchId]);
 
   return {
     menuItems,
@@ -228,6 +291,6 @@ export const useMenu = () => {
     addMenuItem,
     updateMenuItem,
     deleteMenuItem,
-    refetch: fetchMenuItems
+    refetch: () => fetchMenuItems()
   };
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { toBranch } from '../lib/branchHours';
+import { rankBranchesByDistance } from '../lib/deliveryZones';
+import { Branch, Coordinates } from '../types';
+
+/**
+ * Active branches nearest first from the customer's delivery address
+ * `nearest` is the closest one whose delivery zone covers the address, null
+ * when none does. Branches are read once the first address is picked;
+ * `loaded` is false until then. If they can't be read nothing is ranked and
+ * the order is still checked by POST /api/orders.
+ */
+export const useNearestBranch = (coordinates: Coordinates | null) => {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const wanted = Boolean(coordinates);
+
+  useEffect(() => {
+    if (!wanted || loaded) return;
+
+    const fetchBranches = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('branches')
+          .select('*')
+          .eq('is_active', true);
+
+        if (error) throw error;
+        setBranches((data || []).map(toBranch));
+      } catch (err) {
+        console.error('Error fetching branches:', err);
+      } finally {
+        setLoaded(true);
+      }
+    };
+
+    fetchBranches();
+  }, [wanted, loaded]);
+
+  const ranked = useMemo(
+    () => (coordinates ? rankBranchesByDistance(branches, coordinates) : []),
+    [branches, coordinates]
+  );
+  const nearest = useMemo(() => ranked.find(entry => entry.delivers) || null, [ranked]);
+
+  return { ranked, nearest, loaded };
+};
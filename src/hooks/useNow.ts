@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * The current time, refreshed every `intervalMs`
+ * Lets schedule-based availability change on screen without a reload.
+ */
+export const useNow = (intervalMs: number = 60000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
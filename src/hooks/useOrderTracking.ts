@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { OrderTracking } from '../types';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+// Fallback refresh in case a realtime message is missed
+const POLL_INTERVAL_MS = 60_000;
+
+// Remembers the verified contact number for this tab so a reload skips the form
+const storageKey = (orderNumber: string) => `order-tracking:${orderNumber}`;
+
+export const useOrderTracking = (orderNumber: string) => {
+  const [order, setOrder] = useState<OrderTracking | null>(null);
+  const [contactNumber, setContactNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const lookup = useCallback(async (contact: string) => {
+    const response = await fetch('/api/orders/track', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderNumber, contactNumber: contact })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to load order' }));
+      throw new Error(errorData.error || 'Failed to load order');
+    }
+
+    const data = await response.json();
+    return data.order as OrderTracking;
+  }, [orderNumber]);
+
+  /**
+   * Check the contact number against the order and start tracking it
+   */
+  const verify = useCallback(async (contact: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await lookup(contact);
+      setOrder(result);
+      setContactNumber(contact);
+      sessionStorage.setItem(storageKey(orderNumber), contact);
+    } catch (err) {
+      console.error('Error verifying order:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load order');
+      sessionStorage.removeItem(storageKey(orderNumber));
+    } finally {
+      setLoading(false);
+    }
+  }, [lookup, orderNumber]);
+
+  const refresh = useCallback(async () => {
+    if (!contactNumber) return;
+    try {
+      setOrder(await lookup(contactNumber));
+    } catch (err) {
+      console.error('Error refreshing order:', err);
+    }
+  }, [contactNumber, lookup]);
+
+  // Resume tracking with the number verified earlier in this tab
+  useEffect(() => {
+    const saved = sessionStorage.getItem(storageKey(orderNumber));
+    if (saved) {
+      verify(saved);
+    }
+  }, [orderNumber, verify]);
+
+  const isFinished = order?.status === 'completed' || order?.status === 'cancelled';
+
+  // The database broadcasts a payload-free signal on `order:<order number>`
+  // whenever the order changes; the details always come from the tracking API
+  useEffect(() => {
+    if (!contactNumber || isFinished) return;
+
+    const channel = supabase
+      .channel(`order:${orderNumber}`)
+      .on('broadcast', { event: 'order_changed' }, () => {
+        refresh();
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [contactNumber, isFinished, orderNumber, refresh]);
+
+  return {
+    order,
+    verified: contactNumber !== null && order !== null,
+    loading,
+    error,
+    verify,
+    refresh
+  };
+};
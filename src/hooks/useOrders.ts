@@ -1,38 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import { Order, OrderFilters, OrderStats, OrderStatus, CartItem } from '../types';
-import { createDeliveryOrder, buildLalamoveConfig } from '../lib/lalamove';
-import type { DeliveryOrderResult } from '../lib/lalamove';
-import { useSiteSettings } from './useSiteSettings';
+import { Order, OrderFilters, OrderStats, OrderStatus, CartItem, LalamoveDriver, DeliveryBooking, SalesReport, StatutoryDiscountClaim } from '../types';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
-/**
- * Admin password (should match server-side)
- */
-const ADMIN_PASSWORD = 'Starrs@Admin!2025';
-
-/**
- * Generate admin auth token from password
- * Must match server-side implementation
- */
-function generateAdminToken(): string {
-  // Simple token generation - matches server-side
-  return btoa(ADMIN_PASSWORD);
-}
-
-/**
- * Get admin auth headers if admin is authenticated
- */
-function getAdminHeaders(): Record<string, string> {
-  const isAdmin = typeof window !== 'undefined' && localStorage.getItem('beracah_admin_auth') === 'true';
-  if (isAdmin) {
-    return {
-      'X-Admin-Auth': generateAdminToken()
-    };
-  }
-  return {};
-}
-
 import { Branch } from '../types';
 
 interface CreateOrderOptions {
@@ -41,6 +11,8 @@ interface CreateOrderOptions {
   pickupTime?: string;
   partySize?: number;
   dineInTime?: string;
+  // ISO timestamp of an order-ahead slot; omit for as soon as possible
+  scheduledFor?: string;
   referenceNumber?: string;
   notes?: string;
   deliveryFee?: number;
@@ -49,40 +21,54 @@ interface CreateOrderOptions {
   deliveryLng?: number;
   branchId?: string;
   branch?: Branch;
+  voucherCode?: string;
+  statutoryDiscount?: StatutoryDiscountClaim;
+}
+
+export interface CourierCancellation {
+  cancelled: boolean;
+  error?: string;
+}
+
+export interface UpdateStatusResult {
+  /** Outcome of cancelling the Lalamove booking, when a booked order was cancelled */
+  courierCancellation: CourierCancellation | null;
+}
+
+export interface BulkUpdateResult {
+  updated: number;
+  skipped: { id: string; order_number: string; reason: string }[];
+  courierErrors: { id: string; order_number: string; error: string }[];
+}
+
+/**
+ * Thrown by createOrder when the server refuses an order with 429
+ */
+export class OrderRateLimitError extends Error {
+  /** Seconds until another order will be accepted */
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'OrderRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface UseOrdersOptions {
+  /**
+   * Load and subscribe to the staff order list (default true)
+   * The storefront only creates orders, so it turns this off.
+   */
+  enabled?: boolean;
 }
 
-export const useOrders = () => {
+export const useOrders = ({ enabled = true }: UseOrdersOptions = {}) => {
   const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(enabled);
   const [error, setError] = useState<string | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
   const currentFiltersRef = useRef<OrderFilters | undefined>(undefined);
-  const { siteSettings } = useSiteSettings();
-  const lalamoveConfig = buildLalamoveConfig(siteSettings);
-
-  const normalizePhoneNumber = (phone?: string): string | undefined => {
-    if (!phone) return undefined;
-    const trimmed = phone.trim();
-    if (!trimmed) return undefined;
-
-    // Remove all non-digits
-    const digits = trimmed.replace(/\D/g, '');
-    if (!digits) return undefined;
-
-    // Always normalize to +63 format
-    if (digits.startsWith('63')) {
-      return `+${digits}`;
-    } else if (digits.startsWith('0')) {
-      // Remove leading 0 and add 63
-      return `+63${digits.slice(1)}`;
-    } else if (digits.startsWith('9')) {
-      // Add 63 prefix
-      return `+63${digits}`;
-    } else {
-      // Add 63 prefix for any other format
-      return `+63${digits}`;
-    }
-  };
 
   const fetchOrders = useCallback(async (filters?: OrderFilters) => {
     try {
@@ -100,11 +86,7 @@ export const useOrders = () => {
       const queryString = params.toString();
       const url = `/api/orders${queryString ? `?${queryString}` : ''}`;
 
-      const response = await fetch(url, {
-        headers: {
-          ...getAdminHeaders()
-        }
-      });
+      const response = await fetch(url);
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to fetch orders' }));
@@ -125,11 +107,7 @@ export const useOrders = () => {
 
   const fetchOrderById = async (id: string): Promise<Order | null> => {
     try {
-      const response = await fetch(`/api/orders/${id}`, {
-        headers: {
-          ...getAdminHeaders()
-        }
-      });
+      const response = await fetch(`/api/orders/${id}`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -162,7 +140,6 @@ export const useOrders = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...getAdminHeaders(),
         },
         body: JSON.stringify({
           cartItems,
@@ -177,71 +154,21 @@ export const useOrders = () => {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to create order' }));
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || Number(errorData.retryAfter) || 60;
+          throw new OrderRateLimitError(errorData.error || 'Too many orders. Please try again later.', retryAfter);
+        }
         throw new Error(errorData.error || 'Failed to create order');
       }
 
       const data = await response.json();
-      let order = data.order;
-
-      // Handle Lalamove delivery order creation if needed
-      if (
-        serviceType === 'delivery' &&
-        options?.lalamoveQuotationId &&
-        lalamoveConfig
-      ) {
-        try {
-          const orderLalamoveConfig = options?.branch
-            ? buildLalamoveConfig(siteSettings, options.branch)
-            : lalamoveConfig;
-
-          if (orderLalamoveConfig) {
-            const normalizedRecipientPhone = normalizePhoneNumber(contactNumber) || contactNumber;
-            const lalamoveOrderResult: DeliveryOrderResult = await createDeliveryOrder(
-              options.lalamoveQuotationId,
-              customerName,
-              normalizedRecipientPhone,
-              orderLalamoveConfig,
-              {
-                orderId: order.id,
-                deliveryAddress: options?.address,
-                deliveryLat: options?.deliveryLat,
-                deliveryLng: options?.deliveryLng,
-              }
-            );
-
-            // Update order with Lalamove info via API
-            if (lalamoveOrderResult) {
-              await fetch(`/api/orders/${order.id}`, {
-                method: 'PATCH',
-                headers: {
-                  'Content-Type': 'application/json',
-                  ...getAdminHeaders(),
-                },
-                body: JSON.stringify({
-                  status: order.status, // Keep current status
-                  lalamove_order_id: lalamoveOrderResult.orderId,
-                  lalamove_status: lalamoveOrderResult.status,
-                  lalamove_tracking_url: lalamoveOrderResult.shareLink,
-                }),
-              });
-
-              // Update local order object
-              order = {
-                ...order,
-                lalamove_order_id: lalamoveOrderResult.orderId,
-                lalamove_status: lalamoveOrderResult.status,
-                lalamove_tracking_url: lalamoveOrderResult.shareLink,
-              };
-            }
-          }
-        } catch (orderError) {
-          console.error('Failed to create Lalamove order:', orderError);
-          // Don't fail the entire order creation if Lalamove fails
-        }
-      }
+      // The courier is booked server-side once staff confirm the order
+      const order = data.order;
 
       // Refresh orders list
-      await fetchOrders(currentFiltersRef.current);
+      if (enabled) {
+        await fetchOrders(currentFiltersRef.current);
+      }
 
       return order;
     } catch (err) {
@@ -250,15 +177,14 @@ export const useOrders = () => {
     }
   };
 
-  const updateOrderStatus = async (id: string, status: OrderStatus): Promise<void> => {
+  const updateOrderStatus = async (id: string, status: OrderStatus, reason?: string): Promise<UpdateStatusResult> => {
     try {
       const response = await fetch(`/api/orders/${id}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          ...getAdminHeaders(),
         },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, reason }),
       });
 
       if (!response.ok) {
@@ -266,25 +192,28 @@ export const useOrders = () => {
         throw new Error(errorData.error || 'Failed to update order');
       }
 
+      const data = await response.json();
+
       // Refresh orders list (non-blocking - don't wait for it)
       fetchOrders(currentFiltersRef.current).catch(err => {
         console.error('Error refreshing orders after update:', err);
       });
+
+      return { courierCancellation: data.courier_cancellation || null };
     } catch (err) {
       console.error('Error updating order status:', err);
       throw err;
     }
   };
 
-  const bulkUpdateStatus = async (ids: string[], status: OrderStatus): Promise<void> => {
+  const bulkUpdateStatus = async (ids: string[], status: OrderStatus, reason?: string): Promise<BulkUpdateResult> => {
     try {
       const response = await fetch('/api/orders/bulk', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          ...getAdminHeaders(),
         },
-        body: JSON.stringify({ ids, status }),
+        body: JSON.stringify({ ids, status, reason }),
       });
 
       if (!response.ok) {
@@ -292,23 +221,96 @@ export const useOrders = () => {
         throw new Error(errorData.error || 'Failed to update orders');
       }
 
+      const data = await response.json();
+
       // Refresh orders list (non-blocking - don't wait for it)
       fetchOrders(currentFiltersRef.current).catch(err => {
         console.error('Error refreshing orders after bulk update:', err);
       });
+
+      return {
+        updated: data.updated || 0,
+        skipped: data.skipped || [],
+        courierErrors: data.courier_errors || []
+      };
     } catch (err) {
       console.error('Error bulk updating order status:', err);
       throw err;
     }
   };
 
-  const getOrderStats = async (): Promise<OrderStats> => {
+  // Staff actions on an order's Lalamove booking (see app/api/lalamove/[action])
+  const courierAction = async (action: string, body: Record<string, unknown>): Promise<any> => {
+    const response = await fetch(`/api/lalamove/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Lalamove request failed' }));
+    if (!response.ok) {
+      throw new Error(data.error || 'Lalamove request failed');
+    }
+    return data;
+  };
+
+  const cancelCourier = async (orderId: string): Promise<void> => {
+    await courierAction('cancel', { orderId });
+    fetchOrders(currentFiltersRef.current).catch(err => {
+      console.error('Error refreshing orders after courier cancel:', err);
+    });
+  };
+
+  const refreshCourierStatus = async (orderId: string): Promise<void> => {
+    await courierAction('status', { orderId });
+  };
+
+  const fetchCourierDriver = async (orderId: string): Promise<LalamoveDriver | null> => {
+    const data = await courierAction('driver', { orderId });
+    return data.driver || null;
+  };
+
+  const addCourierPriorityFee = async (orderId: string, amount: number): Promise<void> => {
+    await courierAction('priority-fee', { orderId, amount });
+  };
+
+  const retryDeliveryBooking = async (orderId: string): Promise<DeliveryBooking | null> => {
     try {
-      const response = await fetch('/api/orders/stats', {
-        headers: {
-          ...getAdminHeaders()
-        }
+      const response = await fetch(`/api/orders/${orderId}/booking`, {
+        method: 'POST',
+      });
+
+      const data = await response.json().catch(() => ({ error: 'Failed to book courier' }));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to book courier');
+      }
+
+      fetchOrders(currentFiltersRef.current).catch(err => {
+        console.error('Error refreshing orders after booking retry:', err);
       });
+      return data.booking || null;
+    } catch (err) {
+      console.error('Error retrying delivery booking:', err);
+      throw err;
+    }
+  };
+
+  // Run courier bookings that are waiting for a retry
+  const processDeliveryBookings = async (): Promise<void> => {
+    const response = await fetch('/api/delivery-bookings/process', { method: 'POST' });
+    if (!response.ok) return;
+
+    const data = await response.json().catch(() => null);
+    if (data?.processed > 0) {
+      await fetchOrders(currentFiltersRef.current);
+    }
+  };
+
+  const getOrderStats = async (): Promise<OrderStats> => {
+    try {
+      const response = await fetch('/api/orders/stats');
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Failed to fetch stats' }));
@@ -323,8 +325,28 @@ export const useOrders = () => {
     }
   };
 
+  const getSalesReport = async (dateFrom: string, dateTo: string): Promise<SalesReport> => {
+    try {
+      const params = new URLSearchParams({ date_from: dateFrom, date_to: dateTo });
+      const response = await fetch(`/api/orders/report?${params.toString()}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Failed to fetch sales report' }));
+        throw new Error(errorData.error || 'Failed to fetch sales report');
+      }
+
+      const data = await response.json();
+      return data.report;
+    } catch (err) {
+      console.error('Error fetching sales report:', err);
+      throw err;
+    }
+  };
+
   // Set up real-time subscription for live updates
   useEffect(() => {
+    if (!enabled) return;
+
     let isMounted = true;
 
     // Initial fetch
@@ -332,19 +354,15 @@ export const useOrders = () => {
       fetchOrders();
     }
 
-    // Set up real-time subscription
+    // Set up real-time subscription. The database broadcasts a payload-free
+    // signal on the `orders` topic; the details come from the staff-only API.
     const channel = supabase
-      .channel('orders-changes')
+      .channel('orders')
       .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'orders'
-        },
-        async (payload) => {
+        'broadcast',
+        { event: 'orders_changed' },
+        async () => {
           if (!isMounted) return;
-          console.log('Order change received:', payload.eventType, payload.new);
 
           // Refetch orders to get updated data with order_items
           if (currentFiltersRef.current) {
@@ -354,25 +372,6 @@ export const useOrders = () => {
           }
         }
       )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'order_items'
-        },
-        async (payload) => {
-          if (!isMounted) return;
-          console.log('Order item change received:', payload.eventType);
-
-          // Refetch orders when order items change
-          if (currentFiltersRef.current) {
-            await fetchOrders(currentFiltersRef.current);
-          } else {
-            await fetchOrders();
-          }
-        }
-      )
       .subscribe((status) => {
         console.log('Subscription status:', status);
       });
@@ -388,7 +387,7 @@ export const useOrders = () => {
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Only run once on mount - fetchOrders is stable
+  }, [enabled]); // Only run once on mount - fetchOrders is stable
 
   return {
     orders,
@@ -399,7 +398,14 @@ export const useOrders = () => {
     createOrder,
     updateOrderStatus,
     bulkUpdateStatus,
+    cancelCourier,
+    refreshCourierStatus,
+    fetchCourierDriver,
+    addCourierPriorityFee,
+    retryDeliveryBooking,
+    processDeliveryBookings,
     getOrderStats,
+    getSalesReport,
     refetch: () => fetchOrders(currentFiltersRef.current)
   };
 };
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Branch } from '../types';
+
+const BRANCH_STORAGE_KEY = 'starrs_selected_branch';
+// Tells other components on the page that the branch changed
+const BRANCH_CHANGE_EVENT = 'starrs-branch-change';
+
+const readStoredBranch = (): Branch | null => {
+  try {
+    const stored = localStorage.getItem(BRANCH_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to parse stored branch');
+    return null;
+  }
+};
+
+/**
+ * The branch the customer is ordering from, saved in localStorage
+ * The storefront menu and checkout each use this hook and stay in step.
+ * `loaded` is false until storage has been read, so callers can tell "not
+ * chosen yet" from "not read yet".
+ */
+export const useSelectedBranch = () => {
+  const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setSelectedBranch(readStoredBranch());
+    setLoaded(true);
+
+    const handleChange = () => setSelectedBranch(readStoredBranch());
+    window.addEventListener(BRANCH_CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(BRANCH_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const selectBranch = useCallback((branch: Branch) => {
+    setSelectedBranch(branch);
+    localStorage.setItem(BRANCH_STORAGE_KEY, JSON.stringify(branch));
+    window.dispatchEvent(new Event(BRANCH_CHANGE_EVENT));
+  }, []);
+
+  return { selectedBranch, selectBranch, loaded };
+};
@@ -43,7 +43,22 @@ export const useSiteSettings = () => {
         lalamove_store_phone: getValue('lalamove_store_phone', ''),
         lalamove_store_address: getValue('lalamove_store_address', ''),
         lalamove_store_latitude: getValue('lalamove_store_latitude', ''),
-        lalamove_store_longitude: getValue('lalamove_store_longitude', '')
+        lalamove_store_longitude: getValue('lalamove_store_longitude', ''),
+        rate_limit_enabled: getValue('rate_limit_enabled', 'true'),
+        rate_limit_ip_max: getValue('rate_limit_ip_max', '5'),
+        rate_limit_ip_window_minutes: getValue('rate_limit_ip_window_minutes', '10'),
+        rate_limit_phone_max: getValue('rate_limit_phone_max', '3'),
+        rate_limit_phone_window_minutes: getValue('rate_limit_phone_window_minutes', '10'),
+        rate_limit_session_max: getValue('rate_limit_session_max', '2'),
+        rate_limit_session_window_minutes: getValue('rate_limit_session_window_minutes', '5'),
+        order_ahead_max_days: getValue('order_ahead_max_days', '7'),
+        order_ahead_lead_minutes: getValue('order_ahead_lead_minutes', '30'),
+        delivery_min_order: getValue('delivery_min_order', '0'),
+        delivery_free_above: getValue('delivery_free_above', '0'),
+        delivery_subsidy_type: getValue('delivery_subsidy_type', 'none'),
+        delivery_subsidy_value: getValue('delivery_subsidy_value', '0'),
+        delivery_markup: getValue('delivery_markup', '0'),
+        delivery_fee_rounding: getValue('delivery_fee_rounding', 'none')
       };
 
       setSiteSettings(settings);
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/**
+ * Time slots the customer's branch has no room in for this order
+ * Used by checkout to hide full or blocked slots. POST /api/orders checks
+ * again when the order is placed, so a 409 there should call `refresh`.
+ */
+export const useSlotAvailability = (branchId: string | undefined, itemCount: number) => {
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [tooManyItems, setTooManyItems] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!branchId || itemCount < 1) {
+      setUnavailable([]);
+      setTooManyItems(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ branchId, items: String(itemCount) });
+      const response = await fetch(`/api/slots?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch time slots');
+      }
+      const data = await response.json();
+      setUnavailable(data.unavailable || []);
+      setTooManyItems(Boolean(data.tooManyItems));
+    } catch (err) {
+      // Offer every slot; the order itself is still checked
+      console.error('Error fetching time slots:', err);
+      setUnavailable([]);
+      setTooManyItems(false);
+    } finally {
+      setLoading(false);
+    }
+  }, [branchId, itemCount]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { unavailable, tooManyItems, loading, refresh };
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { hasPermission } from '../lib/permissions';
+import type { Permission } from '../lib/permissions';
+import type { StaffUser } from '../types';
+
+/**
+ * Staff session for the admin dashboard
+ * The session itself lives in an httpOnly cookie; this hook only mirrors
+ * who is signed in so the UI can show the login screen or the dashboard.
+ */
+export const useStaffSession = () => {
+  const [staff, setStaff] = useState<StaffUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSession = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/session', { cache: 'no-store' });
+
+      if (!response.ok) {
+        setStaff(null);
+        return;
+      }
+
+      const data = await response.json();
+      setStaff(data.staff || null);
+    } catch (err) {
+      console.error('Error fetching staff session:', err);
+      setStaff(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const login = async (username: string, password: string): Promise<boolean> => {
+    try {
+      setError(null);
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+
+      const data = await response.json().catch(() => ({ error: 'Failed to sign in' }));
+      if (!response.ok) {
+        setError(data.error || 'Failed to sign in');
+        return false;
+      }
+
+      setStaff(data.staff);
+      return true;
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setError('Failed to sign in');
+      return false;
+    }
+  };
+
+  const logout = async (options?: { everywhere?: boolean }): Promise<void> => {
+    try {
+      await fetch('/api/admin/logout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ all: Boolean(options?.everywhere) }),
+      });
+    } catch (err) {
+      console.error('Error signing out:', err);
+    } finally {
+      setStaff(null);
+    }
+  };
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(staff?.role, permission),
+    [staff]
+  );
+
+  useEffect(() => {
+    fetchSession();
+  }, [fetchSession]);
+
+  return {
+    staff,
+    loading,
+    error,
+    login,
+    logout,
+    can,
+    refetch: fetchSession
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppliedVoucher, CartItem, ServiceType } from '../types';
+
+interface VoucherCheckInput {
+  cartItems: CartItem[];
+  serviceType: ServiceType;
+  branchId?: string;
+  contactNumber?: string;
+  deliveryFee?: number;
+}
+
+/**
+ * Voucher code entered at checkout
+ * The applied voucher is re-checked whenever the cart, service type, branch
+ * or delivery fee changes, and dropped with a message if it no longer applies.
+ */
+export const useVoucher = ({ cartItems, serviceType, branchId, contactNumber, deliveryFee }: VoucherCheckInput) => {
+  const [voucher, setVoucher] = useState<AppliedVoucher | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const contactRef = useRef(contactNumber);
+  contactRef.current = contactNumber;
+
+  const check = useCallback(async (code: string) => {
+    const response = await fetch('/api/vouchers/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code,
+        cartItems,
+        serviceType,
+        branchId,
+        contactNumber: contactRef.current,
+        deliveryFee
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to check voucher' }));
+      throw new Error(errorData.error || 'Failed to check voucher');
+    }
+
+    const data = await response.json();
+    return data.voucher as AppliedVoucher;
+  }, [cartItems, serviceType, branchId, deliveryFee]);
+
+  const applyVoucher = useCallback(async (code: string) => {
+    if (!code.trim()) return;
+    try {
+      setValidating(true);
+      setError(null);
+      setVoucher(await check(code));
+    } catch (err) {
+      setVoucher(null);
+      setError(err instanceof Error ? err.message : 'Failed to check voucher');
+    } finally {
+      setValidating(false);
+    }
+  }, [check]);
+
+  const removeVoucher = useCallback(() => {
+    setVoucher(null);
+    setError(null);
+  }, []);
+
+  // Re-check the applied code against the latest cart
+  useEffect(() => {
+    if (voucher) {
+      applyVoucher(voucher.code);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [check]); // Only when what the voucher is checked against changes
+
+  return {
+    voucher,
+    discount: voucher?.discount ?? 0,
+    validating,
+    error,
+    applyVoucher,
+    removeVoucher
+  };
+};
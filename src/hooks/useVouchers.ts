@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Voucher } from '../types';
+
+export type VoucherInput = Omit<Voucher, 'id' | 'created_at' | 'updated_at' | 'redemption_count' | 'discount_total'>;
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({ error: fallback }));
+  return new Error(errorData.error || fallback);
+};
+
+/**
+ * Vouchers and their redemption stats, for the admin voucher manager
+ */
+export const useVouchers = () => {
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVouchers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/vouchers');
+      if (!response.ok) {
+        throw await readError(response, 'Failed to fetch vouchers');
+      }
+      const data = await response.json();
+      setVouchers(data.vouchers || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching vouchers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch vouchers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const addVoucher = async (voucher: VoucherInput) => {
+    const response = await fetch('/api/vouchers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(voucher)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to create voucher');
+    }
+    await fetchVouchers();
+  };
+
+  const updateVoucher = async (id: string, updates: Partial<VoucherInput>) => {
+    const response = await fetch(`/api/vouchers/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to update voucher');
+    }
+    await fetchVouchers();
+  };
+
+  const deleteVoucher = async (id: string) => {
+    const response = await fetch(`/api/vouchers/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw await readError(response, 'Failed to delete voucher');
+    }
+    await fetchVouchers();
+  };
+
+  useEffect(() => {
+    fetchVouchers();
+  }, [fetchVouchers]);
+
+  return {
+    vouchers,
+    loading,
+    error,
+    addVoucher,
+    updateVoucher,
+    deleteVoucher,
+    refetch: fetchVouchers
+  };
+};
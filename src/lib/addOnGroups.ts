@@ -0,0 +1,138 @@
+import type { AddOn, AddOnGroup } from '../types';
+
+/**
+ * Add-on group rules
+ * A group says how many add-ons must and may be picked from it ("Choose milk -
+ * required, exactly 1", "Toppings - up to 3", "Extra shots - max 2 each").
+ * Shared by the customisation modal, the cart and POST /api/orders so a line
+ * is checked the same way everywhere. Add-ons without a group have no rules.
+ */
+
+/**
+ * Embed for menu_items selects
+ * The hint is needed because add_ons also links menu_items to add_on_groups.
+ */
+export const ADD_ON_GROUPS_SELECT = 'add_on_groups!add_on_groups_menu_item_id_fkey (*)';
+
+export interface AddOnGroupIssue {
+  groupId: string;
+  message: string;
+}
+
+const bySortOrder = (a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0);
+
+const toLimit = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+/**
+ * Map add_on_groups rows to the app's AddOnGroup shape
+ */
+export function toAddOnGroups(rows: any[] | null | undefined): AddOnGroup[] {
+  return [...(rows || [])].sort(bySortOrder).map(group => ({
+    id: group.id,
+    name: group.name,
+    minSelect: Number(group.min_select ?? 0),
+    maxSelect: toLimit(group.max_select),
+    maxPerOption: toLimit(group.max_per_option)
+  }));
+}
+
+export const isAddOnGroupRequired = (group: AddOnGroup): boolean => group.minSelect > 0;
+
+/**
+ * Short description of a group's rules, e.g. "Required · choose 1" or "Up to 3"
+ */
+export function describeAddOnGroup(group: AddOnGroup): string {
+  const parts: string[] = [];
+  const { minSelect, maxSelect, maxPerOption } = group;
+
+  if (minSelect > 0 && maxSelect === minSelect) {
+    parts.push(`Required · choose ${minSelect}`);
+  } else if (minSelect > 0) {
+    parts.push(`Required · choose at least ${minSelect}${maxSelect ? `, up to ${maxSelect}` : ''}`);
+  } else if (maxSelect) {
+    parts.push(`Up to ${maxSelect}`);
+  } else {
+    parts.push('Optional');
+  }
+
+  if (maxPerOption) {
+    parts.push(`max ${maxPerOption} each`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Count picks per group, adding up add-on quantities
+ */
+export function countAddOnGroupPicks(addOns: AddOn[] | null | undefined): Record<string, number> {
+  return (addOns || []).reduce((counts, addOn) => {
+    if (addOn.groupId) {
+      counts[addOn.groupId] = (counts[addOn.groupId] || 0) + (addOn.quantity || 1);
+    }
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Check grouped add-on picks against their groups' rules
+ * `addOns` must carry each add-on's groupId from the menu (not from the
+ * client) and its quantity; repeated entries are added up.
+ */
+export function checkAddOnGroups(groups: AddOnGroup[], addOns: AddOn[] | null | undefined): AddOnGroupIssue[] {
+  const issues: AddOnGroupIssue[] = [];
+  const counts = countAddOnGroupPicks(addOns);
+
+  const perOption = (addOns || []).reduce((totals, addOn) => {
+    totals.set(addOn.id, { addOn, quantity: (totals.get(addOn.id)?.quantity || 0) + (addOn.quantity || 1) });
+    return totals;
+  }, new Map<string, { addOn: AddOn; quantity: number }>());
+
+  for (const group of groups) {
+    const count = counts[group.id] || 0;
+
+    if (count < group.minSelect) {
+      issues.push({
+        groupId: group.id,
+        message: group.maxSelect === group.minSelect
+          ? `Choose ${group.minSelect} for "${group.name}"`
+          : `Choose at least ${group.minSelect} for "${group.name}"`
+      });
+    } else if (group.maxSelect && count > group.maxSelect) {
+      issues.push({ groupId: group.id, message: `Choose up to ${group.maxSelect} for "${group.name}"` });
+    }
+
+    if (group.maxPerOption) {
+      perOption.forEach(({ addOn, quantity }) => {
+        if (addOn.groupId === group.id && quantity > group.maxPerOption!) {
+          issues.push({ groupId: group.id, message: `Up to ${group.maxPerOption} ${addOn.name} allowed` });
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Most of `addOn` the customer can have given what else is already picked
+ * Used to cap the quantity buttons in the customisation modal.
+ */
+export function getAddOnMaxQuantity(
+  group: AddOnGroup | undefined,
+  addOn: AddOn,
+  selected: AddOn[]
+): number | null {
+  if (!group) return null;
+
+  const others = selected
+    .filter(entry => entry.groupId === group.id && entry.id !== addOn.id)
+    .reduce((sum, entry) => sum + (entry.quantity || 1), 0);
+
+  const limits = [
+    group.maxSelect ? group.maxSelect - others : null,
+    group.maxPerOption ?? null
+  ].filter((limit): limit is number => limit !== null);
+
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+}
@@ -0,0 +1,310 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer, getClientIP } from './supabase-server';
+import { getBranchScope, hasPermission } from './permissions';
+import type { Permission } from './permissions';
+import type { StaffSession, StaffUser } from '../types';
+
+/**
+ * Staff authentication
+ * Passwords are stored as scrypt hashes in `staff_users`. A successful login
+ * creates a row in `staff_sessions` and hands the browser a signed, expiring
+ * token in an httpOnly cookie. Every request re-checks the session row, so
+ * logging out or deactivating a user takes effect immediately.
+ * Only import this from API routes.
+ */
+
+export const SESSION_COOKIE_NAME = 'starrs_staff_session';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_BYTES = 16;
+
+const getSessionSecret = () => {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('ADMIN_SESSION_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+};
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+
+/**
+ * Hash a password for storage
+ * Format: scrypt$<salt hex>$<key hex> (must match scripts/create-staff-user.js)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const sign = (value: string) =>
+  createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+
+/**
+ * Build the cookie value: base64url(payload).signature
+ */
+function encodeSessionToken(sessionId: string, expiresAt: Date): string {
+  const payload = Buffer.from(
+    JSON.stringify({ sid: sessionId, exp: expiresAt.getTime() })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify the token signature and expiry, returning the session ID
+ */
+function decodeSessionToken(token: string): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { sid, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof sid !== 'string' || typeof exp !== 'number' || exp <= Date.now()) {
+      return null;
+    }
+    return sid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up an active staff user and check their password
+ */
+export async function authenticateStaff(username: string, password: string): Promise<StaffUser | null> {
+  const { data, error } = await (supabaseServer
+    .from('staff_users' as any) as any)
+    .select('id, username, display_name, role, branch_id, password_hash, is_active')
+    .eq('username', username.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching staff user:', error);
+    return null;
+  }
+
+  if (!data || !data.is_active) {
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    await hashPassword(password);
+    return null;
+  }
+
+  const valid = await verifyPassword(password, data.password_hash);
+  if (!valid) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    username: data.username,
+    display_name: data.display_name,
+    role: data.role,
+    branch_id: data.branch_id
+  };
+}
+
+/**
+ * Create a session row and return the signed cookie token
+ */
+export async function createStaffSession(
+  staff: StaffUser,
+  request: NextRequest
+): Promise<{ token: string; session: StaffSession }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  const { data, error } = await (supabaseServer
+    .from('staff_sessions' as any) as any)
+    .insert({
+      staff_id: staff.id,
+      expires_at: expiresAt.toISOString(),
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent')
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create staff session: ${error?.message || 'no data'}`);
+  }
+
+  await (supabaseServer.from('staff_users' as any) as any)
+    .update({ last_login_at: new Date().toISOString() })
+    .eq('id', staff.id);
+
+  return {
+    token: encodeSessionToken(data.id, expiresAt),
+    session: {
+      id: data.id,
+      staff,
+      expires_at: expiresAt.toISOString()
+    }
+  };
+}
+
+/**
+ * Resolve the staff session for a request
+ * Returns null when the cookie is missing, forged, expired or revoked,
+ * or when the staff user has been deactivated.
+ */
+export async function getStaffSession(request: NextRequest): Promise<StaffSession | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const sessionId = decodeSessionToken(token);
+  if (!sessionId) {
+    return null;
+  }
+
+  const { data, error } = await (supabaseServer
+    .from('staff_sessions' as any) as any)
+    .select(`
+      id,
+      expires_at,
+      revoked_at,
+      staff_users (id, username, display_name, role, branch_id, is_active)
+    `)
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching staff session:', error);
+    return null;
+  }
+
+  const staff = data?.staff_users;
+  if (
+    !data ||
+    data.revoked_at ||
+    new Date(data.expires_at).getTime() <= Date.now() ||
+    !staff?.is_active
+  ) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    staff: {
+      id: staff.id,
+      username: staff.username,
+      display_name: staff.display_name,
+      role: staff.role,
+      branch_id: staff.branch_id
+    },
+    expires_at: data.expires_at
+  };
+}
+
+/**
+ * Resolve the session and check it grants a permission
+ * Returns 401 without a valid session and 403 when the role lacks the permission.
+ */
+export async function authorizeStaff(
+  request: NextRequest,
+  permission: Permission
+): Promise<{ session: StaffSession } | { error: string; status: number }> {
+  const session = await getStaffSession(request);
+  if (!session) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  if (!hasPermission(session.staff.role, permission)) {
+    return { error: 'You do not have permission to do this', status: 403 };
+  }
+
+  if (getBranchScope(session.staff) === false) {
+    return { error: 'Your account is not assigned to a branch', status: 403 };
+  }
+
+  return { session };
+}
+
+/**
+ * Revoke a single session (logout)
+ */
+export async function revokeStaffSession(sessionId: string): Promise<void> {
+  const { error } = await (supabaseServer.from('staff_sessions' as any) as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke staff session: ${error.message}`);
+  }
+}
+
+/**
+ * Revoke every open session for a staff user (sign out everywhere)
+ */
+export async function revokeAllStaffSessions(staffId: string): Promise<void> {
+  const { error } = await (supabaseServer.from('staff_sessions' as any) as any)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('staff_id', staffId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke staff sessions: ${error.message}`);
+  }
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: string) {
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: token,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(expiresAt)
+  });
+}
+
+/**
+ * Remove the session cookie from the browser
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set({
+    name: SESSION_COOKIE_NAME,
+    value: '',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
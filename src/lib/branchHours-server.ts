@@ -0,0 +1,95 @@
+import { supabaseServer } from './supabase-server';
+import { toBranch } from './branchHours';
+import type { Branch } from '../types';
+
+/**
+ * Server-side branch hours
+ * Loads branches for the opening-hours checks in ./branchHours and lets staff
+ * pause and resume online ordering. Only import this from API routes.
+ */
+
+const BRANCH_HOURS_COLUMNS =
+  'id, name, is_active, opening_hours, holidays, ordering_paused_at, ordering_paused_until, ordering_paused_by';
+
+/**
+ * An active branch with its hours, or null if there is no such branch
+ */
+export async function getBranchHours(branchId: string): Promise<Branch | null> {
+  const { data, error } = await (supabaseServer.from('branches' as any) as any)
+    .select(BRANCH_HOURS_COLUMNS)
+    .eq('id', branchId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch branch hours: ${error.message}`);
+  }
+  return data ? toBranch(data) : null;
+}
+
+/**
+ * The branch orders without one are for: the main branch, else the first
+ * active one by name; null when there are no active branches
+ */
+export async function getDefaultBranchHours(): Promise<Branch | null> {
+  const branches = await listBranchHours(null);
+  return branches[0] || null;
+}
+
+/**
+ * Active branches with their hours, limited to one branch for branch staff
+ */
+export async function listBranchHours(branchScope: string | null): Promise<Branch[]> {
+  let query = (supabaseServer.from('branches' as any) as any)
+    .select(BRANCH_HOURS_COLUMNS)
+    .eq('is_active', true)
+    .order('is_main', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (branchScope) {
+    query = query.eq('id', branchScope);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch branches: ${error.message}`);
+  }
+  return (data || []).map(toBranch);
+}
+
+/**
+ * Pause online ordering until `until`, or until resumed when null
+ * Pausing again replaces the earlier pause.
+ */
+export async function pauseOrdering(branchId: string, until: Date | null, actorName: string): Promise<Branch | null> {
+  const { data, error } = await (supabaseServer.from('branches' as any) as any)
+    .update({
+      ordering_paused_at: new Date().toISOString(),
+      ordering_paused_until: until ? until.toISOString() : null,
+      ordering_paused_by: actorName
+    })
+    .eq('id', branchId)
+    .select(BRANCH_HOURS_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to pause ordering: ${error.message}`);
+  }
+  return data ? toBranch(data) : null;
+}
+
+/**
+ * Take online orders again
+ */
+export async function resumeOrdering(branchId: string): Promise<Branch | null> {
+  const { data, error } = await (supabaseServer.from('branches' as any) as any)
+    .update({ ordering_paused_at: null, ordering_paused_until: null, ordering_paused_by: null })
+    .eq('id', branchId)
+    .select(BRANCH_HOURS_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resume ordering: ${error.message}`);
+  }
+  return data ? toBranch(data) : null;
+}
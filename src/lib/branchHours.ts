@@ -0,0 +1,283 @@
+import type { Branch, BranchHoliday, BranchOpeningHours, ScheduleTimeRange } from '../types';
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  MONTH_LABELS,
+  WEEKDAY_NAMES,
+  formatMinutes,
+  fromLocalTime,
+  isValidDate,
+  parseTime,
+  shiftDate,
+  toLocalTime
+} from './schedule';
+import type { LocalTime } from './schedule';
+import { normalizeDeliveryZone } from './deliveryZones';
+
+/**
+ * Branch opening hours
+ * Each branch has weekly opening hours, holiday closures and a pause staff
+ * can switch on when they are swamped ("busy mode"). Orders for as soon as
+ * possible need the branch open and not paused right now; scheduled orders
+ * need it open and not paused at the time picked. Hours are read in the store
+ * time zone, like order-ahead slots.
+ */
+
+// How far ahead to look for the next opening, past a run of holidays
+const LOOKAHEAD_DAYS = 14;
+const MAX_PAUSE_MINUTES = 24 * 60;
+
+export const BRANCH_PAUSE_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: null, label: 'Until resumed' }
+];
+
+export type BranchHoursFields = Pick<
+  Branch,
+  'name' | 'opening_hours' | 'holidays' | 'ordering_paused_at' | 'ordering_paused_until'
+>;
+
+export interface BranchStatus {
+  state: 'open' | 'closed' | 'paused';
+  // When the branch next takes orders; null when open now or not known
+  opensAt: Date | null;
+  // e.g. "Open until 9:00 PM" or "Closed · Opens tomorrow at 9:00 AM"
+  label: string;
+}
+
+const toRange = (range: any): ScheduleTimeRange | null => {
+  const start = parseTime(range?.start);
+  const end = parseTime(range?.end);
+  return start !== null && end !== null && start !== end ? { start: range.start, end: range.end } : null;
+};
+
+/**
+ * Read a stored `opening_hours` value; anything but seven days means always open
+ */
+export function normalizeOpeningHours(raw: any): BranchOpeningHours | null {
+  if (!Array.isArray(raw) || raw.length !== 7) return null;
+  return raw.map(day => (Array.isArray(day) ? day : [])
+    .map(toRange)
+    .filter((range): range is ScheduleTimeRange => Boolean(range)));
+}
+
+/**
+ * Read a stored `holidays` value, dropping bad and repeated dates
+ */
+export function normalizeHolidays(raw: any): BranchHoliday[] {
+  const holidays = new Map<string, BranchHoliday>();
+  for (const holiday of Array.isArray(raw) ? raw : []) {
+    if (isValidDate(holiday?.date) && !holidays.has(holiday.date)) {
+      holidays.set(holiday.date, { date: holiday.date, label: String(holiday.label || '').trim() });
+    }
+  }
+  return Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Check opening hours and holidays from the admin form
+ * Returns a message for the first problem, or null when they can be saved.
+ */
+export function validateBranchHours(hours: BranchOpeningHours | null, holidays: BranchHoliday[]): string | null {
+  for (const ranges of hours || []) {
+    for (const range of ranges) {
+      const start = parseTime(range.start);
+      const end = parseTime(range.end);
+      if (start === null || end === null) {
+        return 'Enter an opening and closing time for each day that is open';
+      }
+      if (start === end) {
+        return 'A branch cannot open and close at the same time';
+      }
+    }
+  }
+  if (holidays.some(holiday => !isValidDate(holiday.date))) {
+    return 'Enter a date for each holiday';
+  }
+  return null;
+}
+
+const holidayOn = (branch: BranchHoursFields, date: string) =>
+  (branch.holidays || []).find(holiday => holiday.date === date);
+
+/**
+ * The opening a moment falls in, with when it closes (null: it never does)
+ * Null when the branch is closed.
+ */
+function findOpening(branch: BranchHoursFields, local: LocalTime): { closesAt: Date | null } | null {
+  const hours = branch.opening_hours;
+  if (!hours) {
+    return holidayOn(branch, local.date) ? null : { closesAt: null };
+  }
+
+  if (!holidayOn(branch, local.date)) {
+    for (const range of hours[local.day] || []) {
+      const start = parseTime(range.start) as number;
+      const end = parseTime(range.end) as number;
+      if (start < end && local.minutes >= start && local.minutes < end) {
+        return { closesAt: fromLocalTime(local.date, end, DEFAULT_SCHEDULE_TIMEZONE) };
+      }
+      if (start > end && local.minutes >= start) {
+        return { closesAt: fromLocalTime(shiftDate(local.date, 1), end, DEFAULT_SCHEDULE_TIMEZONE) };
+      }
+    }
+  }
+
+  // The hours after midnight belong to the day the branch opened
+  const yesterday = shiftDate(local.date, -1);
+  if (!holidayOn(branch, yesterday)) {
+    for (const range of hours[(local.day + 6) % 7] || []) {
+      const start = parseTime(range.start) as number;
+      const end = parseTime(range.end) as number;
+      if (start > end && local.minutes < end) {
+        return { closesAt: fromLocalTime(local.date, end, DEFAULT_SCHEDULE_TIMEZONE) };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a branch's hours and holidays have it open at a moment
+ */
+export const isBranchOpenAt = (branch: BranchHoursFields, at: Date): boolean =>
+  findOpening(branch, toLocalTime(at, DEFAULT_SCHEDULE_TIMEZONE)) !== null;
+
+/**
+ * Whether staff have paused online ordering over a moment
+ */
+export const isOrderingPausedAt = (branch: BranchHoursFields, at: Date): boolean =>
+  Boolean(branch.ordering_paused_at) &&
+  (!branch.ordering_paused_until || new Date(branch.ordering_paused_until).getTime() > at.getTime());
+
+/**
+ * Whether a branch takes orders for a moment: open and not paused
+ */
+export const isBranchTakingOrdersAt = (branch: BranchHoursFields, at: Date): boolean =>
+  isBranchOpenAt(branch, at) && !isOrderingPausedAt(branch, at);
+
+/**
+ * The next time a closed branch opens after `after`, or null if not within two weeks
+ */
+export function getNextBranchOpening(branch: BranchHoursFields, after: Date): Date | null {
+  const local = toLocalTime(after, DEFAULT_SCHEDULE_TIMEZONE);
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = shiftDate(local.date, offset);
+    if (holidayOn(branch, date)) continue;
+
+    const starts = branch.opening_hours
+      ? (branch.opening_hours[(local.day + offset) % 7] || []).map(range => parseTime(range.start) as number).sort((a, b) => a - b)
+      : [0];
+    const start = starts.find(minutes => offset > 0 || minutes > local.minutes);
+    if (start !== undefined) {
+      return fromLocalTime(date, start, DEFAULT_SCHEDULE_TIMEZONE);
+    }
+  }
+  return null;
+}
+
+/**
+ * When a branch opens again, relative to now, e.g. "Opens tomorrow at 9:00 AM"
+ */
+export function describeOpensAt(at: Date, now: Date, verb: string = 'Opens'): string {
+  const when = toLocalTime(at, DEFAULT_SCHEDULE_TIMEZONE);
+  const today = toLocalTime(now, DEFAULT_SCHEDULE_TIMEZONE).date;
+  const time = formatMinutes(when.minutes);
+
+  if (when.date === today) return `${verb} at ${time}`;
+  if (when.date === shiftDate(today, 1)) return `${verb} tomorrow at ${time}`;
+  if (when.date <= shiftDate(today, 6)) return `${verb} ${WEEKDAY_NAMES[when.day]} at ${time}`;
+
+  const [, month, day] = when.date.split('-').map(Number);
+  return `${verb} ${MONTH_LABELS[month - 1]} ${day} at ${time}`;
+}
+
+/**
+ * Whether a branch is open, closed or paused now, and when that changes
+ */
+export function getBranchStatus(branch: BranchHoursFields, now: Date = new Date()): BranchStatus {
+  if (isOrderingPausedAt(branch, now)) {
+    if (!branch.ordering_paused_until) {
+      return { state: 'paused', opensAt: null, label: 'Not taking online orders right now' };
+    }
+    const until = new Date(branch.ordering_paused_until);
+    const opensAt = isBranchOpenAt(branch, until) ? until : getNextBranchOpening(branch, until);
+    return {
+      state: 'paused',
+      opensAt,
+      label: opensAt ? `Busy · ${describeOpensAt(opensAt, now, 'Back')}` : 'Busy'
+    };
+  }
+
+  const local = toLocalTime(now, DEFAULT_SCHEDULE_TIMEZONE);
+  const opening = findOpening(branch, local);
+  if (opening) {
+    return {
+      state: 'open',
+      opensAt: null,
+      label: opening.closesAt
+        ? `Open until ${formatMinutes(toLocalTime(opening.closesAt, DEFAULT_SCHEDULE_TIMEZONE).minutes)}`
+        : 'Open'
+    };
+  }
+
+  const holiday = holidayOn(branch, local.date);
+  const closed = holiday?.label ? `Closed for ${holiday.label}` : 'Closed';
+  const opensAt = getNextBranchOpening(branch, now);
+  return { state: 'closed', opensAt, label: opensAt ? `${closed} · ${describeOpensAt(opensAt, now)}` : closed };
+}
+
+/**
+ * Check that a branch takes an order for as soon as possible (`scheduledFor`
+ * null) or for a scheduled time
+ * Returns why it does not, or null when it does.
+ */
+export function checkBranchOrderTime(branch: BranchHoursFields, scheduledFor: Date | null, now: Date = new Date()): string | null {
+  if (scheduledFor) {
+    if (!isBranchOpenAt(branch, scheduledFor)) {
+      return `${branch.name} is closed at the time you picked`;
+    }
+    if (isOrderingPausedAt(branch, scheduledFor)) {
+      return `${branch.name} is not taking orders for the time you picked`;
+    }
+    return null;
+  }
+
+  const status = getBranchStatus(branch, now);
+  if (status.state === 'open') return null;
+
+  const paused = status.state === 'paused';
+  const reason = paused
+    ? `${branch.name} is busy and not taking orders right now`
+    : `${branch.name} is closed right now`;
+  return status.opensAt
+    ? `${reason}. ${describeOpensAt(status.opensAt, now, paused ? 'Back' : 'Opens')}.`
+    : `${reason}.`;
+}
+
+/**
+ * When a pause requested by staff should end: `minutes` from now, or null
+ * (no `minutes`) to pause until they resume
+ */
+export function parsePauseInput(body: any, now: Date): { until: Date | null } | { error: string } {
+  const minutes = body?.minutes;
+  if (minutes === null || minutes === undefined) {
+    return { until: null };
+  }
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_PAUSE_MINUTES) {
+    return { error: 'Pause for between 1 minute and 24 hours, or until resumed' };
+  }
+  return { until: new Date(now.getTime() + minutes * 60 * 1000) };
+}
+
+/**
+ * A branches row with its hours, holidays and delivery zone normalized
+ */
+export const toBranch = (row: any): Branch => ({
+  ...row,
+  opening_hours: normalizeOpeningHours(row.opening_hours),
+  holidays: normalizeHolidays(row.holidays),
+  delivery_zone: normalizeDeliveryZone(row.delivery_zone)
+});
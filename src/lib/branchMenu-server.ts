@@ -0,0 +1,53 @@
+import { supabaseServer } from './supabase-server';
+import { toBranchMenuOverrides } from './branchMenu';
+import type { BranchMenuOverrideValues } from './branchMenu';
+import type { BranchMenuOverride } from '../types';
+
+/**
+ * Server-side branch menus
+ * Writes `branch_menu_overrides`, which POST /api/orders prices branch
+ * orders from, so only staff routes change them. Only import this from API routes.
+ */
+
+/**
+ * Save how a branch sells an item
+ * An unknown branch or item throws the database error (code 23503).
+ */
+export async function saveBranchMenuOverride(
+  branchId: string,
+  menuItemId: string,
+  values: BranchMenuOverrideValues
+): Promise<BranchMenuOverride> {
+  const { data, error } = await (supabaseServer.from('branch_menu_overrides' as any) as any)
+    .upsert({
+      branch_id: branchId,
+      menu_item_id: menuItemId,
+      available: values.available,
+      price: values.price,
+      discount_active: values.discountActive,
+      discount_price: values.discountPrice,
+      discount_start_date: values.discountStartDate,
+      discount_end_date: values.discountEndDate
+    }, { onConflict: 'branch_id,menu_item_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return toBranchMenuOverrides([data])[0];
+}
+
+/**
+ * Sell an item at a branch as on the main menu again
+ */
+export async function deleteBranchMenuOverride(branchId: string, menuItemId: string): Promise<void> {
+  const { error } = await (supabaseServer.from('branch_menu_overrides' as any) as any)
+    .delete()
+    .eq('branch_id', branchId)
+    .eq('menu_item_id', menuItemId);
+
+  if (error) {
+    throw new Error(`Failed to reset branch menu item: ${error.message}`);
+  }
+}
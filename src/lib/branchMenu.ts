@@ -0,0 +1,148 @@
+import type { BranchMenuOverride, MenuItem } from '../types';
+import { getEffectiveBasePrice, isDiscountActive } from './pricing';
+import type { PricingItem } from './pricing';
+
+/**
+ * Per-branch menus
+ * Each branch sells the main menu, except where a `branch_menu_overrides` row
+ * marks an item sold out there or gives it the branch's own price or
+ * discount. Shared by useMenu (the storefront menu for the selected branch)
+ * and POST /api/orders so both price a branch's order the same way.
+ */
+
+/**
+ * Map branch_menu_overrides rows to the app's shape
+ */
+export function toBranchMenuOverrides(rows: any[] | null | undefined): BranchMenuOverride[] {
+  return (rows || []).map(row => ({
+    id: row.id,
+    branchId: row.branch_id,
+    menuItemId: row.menu_item_id,
+    available: row.available !== false,
+    price: row.price != null ? Number(row.price) : null,
+    discountActive: row.discount_active ?? null,
+    discountPrice: row.discount_price != null ? Number(row.discount_price) : null,
+    discountStartDate: row.discount_start_date ?? null,
+    discountEndDate: row.discount_end_date ?? null
+  }));
+}
+
+/**
+ * Whether an item can be ordered at a branch
+ * A branch can only take items off its menu: anything unavailable on the
+ * main menu (including inventory sell-outs) is unavailable everywhere.
+ */
+export const isAvailableAtBranch = (
+  available: boolean | null | undefined,
+  override: Pick<BranchMenuOverride, 'available'> | null | undefined
+): boolean => available !== false && override?.available !== false;
+
+/**
+ * An item's price and discount at a branch
+ */
+export function applyBranchPricing(item: PricingItem, override: BranchMenuOverride | null | undefined): PricingItem {
+  if (!override) return item;
+
+  const priced: PricingItem = {
+    ...item,
+    basePrice: override.price ?? item.basePrice
+  };
+
+  if (override.discountActive !== null) {
+    priced.discountActive = override.discountActive;
+    priced.discountPrice = override.discountPrice;
+    priced.discountStartDate = override.discountStartDate;
+    priced.discountEndDate = override.discountEndDate;
+  }
+  return priced;
+}
+
+/**
+ * The menu as one branch sells it
+ * Effective prices are worked out again, and combo options sold out at the
+ * branch are marked unavailable.
+ */
+export function applyBranchOverrides(
+  items: MenuItem[],
+  overrides: BranchMenuOverride[],
+  now: Date = new Date()
+): MenuItem[] {
+  if (overrides.length === 0) return items;
+
+  const byItem = new Map(overrides.map(override => [override.menuItemId, override]));
+
+  return items.map(item => {
+    const override = byItem.get(item.id);
+    const pricing = applyBranchPricing(item, override);
+
+    return {
+      ...item,
+      available: isAvailableAtBranch(item.available, override),
+      basePrice: pricing.basePrice,
+      discountPrice: pricing.discountPrice ?? undefined,
+      discountActive: pricing.discountActive ?? false,
+      discountStartDate: pricing.discountStartDate ?? undefined,
+      discountEndDate: pricing.discountEndDate ?? undefined,
+      effectivePrice: getEffectiveBasePrice(pricing, now),
+      isOnDiscount: isDiscountActive(pricing, now),
+      bundleSlots: item.bundleSlots?.map(slot => ({
+        ...slot,
+        options: slot.options.map(option => ({
+          ...option,
+          available: isAvailableAtBranch(option.available, byItem.get(option.menuItemId))
+        }))
+      }))
+    };
+  });
+}
+
+export type BranchMenuOverrideValues = Omit<BranchMenuOverride, 'id' | 'branchId' | 'menuItemId'>;
+
+const toOptionalAmount = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'boolean') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const toOptionalDate = (value: unknown): string | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return undefined;
+  return new Date(value).toISOString();
+};
+
+/**
+ * Validate how a branch sells one item
+ * The discount fields are only kept when the branch has its own discount.
+ */
+export function parseBranchMenuOverrideInput(body: any): { values: BranchMenuOverrideValues } | { error: string } {
+  const price = toOptionalAmount(body?.price);
+  if (price === undefined) {
+    return { error: 'Please enter a valid branch price' };
+  }
+
+  const discountActive = body?.discountActive == null ? null : Boolean(body.discountActive);
+  const custom = discountActive === true;
+
+  const discountPrice = custom ? toOptionalAmount(body?.discountPrice) : null;
+  if (custom && (discountPrice === null || discountPrice === undefined)) {
+    return { error: 'Please enter the branch discount price' };
+  }
+
+  const discountStartDate = custom ? toOptionalDate(body?.discountStartDate) : null;
+  const discountEndDate = custom ? toOptionalDate(body?.discountEndDate) : null;
+  if (discountStartDate === undefined || discountEndDate === undefined) {
+    return { error: 'Invalid discount dates' };
+  }
+
+  return {
+    values: {
+      available: body?.available !== false,
+      price,
+      discountActive,
+      discountPrice: discountPrice ?? null,
+      discountStartDate,
+      discountEndDate
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import type { BundleSelection, BundleSlot, MenuItem } from '../types';
+import { roundCurrency } from './pricing';
+
+/**
+ * Combo meals
+ * A bundle is a menu item sold at its own price whose slots are each filled
+ * with one item from a set, some with an upcharge. Shared by the storefront
+ * picker, the cart and POST /api/orders so a combo is checked the same way
+ * everywhere.
+ */
+
+/**
+ * Embed for menu_items selects: slots with their options and option items
+ * The hints are needed because bundle_slot_options also links menu_items to
+ * bundle_slots.
+ */
+export const BUNDLE_SLOTS_SELECT = `
+  bundle_slots!bundle_slots_menu_item_id_fkey (
+    *,
+    bundle_slot_options (
+      *,
+      menu_items!bundle_slot_options_menu_item_id_fkey (id, name, available)
+    )
+  )`;
+
+// What the customer picked for one slot, before it is checked against the menu
+export interface BundlePick {
+  slotId: string;
+  optionId: string;
+}
+
+export const isBundle = (item: Pick<MenuItem, 'itemType'>): boolean => item.itemType === 'bundle';
+
+const bySortOrder = (a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0);
+
+/**
+ * Map embedded bundle_slots rows to the app's BundleSlot shape
+ */
+export function toBundleSlots(rows: any[] | null | undefined): BundleSlot[] {
+  return [...(rows || [])].sort(bySortOrder).map(slot => ({
+    id: slot.id,
+    name: slot.name,
+    options: [...(slot.bundle_slot_options || [])]
+      .sort(bySortOrder)
+      .filter(option => option.menu_items)
+      .map(option => ({
+        id: option.id,
+        menuItemId: option.menu_item_id,
+        name: option.menu_items.name,
+        upcharge: Number(option.upcharge ?? 0),
+        available: option.menu_items.available ?? true
+      }))
+  }));
+}
+
+/**
+ * Check one pick per slot against the bundle's slots
+ * Names and upcharges always come from `slots`, never from the picks.
+ */
+export function resolveBundleSelections(
+  slots: BundleSlot[],
+  picks: BundlePick[] | null | undefined
+): { selections: BundleSelection[] } | { error: string } {
+  const list = Array.isArray(picks) ? picks : [];
+
+  if (list.some(pick => !slots.some(slot => slot.id === pick?.slotId))) {
+    return { error: 'A choice no longer matches this combo' };
+  }
+
+  const selections: BundleSelection[] = [];
+  for (const slot of slots) {
+    const slotPicks = list.filter(pick => pick.slotId === slot.id);
+    if (slotPicks.length !== 1) {
+      return { error: `Choose one item for "${slot.name}"` };
+    }
+
+    const option = slot.options.find(entry => entry.id === slotPicks[0].optionId);
+    if (!option) {
+      return { error: `Your choice for "${slot.name}" is no longer available` };
+    }
+    if (option.available === false) {
+      return { error: `${option.name} is currently unavailable` };
+    }
+
+    selections.push({
+      slotId: slot.id,
+      slotName: slot.name,
+      optionId: option.id,
+      menuItemId: option.menuItemId,
+      name: option.name,
+      upcharge: option.upcharge
+    });
+  }
+
+  return { selections };
+}
+
+/**
+ * Cheapest way to fill every slot, for "from ₱" prices
+ */
+export function getMinBundleUpcharge(slots: BundleSlot[]): number {
+  return roundCurrency(slots.reduce((sum, slot) => {
+    const upcharges = slot.options.filter(option => option.available !== false).map(option => option.upcharge);
+    return sum + (upcharges.length > 0 ? Math.min(...upcharges) : 0);
+  }, 0));
+}
+
+/**
+ * Stable key for a set of picks, used in cart line ids
+ */
+export const getBundleKey = (selections: BundleSelection[] | null | undefined): string =>
+  (selections || []).map(selection => selection.optionId).join(',');
@@ -0,0 +1,28 @@
+import { supabaseServer } from './supabase-server';
+
+/**
+ * Server-side carts
+ * Housekeeping for the `carts` table behind /api/cart. Only import this from
+ * API routes.
+ */
+
+// The scheduler calls in every minute; a daily-scale cleanup needs far less
+const CART_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastCartCleanup = 0;
+
+/**
+ * Remove carts untouched for 30 days, at most once an hour per server instance
+ * Failures are logged and left for the next run.
+ */
+export async function cleanupStaleCarts(now = Date.now()): Promise<void> {
+  if (now - lastCartCleanup < CART_CLEANUP_INTERVAL_MS) {
+    return;
+  }
+  lastCartCleanup = now;
+
+  const { error } = await (supabaseServer as any).rpc('cleanup_stale_carts');
+  if (error) {
+    console.error('Error cleaning up stale carts:', error);
+  }
+}
@@ -0,0 +1,157 @@
+import type { AddOn, CartItem, MenuItem, Variation } from '../types';
+import { priceLine } from './pricing';
+import { isBundle, resolveBundleSelections } from './bundles';
+import { checkAddOnGroups } from './addOnGroups';
+import { hasVariationDimensions, resolveVariationChoice } from './variations';
+
+/**
+ * Cart helpers shared by the browser and the API
+ * Cart line IDs are built as `${menuItemId}-${variationId}-${addOnIds}` (plus
+ * `-${optionIds}` for combos), so a line can always be traced back to the menu
+ * item it came from.
+ */
+
+export const CART_STORAGE_KEY = 'starrs_cart';
+export const CART_STORAGE_VERSION = 1;
+
+// Upper bound on saved carts; anything larger is not a real order
+export const MAX_CART_LINES = 50;
+
+const UUID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+
+export type CartIssueKind = 'removed' | 'unavailable' | 'option_removed' | 'price_changed';
+
+export interface CartIssue {
+  cartItemId: string;
+  name: string;
+  kind: CartIssueKind;
+  message: string;
+}
+
+/**
+ * Extract the menu item ID from a cart item ID
+ */
+export function extractMenuItemId(cartItemId: unknown): string | null {
+  if (typeof cartItemId !== 'string') return null;
+  const match = cartItemId.match(UUID_PATTERN);
+  return match && match[1] ? match[1] : null;
+}
+
+/**
+ * Issues that must be fixed (by removing the line) before checkout
+ */
+export const isBlockingCartIssue = (issue: CartIssue): boolean => issue.kind !== 'price_changed';
+
+/**
+ * Re-check saved cart lines against the current menu
+ * Lines whose item or options are gone, or that are marked unavailable, are
+ * kept but flagged; lines whose price moved are re-priced and flagged so the
+ * customer sees the new total before checking out.
+ */
+export function validateCartItems(
+  cartItems: CartItem[],
+  menuItems: MenuItem[]
+): { items: CartItem[]; issues: CartIssue[] } {
+  const menuLookup = new Map(menuItems.map(item => [item.id, item]));
+  const issues: CartIssue[] = [];
+
+  const items = cartItems.map(cartItem => {
+    const menuItemId = extractMenuItemId(cartItem.id);
+    const menuItem = menuItemId ? menuLookup.get(menuItemId) : undefined;
+    const flag = (kind: CartIssueKind, message: string) =>
+      issues.push({ cartItemId: cartItem.id, name: cartItem.name, kind, message });
+
+    if (!menuItem) {
+      flag('removed', `${cartItem.name} is no longer on the menu`);
+      return cartItem;
+    }
+
+    if (menuItem.available === false) {
+      flag('unavailable', `${menuItem.name} is currently unavailable`);
+      return cartItem;
+    }
+
+    let variation: Variation | undefined;
+    if (hasVariationDimensions(menuItem)) {
+      const choice = resolveVariationChoice(
+        menuItem.variationDimensions || [],
+        menuItem.variationOverrides || [],
+        cartItem.selectedVariation?.options || null
+      );
+      if ('error' in choice) {
+        flag('option_removed', `An option you picked for ${menuItem.name} is no longer available`);
+        return cartItem;
+      }
+      variation = choice.variation;
+    } else if (cartItem.selectedVariation) {
+      variation = menuItem.variations?.find(v => v.id === cartItem.selectedVariation!.id);
+    }
+    const addOns = (cartItem.selectedAddOns || []).map(selected => {
+      const addOn = menuItem.addOns?.find(a => a.id === selected.id);
+      return addOn ? { ...addOn, quantity: selected.quantity } : null;
+    });
+
+    const bundle = isBundle(menuItem)
+      ? resolveBundleSelections(menuItem.bundleSlots || [], cartItem.selectedBundle)
+      : null;
+
+    if ((cartItem.selectedVariation && !variation) || addOns.some(addOn => addOn === null) || (bundle && 'error' in bundle)) {
+      flag('option_removed', `An option you picked for ${menuItem.name} is no longer available`);
+      return cartItem;
+    }
+
+    const currentAddOns = addOns as AddOn[];
+
+    // A group may have become required, or its limits tightened, since the line was added
+    const addOnIssues = checkAddOnGroups(menuItem.addOnGroups || [], currentAddOns);
+    if (addOnIssues.length > 0) {
+      flag('option_removed', `${menuItem.name}: ${addOnIssues[0].message}`);
+      return cartItem;
+    }
+
+    const bundleSelections = bundle && 'selections' in bundle ? bundle.selections : undefined;
+    const { unitPrice } = priceLine({ item: menuItem, variation, addOns: currentAddOns, bundleSelections });
+
+    if (Math.abs(unitPrice - cartItem.totalPrice) > 0.01) {
+      const discountEnded = cartItem.isOnDiscount && !menuItem.isOnDiscount;
+      flag(
+        'price_changed',
+        `${menuItem.name} is now ₱${unitPrice} each (was ₱${cartItem.totalPrice})${discountEnded ? ' because its discount has ended' : ''}`
+      );
+    }
+
+    // Refresh menu details while keeping this line's identity and choices
+    return {
+      ...menuItem,
+      id: cartItem.id,
+      quantity: cartItem.quantity,
+      selectedVariation: variation,
+      selectedAddOns: currentAddOns,
+      selectedBundle: bundleSelections,
+      totalPrice: unitPrice
+    };
+  });
+
+  return { items, issues };
+}
+
+/**
+ * Read a cart saved by an older or newer build defensively
+ */
+export function parseStoredCart(raw: unknown): CartItem[] {
+  const items = (raw as { version?: number; items?: unknown })?.items;
+  if ((raw as { version?: number })?.version !== CART_STORAGE_VERSION || !Array.isArray(items)) {
+    return [];
+  }
+
+  return items
+    .filter((item: any) =>
+      item &&
+      typeof item.id === 'string' &&
+      typeof item.name === 'string' &&
+      Number.isInteger(item.quantity) &&
+      item.quantity > 0 &&
+      typeof item.totalPrice === 'number'
+    )
+    .slice(0, MAX_CART_LINES) as CartItem[];
+}
@@ -0,0 +1,491 @@
+import { supabaseServer, getSiteSettings } from './supabase-server';
+import { buildLalamoveConfig } from './lalamove';
+import type { DeliveryStoreConfig } from './lalamove';
+import { fetchQuotation, requestQuotation, placeLalamoveOrder, getLalamoveOrder } from './lalamove-server';
+import type { PlacedLalamoveOrder } from './lalamove-server';
+import { getCourierScheduleAt } from './orderAhead';
+import type { Branch, DeliveryBooking } from '../types';
+
+/**
+ * Delivery booking jobs
+ * The only place a Lalamove courier is booked. Confirming a delivery order
+ * enqueues one job per order (enqueueing again is a no-op), which is attempted
+ * right away and retried with backoff until it books or runs out of attempts.
+ * Expired quotations are replaced with a fresh quote before booking, and
+ * orders for later are booked with a Lalamove `scheduleAt`. A job is marked
+ * `placing_since` while Lalamove is asked to book, so a worker that crashes
+ * before saving the booking does not book a second courier on retry.
+ */
+
+// Wait before attempt 2, 3, 4, 5...
+export const BOOKING_RETRY_DELAYS_SECONDS = [30, 120, 300, 900];
+
+// A job stuck in `processing` this long is assumed to have crashed
+const BOOKING_LOCK_SECONDS = 120;
+
+// Quotations expiring sooner than this are replaced before booking
+const QUOTE_REFRESH_MARGIN_MS = 60 * 1000;
+
+export const DELIVERY_BOOKING_COLUMNS = 'status, attempts, max_attempts, next_attempt_at, last_error, updated_at';
+
+const JOB_COLUMNS = `id, order_id, idempotency_key, quotation_id, locked_until, placing_since, ${DELIVERY_BOOKING_COLUMNS}`;
+
+const ORDER_COLUMNS = `
+  id, order_number, status, service_type, customer_name, contact_number, address,
+  landmark, branch_id, delivery_lat, delivery_lng, scheduled_for, lalamove_quotation_id,
+  lalamove_order_id
+`;
+
+type BookingJob = DeliveryBooking & {
+  id: string;
+  order_id: string;
+  idempotency_key: string;
+  quotation_id: string | null;
+  locked_until: string | null;
+  placing_since: string | null;
+};
+
+// `refused`: nothing can have been booked, so the placing marker can go
+type AttemptOutcome =
+  | { booked: true; lalamoveOrderId: string; quotationId: string | null }
+  | { cancelled: true; reason: string }
+  | { error: string; retriable: boolean; quotationId?: string | null; refused?: boolean };
+
+const jobsTable = () => supabaseServer.from('delivery_booking_jobs' as any) as any;
+
+/**
+ * Whether an order still needs a courier
+ */
+export function needsDeliveryBooking(order: {
+  service_type: string;
+  lalamove_order_id?: string | null;
+  lalamove_quotation_id?: string | null;
+  delivery_lat?: number | string | null;
+  delivery_lng?: number | string | null;
+}): boolean {
+  if (order.service_type !== 'delivery' || order.lalamove_order_id) {
+    return false;
+  }
+  const hasCoordinates = order.delivery_lat !== null && order.delivery_lat !== undefined &&
+    order.delivery_lng !== null && order.delivery_lng !== undefined;
+  return Boolean(order.lalamove_quotation_id) || hasCoordinates;
+}
+
+/**
+ * Pick the booking out of an embedded `delivery_booking_jobs (...)` select
+ */
+export function toDeliveryBooking(embedded: unknown): DeliveryBooking | null {
+  const job = Array.isArray(embedded) ? embedded[0] : embedded;
+  if (!job || typeof job !== 'object') {
+    return null;
+  }
+
+  const row = job as Record<string, any>;
+  return {
+    status: row.status,
+    attempts: Number(row.attempts) || 0,
+    max_attempts: Number(row.max_attempts) || 0,
+    next_attempt_at: row.next_attempt_at,
+    last_error: row.last_error ?? null,
+    updated_at: row.updated_at
+  };
+}
+
+async function fetchJob(orderId: string): Promise<BookingJob | null> {
+  const { data, error } = await jobsTable()
+    .select(JOB_COLUMNS)
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching delivery booking for order ${orderId}:`, error);
+    return null;
+  }
+  return data as BookingJob | null;
+}
+
+/**
+ * Create the booking job for an order, unless it already has one
+ */
+export async function enqueueDeliveryBooking(orderId: string): Promise<void> {
+  const { error } = await jobsTable()
+    .upsert(
+      { order_id: orderId, idempotency_key: `order:${orderId}` },
+      { onConflict: 'order_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error(`Error enqueueing delivery booking for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Stop a booking that has not happened yet (the order was cancelled)
+ */
+export async function cancelDeliveryBooking(orderId: string): Promise<void> {
+  const { error } = await jobsTable()
+    .update({ status: 'cancelled', last_error: 'Order was cancelled', locked_until: null })
+    .eq('order_id', orderId)
+    .in('status', ['queued', 'failed']);
+
+  if (error) {
+    console.error(`Error cancelling delivery booking for order ${orderId}:`, error);
+  }
+}
+
+function isDue(job: BookingJob, now: Date): boolean {
+  if (job.status === 'queued') {
+    return new Date(job.next_attempt_at) <= now;
+  }
+  return job.status === 'processing' && (!job.locked_until || new Date(job.locked_until) < now);
+}
+
+/**
+ * Mark a job as processing so no other worker attempts it at the same time
+ * The attempt counter doubles as the optimistic lock.
+ */
+async function claimJob(job: BookingJob, now: Date): Promise<BookingJob | null> {
+  let query = jobsTable()
+    .update({
+      status: 'processing',
+      attempts: job.attempts + 1,
+      locked_until: new Date(now.getTime() + BOOKING_LOCK_SECONDS * 1000).toISOString()
+    })
+    .eq('id', job.id)
+    .eq('attempts', job.attempts);
+
+  query = job.status === 'processing'
+    ? query.eq('status', 'processing').or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    : query.eq('status', 'queued');
+
+  const { data, error } = await query.select(JOB_COLUMNS).maybeSingle();
+  if (error) {
+    console.error(`Error claiming delivery booking ${job.id}:`, error);
+    return null;
+  }
+  return data as BookingJob | null;
+}
+
+async function loadBranch(branchId: string | null): Promise<Branch | null> {
+  if (!branchId) return null;
+  const { data } = await (supabaseServer.from('branches' as any) as any)
+    .select('*')
+    .eq('id', branchId)
+    .maybeSingle();
+  return (data as Branch) || null;
+}
+
+/**
+ * Get a quotation that is still valid, re-quoting if needed
+ * Orders for later need a quotation scheduled for when the courier should
+ * collect; the customer's checkout quote is for right away.
+ */
+async function ensureFreshQuotation(
+  order: any,
+  config: DeliveryStoreConfig,
+  forceRequote: boolean
+): Promise<{ quotationId: string; price: number } | { error: string; retriable: boolean }> {
+  const scheduleAt = getCourierScheduleAt(order.scheduled_for);
+
+  if (order.lalamove_quotation_id && !forceRequote) {
+    const quotation = await fetchQuotation(order.lalamove_quotation_id, config.market, config.sandbox);
+    const expiresAt = quotation?.expiresAt ? new Date(quotation.expiresAt).getTime() : null;
+    const quotedFor = quotation?.scheduleAt ? new Date(quotation.scheduleAt).getTime() : null;
+    if (
+      quotation &&
+      (expiresAt === null || expiresAt - Date.now() > QUOTE_REFRESH_MARGIN_MS) &&
+      quotedFor === (scheduleAt ? new Date(scheduleAt).getTime() : null)
+    ) {
+      return { quotationId: quotation.quotationId, price: quotation.price };
+    }
+  }
+
+  const lat = Number(order.delivery_lat);
+  const lng = Number(order.delivery_lng);
+  if (!order.address || order.delivery_lat === null || order.delivery_lng === null || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return { error: 'The delivery quote has expired and the order has no map location to re-quote from', retriable: false };
+  }
+
+  const quote = await requestQuotation(config, order.address, { lat, lng }, scheduleAt);
+  if ('error' in quote) {
+    return { error: `Could not re-quote delivery: ${quote.error}`, retriable: quote.status >= 500 || quote.status === 429 };
+  }
+
+  const { error } = await (supabaseServer.from('orders') as any)
+    .update({ lalamove_quotation_id: quote.quotationId })
+    .eq('id', order.id);
+  if (error) {
+    console.error(`Error saving new quotation for order ${order.order_number}:`, error);
+  }
+
+  console.log(`Re-quoted delivery for order ${order.order_number}: ${quote.quotationId}`);
+  return { quotationId: quote.quotationId, price: quote.price };
+}
+
+/**
+ * Save a courier booking on the order; only the first booking is kept
+ */
+async function saveBooking(order: any, placed: PlacedLalamoveOrder, price: number): Promise<void> {
+  const { data: saved, error } = await (supabaseServer.from('orders') as any)
+    .update({
+      lalamove_order_id: placed.orderId,
+      lalamove_status: placed.status,
+      lalamove_tracking_url: placed.shareLink,
+      lalamove_driver_id: placed.driverId,
+      lalamove_price: Number.isFinite(price) ? price : null,
+      lalamove_status_updated_at: new Date().toISOString()
+    })
+    .eq('id', order.id)
+    .is('lalamove_order_id', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !saved) {
+    console.error(`Lalamove order ${placed.orderId} was booked for order ${order.order_number} but could not be saved:`, error);
+  }
+}
+
+/**
+ * Find the courier an earlier attempt booked but never saved
+ * Bookings carry the job's idempotency key in their metadata. Lalamove
+ * reports every new booking to the webhook, so the Lalamove orders reported
+ * since the attempt started that none of our orders has are looked up for
+ * the key.
+ */
+async function findPlacedBooking(
+  job: BookingJob,
+  config: DeliveryStoreConfig
+): Promise<(PlacedLalamoveOrder & { price: number }) | null> {
+  const { data: events, error } = await (supabaseServer.from('lalamove_webhook_events' as any) as any)
+    .select('lalamove_order_id')
+    .gte('received_at', job.placing_since)
+    .not('lalamove_order_id', 'is', null);
+
+  if (error) {
+    console.error(`Error looking for an unsaved booking for order ${job.order_id}:`, error);
+    return null;
+  }
+
+  const reported = Array.from(new Set<string>((events || []).map((event: any) => event.lalamove_order_id)));
+  if (reported.length === 0) {
+    return null;
+  }
+
+  const { data: known } = await (supabaseServer.from('orders') as any)
+    .select('lalamove_order_id')
+    .in('lalamove_order_id', reported);
+  const saved = new Set((known || []).map((row: any) => row.lalamove_order_id));
+
+  for (const lalamoveOrderId of reported.filter(id => !saved.has(id))) {
+    const result = await getLalamoveOrder(lalamoveOrderId, config.market, config.sandbox);
+    if ('error' in result) {
+      continue;
+    }
+    const placed = result.data?.data || result.data;
+    if (placed?.metadata?.idempotencyKey === job.idempotency_key) {
+      return {
+        orderId: lalamoveOrderId,
+        status: placed.status,
+        shareLink: placed.shareLink,
+        driverId: placed.driverId || null,
+        price: Number(placed.priceBreakdown?.total)
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * One attempt at booking a courier for the job's order
+ */
+async function attemptBooking(job: BookingJob): Promise<AttemptOutcome> {
+  const { data: order, error } = await (supabaseServer.from('orders') as any)
+    .select(ORDER_COLUMNS)
+    .eq('id', job.order_id)
+    .maybeSingle();
+
+  if (error || !order) {
+    return { error: 'Order could not be loaded', retriable: Boolean(error) };
+  }
+
+  if (order.lalamove_order_id) {
+    return { booked: true, lalamoveOrderId: order.lalamove_order_id, quotationId: order.lalamove_quotation_id };
+  }
+
+  if (order.status === 'cancelled') {
+    return { cancelled: true, reason: 'Order was cancelled' };
+  }
+
+  const config = buildLalamoveConfig(await getSiteSettings(), await loadBranch(order.branch_id));
+  if (!config) {
+    return { error: 'Delivery is not configured', retriable: false };
+  }
+
+  // An earlier attempt stopped while booking; never book twice
+  if (job.placing_since) {
+    const found = await findPlacedBooking(job, config);
+    if (!found) {
+      return {
+        error: 'An earlier attempt may have booked a courier that was not saved. Check Lalamove, then retry to book again.',
+        retriable: true,
+        quotationId: job.quotation_id
+      };
+    }
+    await saveBooking(order, found, found.price);
+    console.log(`Recovered Lalamove order ${found.orderId} for order ${order.order_number}`);
+    return { booked: true, lalamoveOrderId: found.orderId, quotationId: job.quotation_id };
+  }
+
+  let forceRequote = false;
+  for (let round = 0; round < 2; round++) {
+    const quote = await ensureFreshQuotation(order, config, forceRequote);
+    if ('error' in quote) {
+      return { ...quote, quotationId: order.lalamove_quotation_id, refused: true };
+    }
+
+    const { error: markError } = await jobsTable()
+      .update({ placing_since: new Date().toISOString() })
+      .eq('id', job.id);
+    if (markError) {
+      return { error: 'Could not start the booking', retriable: true, quotationId: quote.quotationId, refused: true };
+    }
+
+    const placed = await placeLalamoveOrder(config, {
+      quotationId: quote.quotationId,
+      recipientName: order.customer_name,
+      recipientPhone: order.contact_number,
+      recipientRemarks: order.landmark || '',
+      metadata: { orderId: order.id, orderNumber: order.order_number, idempotencyKey: job.idempotency_key }
+    });
+
+    if ('error' in placed) {
+      if (placed.expired && !forceRequote) {
+        // The quotation lapsed between checking and booking; re-quote once
+        forceRequote = true;
+        continue;
+      }
+      return {
+        error: placed.error,
+        retriable: placed.expired || placed.status >= 500 || placed.status === 429,
+        quotationId: quote.quotationId,
+        // Server errors may still have booked a courier
+        refused: placed.status < 500
+      };
+    }
+
+    await saveBooking(order, placed, quote.price);
+
+    console.log(`Lalamove order booked for order ${order.order_number}: ${placed.orderId}`);
+    return { booked: true, lalamoveOrderId: placed.orderId, quotationId: quote.quotationId };
+  }
+
+  return { error: 'The delivery quote kept expiring', retriable: true, refused: true };
+}
+
+async function saveOutcome(job: BookingJob, outcome: AttemptOutcome): Promise<void> {
+  let updates: Record<string, unknown>;
+
+  if ('booked' in outcome) {
+    updates = {
+      status: 'booked',
+      lalamove_order_id: outcome.lalamoveOrderId,
+      quotation_id: outcome.quotationId,
+      last_error: null,
+      locked_until: null,
+      placing_since: null
+    };
+  } else if ('cancelled' in outcome) {
+    updates = { status: 'cancelled', last_error: outcome.reason, locked_until: null };
+  } else {
+    const canRetry = outcome.retriable && job.attempts < job.max_attempts;
+    const delaySeconds = BOOKING_RETRY_DELAYS_SECONDS[
+      Math.min(job.attempts - 1, BOOKING_RETRY_DELAYS_SECONDS.length - 1)
+    ];
+    updates = {
+      status: canRetry ? 'queued' : 'failed',
+      next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      quotation_id: outcome.quotationId ?? job.quotation_id,
+      last_error: outcome.error,
+      locked_until: null,
+      ...(outcome.refused && { placing_since: null })
+    };
+    console.warn(`Delivery booking attempt ${job.attempts} failed for order ${job.order_id}: ${outcome.error}`);
+  }
+
+  const { error } = await jobsTable().update(updates).eq('id', job.id);
+  if (error) {
+    console.error(`Error saving delivery booking ${job.id}:`, error);
+  }
+}
+
+/**
+ * Attempt the order's booking if it is due
+ * Returns the job as it stands afterwards (null when the order has no job).
+ */
+export async function runDeliveryBooking(orderId: string): Promise<DeliveryBooking | null> {
+  const now = new Date();
+  const job = await fetchJob(orderId);
+  if (!job || !isDue(job, now)) {
+    return job ? toDeliveryBooking(job) : null;
+  }
+
+  const claimed = await claimJob(job, now);
+  if (claimed) {
+    let outcome: AttemptOutcome;
+    try {
+      outcome = await attemptBooking(claimed);
+    } catch (error) {
+      console.error(`Unexpected error booking delivery for order ${orderId}:`, error);
+      outcome = { error: error instanceof Error ? error.message : 'Unexpected error', retriable: true };
+    }
+    await saveOutcome(claimed, outcome);
+  }
+
+  return toDeliveryBooking(await fetchJob(orderId));
+}
+
+/**
+ * Retry a booking from the admin with a fresh set of attempts
+ * Staff retry once they have checked Lalamove, so an earlier attempt that
+ * may have booked no longer holds the booking back.
+ */
+export async function retryDeliveryBooking(orderId: string): Promise<DeliveryBooking | null> {
+  await enqueueDeliveryBooking(orderId);
+
+  const { error } = await jobsTable()
+    .update({ status: 'queued', attempts: 0, next_attempt_at: new Date().toISOString(), locked_until: null, placing_since: null })
+    .eq('order_id', orderId)
+    .in('status', ['queued', 'failed']);
+
+  if (error) {
+    console.error(`Error resetting delivery booking for order ${orderId}:`, error);
+  }
+
+  return runDeliveryBooking(orderId);
+}
+
+/**
+ * Run every booking that is due for a retry, or whose worker crashed
+ */
+export async function processDueDeliveryBookings(limit = 10): Promise<{ processed: number; booked: number; failed: number }> {
+  const now = new Date().toISOString();
+  const { data, error } = await jobsTable()
+    .select('order_id')
+    .or(`and(status.eq.queued,next_attempt_at.lte.${now}),and(status.eq.processing,locked_until.lt.${now})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching due delivery bookings:', error);
+    return { processed: 0, booked: 0, failed: 0 };
+  }
+
+  const summary = { processed: 0, booked: 0, failed: 0 };
+  for (const { order_id } of (data || []) as { order_id: string }[]) {
+    const booking = await runDeliveryBooking(order_id);
+    summary.processed++;
+    if (booking?.status === 'booked') summary.booked++;
+    if (booking?.status === 'failed') summary.failed++;
+  }
+  return summary;
+}
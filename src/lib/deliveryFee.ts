@@ -0,0 +1,187 @@
+import type { Order, SiteSettings } from '../types';
+import { roundCurrency } from './pricing';
+
+/**
+ * Delivery fee policy
+ * What the customer pays for delivery is worked out from the Lalamove quote
+ * (the courier cost) by the `delivery_*` site settings: free delivery above a
+ * subtotal, a store subsidy, a packaging markup and rounding. A branch's
+ * delivery zone can set a flat fee instead. Both the customer fee and the
+ * courier cost are stored on the order, so the store can see what it spends
+ * on delivery. Checkout shows the fee; POST /api/orders works it out again.
+ */
+
+export type DeliverySubsidyType = 'none' | 'percent' | 'fixed';
+export type DeliveryFeeRounding = 'none' | 'peso' | 'five' | 'ten';
+
+export const DELIVERY_SUBSIDY_LABELS: Record<DeliverySubsidyType, string> = {
+  none: 'No subsidy',
+  percent: 'Percentage of the courier cost',
+  fixed: 'Fixed amount'
+};
+
+// Fees are rounded up to a multiple of these
+export const DELIVERY_FEE_ROUNDING_STEPS: Record<DeliveryFeeRounding, number> = {
+  none: 0,
+  peso: 1,
+  five: 5,
+  ten: 10
+};
+
+export const DELIVERY_FEE_ROUNDING_LABELS: Record<DeliveryFeeRounding, string> = {
+  none: 'No rounding',
+  peso: 'Up to the next peso',
+  five: 'Up to the next ₱5',
+  ten: 'Up to the next ₱10'
+};
+
+export interface DeliveryFeePolicy {
+  // Smallest food subtotal delivered; 0 for no minimum
+  minOrder: number;
+  // Subtotal from which delivery is free; null when never free
+  freeAbove: number | null;
+  subsidyType: DeliverySubsidyType;
+  // Percent (0-100) or pesos, depending on `subsidyType`
+  subsidyValue: number;
+  // Added to every fee, e.g. for packaging
+  markup: number;
+  rounding: DeliveryFeeRounding;
+}
+
+export interface DeliveryFeeQuote {
+  // What the customer pays
+  fee: number;
+  // What Lalamove charges the store
+  courierCost: number;
+  // What the store covers; negative when the customer pays more than the courier
+  subsidy: number;
+  reason: 'free' | 'flat' | null;
+}
+
+const toAmount = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const isOneOf = <T extends string>(value: unknown, options: Record<T, unknown>): value is T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+/**
+ * The fee policy from the `delivery_*` site settings; missing settings charge
+ * the courier cost as quoted
+ */
+export function getDeliveryFeePolicy(siteSettings: Partial<SiteSettings> | null | undefined): DeliveryFeePolicy {
+  const subsidyType = siteSettings?.delivery_subsidy_type;
+  const rounding = siteSettings?.delivery_fee_rounding;
+  const freeAbove = toAmount(siteSettings?.delivery_free_above);
+  return {
+    minOrder: toAmount(siteSettings?.delivery_min_order),
+    freeAbove: freeAbove > 0 ? freeAbove : null,
+    subsidyType: isOneOf(subsidyType, DELIVERY_SUBSIDY_LABELS) ? subsidyType : 'none',
+    subsidyValue: Math.min(toAmount(siteSettings?.delivery_subsidy_value), subsidyType === 'percent' ? 100 : Infinity),
+    markup: toAmount(siteSettings?.delivery_markup),
+    rounding: isOneOf(rounding, DELIVERY_FEE_ROUNDING_STEPS) ? rounding : 'none'
+  };
+}
+
+const roundUp = (amount: number, step: number) =>
+  // Tolerate float noise so 45.0000001 stays 45
+  step > 0 ? Math.ceil(roundCurrency(amount) / step - 1e-9) * step : roundCurrency(amount);
+
+/**
+ * The delivery fee when it does not depend on the courier cost: 0 above the
+ * free delivery threshold, else a zone's flat fee; null when it does
+ */
+export function getFixedDeliveryFee(subtotal: number, policy: DeliveryFeePolicy, flatFee: number | null = null): number | null {
+  if (policy.freeAbove !== null && subtotal >= policy.freeAbove) return 0;
+  return flatFee !== null ? roundCurrency(flatFee) : null;
+}
+
+/**
+ * The customer's delivery fee for a courier cost and food subtotal
+ * Free delivery wins over everything; a zone's flat fee replaces the subsidy,
+ * markup and rounding.
+ */
+export function applyDeliveryFeePolicy(
+  courierCost: number,
+  subtotal: number,
+  policy: DeliveryFeePolicy,
+  flatFee: number | null = null
+): DeliveryFeeQuote {
+  const cost = roundCurrency(courierCost);
+  const quote = (fee: number, reason: DeliveryFeeQuote['reason']): DeliveryFeeQuote => ({
+    fee,
+    courierCost: cost,
+    subsidy: roundCurrency(cost - fee),
+    reason
+  });
+
+  if (policy.freeAbove !== null && subtotal >= policy.freeAbove) {
+    return quote(0, 'free');
+  }
+  if (flatFee !== null) {
+    return quote(roundCurrency(flatFee), 'flat');
+  }
+
+  const subsidy = policy.subsidyType === 'percent'
+    ? (cost * policy.subsidyValue) / 100
+    : policy.subsidyType === 'fixed'
+      ? policy.subsidyValue
+      : 0;
+  const fee = Math.max(0, cost - subsidy) + policy.markup;
+  return quote(roundUp(fee, DELIVERY_FEE_ROUNDING_STEPS[policy.rounding]), null);
+}
+
+/**
+ * Check a delivery order's food subtotal against the minimum
+ * Returns a message when it is short, or null when it can be delivered.
+ */
+export function checkDeliveryMinimum(subtotal: number, policy: DeliveryFeePolicy): string | null {
+  if (subtotal >= policy.minOrder) return null;
+  const short = roundCurrency(policy.minOrder - subtotal);
+  return `Delivery orders start at ₱${policy.minOrder}. Add ₱${short} more to have it delivered.`;
+}
+
+/**
+ * How much more food would make delivery free, or null if it is free already
+ * or never is
+ */
+export function getAmountToFreeDelivery(subtotal: number, policy: DeliveryFeePolicy): number | null {
+  if (policy.freeAbove === null || subtotal >= policy.freeAbove) return null;
+  return roundCurrency(policy.freeAbove - subtotal);
+}
+
+/**
+ * The policy in words for the settings page, one line per rule
+ */
+export function describeDeliveryFeePolicy(policy: DeliveryFeePolicy): string[] {
+  const lines = [policy.minOrder > 0 ? `Delivery orders start at ₱${policy.minOrder}` : 'No minimum order for delivery'];
+  if (policy.freeAbove !== null) {
+    lines.push(`Free delivery on orders of ₱${policy.freeAbove} or more`);
+  }
+  if (policy.subsidyType !== 'none' && policy.subsidyValue > 0) {
+    const share = policy.subsidyType === 'percent' ? `${policy.subsidyValue}%` : `₱${policy.subsidyValue}`;
+    lines.push(`The store covers ${share} of the courier cost`);
+  }
+  if (policy.markup > 0) {
+    lines.push(`₱${policy.markup} is added to every fee`);
+  }
+  if (policy.rounding !== 'none') {
+    lines.push(`Fees are rounded ${DELIVERY_FEE_ROUNDING_LABELS[policy.rounding].toLowerCase()}`);
+  }
+  if (lines.length === 1) {
+    lines.push('Customers pay the Lalamove price as quoted');
+  }
+  return lines;
+}
+
+/**
+ * What the store covered on a delivery order: the courier cost (the booked
+ * price once known, else the quote) less what the customer paid
+ * Null for orders without a courier cost.
+ */
+export function getDeliverySubsidy(order: Pick<Order, 'delivery_fee' | 'delivery_courier_cost' | 'lalamove_price'>): number | null {
+  const courierCost = order.lalamove_price ?? order.delivery_courier_cost;
+  if (courierCost === null || courierCost === undefined) return null;
+  return roundCurrency(courierCost - (order.delivery_fee ?? 0));
+}
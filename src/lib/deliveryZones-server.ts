@@ -0,0 +1,58 @@
+import { supabaseServer } from './supabase-server';
+import { normalizeDeliveryZone } from './deliveryZones';
+import { buildLalamoveConfig } from './lalamove';
+import type { DeliveryZoneFields } from './deliveryZones';
+import type { DeliveryStoreConfig } from './lalamove';
+import type { Branch, SiteSettings } from '../types';
+
+/**
+ * Server-side delivery zones
+ * Loads a branch's pin and zone for the checks in ./deliveryZones, and where
+ * couriers collect from. Only import this from API routes.
+ */
+
+/**
+ * An active branch's pin and delivery zone, or null if there is no such branch
+ */
+export async function getBranchDeliveryZone(branchId: string): Promise<DeliveryZoneFields | null> {
+  const { data, error } = await (supabaseServer.from('branches' as any) as any)
+    .select('name, latitude, longitude, delivery_zone')
+    .eq('id', branchId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch branch delivery zone: ${error.message}`);
+  }
+  return data ? { ...data, delivery_zone: normalizeDeliveryZone(data.delivery_zone) } : null;
+}
+
+/**
+ * Where couriers collect from: the active branch, or the store in the site
+ * settings without a branch
+ * Null when delivery is not configured or the branch is not active. Quotes
+ * are always built from this, never from store details sent by the browser.
+ */
+export async function getDeliveryStoreConfig(
+  siteSettings: SiteSettings | null,
+  branchId: string | null
+): Promise<DeliveryStoreConfig | null> {
+  let branch: Branch | null = null;
+  if (branchId) {
+    const { data, error } = await (supabaseServer.from('branches' as any) as any)
+      .select('*')
+      .eq('id', branchId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch branch: ${error.message}`);
+    }
+    if (!data) {
+      return null;
+    }
+    branch = data as Branch;
+  }
+
+  return buildLalamoveConfig(siteSettings, branch);
+}
@@ -0,0 +1,187 @@
+import type { Branch, Coordinates, DeliveryZone } from '../types';
+
+/**
+ * Branch delivery zones
+ * A branch can limit delivery to a radius around its pin or to a polygon
+ * drawn on the map. Checkout suggests the nearest branch that delivers to the
+ * customer's address and asks Lalamove for no quote outside every zone; POST
+ * /api/orders and the quote proxy check the zone again.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+export const MAX_DELIVERY_RADIUS_KM = 50;
+
+// Quoted stops this close to where they should be are the same place
+const SAME_PLACE_KM = 0.05;
+
+export type DeliveryZoneFields = Pick<Branch, 'name' | 'latitude' | 'longitude' | 'delivery_zone'>;
+
+export interface RankedBranch<T extends DeliveryZoneFields> {
+  branch: T;
+  // Null when the branch has not been pinned on the map
+  distanceKm: number | null;
+  delivers: boolean;
+}
+
+const isCoordinate = (lat: number, lng: number) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Straight-line (great-circle) distance between two points in kilometres
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Where a branch is pinned, or null if it has no usable pin
+ */
+export function getBranchLocation(branch: Pick<Branch, 'latitude' | 'longitude'>): Coordinates | null {
+  const lat = parseFloat(branch.latitude);
+  const lng = parseFloat(branch.longitude);
+  return isCoordinate(lat, lng) ? { lat, lng } : null;
+}
+
+// Keeps a zone's flat fee only when it is set and usable
+const withFlatFee = (zone: DeliveryZone, raw: any): DeliveryZone => {
+  const flatFee = raw?.flatFee === null || raw?.flatFee === undefined || raw?.flatFee === '' ? NaN : Number(raw.flatFee);
+  return Number.isFinite(flatFee) && flatFee >= 0 ? { ...zone, flatFee } : zone;
+};
+
+/**
+ * Read a stored `delivery_zone` value; anything unusable means no limit
+ */
+export function normalizeDeliveryZone(raw: any): DeliveryZone | null {
+  if (raw?.type === 'radius') {
+    const radiusKm = Number(raw.radiusKm);
+    return Number.isFinite(radiusKm) && radiusKm > 0 ? withFlatFee({ type: 'radius', radiusKm }, raw) : null;
+  }
+  if (raw?.type === 'polygon' && Array.isArray(raw.points)) {
+    const points = raw.points
+      .map((point: any) => (Array.isArray(point) ? [Number(point[0]), Number(point[1])] : null))
+      .filter((point: number[] | null): point is [number, number] => point !== null && isCoordinate(point[0], point[1]));
+    return points.length >= 3 ? withFlatFee({ type: 'polygon', points }, raw) : null;
+  }
+  return null;
+}
+
+/**
+ * Check a delivery zone from the admin form against the branch's pin
+ * Returns a message for the problem, or null when it can be saved.
+ */
+export function validateDeliveryZone(zone: DeliveryZone | null, location: Coordinates | null): string | null {
+  if (!zone) return null;
+  if (zone.flatFee !== null && zone.flatFee !== undefined && !(Number.isFinite(zone.flatFee) && zone.flatFee >= 0)) {
+    return 'The flat delivery fee must be 0 or more';
+  }
+  if (zone.type === 'radius') {
+    if (!Number.isFinite(zone.radiusKm) || zone.radiusKm <= 0 || zone.radiusKm > MAX_DELIVERY_RADIUS_KM) {
+      return `The delivery radius must be more than 0 and at most ${MAX_DELIVERY_RADIUS_KM} km`;
+    }
+    if (!location) {
+      return 'Pin the branch on the map to deliver within a radius of it';
+    }
+    return null;
+  }
+  return zone.points.length < 3 ? 'Draw at least three corners for the delivery area' : null;
+}
+
+// Ray casting, with longitude as x and latitude as y
+function isInsidePolygon(point: Coordinates, points: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i];
+    const [latJ, lngJ] = points[j];
+    if ((latI > point.lat) !== (latJ > point.lat) &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a branch delivers to a point; branches without a zone deliver anywhere
+ * A radius needs the branch's pin, so an unpinned branch delivers nowhere.
+ */
+export function isInDeliveryZone(branch: DeliveryZoneFields, point: Coordinates): boolean {
+  const zone = branch.delivery_zone;
+  if (!zone) return true;
+  if (zone.type === 'polygon') return isInsidePolygon(point, zone.points);
+
+  const location = getBranchLocation(branch);
+  return Boolean(location) && distanceKm(location as Coordinates, point) <= zone.radiusKm;
+}
+
+/**
+ * Check that a branch delivers to the customer's address (`point` null when
+ * it was typed in without picking a suggestion)
+ * Returns why it does not, or null when it does.
+ */
+export function checkDeliveryZone(branch: DeliveryZoneFields, point: Coordinates | null): string | null {
+  if (!branch.delivery_zone) return null;
+  if (!point) {
+    return `Pick your address from the suggestions so we can check that ${branch.name} delivers there`;
+  }
+  return isInDeliveryZone(branch, point) ? null : `${branch.name} doesn't deliver to this address`;
+}
+
+/**
+ * Branches nearest first from a point, with whether each delivers there
+ * Unpinned branches come last, in their original order.
+ */
+export function rankBranchesByDistance<T extends DeliveryZoneFields>(branches: T[], point: Coordinates): RankedBranch<T>[] {
+  return branches
+    .map(branch => {
+      const location = getBranchLocation(branch);
+      return {
+        branch,
+        distanceKm: location ? distanceKm(location, point) : null,
+        delivers: isInDeliveryZone(branch, point)
+      };
+    })
+    .sort((a, b) => {
+      if (a.distanceKm === null || b.distanceKm === null) {
+        return (a.distanceKm === null ? 1 : 0) - (b.distanceKm === null ? 1 : 0);
+      }
+      return a.distanceKm - b.distanceKm;
+    });
+}
+
+/**
+ * The nearest branch that delivers to a point, or null if none does
+ */
+export function findNearestDeliveringBranch<T extends DeliveryZoneFields>(branches: T[], point: Coordinates): RankedBranch<T> | null {
+  return rankBranchesByDistance(branches, point).find(ranked => ranked.delivers) || null;
+}
+
+/**
+ * Whether a quotation's stops run from the store to the delivery address
+ * Quotes are checked with this before their price is charged on an order.
+ */
+export function isQuotedRoute(stops: Coordinates[], from: Coordinates, to: Coordinates): boolean {
+  return stops.length === 2 &&
+    distanceKm(stops[0], from) <= SAME_PLACE_KM &&
+    distanceKm(stops[1], to) <= SAME_PLACE_KM;
+}
+
+/**
+ * A delivery zone for the branch list, e.g. "Delivers within 5 km"
+ */
+export function describeDeliveryZone(zone: DeliveryZone | null | undefined): string {
+  if (!zone) return 'Delivers anywhere';
+  const area = zone.type === 'radius' ? `Delivers within ${zone.radiusKm} km` : 'Delivers within a drawn area';
+  return typeof zone.flatFee === 'number' ? `${area} for ₱${zone.flatFee}` : area;
+}
+
+/**
+ * A distance for customers, e.g. "850 m" or "3.2 km"
+ */
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
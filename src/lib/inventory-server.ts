@@ -0,0 +1,292 @@
+import { supabaseServer } from './supabase-server';
+import type { Ingredient, InventoryItem, RecipeItem } from '../types';
+
+/**
+ * Server-side inventory
+ * Reads stock and moves it through the database functions in the inventory
+ * migration, which log every change to `stock_movements` and switch items
+ * off (and back on) as they run out. Only import this from API routes.
+ */
+
+export type IngredientValues = Partial<Pick<Ingredient, 'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold'>>;
+
+export type ItemStockValues = Partial<Pick<InventoryItem, 'track_stock' | 'low_stock_threshold' | 'stock_quantity' | 'recipe'>>;
+
+const INVENTORY_ITEM_SELECT = 'id, name, category, available, track_stock, stock_quantity, low_stock_threshold, auto_sold_out';
+
+/**
+ * Map a menu_items row (and its recipe lines) to the app's InventoryItem shape
+ */
+export function toInventoryItem(row: any, recipe: RecipeItem[] = []): InventoryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    available: row.available !== false,
+    track_stock: Boolean(row.track_stock),
+    stock_quantity: Number(row.stock_quantity ?? 0),
+    low_stock_threshold: Number(row.low_stock_threshold ?? 0),
+    auto_sold_out: Boolean(row.auto_sold_out),
+    recipe
+  };
+}
+
+/**
+ * Map an ingredients row to the app's Ingredient shape
+ */
+export function toIngredient(row: any): Ingredient {
+  return {
+    id: row.id,
+    name: row.name,
+    unit: row.unit,
+    stock_quantity: Number(row.stock_quantity),
+    low_stock_threshold: Number(row.low_stock_threshold),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+/**
+ * Every menu item's stock settings and every ingredient
+ */
+export async function listInventory(): Promise<{ items: InventoryItem[]; ingredients: Ingredient[] }> {
+  const [
+    { data: items, error: itemsError },
+    { data: ingredients, error: ingredientsError },
+    { data: recipes, error: recipesError }
+  ] = await Promise.all([
+    (supabaseServer.from('menu_items') as any)
+      .select(INVENTORY_ITEM_SELECT)
+      .order('name', { ascending: true }),
+    (supabaseServer.from('ingredients' as any) as any)
+      .select('*')
+      .order('name', { ascending: true }),
+    (supabaseServer.from('recipe_items' as any) as any)
+      .select('menu_item_id, ingredient_id, quantity')
+  ]);
+
+  const error = itemsError || ingredientsError || recipesError;
+  if (error) {
+    throw new Error(`Failed to fetch inventory: ${error.message}`);
+  }
+
+  const recipeByItem = new Map<string, RecipeItem[]>();
+  ((recipes || []) as any[]).forEach(line => {
+    const recipe = recipeByItem.get(line.menu_item_id) || [];
+    recipe.push({ ingredient_id: line.ingredient_id, quantity: Number(line.quantity) });
+    recipeByItem.set(line.menu_item_id, recipe);
+  });
+
+  return {
+    items: ((items || []) as any[]).map(row => toInventoryItem(row, recipeByItem.get(row.id))),
+    ingredients: ((ingredients || []) as any[]).map(toIngredient)
+  };
+}
+
+/**
+ * Set a counted stock level for a menu item or an ingredient
+ */
+export async function adjustStock(
+  target: { menuItemId: string } | { ingredientId: string },
+  quantity: number,
+  actorName: string
+): Promise<void> {
+  const { error } = await (supabaseServer as any).rpc('adjust_stock', {
+    p_menu_item_id: 'menuItemId' in target ? target.menuItemId : null,
+    p_ingredient_id: 'ingredientId' in target ? target.ingredientId : null,
+    p_quantity: quantity,
+    p_actor_name: actorName
+  });
+
+  if (error) {
+    throw new Error(`Failed to adjust stock: ${error.message}`);
+  }
+}
+
+/**
+ * Re-check which items have run out after settings or recipes change
+ */
+async function refreshStockAvailability(): Promise<void> {
+  const { error } = await (supabaseServer as any).rpc('refresh_stock_availability');
+  if (error) {
+    throw new Error(`Failed to refresh availability: ${error.message}`);
+  }
+}
+
+/**
+ * Update a menu item's stock settings, counted level and recipe
+ * Returns null when the item does not exist. A recipe naming an unknown
+ * ingredient throws the database error (code 23503).
+ */
+export async function updateItemStock(
+  menuItemId: string,
+  values: ItemStockValues,
+  actorName: string
+): Promise<InventoryItem | null> {
+  const { recipe, stock_quantity, ...settings } = values;
+
+  const { data: existing, error: existingError } = await (supabaseServer.from('menu_items') as any)
+    .select('id')
+    .eq('id', menuItemId)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Failed to load menu item: ${existingError.message}`);
+  }
+  if (!existing) {
+    return null;
+  }
+
+  if (Object.keys(settings).length > 0) {
+    const { error } = await (supabaseServer.from('menu_items') as any)
+      .update(settings)
+      .eq('id', menuItemId);
+
+    if (error) {
+      throw new Error(`Failed to update stock settings: ${error.message}`);
+    }
+  }
+
+  if (recipe) {
+    const { error: deleteError } = await (supabaseServer.from('recipe_items' as any) as any)
+      .delete()
+      .eq('menu_item_id', menuItemId);
+
+    if (deleteError) {
+      throw new Error(`Failed to update recipe: ${deleteError.message}`);
+    }
+
+    if (recipe.length > 0) {
+      const { error: insertError } = await (supabaseServer.from('recipe_items' as any) as any)
+        .insert(recipe.map(line => ({ ...line, menu_item_id: menuItemId })));
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+  }
+
+  if (stock_quantity !== undefined) {
+    await adjustStock({ menuItemId }, stock_quantity, actorName);
+  } else {
+    await refreshStockAvailability();
+  }
+
+  const [{ data: row, error: rowError }, { data: lines, error: linesError }] = await Promise.all([
+    (supabaseServer.from('menu_items') as any)
+      .select(INVENTORY_ITEM_SELECT)
+      .eq('id', menuItemId)
+      .single(),
+    (supabaseServer.from('recipe_items' as any) as any)
+      .select('ingredient_id, quantity')
+      .eq('menu_item_id', menuItemId)
+  ]);
+
+  if (rowError || linesError) {
+    throw new Error(`Failed to load menu item: ${(rowError || linesError).message}`);
+  }
+
+  return toInventoryItem(row, ((lines || []) as any[]).map(line => ({
+    ingredient_id: line.ingredient_id,
+    quantity: Number(line.quantity)
+  })));
+}
+
+/**
+ * Create an ingredient; its opening stock is logged as an adjustment
+ */
+export async function createIngredient(values: IngredientValues, actorName: string): Promise<Ingredient> {
+  const { stock_quantity, ...fields } = values;
+
+  const { data, error } = await (supabaseServer.from('ingredients' as any) as any)
+    .insert(fields)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (stock_quantity) {
+    await adjustStock({ ingredientId: data.id }, stock_quantity, actorName);
+    return toIngredient({ ...data, stock_quantity });
+  }
+  return toIngredient(data);
+}
+
+/**
+ * Update an ingredient; a new stock level is logged as an adjustment
+ * Returns null when the ingredient does not exist.
+ */
+export async function updateIngredient(
+  ingredientId: string,
+  values: IngredientValues,
+  actorName: string
+): Promise<Ingredient | null> {
+  const { stock_quantity, ...fields } = values;
+
+  const { data, error } = await (supabaseServer.from('ingredients' as any) as any)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', ingredientId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  if (stock_quantity !== undefined) {
+    await adjustStock({ ingredientId }, stock_quantity, actorName);
+    return toIngredient({ ...data, stock_quantity });
+  }
+  return toIngredient(data);
+}
+
+/**
+ * Delete an ingredient and drop it from every recipe
+ */
+export async function deleteIngredient(ingredientId: string): Promise<void> {
+  const { error } = await (supabaseServer.from('ingredients' as any) as any)
+    .delete()
+    .eq('id', ingredientId);
+
+  if (error) {
+    throw new Error(`Failed to delete ingredient: ${error.message}`);
+  }
+
+  await refreshStockAvailability();
+}
+
+/**
+ * Take a confirmed order's items and ingredients out of stock
+ * Safe to call more than once per order. Failures are logged rather than
+ * thrown: the status change itself already happened.
+ */
+export async function deductOrderStock(orderId: string, actorName: string): Promise<void> {
+  const { error } = await (supabaseServer as any).rpc('deduct_order_stock', {
+    p_order_id: orderId,
+    p_actor_name: actorName
+  });
+
+  if (error) {
+    console.error(`Error deducting stock for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Put back whatever a cancelled order took out of stock
+ * Failures are logged rather than thrown, as for deductOrderStock.
+ */
+export async function restoreOrderStock(orderId: string, actorName: string): Promise<void> {
+  const { error } = await (supabaseServer as any).rpc('restore_order_stock', {
+    p_order_id: orderId,
+    p_actor_name: actorName
+  });
+
+  if (error) {
+    console.error(`Error restoring stock for order ${orderId}:`, error);
+  }
+}
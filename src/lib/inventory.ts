@@ -0,0 +1,174 @@
+import type { Ingredient, InventoryItem, LowStockAlert, RecipeItem } from '../types';
+
+/**
+ * Inventory rules
+ * Low-stock alerts and validation of stock settings sent by the inventory
+ * view. Stock itself only moves in the database (deduct_order_stock,
+ * restore_order_stock, adjust_stock) so concurrent orders cannot lose counts;
+ * see inventory-server for those calls.
+ */
+
+const STOCK_DECIMALS = 1000;
+
+const roundStock = (value: number): number => Math.round(value * STOCK_DECIMALS) / STOCK_DECIMALS;
+
+/**
+ * Whether a stock level is at or below its alert threshold
+ */
+export const isLowStock = (quantity: number, threshold: number): boolean => quantity <= threshold;
+
+/**
+ * Items and ingredients at or below their threshold, emptiest first
+ * Items whose stock is not tracked never alert.
+ */
+export function getLowStockAlerts(items: InventoryItem[], ingredients: Ingredient[]): LowStockAlert[] {
+  const alerts: LowStockAlert[] = [
+    ...items
+      .filter(item => item.track_stock && isLowStock(item.stock_quantity, item.low_stock_threshold))
+      .map(item => ({
+        kind: 'item' as const,
+        id: item.id,
+        name: item.name,
+        quantity: item.stock_quantity,
+        threshold: item.low_stock_threshold,
+        unit: null
+      })),
+    ...ingredients
+      .filter(ingredient => isLowStock(ingredient.stock_quantity, ingredient.low_stock_threshold))
+      .map(ingredient => ({
+        kind: 'ingredient' as const,
+        id: ingredient.id,
+        name: ingredient.name,
+        quantity: ingredient.stock_quantity,
+        threshold: ingredient.low_stock_threshold,
+        unit: ingredient.unit
+      }))
+  ];
+
+  return alerts.sort((a, b) => a.quantity - b.quantity || a.name.localeCompare(b.name));
+}
+
+/**
+ * Label for an alert's stock level, e.g. "Sold out", "3 left" or "250 ml left"
+ */
+export function describeStockLevel(alert: Pick<LowStockAlert, 'quantity' | 'unit'>): string {
+  if (alert.quantity <= 0) return 'Sold out';
+  return `${roundStock(alert.quantity)}${alert.unit ? ` ${alert.unit}` : ''} left`;
+}
+
+const toStockNumber = (value: unknown, integer: boolean): number | undefined => {
+  if (value === null || value === '' || typeof value === 'boolean') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) return undefined;
+  if (integer && !Number.isInteger(parsed)) return undefined;
+  return roundStock(parsed);
+};
+
+/**
+ * Validate a recipe: ingredient ids with a positive amount each, no repeats
+ */
+export function parseRecipe(value: unknown): { recipe: RecipeItem[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Invalid recipe' };
+  }
+
+  const recipe: RecipeItem[] = [];
+  for (const entry of value) {
+    const quantity = toStockNumber(entry?.quantity, false);
+    if (typeof entry?.ingredient_id !== 'string' || !entry.ingredient_id) {
+      return { error: 'Choose an ingredient for every recipe line' };
+    }
+    if (!quantity) {
+      return { error: 'Recipe amounts must be more than zero' };
+    }
+    if (recipe.some(line => line.ingredient_id === entry.ingredient_id)) {
+      return { error: 'Each ingredient can only be in a recipe once' };
+    }
+    recipe.push({ ingredient_id: entry.ingredient_id, quantity });
+  }
+
+  return { recipe };
+}
+
+/**
+ * Validate the stock settings for a menu item
+ * Every field is optional. `stock_quantity` is a counted level, applied
+ * through adjust_stock rather than written directly.
+ */
+export function parseItemStockInput(
+  body: any
+): { values: Partial<Pick<InventoryItem, 'track_stock' | 'low_stock_threshold' | 'stock_quantity' | 'recipe'>> } | { error: string } {
+  const values: Partial<Pick<InventoryItem, 'track_stock' | 'low_stock_threshold' | 'stock_quantity' | 'recipe'>> = {};
+  const has = (field: string) => body?.[field] !== undefined;
+
+  if (has('track_stock')) {
+    values.track_stock = Boolean(body.track_stock);
+  }
+
+  if (has('low_stock_threshold')) {
+    const value = toStockNumber(body.low_stock_threshold, true);
+    if (value === undefined) {
+      return { error: 'Low-stock alert level must be a whole number of 0 or more' };
+    }
+    values.low_stock_threshold = value;
+  }
+
+  if (has('stock_quantity')) {
+    const value = toStockNumber(body.stock_quantity, true);
+    if (value === undefined) {
+      return { error: 'Stock must be a whole number of 0 or more' };
+    }
+    values.stock_quantity = value;
+  }
+
+  if (has('recipe')) {
+    const result = parseRecipe(body.recipe);
+    if ('error' in result) {
+      return result;
+    }
+    values.recipe = result.recipe;
+  }
+
+  return { values };
+}
+
+/**
+ * Validate an ingredient
+ * With `partial`, only the fields present are checked (for PATCH).
+ */
+export function parseIngredientInput(
+  body: any,
+  partial = false
+): { values: Partial<Pick<Ingredient, 'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold'>> } | { error: string } {
+  const values: Partial<Pick<Ingredient, 'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold'>> = {};
+  const has = (field: string) => body?.[field] !== undefined;
+  const required = (field: string) => !partial || has(field);
+
+  if (required('name')) {
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return { error: 'Ingredient name is required' };
+    }
+    values.name = name;
+  }
+
+  if (has('unit')) {
+    const unit = typeof body.unit === 'string' ? body.unit.trim() : '';
+    if (!unit) {
+      return { error: 'Unit is required' };
+    }
+    values.unit = unit;
+  }
+
+  for (const field of ['stock_quantity', 'low_stock_threshold'] as const) {
+    if (has(field)) {
+      const value = toStockNumber(body[field], false);
+      if (value === undefined) {
+        return { error: field === 'stock_quantity' ? 'Stock must be 0 or more' : 'Low-stock alert level must be 0 or more' };
+      }
+      values[field] = value;
+    }
+  }
+
+  return { values };
+}
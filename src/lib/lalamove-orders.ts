@@ -0,0 +1,225 @@
+import { supabaseServer, getSiteSettings } from './supabase-server';
+import {
+  getLalamoveOrder,
+  getLalamoveDriver,
+  cancelLalamoveOrder,
+  addLalamovePriorityFee
+} from './lalamove-server';
+import type { LalamoveResult } from './lalamove-server';
+import type { LalamoveDriver } from '../types';
+
+/**
+ * Courier actions on our orders
+ * Looks up the Lalamove booking behind one of our orders, calls Lalamove and
+ * keeps the order's lalamove_* columns in sync with the answer. Only import
+ * this from API routes.
+ */
+
+export interface CourierOrder {
+  id: string;
+  order_number: string;
+  lalamove_order_id: string | null;
+  lalamove_driver_id?: string | null;
+  lalamove_status?: string | null;
+}
+
+export interface CourierCancellation {
+  cancelled: boolean;
+  error?: string;
+}
+
+type CourierError = { error: string; status: number };
+
+// Bookings in these states cannot (or need not) be cancelled
+const FINISHED_COURIER_STATUSES = ['COMPLETED', 'CANCELED', 'REJECTED', 'EXPIRED'];
+
+/**
+ * Market and sandbox flag from the site settings
+ */
+async function getLalamoveMarket(): Promise<{ market: string; sandbox: boolean } | CourierError> {
+  const siteSettings = await getSiteSettings();
+  const market = siteSettings?.lalamove_market?.trim();
+  if (!market) {
+    return { error: 'Delivery is not configured', status: 400 };
+  }
+
+  return {
+    market,
+    sandbox: siteSettings?.lalamove_sandbox?.trim().toLowerCase() !== 'false'
+  };
+}
+
+/**
+ * Run a Lalamove call for an order that has been booked
+ */
+async function callLalamove(
+  order: CourierOrder,
+  call: (lalamoveOrderId: string, market: string, sandbox: boolean) => Promise<LalamoveResult>
+): Promise<{ data: any } | CourierError> {
+  if (!order.lalamove_order_id) {
+    return { error: 'This order has no Lalamove booking', status: 400 };
+  }
+
+  const config = await getLalamoveMarket();
+  if ('error' in config) {
+    return config;
+  }
+
+  try {
+    const result = await call(order.lalamove_order_id, config.market, config.sandbox);
+    if ('error' in result) {
+      return { error: describeLalamoveError(result.error), status: result.status >= 500 ? 502 : result.status };
+    }
+    return { data: result.data?.data ?? result.data };
+  } catch (error) {
+    console.error(`Lalamove request failed for order ${order.order_number}:`, error);
+    return { error: 'Could not reach Lalamove', status: 502 };
+  }
+}
+
+/**
+ * Pull the readable message out of a Lalamove error body
+ */
+function describeLalamoveError(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    const first = parsed?.errors?.[0];
+    return first?.message || first?.id || body;
+  } catch {
+    return body;
+  }
+}
+
+async function saveCourierFields(orderId: string, fields: Record<string, unknown>): Promise<any> {
+  const { data, error } = await (supabaseServer.from('orders') as any)
+    .update(fields)
+    .eq('id', orderId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error(`Error saving Lalamove details for order ${orderId}:`, error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Cancel the courier booked for an order
+ */
+export async function cancelCourier(order: CourierOrder): Promise<{ order: any } | CourierError> {
+  const result = await callLalamove(order, cancelLalamoveOrder);
+  if ('error' in result) {
+    return result;
+  }
+
+  const updated = await saveCourierFields(order.id, {
+    lalamove_status: 'CANCELED',
+    lalamove_status_updated_at: new Date().toISOString()
+  });
+  return { order: updated };
+}
+
+/**
+ * Cancel the courier after the order itself was cancelled
+ * Returns null when there is no live booking. Failures are reported rather
+ * than thrown since the order is already cancelled; staff can retry from OrderManager.
+ */
+export async function cancelCourierForCancelledOrder(order: CourierOrder): Promise<CourierCancellation | null> {
+  const courierStatus = order.lalamove_status?.toUpperCase();
+  if (!order.lalamove_order_id || (courierStatus && FINISHED_COURIER_STATUSES.includes(courierStatus))) {
+    return null;
+  }
+
+  const result = await cancelCourier(order);
+  if ('error' in result) {
+    console.warn(`Could not cancel Lalamove booking for order ${order.order_number}: ${result.error}`);
+    return { cancelled: false, error: result.error };
+  }
+  return { cancelled: true };
+}
+
+/**
+ * Re-fetch the booking from Lalamove and store its current status
+ */
+export async function refreshCourierStatus(order: CourierOrder): Promise<{ order: any; courier: any } | CourierError> {
+  const result = await callLalamove(order, getLalamoveOrder);
+  if ('error' in result) {
+    return result;
+  }
+
+  const courier = result.data;
+  const fields: Record<string, unknown> = {
+    lalamove_status_updated_at: new Date().toISOString()
+  };
+  if (courier?.status) fields.lalamove_status = String(courier.status);
+  if (courier?.shareLink) fields.lalamove_tracking_url = courier.shareLink;
+  if (courier?.driverId) fields.lalamove_driver_id = String(courier.driverId);
+
+  const updated = await saveCourierFields(order.id, fields);
+  return { order: updated, courier };
+}
+
+/**
+ * Fetch the assigned driver and store their details on the order
+ */
+export async function fetchCourierDriver(order: CourierOrder): Promise<{ order: any; driver: LalamoveDriver | null } | CourierError> {
+  let driverId = order.lalamove_driver_id || null;
+
+  if (!driverId) {
+    const status = await refreshCourierStatus(order);
+    if ('error' in status) {
+      return status;
+    }
+    driverId = status.courier?.driverId ? String(status.courier.driverId) : null;
+    if (!driverId) {
+      return { order: status.order, driver: null };
+    }
+  }
+
+  const result = await callLalamove(order, (lalamoveOrderId, market, sandbox) =>
+    getLalamoveDriver(lalamoveOrderId, driverId as string, market, sandbox)
+  );
+  if ('error' in result) {
+    return result;
+  }
+
+  const lat = Number(result.data?.coordinates?.lat);
+  const lng = Number(result.data?.coordinates?.lng);
+  const driver: LalamoveDriver = {
+    driverId,
+    name: result.data?.name || null,
+    phone: result.data?.phone || null,
+    plateNumber: result.data?.plateNumber || null,
+    photo: result.data?.photo || null,
+    location: Number.isFinite(lat) && Number.isFinite(lng)
+      ? { lat, lng, updatedAt: result.data?.coordinates?.updatedAt || null }
+      : null
+  };
+
+  const updated = await saveCourierFields(order.id, {
+    lalamove_driver_id: driverId,
+    lalamove_driver_name: driver.name,
+    lalamove_driver_phone: driver.phone,
+    lalamove_driver_plate: driver.plateNumber
+  });
+  return { order: updated, driver };
+}
+
+/**
+ * Add a priority fee to an order that is still waiting for a driver
+ */
+export async function addCourierPriorityFee(order: CourierOrder, amount: number): Promise<{ success: true } | CourierError> {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'Priority fee must be a positive amount', status: 400 };
+  }
+
+  const result = await callLalamove(order, (lalamoveOrderId, market, sandbox) =>
+    addLalamovePriorityFee(lalamoveOrderId, amount, market, sandbox)
+  );
+  if ('error' in result) {
+    return result;
+  }
+
+  return { success: true };
+}
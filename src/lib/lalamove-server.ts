@@ -0,0 +1,363 @@
+/**
+ * Server-side Lalamove API helpers
+ * Signs and sends requests to the Lalamove v3 API using the server-only secrets.
+ * Only import this from API routes.
+ */
+
+import type { DeliveryStoreConfig } from './lalamove';
+import type { Coordinates } from '../types';
+
+const API_BASE_URL = 'https://rest.lalamove.com/v3';
+const API_SANDBOX_URL = 'https://rest.sandbox.lalamove.com/v3';
+
+export type LalamoveResult =
+  | { data: any }
+  | { error: string; status: number };
+
+const getEnv = (key: string) => {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`Missing env var ${key}`);
+  }
+  return value;
+};
+
+export const signPayload = async (method: string, path: string, body: string, secret: string) => {
+  const timestamp = new Date().getTime().toString();
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const message = `${timestamp}\r\n${method}\r\n${path}\r\n\r\n${body}`;
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  const signature = Buffer.from(signatureBuffer).toString('hex');
+  return { timestamp, signature };
+};
+
+const buildUpstreamUrl = (path: string, sandbox: boolean) => {
+  const base = sandbox ? API_SANDBOX_URL : API_BASE_URL;
+  return `${base}${path}`;
+};
+
+/**
+ * Send a signed request to the Lalamove API
+ * Returns the parsed body on success, or the upstream error and status code
+ */
+export const proxyRequest = async (
+  path: string,
+  payload: Record<string, unknown>,
+  market: string,
+  sandbox: boolean,
+  method: string = 'POST'
+): Promise<LalamoveResult> => {
+  const secret = getEnv('LALAMOVE_API_SECRET');
+  const apiKey = getEnv('LALAMOVE_API_KEY');
+
+  const bodyString = method === 'GET' || method === 'DELETE' ? '' : JSON.stringify(payload);
+  // Lalamove expects the path in the signature to include the version (e.g., /v3/quotations)
+  const signaturePath = `/v3${path}`;
+
+  const { signature, timestamp } = await signPayload(method, signaturePath, bodyString, secret);
+  const upstreamUrl = buildUpstreamUrl(path, sandbox);
+
+  const upstreamResponse = await fetch(upstreamUrl, {
+    method,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Market': market,
+      Authorization: `hmac ${apiKey}:${timestamp}:${signature}`,
+      'Accept': 'application/json',
+    },
+    ...(bodyString && { body: bodyString })
+  });
+
+  const responseBody = await upstreamResponse.text();
+  if (!upstreamResponse.ok) {
+    console.error('Lalamove upstream error', {
+      status: upstreamResponse.status,
+      body: responseBody,
+      url: upstreamUrl,
+      payload
+    });
+    return {
+      error: responseBody || 'Lalamove upstream error',
+      status: upstreamResponse.status
+    };
+  }
+
+  return { data: responseBody ? JSON.parse(responseBody) : {} };
+};
+
+/**
+ * Fetch a quotation by ID
+ * Used to verify the delivery fee a customer was quoted before storing it on
+ * an order; `stops` are the pickup and drop-off points it was quoted for.
+ */
+export const fetchQuotation = async (
+  quotationId: string,
+  market: string,
+  sandbox: boolean
+): Promise<{
+  quotationId: string;
+  price: number;
+  currency: string;
+  expiresAt: string | null;
+  scheduleAt: string | null;
+  stops: Coordinates[];
+} | null> => {
+  const result = await proxyRequest(`/quotations/${encodeURIComponent(quotationId)}`, {}, market, sandbox, 'GET');
+  if ('error' in result) {
+    return null;
+  }
+
+  const quotation = result.data?.data || result.data;
+  const price = Number(quotation?.priceBreakdown?.total);
+  if (!Number.isFinite(price)) {
+    return null;
+  }
+
+  return {
+    quotationId,
+    price,
+    currency: quotation?.priceBreakdown?.currency || 'PHP',
+    expiresAt: quotation?.expiresAt || null,
+    scheduleAt: quotation?.scheduleAt || null,
+    stops: (Array.isArray(quotation?.stops) ? quotation.stops : []).map((stop: any) => ({
+      lat: Number(stop?.coordinates?.lat),
+      lng: Number(stop?.coordinates?.lng)
+    }))
+  };
+};
+
+/**
+ * Fetch a placed order (status, share link, assigned driver)
+ */
+export const getLalamoveOrder = (orderId: string, market: string, sandbox: boolean) =>
+  proxyRequest(`/orders/${encodeURIComponent(orderId)}`, {}, market, sandbox, 'GET');
+
+/**
+ * Fetch the driver assigned to an order, including their last known location
+ */
+export const getLalamoveDriver = (orderId: string, driverId: string, market: string, sandbox: boolean) =>
+  proxyRequest(
+    `/orders/${encodeURIComponent(orderId)}/drivers/${encodeURIComponent(driverId)}`,
+    {},
+    market,
+    sandbox,
+    'GET'
+  );
+
+/**
+ * Cancel a placed order
+ * Lalamove only allows this before or shortly after a driver is matched.
+ */
+export const cancelLalamoveOrder = (orderId: string, market: string, sandbox: boolean) =>
+  proxyRequest(`/orders/${encodeURIComponent(orderId)}`, {}, market, sandbox, 'DELETE');
+
+/**
+ * Add a priority fee (tip) to help an order get matched with a driver
+ */
+export const addLalamovePriorityFee = (orderId: string, amount: number, market: string, sandbox: boolean) =>
+  proxyRequest(
+    `/orders/${encodeURIComponent(orderId)}/priority-fee`,
+    { data: { priorityFee: amount.toFixed(2) } },
+    market,
+    sandbox
+  );
+
+type DeliveryCoordinates = { lat: number; lng: number };
+
+const getLanguageForMarket = (market: string) => {
+  const map: Record<string, string> = {
+    HK: 'en_HK',
+    SG: 'en_SG',
+    TH: 'th_TH',
+    PH: 'en_PH',
+    TW: 'zh_TW',
+    MY: 'ms_MY',
+    VN: 'vi_VN'
+  };
+  return map[market] || 'en_US';
+};
+
+const createStops = (
+  config: DeliveryStoreConfig,
+  deliveryAddress: string,
+  deliveryCoordinates: DeliveryCoordinates
+) => [
+    {
+      coordinates: {
+        lat: config.storeLatitude.toString(),
+        lng: config.storeLongitude.toString()
+      },
+      address: config.storeAddress
+    },
+    {
+      coordinates: {
+        lat: deliveryCoordinates.lat.toString(),
+        lng: deliveryCoordinates.lng.toString()
+      },
+      address: deliveryAddress
+    }
+  ];
+
+/**
+ * Normalize a phone number to e.164 for Lalamove
+ * Numbers are assumed to be Philippine (+63) unless they already start with 63
+ */
+export const normalizePhone = (phone: string): string => {
+  if (!phone) return phone;
+  const digits = phone.replace(/\D/g, '');
+  if (!digits) return phone;
+  if (digits.startsWith('63')) {
+    return `+${digits}`;
+  } else if (digits.startsWith('0')) {
+    return `+63${digits.slice(1)}`;
+  }
+  return `+63${digits}`;
+};
+
+/**
+ * Request a new quotation from the store to a delivery address
+ * With `scheduleAt`, the courier is booked to collect at that time instead of now.
+ */
+export const requestQuotation = async (
+  config: DeliveryStoreConfig,
+  deliveryAddress: string,
+  deliveryCoordinates: DeliveryCoordinates,
+  scheduleAt?: string | null
+): Promise<{ quotationId: string; price: number; currency: string; expiresAt: string | null } | { error: string; status: number }> => {
+  const quotePayload = {
+    data: {
+      ...(scheduleAt ? { scheduleAt } : {}),
+      serviceType: config.serviceType,
+      language: getLanguageForMarket(config.market),
+      stops: createStops(config, deliveryAddress, deliveryCoordinates),
+      item: {
+        quantity: '1',
+        weight: 'LESS_THAN_3_KG',
+        categories: ['FOOD_DELIVERY'],
+        handlingInstructions: ['KEEP_UPRIGHT']
+      }
+    }
+  };
+
+  const result = await proxyRequest('/quotations', quotePayload, config.market, config.sandbox);
+  if ('error' in result) {
+    return result;
+  }
+
+  return {
+    quotationId: result.data.data?.quotationId,
+    price: Number(result.data.data?.priceBreakdown?.total),
+    currency: result.data.data?.priceBreakdown?.currency,
+    expiresAt: result.data.data?.expiresAt || null
+  };
+};
+
+export interface PlacedLalamoveOrder {
+  orderId: string;
+  status: string;
+  shareLink: string;
+  driverId: string | null;
+}
+
+/**
+ * Book a courier for a quotation
+ * Expired quotations are reported with `expired: true` so the caller can re-quote.
+ */
+export const placeLalamoveOrder = async (
+  config: DeliveryStoreConfig,
+  booking: {
+    quotationId: string;
+    recipientName: string;
+    recipientPhone: string;
+    recipientRemarks?: string;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<PlacedLalamoveOrder | { error: string; status: number; expired?: boolean }> => {
+  const quoteResult = await proxyRequest(
+    `/quotations/${encodeURIComponent(booking.quotationId)}`,
+    {},
+    config.market,
+    config.sandbox,
+    'GET'
+  );
+  if ('error' in quoteResult) {
+    return { error: `Failed to fetch quotation: ${quoteResult.error}`, status: quoteResult.status || 500 };
+  }
+  const quotation = quoteResult.data?.data || quoteResult.data;
+
+  const now = new Date();
+  if (quotation?.expiresAt && now > new Date(quotation.expiresAt)) {
+    return { error: `Quotation has expired. Expired at ${quotation.expiresAt}.`, status: 400, expired: true };
+  }
+
+  // A schedule time slightly in the past is treated as an immediate delivery;
+  // further in the past the quotation is no good and must be replaced
+  let scheduleAt: string | undefined;
+  if (quotation?.scheduleAt) {
+    const minutesUntil = (new Date(quotation.scheduleAt).getTime() - now.getTime()) / (1000 * 60);
+    if (minutesUntil > 0) {
+      scheduleAt = quotation.scheduleAt;
+    } else if (minutesUntil < -10) {
+      return {
+        error: `Quotation schedule time (${quotation.scheduleAt}) is ${Math.abs(minutesUntil).toFixed(0)} minutes in the past.`,
+        status: 400,
+        expired: true
+      };
+    }
+  }
+
+  // Lalamove returns stops with 'stopId' field (not 'id')
+  const stops = quotation?.stops || quotation?.data?.stops || [];
+  const senderStopId = stops[0]?.stopId || stops[0]?.id || '';
+  const recipientStopId = stops[1]?.stopId || stops[1]?.id || '';
+  if (!senderStopId || !recipientStopId) {
+    console.error('Missing stop IDs in quotation:', { quotationId: booking.quotationId, stops });
+    return { error: 'Failed to extract stop IDs from quotation', status: 502 };
+  }
+
+  const orderPayload: { data: Record<string, unknown> } = {
+    data: {
+      quotationId: booking.quotationId,
+      sender: {
+        stopId: senderStopId,
+        name: config.storeName,
+        phone: normalizePhone(config.storePhone)
+      },
+      recipients: [
+        {
+          stopId: recipientStopId,
+          name: booking.recipientName,
+          phone: normalizePhone(booking.recipientPhone),
+          remarks: booking.recipientRemarks || ''
+        }
+      ],
+      isPODEnabled: true,
+      metadata: booking.metadata || {}
+    }
+  };
+  if (scheduleAt) {
+    orderPayload.data.scheduleAt = scheduleAt;
+  }
+
+  const result = await proxyRequest('/orders', orderPayload, config.market, config.sandbox);
+  if ('error' in result) {
+    return {
+      ...result,
+      expired: /ERR_QUOTATION_EXPIRED|expired/i.test(result.error)
+    };
+  }
+
+  return {
+    orderId: result.data.data?.orderId,
+    status: result.data.data?.status,
+    shareLink: result.data.data?.shareLink,
+    driverId: result.data.data?.driverId || null
+  };
+};
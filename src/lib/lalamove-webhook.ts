@@ -0,0 +1,294 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { supabaseServer } from './supabase-server';
+import { advanceOrderStatus, LALAMOVE_ACTOR } from './orderTransitions';
+import type { OrderStatus } from '../types';
+
+/**
+ * Lalamove webhook handling
+ * Verifies the signature Lalamove puts on each callback, records the event
+ * (so retries are only applied once) and applies it to the order that has
+ * the matching `lalamove_order_id`. Only import this from API routes.
+ */
+
+export interface LalamoveWebhookEvent {
+  apiKey?: string;
+  timestamp?: number | string;
+  signature?: string;
+  eventId?: string;
+  eventType?: string;
+  eventVersion?: string;
+  data?: Record<string, any>;
+}
+
+export type WebhookResult =
+  | { handled: boolean; message: string }
+  | { error: string; status: number };
+
+/**
+ * Lalamove order statuses that move our own order forward
+ */
+const STATUS_ADVANCES: Record<string, OrderStatus> = {
+  PICKED_UP: 'out_for_delivery',
+  COMPLETED: 'completed'
+};
+
+const ORDER_COLUMNS = 'id, order_number, status, service_type, lalamove_status, lalamove_status_updated_at';
+
+/**
+ * How far a webhook's signed timestamp may be from our clock
+ * Older callbacks are treated as replays of a captured request.
+ */
+const MAX_TIMESTAMP_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Signature Lalamove sends with a webhook
+ * HMAC-SHA256 of `timestamp\r\nPOST\r\npath\r\n\r\nJSON(data)` with the API secret, hex encoded.
+ */
+export function buildWebhookSignature(
+  timestamp: number | string,
+  path: string,
+  data: unknown,
+  secret: string
+): string {
+  const body = data === undefined ? '' : JSON.stringify(data);
+  const message = `${timestamp}\r\nPOST\r\n${path}\r\n\r\n${body}`;
+  return createHmac('sha256', secret).update(message).digest('hex');
+}
+
+function isFreshTimestamp(timestamp: number | string, now = Date.now()): boolean {
+  const value = Number(timestamp);
+  if (!Number.isFinite(value)) {
+    return false;
+  }
+
+  // Lalamove sends seconds; tolerate milliseconds too
+  const time = value < 1e12 ? value * 1000 : value;
+  return Math.abs(now - time) <= MAX_TIMESTAMP_SKEW_MS;
+}
+
+/**
+ * Check that a webhook came from Lalamove
+ * `path` is the path Lalamove was configured to call, e.g. /api/lalamove/webhook.
+ * The signed timestamp must be within a few minutes of now, so a captured
+ * callback can't be replayed later.
+ */
+export function verifyWebhookSignature(event: LalamoveWebhookEvent, path: string): boolean {
+  const secret = process.env.LALAMOVE_API_SECRET;
+  const apiKey = process.env.LALAMOVE_API_KEY;
+
+  if (!secret || !event.signature || event.timestamp === undefined) {
+    return false;
+  }
+
+  if (apiKey && event.apiKey !== apiKey) {
+    return false;
+  }
+
+  if (!isFreshTimestamp(event.timestamp)) {
+    return false;
+  }
+
+  const expected = Buffer.from(buildWebhookSignature(event.timestamp, path, event.data, secret), 'hex');
+  const received = Buffer.from(String(event.signature), 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Store the event before processing it
+ * Returns false when the same eventId was already processed.
+ */
+async function claimEvent(event: LalamoveWebhookEvent, lalamoveOrderId: string | null): Promise<boolean> {
+  const table = supabaseServer.from('lalamove_webhook_events' as any) as any;
+  const { error } = await table.insert({
+    event_id: event.eventId,
+    event_type: event.eventType,
+    lalamove_order_id: lalamoveOrderId,
+    payload: event
+  });
+
+  if (!error) {
+    return true;
+  }
+
+  // 23505 = unique_violation: Lalamove retried an event we have already seen
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  const { data } = await (supabaseServer.from('lalamove_webhook_events' as any) as any)
+    .select('processed_at')
+    .eq('event_id', event.eventId)
+    .maybeSingle();
+
+  return !data?.processed_at;
+}
+
+async function finishEvent(eventId: string, error: string | null): Promise<void> {
+  const { error: updateError } = await (supabaseServer.from('lalamove_webhook_events' as any) as any)
+    .update({ processed_at: error ? null : new Date().toISOString(), error })
+    .eq('event_id', eventId);
+
+  if (updateError) {
+    console.error(`Error marking Lalamove webhook event ${eventId}:`, updateError);
+  }
+}
+
+function toIsoTimestamp(value: unknown): string {
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString();
+  }
+  if (typeof value === 'number') {
+    // Lalamove sends seconds; tolerate milliseconds too
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  return new Date().toISOString();
+}
+
+async function handleStatusChanged(order: any, data: Record<string, any>): Promise<WebhookResult> {
+  const lalamoveStatus = String(data.order?.status || '').toUpperCase();
+  if (!lalamoveStatus) {
+    return { error: 'Missing order status', status: 400 };
+  }
+
+  const updatedAt = toIsoTimestamp(data.updatedAt);
+  const isStale = order.lalamove_status_updated_at && Date.parse(order.lalamove_status_updated_at) > Date.parse(updatedAt);
+
+  if (!isStale) {
+    const updates: Record<string, unknown> = {
+      lalamove_status: lalamoveStatus,
+      lalamove_status_updated_at: updatedAt
+    };
+    if (data.order?.shareLink) {
+      updates.lalamove_tracking_url = data.order.shareLink;
+    }
+
+    const { error } = await (supabaseServer.from('orders') as any)
+      .update(updates)
+      .eq('id', order.id);
+
+    if (error) {
+      console.error('Error saving Lalamove status:', error);
+      return { error: 'Failed to update order', status: 500 };
+    }
+  }
+
+  const target = STATUS_ADVANCES[lalamoveStatus];
+  if (!target || order.service_type !== 'delivery') {
+    return { handled: true, message: `Recorded Lalamove status ${lalamoveStatus}` };
+  }
+
+  const result = await advanceOrderStatus(order, target, LALAMOVE_ACTOR, `Lalamove: ${lalamoveStatus}`);
+  if ('error' in result) {
+    // A concurrent staff update is not worth a retry; anything else is
+    if (result.status === 409) {
+      console.warn(`Lalamove ${lalamoveStatus} could not move order ${order.order_number}: ${result.error}`);
+      return { handled: true, message: result.error };
+    }
+    return result;
+  }
+
+  return {
+    handled: true,
+    message: 'skipped' in result
+      ? `Order already past ${target}`
+      : `Order moved to ${target}`
+  };
+}
+
+async function handleDriverAssigned(order: any, data: Record<string, any>): Promise<WebhookResult> {
+  const driver = data.driver || {};
+
+  const { error } = await (supabaseServer.from('orders') as any)
+    .update({
+      lalamove_driver_id: driver.driverId ? String(driver.driverId) : null,
+      lalamove_driver_name: driver.name || null,
+      lalamove_driver_phone: driver.phone || null,
+      lalamove_driver_plate: driver.plateNumber || null
+    })
+    .eq('id', order.id);
+
+  if (error) {
+    console.error('Error saving Lalamove driver:', error);
+    return { error: 'Failed to update order', status: 500 };
+  }
+
+  return { handled: true, message: 'Driver saved' };
+}
+
+async function handleAmountChanged(order: any, data: Record<string, any>): Promise<WebhookResult> {
+  const total = Number(data.order?.priceBreakdown?.total ?? data.order?.price?.total ?? data.price?.total);
+  if (!Number.isFinite(total)) {
+    return { error: 'Missing order amount', status: 400 };
+  }
+
+  const { error } = await (supabaseServer.from('orders') as any)
+    .update({ lalamove_price: total })
+    .eq('id', order.id);
+
+  if (error) {
+    console.error('Error saving Lalamove amount:', error);
+    return { error: 'Failed to update order', status: 500 };
+  }
+
+  return { handled: true, message: `Courier cost updated to ${total}` };
+}
+
+/**
+ * Apply a verified webhook event to its order
+ * Events for orders we do not know about are acknowledged and ignored so
+ * Lalamove stops retrying them.
+ */
+export async function handleWebhookEvent(event: LalamoveWebhookEvent): Promise<WebhookResult> {
+  const data = event.data || {};
+  const lalamoveOrderId = data.order?.orderId ? String(data.order.orderId) : null;
+
+  if (!event.eventId || !event.eventType) {
+    return { error: 'Missing eventId or eventType', status: 400 };
+  }
+
+  if (!(await claimEvent(event, lalamoveOrderId))) {
+    return { handled: false, message: 'Event already processed' };
+  }
+
+  const result = await applyEvent(event.eventType, lalamoveOrderId, data);
+  await finishEvent(event.eventId, 'error' in result ? result.error : null);
+  return result;
+}
+
+async function applyEvent(
+  eventType: string,
+  lalamoveOrderId: string | null,
+  data: Record<string, any>
+): Promise<WebhookResult> {
+  const handlers: Record<string, (order: any, data: Record<string, any>) => Promise<WebhookResult>> = {
+    ORDER_STATUS_CHANGED: handleStatusChanged,
+    DRIVER_ASSIGNED: handleDriverAssigned,
+    ORDER_AMOUNT_CHANGED: handleAmountChanged
+  };
+
+  const handler = handlers[eventType];
+  if (!handler) {
+    return { handled: false, message: `Ignored ${eventType}` };
+  }
+
+  if (!lalamoveOrderId) {
+    return { error: 'Missing order ID', status: 400 };
+  }
+
+  const { data: order, error } = await (supabaseServer.from('orders') as any)
+    .select(ORDER_COLUMNS)
+    .eq('lalamove_order_id', lalamoveOrderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error finding order for Lalamove webhook:', error);
+    return { error: 'Failed to find order', status: 500 };
+  }
+
+  if (!order) {
+    return { handled: false, message: `No order for Lalamove order ${lalamoveOrderId}` };
+  }
+
+  return handler(order, data);
+}
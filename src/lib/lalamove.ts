@@ -11,6 +11,9 @@ export interface DeliveryStoreConfig {
   storeAddress: string;
   storeLatitude: number;
   storeLongitude: number;
+  // Branch the store details came from; the quote proxy loads the branch's
+  // details itself and checks its delivery zone
+  branchId?: string;
 }
 
 export interface DeliveryQuote {
@@ -20,13 +23,6 @@ export interface DeliveryQuote {
   expiresAt: Date;
 }
 
-export interface DeliveryOrderResult {
-  orderId: string;
-  status: string;
-  shareLink: string;
-  driverId?: string | null;
-}
-
 const FUNCTION_BASE_URL = process.env.NEXT_PUBLIC_LALAMOVE_FUNCTION_URL;
 
 const getProxyBase = () => FUNCTION_BASE_URL ?? '/api/lalamove';
@@ -106,6 +102,7 @@ export const buildLalamoveConfig = (settings: SiteSettings | null, branch: Branc
     storeAddress,
     storeLatitude,
     storeLongitude,
+    branchId: branch?.id,
   };
 };
 
@@ -117,6 +114,8 @@ export const fetchDeliveryQuotation = async (
   const response = await fetch(buildFunctionUrl('/quote'), {
     method: 'POST',
     headers: buildProxyHeaders(),
+    // /api/lalamove only reads the address and branch; the store fields are
+    // for the Supabase edge function proxy
     body: JSON.stringify({
       deliveryAddress,
       deliveryLat: deliveryCoordinates.lat,
@@ -128,7 +127,8 @@ export const fetchDeliveryQuotation = async (
       storePhone: config.storePhone,
       storeAddress: config.storeAddress,
       storeLatitude: config.storeLatitude,
-      storeLongitude: config.storeLongitude
+      storeLongitude: config.storeLongitude,
+      branchId: config.branchId
     })
   });
 
@@ -140,34 +140,3 @@ export const fetchDeliveryQuotation = async (
     expiresAt: new Date(data.expiresAt)
   };
 };
-
-export const createDeliveryOrder = async (
-  quotationId: string,
-  recipientName: string,
-  recipientPhone: string,
-  config: DeliveryStoreConfig,
-  metadata?: Record<string, unknown>
-): Promise<DeliveryOrderResult> => {
-  const response = await fetch(buildFunctionUrl('/order'), {
-    method: 'POST',
-    headers: buildProxyHeaders(),
-    body: JSON.stringify({
-      quotationId,
-      recipientName,
-      recipientPhone,
-      market: config.market,
-      sandbox: config.sandbox,
-      storeName: config.storeName,
-      storePhone: config.storePhone,
-      metadata
-    })
-  });
-
-  const data = await ensureSuccess(response);
-  return {
-    orderId: data.orderId,
-    status: data.status,
-    shareLink: data.shareLink,
-    driverId: data.driverId
-  };
-};
@@ -0,0 +1,187 @@
+import { supabaseServer } from './supabase-server';
+import type { MenuItemOptions } from './menuOptions';
+import type { AddOn, AddOnGroup, BundleSlot, VariationDimension, VariationPriceOverride } from '../types';
+
+/**
+ * Server-side menu item options
+ * Replaces an item's add-ons, add-on groups, variation dimensions and combo
+ * slots with the service role; POST /api/orders prices orders from these
+ * rows. Only import this from API routes.
+ */
+
+// Insert an item's variation dimensions and options, then its price overrides
+// pointing at the saved options
+async function saveVariationDimensions(
+  menuItemId: string,
+  dimensions: VariationDimension[],
+  overrides: VariationPriceOverride[]
+): Promise<void> {
+  const optionIds = new Map<string, string>();
+
+  for (const [index, dimension] of dimensions.entries()) {
+    const { data: savedDimension, error: dimensionError } = await (supabaseServer.from('variation_dimensions' as any) as any)
+      .insert({
+        menu_item_id: menuItemId,
+        name: dimension.name,
+        sort_order: index
+      })
+      .select('id')
+      .single();
+
+    if (dimensionError) {
+      throw new Error(`Failed to save variations: ${dimensionError.message}`);
+    }
+
+    for (const [optionIndex, option] of dimension.options.entries()) {
+      const { data: savedOption, error: optionError } = await (supabaseServer.from('variation_dimension_options' as any) as any)
+        .insert({
+          dimension_id: savedDimension.id,
+          name: option.name,
+          price_delta: option.priceDelta,
+          sort_order: optionIndex
+        })
+        .select('id')
+        .single();
+
+      if (optionError) {
+        throw new Error(`Failed to save variations: ${optionError.message}`);
+      }
+      optionIds.set(option.id, savedOption.id);
+    }
+  }
+
+  // Overrides for options that were removed are dropped
+  const savedOverrides = overrides
+    .map(override => ({ ...override, optionIds: override.optionIds.map(id => optionIds.get(id)) }))
+    .filter(override => override.optionIds.length === dimensions.length && override.optionIds.every(Boolean));
+
+  if (savedOverrides.length > 0) {
+    const { error } = await (supabaseServer.from('variation_price_overrides' as any) as any)
+      .insert(
+        savedOverrides.map(override => ({
+          menu_item_id: menuItemId,
+          option_ids: [...(override.optionIds as string[])].sort(),
+          price: override.price
+        }))
+      );
+
+    if (error) {
+      throw new Error(`Failed to save variation prices: ${error.message}`);
+    }
+  }
+}
+
+// Insert an item's add-on groups, then its add-ons pointing at the saved groups
+async function saveAddOns(menuItemId: string, addOns: AddOn[], groups: AddOnGroup[]): Promise<void> {
+  const groupIds = new Map<string, string>();
+
+  for (const [index, group] of groups.entries()) {
+    const { data: savedGroup, error: groupError } = await (supabaseServer.from('add_on_groups' as any) as any)
+      .insert({
+        menu_item_id: menuItemId,
+        name: group.name,
+        min_select: group.minSelect,
+        max_select: group.maxSelect ?? null,
+        max_per_option: group.maxPerOption ?? null,
+        sort_order: index
+      })
+      .select('id')
+      .single();
+
+    if (groupError) {
+      throw new Error(`Failed to save add-on groups: ${groupError.message}`);
+    }
+    groupIds.set(group.id, savedGroup.id);
+  }
+
+  if (addOns.length > 0) {
+    const { error } = await (supabaseServer.from('add_ons') as any)
+      .insert(
+        addOns.map(a => ({
+          menu_item_id: menuItemId,
+          name: a.name,
+          price: a.price,
+          category: a.category,
+          group_id: (a.groupId && groupIds.get(a.groupId)) || null
+        }))
+      );
+
+    if (error) {
+      throw new Error(`Failed to save add-ons: ${error.message}`);
+    }
+  }
+}
+
+// Insert a combo's slots and their options
+// An option naming an unknown menu item throws the database error (code 23503)
+async function saveBundleSlots(menuItemId: string, slots: BundleSlot[]): Promise<void> {
+  for (const [index, slot] of slots.entries()) {
+    const { data: savedSlot, error: slotError } = await (supabaseServer.from('bundle_slots' as any) as any)
+      .insert({
+        menu_item_id: menuItemId,
+        name: slot.name,
+        sort_order: index
+      })
+      .select('id')
+      .single();
+
+    if (slotError) {
+      throw new Error(`Failed to save combo slots: ${slotError.message}`);
+    }
+
+    if (slot.options.length > 0) {
+      const { error: optionsError } = await (supabaseServer.from('bundle_slot_options' as any) as any)
+        .insert(
+          slot.options.map((option, optionIndex) => ({
+            slot_id: savedSlot.id,
+            menu_item_id: option.menuItemId,
+            upcharge: option.upcharge,
+            sort_order: optionIndex
+          }))
+        );
+
+      if (optionsError) {
+        throw optionsError;
+      }
+    }
+  }
+}
+
+/**
+ * Replace a menu item's options
+ * Returns false when the item does not exist. Combo slots are only kept for
+ * bundle items.
+ */
+export async function replaceMenuItemOptions(menuItemId: string, options: MenuItemOptions): Promise<boolean> {
+  const { data: item, error: itemError } = await (supabaseServer.from('menu_items') as any)
+    .select('id, item_type')
+    .eq('id', menuItemId)
+    .maybeSingle();
+
+  if (itemError) {
+    throw new Error(`Failed to load menu item: ${itemError.message}`);
+  }
+  if (!item) {
+    return false;
+  }
+
+  // Options, add-ons and slot options go with their parent rows
+  for (const table of ['add_ons', 'add_on_groups', 'variation_dimensions', 'variation_price_overrides', 'bundle_slots']) {
+    const { error } = await (supabaseServer.from(table as any) as any)
+      .delete()
+      .eq('menu_item_id', menuItemId);
+
+    if (error) {
+      throw new Error(`Failed to clear menu item options: ${error.message}`);
+    }
+  }
+
+  await saveVariationDimensions(menuItemId, options.variationDimensions, options.variationOverrides);
+  await saveAddOns(menuItemId, options.addOns, options.addOnGroups);
+
+  if (item.item_type === 'bundle') {
+    await saveBundleSlots(menuItemId, options.bundleSlots);
+  }
+
+  return true;
+}
@@ -0,0 +1,217 @@
+import type { AddOn, AddOnGroup, BundleSlot, VariationDimension, VariationPriceOverride } from '../types';
+
+/**
+ * A menu item's options, as saved by PUT /api/menu/[id]/options
+ * Add-ons and their groups, variation dimensions with their price overrides,
+ * and combo slots. Server pricing reads these rows, so they are written
+ * through the staff API rather than from the browser. Ids sent for new
+ * groups, options and slots only link the parts of one request together.
+ */
+
+export interface MenuItemOptions {
+  addOns: AddOn[];
+  addOnGroups: AddOnGroup[];
+  variationDimensions: VariationDimension[];
+  variationOverrides: VariationPriceOverride[];
+  bundleSlots: BundleSlot[];
+}
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toAmount = (value: unknown, allowNegative = false): number | undefined => {
+  if (value === null || value === '' || typeof value === 'boolean') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || (!allowNegative && parsed < 0)) return undefined;
+  return parsed;
+};
+
+// null or empty means no limit
+const toLimit = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : undefined;
+};
+
+const toList = (value: unknown): any[] | null => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : null;
+};
+
+function parseAddOnGroups(value: unknown): { groups: AddOnGroup[] } | { error: string } {
+  const rows = toList(value);
+  if (!rows) return { error: 'Invalid add-on groups' };
+
+  const groups: AddOnGroup[] = [];
+  for (const row of rows) {
+    const name = toText(row?.name);
+    const minSelect = Number(row?.minSelect ?? 0);
+    const maxSelect = toLimit(row?.maxSelect);
+    const maxPerOption = toLimit(row?.maxPerOption);
+
+    if (!name) {
+      return { error: 'Every add-on group needs a name' };
+    }
+    if (!Number.isInteger(minSelect) || minSelect < 0) {
+      return { error: `"${name}" must require 0 or more picks` };
+    }
+    if (maxSelect === undefined || (maxSelect !== null && maxSelect < minSelect)) {
+      return { error: `"${name}" must allow at least as many picks as it requires` };
+    }
+    if (maxPerOption === undefined) {
+      return { error: `"${name}" must allow at least 1 of each add-on` };
+    }
+    groups.push({ id: String(row?.id ?? ''), name, minSelect, maxSelect, maxPerOption });
+  }
+
+  return { groups };
+}
+
+function parseAddOns(value: unknown): { addOns: AddOn[] } | { error: string } {
+  const rows = toList(value);
+  if (!rows) return { error: 'Invalid add-ons' };
+
+  const addOns: AddOn[] = [];
+  for (const row of rows) {
+    const name = toText(row?.name);
+    const price = toAmount(row?.price ?? 0);
+
+    if (!name) {
+      return { error: 'Every add-on needs a name' };
+    }
+    if (price === undefined) {
+      return { error: `Add-on "${name}" needs a price of 0 or more` };
+    }
+    addOns.push({
+      id: String(row?.id ?? ''),
+      name,
+      price,
+      category: toText(row?.category),
+      groupId: typeof row?.groupId === 'string' && row.groupId ? row.groupId : null
+    });
+  }
+
+  return { addOns };
+}
+
+function parseVariationDimensions(value: unknown): { dimensions: VariationDimension[] } | { error: string } {
+  const rows = toList(value);
+  if (!rows) return { error: 'Invalid variations' };
+
+  const dimensions: VariationDimension[] = [];
+  for (const row of rows) {
+    const name = toText(row?.name);
+    const options = toList(row?.options);
+
+    if (!name) {
+      return { error: 'Every variation needs a name' };
+    }
+    if (!options) {
+      return { error: `Invalid options for "${name}"` };
+    }
+
+    const dimension: VariationDimension = { id: String(row?.id ?? ''), name, options: [] };
+    for (const option of options) {
+      const optionName = toText(option?.name);
+      // Options can cost less than the base price
+      const priceDelta = toAmount(option?.priceDelta ?? 0, true);
+      if (!optionName || priceDelta === undefined) {
+        return { error: `Every option of "${name}" needs a name and a price change` };
+      }
+      dimension.options.push({ id: String(option?.id ?? ''), name: optionName, priceDelta });
+    }
+    dimensions.push(dimension);
+  }
+
+  return { dimensions };
+}
+
+function parseVariationOverrides(value: unknown): { overrides: VariationPriceOverride[] } | { error: string } {
+  const rows = toList(value);
+  if (!rows) return { error: 'Invalid variation prices' };
+
+  const overrides: VariationPriceOverride[] = [];
+  for (const row of rows) {
+    const price = toAmount(row?.price);
+    if (!Array.isArray(row?.optionIds) || !row.optionIds.every((id: unknown) => typeof id === 'string')) {
+      return { error: 'Invalid variation prices' };
+    }
+    if (price === undefined) {
+      return { error: 'Combination prices must be 0 or more' };
+    }
+    overrides.push({ id: String(row?.id ?? ''), optionIds: row.optionIds, price });
+  }
+
+  return { overrides };
+}
+
+function parseBundleSlots(value: unknown): { slots: BundleSlot[] } | { error: string } {
+  const rows = toList(value);
+  if (!rows) return { error: 'Invalid combo slots' };
+
+  const slots: BundleSlot[] = [];
+  for (const row of rows) {
+    const name = toText(row?.name);
+    const options = toList(row?.options);
+
+    if (!name) {
+      return { error: 'Every combo slot needs a name' };
+    }
+    if (!options) {
+      return { error: `Invalid options for "${name}"` };
+    }
+
+    const slot: BundleSlot = { id: String(row?.id ?? ''), name, options: [] };
+    for (const option of options) {
+      const upcharge = toAmount(option?.upcharge ?? 0);
+      if (typeof option?.menuItemId !== 'string' || !option.menuItemId) {
+        return { error: `Choose an item for every option of "${name}"` };
+      }
+      if (upcharge === undefined) {
+        return { error: `Upcharges in "${name}" must be 0 or more` };
+      }
+      if (slot.options.some(existing => existing.menuItemId === option.menuItemId)) {
+        return { error: `Each item can only be in "${name}" once` };
+      }
+      slot.options.push({
+        id: String(option?.id ?? ''),
+        menuItemId: option.menuItemId,
+        name: toText(option?.name),
+        upcharge
+      });
+    }
+    slots.push(slot);
+  }
+
+  return { slots };
+}
+
+/**
+ * Validate a menu item's options
+ * Missing lists are saved as empty, removing what the item had.
+ */
+export function parseMenuItemOptionsInput(body: any): { options: MenuItemOptions } | { error: string } {
+  const groups = parseAddOnGroups(body?.addOnGroups);
+  if ('error' in groups) return groups;
+
+  const addOns = parseAddOns(body?.addOns);
+  if ('error' in addOns) return addOns;
+
+  const dimensions = parseVariationDimensions(body?.variationDimensions);
+  if ('error' in dimensions) return dimensions;
+
+  const overrides = parseVariationOverrides(body?.variationOverrides);
+  if ('error' in overrides) return overrides;
+
+  const slots = parseBundleSlots(body?.bundleSlots);
+  if ('error' in slots) return slots;
+
+  return {
+    options: {
+      addOns: addOns.addOns,
+      addOnGroups: groups.groups,
+      variationDimensions: dimensions.dimensions,
+      variationOverrides: overrides.overrides,
+      bundleSlots: slots.slots
+    }
+  };
+}
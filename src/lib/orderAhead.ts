@@ -0,0 +1,198 @@
+import type { SiteSettings } from '../types';
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  MONTH_LABELS,
+  WEEKDAY_LABELS,
+  formatMinutes,
+  fromLocalTime,
+  shiftDate,
+  toLocalTime
+} from './schedule';
+
+/**
+ * Order ahead
+ * Customers can schedule pickup, delivery or dine-in for a quarter-hour slot
+ * up to `order_ahead_max_days` ahead; the slot is stored in
+ * `orders.scheduled_for`. Confirmed scheduled orders are held out of the
+ * kitchen queue until `order_ahead_lead_minutes` before they are due. Dates
+ * and slots are read in the store time zone, never the browser's.
+ */
+
+export const ORDER_AHEAD_SLOT_MINUTES = 15;
+export const DEFAULT_ORDER_AHEAD_MAX_DAYS = 7;
+export const DEFAULT_ORDER_AHEAD_LEAD_MINUTES = 30;
+// Couriers are booked to collect a scheduled delivery this long before it is due
+export const COURIER_TRAVEL_MINUTES = 30;
+
+// A slot picked at checkout is still accepted this long after it stops being offered
+const CHECKOUT_GRACE_MINUTES = 10;
+// Lalamove wants `scheduleAt` a little in the future; any closer and we book straight away
+const MIN_COURIER_NOTICE_MINUTES = 10;
+const MINUTE = 60 * 1000;
+const SLOT = ORDER_AHEAD_SLOT_MINUTES * MINUTE;
+
+export interface OrderAheadSettings {
+  // 0 when orders can only be placed for as soon as possible
+  maxDays: number;
+  leadMinutes: number;
+  timezone: string;
+}
+
+export interface OrderAheadSlot {
+  // ISO timestamp sent as `scheduledFor`
+  value: string;
+  // e.g. "3:30 PM"
+  label: string;
+}
+
+export interface OrderAheadDay {
+  date: string;
+  // "Today", "Tomorrow" or e.g. "Sat, Jun 21"
+  label: string;
+  slots: OrderAheadSlot[];
+}
+
+const toWholeNumber = (value: unknown, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/**
+ * Order ahead limits from the `order_ahead_*` site settings
+ */
+export function getOrderAheadSettings(siteSettings: Partial<SiteSettings> | null | undefined): OrderAheadSettings {
+  return {
+    maxDays: toWholeNumber(siteSettings?.order_ahead_max_days, DEFAULT_ORDER_AHEAD_MAX_DAYS, 0),
+    leadMinutes: toWholeNumber(siteSettings?.order_ahead_lead_minutes, DEFAULT_ORDER_AHEAD_LEAD_MINUTES, 1),
+    timezone: DEFAULT_SCHEDULE_TIMEZONE
+  };
+}
+
+/**
+ * The first slot a customer can pick: the kitchen lead time from now, rounded
+ * up to the next quarter hour
+ * Every time zone offset is a whole number of quarter hours, so rounding the
+ * UTC instant lines up with the local clock too.
+ */
+export function getEarliestSlot(now: Date, settings: OrderAheadSettings): Date {
+  return new Date(Math.ceil((now.getTime() + settings.leadMinutes * MINUTE) / SLOT) * SLOT);
+}
+
+const describeDate = (date: string, today: string) => {
+  if (date === today) return 'Today';
+  if (date === shiftDate(today, 1)) return 'Tomorrow';
+
+  const [, month, day] = date.split('-').map(Number);
+  return `${WEEKDAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()]}, ${MONTH_LABELS[month - 1]} ${day}`;
+};
+
+/**
+ * The days and times offered at checkout, from the earliest slot to the end
+ * of the last day customers can order for
+ */
+export function getOrderAheadDays(now: Date, settings: OrderAheadSettings): OrderAheadDay[] {
+  if (settings.maxDays <= 0) return [];
+
+  const earliest = getEarliestSlot(now, settings).getTime();
+  const today = toLocalTime(now, settings.timezone).date;
+  const days: OrderAheadDay[] = [];
+
+  for (let offset = 0; offset <= settings.maxDays; offset++) {
+    const date = shiftDate(today, offset);
+    const slots: OrderAheadSlot[] = [];
+    for (let minutes = 0; minutes < 24 * 60; minutes += ORDER_AHEAD_SLOT_MINUTES) {
+      const at = fromLocalTime(date, minutes, settings.timezone);
+      if (at.getTime() >= earliest) {
+        slots.push({ value: at.toISOString(), label: formatMinutes(minutes) });
+      }
+    }
+    if (slots.length > 0) {
+      days.push({ date, label: describeDate(date, today), slots });
+    }
+  }
+  return days;
+}
+
+/**
+ * Check a requested `scheduledFor` from the client
+ * Empty means as soon as possible. Otherwise it has to be a quarter-hour slot
+ * at least the lead time away and no more than `maxDays` ahead.
+ */
+export function parseScheduledFor(
+  value: unknown,
+  now: Date,
+  settings: OrderAheadSettings
+): { scheduledFor: Date | null } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { scheduledFor: null };
+  }
+
+  const at = typeof value === 'string' ? new Date(value) : null;
+  if (!at || Number.isNaN(at.getTime())) {
+    return { error: 'Invalid scheduled time' };
+  }
+  if (settings.maxDays <= 0) {
+    return { error: 'Orders cannot be scheduled ahead right now' };
+  }
+  if (at.getTime() % SLOT !== 0) {
+    return { error: 'Scheduled times must be on the quarter hour' };
+  }
+  if (at.getTime() < now.getTime() + (settings.leadMinutes - CHECKOUT_GRACE_MINUTES) * MINUTE) {
+    return { error: `Please schedule your order at least ${settings.leadMinutes} minutes ahead` };
+  }
+
+  const lastDate = shiftDate(toLocalTime(now, settings.timezone).date, settings.maxDays);
+  if (toLocalTime(at, settings.timezone).date > lastDate) {
+    return {
+      error: `Orders can only be scheduled up to ${settings.maxDays} day${settings.maxDays === 1 ? '' : 's'} ahead`
+    };
+  }
+  return { scheduledFor: at };
+}
+
+/**
+ * A scheduled time relative to today, e.g. "Tomorrow, 9:00 AM"
+ */
+export function describeScheduledFor(
+  at: Date | string,
+  now: Date = new Date(),
+  timezone: string = DEFAULT_SCHEDULE_TIMEZONE
+): string {
+  const when = toLocalTime(new Date(at), timezone);
+  return `${describeDate(when.date, toLocalTime(now, timezone).date)}, ${formatMinutes(when.minutes)}`;
+}
+
+/**
+ * When a scheduled order should reach the kitchen
+ */
+export const getKitchenReleaseAt = (scheduledFor: string | Date, leadMinutes: number): Date =>
+  new Date(new Date(scheduledFor).getTime() - leadMinutes * MINUTE);
+
+/**
+ * Whether a confirmed order is still waiting in the scheduled queue
+ * Pending orders are never held, so staff can check the payment straight away.
+ */
+export function isHeldForLater(
+  order: { status: string; scheduled_for?: string | null },
+  leadMinutes: number,
+  now: Date = new Date()
+): boolean {
+  return order.status === 'confirmed' &&
+    Boolean(order.scheduled_for) &&
+    getKitchenReleaseAt(order.scheduled_for as string, leadMinutes).getTime() > now.getTime();
+}
+
+/**
+ * Lalamove `scheduleAt` for a delivery: when the courier should collect it
+ * Null books a courier straight away, for orders wanted as soon as possible
+ * and for scheduled ones that are already nearly due.
+ */
+export function getCourierScheduleAt(scheduledFor: string | null | undefined, now: Date = new Date()): string | null {
+  if (!scheduledFor) return null;
+
+  const pickupAt = new Date(scheduledFor).getTime() - COURIER_TRAVEL_MINUTES * MINUTE;
+  if (Number.isNaN(pickupAt) || pickupAt - now.getTime() < MIN_COURIER_NOTICE_MINUTES * MINUTE) {
+    return null;
+  }
+  return new Date(pickupAt).toISOString();
+}
@@ -0,0 +1,421 @@
+import { supabaseServer } from './supabase-server';
+import { fetchQuotation } from './lalamove-server';
+import { extractMenuItemId } from './cart';
+import { priceLine, roundCurrency, sumLineTotals } from './pricing';
+import { calculateStatutoryDiscount } from './statutoryDiscount';
+import { BUNDLE_SLOTS_SELECT, resolveBundleSelections, toBundleSlots } from './bundles';
+import { ADD_ON_GROUPS_SELECT, checkAddOnGroups, toAddOnGroups } from './addOnGroups';
+import { VARIATION_DIMENSIONS_SELECT, resolveVariationChoice, toVariationDimensions, toVariationOverrides } from './variations';
+import { applyBranchPricing, isAvailableAtBranch, toBranchMenuOverrides } from './branchMenu';
+import { CATEGORY_SCHEDULE_SELECT, getMenuItemScheduleStatus, toMenuItemSchedules } from './schedule';
+import { applyDeliveryFeePolicy, checkDeliveryMinimum, getDeliveryFeePolicy, getFixedDeliveryFee } from './deliveryFee';
+import { checkDeliveryZone, isQuotedRoute } from './deliveryZones';
+import { getBranchDeliveryZone, getDeliveryStoreConfig } from './deliveryZones-server';
+import type { PricingItem } from './pricing';
+import type { SiteSettings, Variation, AddOn, Voucher, StatutoryDiscountClaim, BundleSelection, BranchMenuOverride, Coordinates } from '../types';
+
+/**
+ * Server-side order pricing
+ * Re-prices a submitted cart against the menu tables so the stored totals
+ * never depend on what the browser sent.
+ */
+
+export interface PricedOrderLine {
+  menu_item_id: string;
+  menu_item_name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  selected_variation: Variation | null;
+  selected_add_ons: AddOn[] | null;
+  bundle_selections: BundleSelection[] | null;
+  statutory_eligible: boolean;
+  vat_exempt_base: number;
+  vat_exemption: number;
+  statutory_discount: number;
+}
+
+export interface PricedStatutoryDiscount {
+  claim: StatutoryDiscountClaim;
+  vatExemptSales: number;
+  vatExemption: number;
+  discount: number;
+}
+
+export interface PricedOrder {
+  lines: PricedOrderLine[];
+  subtotal: number;
+  /** What the customer pays for delivery, after the fee policy */
+  deliveryFee: number | null;
+  /** What Lalamove quoted for the delivery */
+  courierCost: number | null;
+  /** Voucher discount, already taken off `total` */
+  discount: number;
+  voucher: Voucher | null;
+  /** Senior citizen / PWD discount, already taken off `total` */
+  statutory: PricedStatutoryDiscount | null;
+  total: number;
+}
+
+export type PricingResult =
+  | { order: PricedOrder }
+  | { error: string; status: number; outsideDeliveryZone?: boolean };
+
+/**
+ * Discount fields of a menu_items row in the shape the pricing engine expects
+ */
+const toPricingItem = (row: any): PricingItem => ({
+  basePrice: Number(row.base_price),
+  discountPrice: row.discount_price != null ? Number(row.discount_price) : null,
+  discountActive: row.discount_active,
+  discountStartDate: row.discount_start_date,
+  discountEndDate: row.discount_end_date
+});
+
+/**
+ * A branch's menu overrides, by menu item id
+ */
+async function fetchBranchOverrides(branchId: string | null | undefined): Promise<Map<string, BranchMenuOverride>> {
+  if (!branchId) return new Map();
+
+  const { data, error } = await (supabaseServer.from('branch_menu_overrides' as any) as any)
+    .select('*')
+    .eq('branch_id', branchId);
+
+  if (error) {
+    throw new Error(`Failed to fetch branch menu: ${error.message}`);
+  }
+  return new Map(toBranchMenuOverrides(data).map(override => [override.menuItemId, override]));
+}
+
+/**
+ * Re-price cart lines against menu_items, variations and add_ons
+ * Variation dimensions, add-on group rules, combo picks and availability
+ * schedules are checked here too. With a `branchId`, the branch's own
+ * availability and prices apply. Schedules are checked at `scheduledFor` when
+ * the order is for later; prices are always today's.
+ */
+export async function priceCartItems(
+  cartItems: any[],
+  branchId?: string | null,
+  scheduledFor?: Date | null
+): Promise<{ lines: PricedOrderLine[]; subtotal: number } | { error: string; status: number }> {
+  const menuItemIds = Array.from(
+    new Set(cartItems.map(item => extractMenuItemId(item?.id)).filter((id): id is string => Boolean(id)))
+  );
+
+  if (menuItemIds.length === 0) {
+    return { error: 'Cart contains unknown menu items', status: 400 };
+  }
+
+  const { data, error } = await supabaseServer
+    .from('menu_items')
+    .select(`
+      *,
+      variations (*),
+      add_ons (*),
+      ${ADD_ON_GROUPS_SELECT},
+      ${VARIATION_DIMENSIONS_SELECT},
+      ${BUNDLE_SLOTS_SELECT},
+      ${CATEGORY_SCHEDULE_SELECT}
+    `)
+    .in('id', menuItemIds);
+
+  if (error) {
+    console.error('Error fetching menu items for pricing:', error);
+    return { error: 'Failed to price order', status: 500 };
+  }
+
+  const menuLookup = new Map<string, any>();
+  ((data || []) as any[]).forEach(item => menuLookup.set(item.id, item));
+
+  let branchOverrides: Map<string, BranchMenuOverride>;
+  try {
+    branchOverrides = await fetchBranchOverrides(branchId);
+  } catch (overridesError) {
+    console.error('Error fetching branch menu for pricing:', overridesError);
+    return { error: 'Failed to price order', status: 500 };
+  }
+
+  const now = new Date();
+  const lines: PricedOrderLine[] = [];
+
+  for (const cartItem of cartItems) {
+    const menuItemId = extractMenuItemId(cartItem?.id);
+    const menuItem = menuItemId ? menuLookup.get(menuItemId) : null;
+
+    if (!menuItem) {
+      return { error: `Menu item "${cartItem?.name || 'Unknown'}" is no longer on the menu`, status: 400 };
+    }
+
+    const override = branchOverrides.get(menuItem.id);
+    if (!isAvailableAtBranch(menuItem.available, override)) {
+      return { error: `${menuItem.name} is currently unavailable`, status: 400 };
+    }
+
+    // Breakfast-only items, weekend categories and the like
+    const schedule = getMenuItemScheduleStatus(toMenuItemSchedules(menuItem), scheduledFor || now);
+    if (!schedule.open) {
+      return {
+        error: scheduledFor
+          ? `${menuItem.name} is not available at the time you picked`
+          : schedule.label
+          ? `${menuItem.name} is not available right now. ${schedule.label}.`
+          : `${menuItem.name} is no longer available`,
+        status: 400
+      };
+    }
+
+    const quantity = Number(cartItem.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { error: `Invalid quantity for ${menuItem.name}`, status: 400 };
+    }
+
+    // Variation must belong to this menu item; items with dimensions need one
+    // option per dimension, priced from the menu
+    let selectedVariation: Variation | null = null;
+    const dimensions = toVariationDimensions(menuItem.variation_dimensions);
+    if (dimensions.length > 0) {
+      const picks = Array.isArray(cartItem.selectedVariation?.options)
+        ? cartItem.selectedVariation.options.map((choice: any) => ({ dimensionId: choice?.dimensionId, optionId: choice?.optionId }))
+        : null;
+      const choice = resolveVariationChoice(dimensions, toVariationOverrides(menuItem.variation_price_overrides), picks);
+      if ('error' in choice) {
+        return { error: `${menuItem.name}: ${choice.error}`, status: 400 };
+      }
+      selectedVariation = choice.variation;
+    } else if (cartItem.selectedVariation?.id) {
+      const variation = (menuItem.variations || []).find((v: any) => v.id === cartItem.selectedVariation.id);
+      if (!variation) {
+        return { error: `Selected option for ${menuItem.name} is no longer available`, status: 400 };
+      }
+      selectedVariation = { id: variation.id, name: variation.name, price: Number(variation.price) };
+    }
+
+    // Add-ons must belong to this menu item; quantities default to 1
+    let selectedAddOns: AddOn[] | null = null;
+    if (Array.isArray(cartItem.selectedAddOns) && cartItem.selectedAddOns.length > 0) {
+      selectedAddOns = [];
+      for (const selected of cartItem.selectedAddOns) {
+        const addOn = (menuItem.add_ons || []).find((a: any) => a.id === selected?.id);
+        if (!addOn) {
+          return { error: `An add-on for ${menuItem.name} is no longer available`, status: 400 };
+        }
+        const addOnQuantity = Number(selected.quantity ?? 1);
+        if (!Number.isInteger(addOnQuantity) || addOnQuantity <= 0) {
+          return { error: `Invalid add-on quantity for ${menuItem.name}`, status: 400 };
+        }
+        selectedAddOns.push({
+          id: addOn.id,
+          name: addOn.name,
+          price: Number(addOn.price),
+          category: addOn.category,
+          groupId: addOn.group_id || null,
+          quantity: addOnQuantity
+        });
+      }
+    }
+
+    // Required groups and pick limits, counted on the menu's own grouping
+    const addOnIssues = checkAddOnGroups(toAddOnGroups(menuItem.add_on_groups), selectedAddOns);
+    if (addOnIssues.length > 0) {
+      return { error: `${menuItem.name}: ${addOnIssues[0].message}`, status: 400 };
+    }
+
+    // Combos need one valid pick per slot; names and upcharges come from the menu
+    let bundleSelections: BundleSelection[] | null = null;
+    if (menuItem.item_type === 'bundle') {
+      const slots = toBundleSlots(menuItem.bundle_slots).map(slot => ({
+        ...slot,
+        options: slot.options.map(option => ({
+          ...option,
+          available: isAvailableAtBranch(option.available, branchOverrides.get(option.menuItemId))
+        }))
+      }));
+      const bundle = resolveBundleSelections(slots, cartItem.selectedBundle);
+      if ('error' in bundle) {
+        return { error: `${menuItem.name}: ${bundle.error}`, status: 400 };
+      }
+      bundleSelections = bundle.selections;
+    }
+
+    const price = priceLine({
+      item: applyBranchPricing(toPricingItem(menuItem), override),
+      variation: selectedVariation,
+      addOns: selectedAddOns,
+      bundleSelections,
+      quantity,
+      now
+    });
+
+    lines.push({
+      menu_item_id: menuItem.id,
+      menu_item_name: menuItem.name,
+      quantity,
+      unit_price: price.unitPrice,
+      total_price: price.lineTotal,
+      selected_variation: selectedVariation,
+      selected_add_ons: selectedAddOns,
+      bundle_selections: bundleSelections,
+      statutory_eligible: false,
+      vat_exempt_base: 0,
+      vat_exemption: 0,
+      statutory_discount: 0
+    });
+  }
+
+  const subtotal = sumLineTotals(lines.map(line => line.total_price));
+  return { lines, subtotal };
+}
+
+/**
+ * Look up what Lalamove charges for a quotation
+ * The price is read from Lalamove rather than trusted from the request body,
+ * and the quotation must run from the branch to the order's delivery address.
+ * `deliveryPoint` is where the quotation drops off, null without one.
+ */
+export async function resolveCourierCost(
+  quotationId: string | null | undefined,
+  siteSettings: SiteSettings | null,
+  branchId: string | null,
+  deliveryPoint: Coordinates | null
+): Promise<{ courierCost: number | null; deliveryPoint: Coordinates | null } | { error: string; status: number }> {
+  if (!quotationId) {
+    return { courierCost: null, deliveryPoint: null };
+  }
+
+  try {
+    const config = await getDeliveryStoreConfig(siteSettings, branchId);
+    if (!config) {
+      return { error: 'Delivery is not configured', status: 400 };
+    }
+
+    const quotation = await fetchQuotation(quotationId, config.market, config.sandbox);
+    if (!quotation) {
+      return { error: 'Delivery quote could not be verified. Please request a new quote.', status: 400 };
+    }
+    const store = { lat: config.storeLatitude, lng: config.storeLongitude };
+    if (!deliveryPoint || !isQuotedRoute(quotation.stops, store, deliveryPoint)) {
+      return { error: 'The delivery quote is for a different branch or address. Please request a new quote.', status: 400 };
+    }
+    return { courierCost: roundCurrency(quotation.price), deliveryPoint: quotation.stops[1] };
+  } catch (error) {
+    console.error('Error verifying delivery quotation:', error);
+    return { error: 'Delivery quote could not be verified. Please request a new quote.', status: 502 };
+  }
+}
+
+/**
+ * Price a full order: cart lines plus the delivery fee
+ * The fee comes from the verified courier cost through the delivery fee
+ * policy, or the flat fee of the branch's delivery zone. Delivery orders below
+ * the minimum are refused, and so are delivery orders without a quotation
+ * unless delivery is free or flat by policy. The branch's delivery zone is
+ * checked against where the quotation drops off, or the order's map point
+ * when there is no quotation.
+ */
+export async function priceOrder(
+  cartItems: any[],
+  serviceType: string,
+  quotationId: string | null | undefined,
+  siteSettings: SiteSettings | null,
+  branchId?: string | null,
+  scheduledFor?: Date | null,
+  deliveryPoint: Coordinates | null = null
+): Promise<PricingResult> {
+  const priced = await priceCartItems(cartItems, branchId, scheduledFor);
+  if ('error' in priced) {
+    return priced;
+  }
+
+  let deliveryFee: number | null = null;
+  let courierCost: number | null = null;
+  if (serviceType === 'delivery') {
+    const policy = getDeliveryFeePolicy(siteSettings);
+    const belowMinimum = checkDeliveryMinimum(priced.subtotal, policy);
+    if (belowMinimum) {
+      return { error: belowMinimum, status: 400 };
+    }
+
+    const area = branchId ? await getBranchDeliveryZone(branchId) : null;
+    const flatFee = area?.delivery_zone?.flatFee ?? null;
+    const cost = await resolveCourierCost(quotationId, siteSettings, branchId || null, deliveryPoint);
+    if ('error' in cost) {
+      return cost;
+    }
+
+    const outside = area && checkDeliveryZone(area, cost.deliveryPoint ?? deliveryPoint);
+    if (outside) {
+      return { error: outside, status: 400, outsideDeliveryZone: true };
+    }
+    if (cost.courierCost !== null) {
+      const fee = applyDeliveryFeePolicy(cost.courierCost, priced.subtotal, policy, flatFee);
+      deliveryFee = fee.fee;
+      courierCost = fee.courierCost;
+    } else {
+      // Without a quote the fee can only come from the policy itself
+      deliveryFee = getFixedDeliveryFee(priced.subtotal, policy, flatFee);
+      if (deliveryFee === null) {
+        return { error: 'A delivery quote is required. Please enter your address again.', status: 400 };
+      }
+    }
+  }
+
+  return {
+    order: {
+      lines: priced.lines,
+      subtotal: priced.subtotal,
+      deliveryFee,
+      courierCost,
+      discount: 0,
+      voucher: null,
+      statutory: null,
+      total: roundCurrency(priced.subtotal + (deliveryFee ?? 0))
+    }
+  };
+}
+
+/**
+ * Take a senior citizen / PWD discount off a priced order
+ * `cartItems` are the items the order was priced from, so the claim's cart
+ * item ids line up with `order.lines`.
+ */
+export function applyStatutoryDiscount(
+  order: PricedOrder,
+  claim: StatutoryDiscountClaim,
+  cartItems: any[]
+): PricingResult {
+  const eligible = cartItems.map(item => claim.lineIds.includes(item?.id));
+  if (!eligible.some(Boolean)) {
+    return { error: 'None of the items chosen for the senior citizen / PWD discount are in the cart', status: 400 };
+  }
+
+  const breakdown = calculateStatutoryDiscount(
+    order.lines.map((line, index) => ({ lineTotal: line.total_price, eligible: eligible[index] }))
+  );
+
+  return {
+    order: {
+      ...order,
+      lines: order.lines.map((line, index) => {
+        const lineBreakdown = breakdown.lines[index];
+        return lineBreakdown
+          ? {
+              ...line,
+              statutory_eligible: true,
+              vat_exempt_base: lineBreakdown.vatExemptBase,
+              vat_exemption: lineBreakdown.vatExemption,
+              statutory_discount: lineBreakdown.discount
+            }
+          : line;
+      }),
+      statutory: {
+        claim,
+        vatExemptSales: breakdown.vatExemptSales,
+        vatExemption: breakdown.vatExemption,
+        discount: breakdown.discount
+      },
+      total: roundCurrency(order.subtotal + (order.deliveryFee ?? 0) - order.discount - breakdown.totalDeduction)
+    }
+  };
+}
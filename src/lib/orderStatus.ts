@@ -0,0 +1,106 @@
+import type { OrderStatus, ServiceType } from '../types';
+
+/**
+ * Order status state machine
+ * Defines which status changes are allowed for each service type. Shared by
+ * the orders API (enforcement) and OrderManager (which options to offer).
+ */
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready',
+  'out_for_delivery',
+  'completed',
+  'cancelled'
+];
+
+const COMMON_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+const STATUS_TRANSITIONS: Record<ServiceType, Partial<Record<OrderStatus, OrderStatus[]>>> = {
+  'dine-in': {
+    ...COMMON_TRANSITIONS,
+    ready: ['completed', 'cancelled']
+  },
+  pickup: {
+    ...COMMON_TRANSITIONS,
+    ready: ['completed', 'cancelled']
+  },
+  delivery: {
+    ...COMMON_TRANSITIONS,
+    ready: ['out_for_delivery', 'cancelled'],
+    out_for_delivery: ['completed', 'cancelled']
+  }
+};
+
+/**
+ * Check that a value is a known order status
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+/**
+ * Statuses an order can move to next
+ */
+export function getNextStatuses(serviceType: ServiceType, from: OrderStatus): OrderStatus[] {
+  return STATUS_TRANSITIONS[serviceType]?.[from] ?? [];
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransition(serviceType: ServiceType, from: OrderStatus, to: OrderStatus): boolean {
+  return getNextStatuses(serviceType, from).includes(to);
+}
+
+/**
+ * Shortest chain of forward steps from one status to another, excluding `from`
+ * Never passes through cancelled. Returns null when `to` cannot be reached.
+ */
+export function findStatusPath(
+  serviceType: ServiceType,
+  from: OrderStatus,
+  to: OrderStatus
+): OrderStatus[] | null {
+  if (from === to) return [];
+
+  const queue: OrderStatus[][] = [[from]];
+  const seen = new Set<OrderStatus>([from]);
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const last = path[path.length - 1];
+
+    for (const next of getNextStatuses(serviceType, last)) {
+      if (seen.has(next) || (next === 'cancelled' && to !== 'cancelled')) continue;
+      if (next === to) return [...path.slice(1), next];
+      seen.add(next);
+      queue.push([...path, next]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Completed and cancelled orders can no longer change
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return status === 'completed' || status === 'cancelled';
+}
+
+/**
+ * Human-readable status label, e.g. out_for_delivery -> Out for delivery
+ */
+export function formatStatus(status: OrderStatus): string {
+  const label = status.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
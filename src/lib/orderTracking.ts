@@ -0,0 +1,139 @@
+import { timingSafeEqual } from 'crypto';
+import { supabaseServer } from './supabase-server';
+import { normalizePhone } from './lalamove-server';
+import { fetchStatusEvents } from './orderTransitions';
+import { COURIER_TRAVEL_MINUTES } from './orderAhead';
+import type { OrderTracking } from '../types';
+
+/**
+ * Customer-facing order tracking
+ * Finds an order by order number, checks the caller knows its contact number
+ * and returns only what the customer needs to follow it. Only import this
+ * from API routes.
+ */
+
+// Kitchen time used when the customer did not pick a pickup window
+export const DEFAULT_PREP_MINUTES = 20;
+
+const TRACKING_COLUMNS = `
+  id, order_number, contact_number, status, service_type, pickup_time, dine_in_time,
+  scheduled_for, total, delivery_fee, created_at, updated_at, completed_at,
+  lalamove_status, lalamove_tracking_url, lalamove_driver_name,
+  lalamove_driver_phone, lalamove_driver_plate,
+  order_items (menu_item_name, quantity, total_price, selected_variation, selected_add_ons, bundle_selections)
+`;
+
+/**
+ * Compare two contact numbers regardless of formatting (0917..., +63917..., 63917...)
+ */
+export function contactNumbersMatch(expected: string, received: string): boolean {
+  if (!expected || !received) return false;
+
+  const a = Buffer.from(normalizePhone(expected).replace(/\D/g, ''));
+  const b = Buffer.from(normalizePhone(received).replace(/\D/g, ''));
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * When the order should be ready, from the pickup window or the default prep time
+ * Counts from confirmation; unconfirmed and finished orders have no estimate.
+ * Orders for later are not ready before they are due, or before the courier
+ * has to collect a scheduled delivery.
+ */
+export function estimateReadyAt(
+  order: {
+    status: string;
+    service_type: string;
+    pickup_time: string | null;
+    scheduled_for?: string | null;
+    created_at: string;
+  },
+  confirmedAt: string | null
+): string | null {
+  if (!confirmedAt || ['ready', 'out_for_delivery', 'completed', 'cancelled'].includes(order.status)) {
+    return null;
+  }
+
+  let minutes = DEFAULT_PREP_MINUTES;
+  if (order.service_type === 'pickup' && order.pickup_time) {
+    // "15-20 minutes" -> 20; custom times such as "2:30 PM" are shown as typed
+    const window = order.pickup_time.match(/^\s*(\d+)(?:\s*-\s*(\d+))?\s*min/i);
+    if (!window) return null;
+    minutes = Number(window[2] ?? window[1]);
+  }
+
+  const readyAt = new Date(confirmedAt).getTime() + minutes * 60_000;
+  if (order.scheduled_for) {
+    const travel = order.service_type === 'delivery' ? COURIER_TRAVEL_MINUTES : 0;
+    return new Date(Math.max(readyAt, new Date(order.scheduled_for).getTime() - travel * 60_000)).toISOString();
+  }
+  return new Date(readyAt).toISOString();
+}
+
+/**
+ * Look up an order for a customer who knows both its number and contact number
+ * Mismatches are reported exactly like unknown order numbers.
+ */
+export async function trackOrder(
+  orderNumber: string,
+  contactNumber: string
+): Promise<OrderTracking | { error: string; status: number }> {
+  const notFound = { error: 'No order matches that order number and contact number', status: 404 };
+
+  const { data: order, error } = await (supabaseServer.from('orders') as any)
+    .select(TRACKING_COLUMNS)
+    .eq('order_number', orderNumber.trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error looking up order ${orderNumber} for tracking:`, error);
+    return { error: 'Failed to look up order', status: 500 };
+  }
+
+  if (!order || !contactNumbersMatch(order.contact_number, contactNumber)) {
+    return notFound;
+  }
+
+  const events = await fetchStatusEvents(order.id);
+  const confirmedAt = events.find(event => event.to_status === 'confirmed')?.created_at ?? null;
+  const isDelivery = order.service_type === 'delivery';
+
+  return {
+    order_number: order.order_number,
+    status: order.status,
+    service_type: order.service_type,
+    pickup_time: order.pickup_time,
+    dine_in_time: order.dine_in_time,
+    scheduled_for: order.scheduled_for,
+    total: Number(order.total),
+    delivery_fee: order.delivery_fee != null ? Number(order.delivery_fee) : null,
+    created_at: order.created_at,
+    updated_at: order.updated_at,
+    completed_at: order.completed_at,
+    estimated_ready_at: estimateReadyAt(order, confirmedAt),
+    // Customers see when each step happened, not who made it or why
+    timeline: events.map(event => ({
+      status: event.to_status,
+      at: event.created_at
+    })),
+    items: ((order.order_items as any[]) || []).map((item: any) => ({
+      name: item.menu_item_name,
+      quantity: item.quantity,
+      total_price: Number(item.total_price),
+      variation: item.selected_variation?.name ?? null,
+      add_ons: ((item.selected_add_ons as any[]) || []).map((addOn: any) =>
+        addOn.quantity && addOn.quantity > 1 ? `${addOn.name} x${addOn.quantity}` : addOn.name
+      ),
+      components: ((item.bundle_selections as any[]) || []).map((selection: any) => selection.name)
+    })),
+    courier: isDelivery
+      ? {
+          status: order.lalamove_status,
+          tracking_url: order.lalamove_tracking_url,
+          driver_name: order.lalamove_driver_name,
+          driver_phone: order.lalamove_driver_phone,
+          driver_plate: order.lalamove_driver_plate
+        }
+      : null
+  };
+}
@@ -0,0 +1,152 @@
+import { supabaseServer } from './supabase-server';
+import { canTransition, getNextStatuses, formatStatus, findStatusPath } from './orderStatus';
+import { deductOrderStock, restoreOrderStock } from './inventory-server';
+import type { OrderStatus, OrderStatusEvent, ServiceType, StaffUser } from '../types';
+
+/**
+ * Server-side order status changes
+ * Validates transitions against the state machine in orderStatus.ts, applies
+ * them with an optimistic check on the current status (so two staff clicking
+ * at once cannot both win) and writes a row to `order_status_events`.
+ * Confirming an order takes its items out of stock; cancelling puts them back.
+ */
+
+export interface StatusActor {
+  staffId: string | null;
+  name: string;
+}
+
+export const CUSTOMER_ACTOR: StatusActor = { staffId: null, name: 'Customer' };
+export const SYSTEM_ACTOR: StatusActor = { staffId: null, name: 'System' };
+export const LALAMOVE_ACTOR: StatusActor = { staffId: null, name: 'Lalamove' };
+
+/**
+ * Describe a staff member as the actor of a status change
+ */
+export function staffActor(staff: StaffUser): StatusActor {
+  return { staffId: staff.id, name: staff.display_name || staff.username };
+}
+
+export type TransitionResult =
+  | { order: any }
+  | { error: string; status: number };
+
+/**
+ * Record a status change in the order's history
+ * Failures are logged rather than thrown: the status change itself already happened.
+ */
+export async function recordStatusEvent(
+  orderId: string,
+  from: OrderStatus | null,
+  to: OrderStatus,
+  actor: StatusActor,
+  reason?: string | null
+): Promise<void> {
+  const { error } = await (supabaseServer.from('order_status_events' as any) as any)
+    .insert({
+      order_id: orderId,
+      from_status: from,
+      to_status: to,
+      actor_staff_id: actor.staffId,
+      actor_name: actor.name,
+      reason: reason?.trim() || null
+    });
+
+  if (error) {
+    console.error(`Error recording status event for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Move an order to a new status
+ * `currentOrder` must be the row as last read; `extraUpdates` are written in the same update.
+ */
+export async function transitionOrderStatus(
+  currentOrder: { id: string; status: OrderStatus; service_type: ServiceType },
+  to: OrderStatus,
+  actor: StatusActor,
+  options: { reason?: string | null; extraUpdates?: Record<string, unknown>; select?: string } = {}
+): Promise<TransitionResult> {
+  const from = currentOrder.status;
+
+  if (!canTransition(currentOrder.service_type, from, to)) {
+    const allowed = getNextStatuses(currentOrder.service_type, from);
+    return {
+      error: allowed.length > 0
+        ? `Cannot change a ${currentOrder.service_type} order from ${formatStatus(from)} to ${formatStatus(to)}. Allowed: ${allowed.map(formatStatus).join(', ')}`
+        : `${formatStatus(from)} orders can no longer change status`,
+      status: 409
+    };
+  }
+
+  const { data, error } = await (supabaseServer.from('orders') as any)
+    .update({ ...(options.extraUpdates || {}), status: to })
+    .eq('id', currentOrder.id)
+    .eq('status', from)
+    .select(options.select || '*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating order status:', error);
+    return { error: 'Failed to update order', status: 500 };
+  }
+
+  if (!data) {
+    return { error: 'This order was updated by someone else. Refresh and try again.', status: 409 };
+  }
+
+  await recordStatusEvent(currentOrder.id, from, to, actor, options.reason);
+
+  if (to === 'confirmed') {
+    await deductOrderStock(currentOrder.id, actor.name);
+  } else if (to === 'cancelled') {
+    await restoreOrderStock(currentOrder.id, actor.name);
+  }
+
+  return { order: data };
+}
+
+/**
+ * Move an order forward to `to`, stepping through any statuses in between
+ * Used for external events (e.g. the courier picked up an order staff never
+ * marked ready). Orders already at or past `to` are left alone.
+ */
+export async function advanceOrderStatus(
+  currentOrder: { id: string; status: OrderStatus; service_type: ServiceType },
+  to: OrderStatus,
+  actor: StatusActor,
+  reason?: string | null
+): Promise<TransitionResult | { skipped: true }> {
+  const path = findStatusPath(currentOrder.service_type, currentOrder.status, to);
+  if (!path || path.length === 0) {
+    return { skipped: true };
+  }
+
+  let order: any = currentOrder;
+  for (const status of path) {
+    const result = await transitionOrderStatus(order, status, actor, { reason });
+    if ('error' in result) {
+      return result;
+    }
+    order = result.order;
+  }
+
+  return { order };
+}
+
+/**
+ * Fetch an order's status history, oldest first
+ */
+export async function fetchStatusEvents(orderId: string): Promise<OrderStatusEvent[]> {
+  const { data, error } = await (supabaseServer.from('order_status_events' as any) as any)
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error(`Error fetching status events for order ${orderId}:`, error);
+    return [];
+  }
+
+  return (data || []) as OrderStatusEvent[];
+}
@@ -0,0 +1,102 @@
+import type { StaffRole, StaffUser } from '../types';
+
+/**
+ * Staff permission matrix
+ * Shared by the API routes (enforcement) and the admin dashboard (which
+ * views to show). Keep the two in sync by only checking permissions here.
+ */
+
+export type Permission =
+  | 'orders.view'
+  | 'orders.view_stats'
+  | 'orders.update_status'
+  | 'orders.cancel'
+  | 'orders.bulk_update'
+  | 'orders.pause'
+  | 'menu.edit'
+  | 'menu.delete'
+  | 'categories.manage'
+  | 'payments.manage'
+  | 'settings.manage'
+  | 'branches.manage'
+  | 'vouchers.manage'
+  | 'inventory.manage';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'branch_manager', 'cashier', 'kitchen'];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  branch_manager: 'Branch Manager',
+  cashier: 'Cashier',
+  kitchen: 'Kitchen'
+};
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: [
+    'orders.view',
+    'orders.view_stats',
+    'orders.update_status',
+    'orders.cancel',
+    'orders.bulk_update',
+    'orders.pause',
+    'menu.edit',
+    'menu.delete',
+    'categories.manage',
+    'payments.manage',
+    'settings.manage',
+    'branches.manage',
+    'vouchers.manage',
+    'inventory.manage'
+  ],
+  branch_manager: [
+    'orders.view',
+    'orders.view_stats',
+    'orders.update_status',
+    'orders.cancel',
+    'orders.bulk_update',
+    'orders.pause',
+    'menu.edit',
+    'inventory.manage'
+  ],
+  cashier: [
+    'orders.view',
+    'orders.view_stats',
+    'orders.update_status',
+    'orders.cancel',
+    'orders.pause'
+  ],
+  kitchen: [
+    'orders.view',
+    'orders.update_status',
+    'orders.pause'
+  ]
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Branch whose orders a staff member is limited to
+ * Owners see every branch (null); everyone else assigned to a branch sees only that branch.
+ * Branch managers must be assigned to a branch to see any orders, so an
+ * unassigned one gets false and callers must answer 403.
+ */
+export function getBranchScope(staff: StaffUser): string | null | false {
+  if (staff.role === 'owner') return null;
+  if (staff.role === 'branch_manager' && !staff.branch_id) return false;
+  return staff.branch_id ?? null;
+}
+
+/**
+ * Check whether a staff member may see or act on an order from a branch
+ */
+export function canAccessBranch(staff: StaffUser, branchId: string | null | undefined): boolean {
+  const scope = getBranchScope(staff);
+  if (scope === false) return false;
+  return scope === null || scope === branchId;
+}
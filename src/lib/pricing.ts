@@ -0,0 +1,148 @@
+import type { AddOn, BundleSelection, Variation } from '../types';
+
+/**
+ * Pricing engine
+ * The one place that turns a menu item, its chosen variation, add-ons and
+ * combo picks, the discount window and a quantity into money. Pure and
+ * dependency-free so the storefront, cart, checkout and POST /api/orders all
+ * get the same answer.
+ */
+
+// The discount fields of a menu item, as the storefront's MenuItem names them
+export interface PricingItem {
+  basePrice: number;
+  discountPrice?: number | null;
+  discountActive?: boolean | null;
+  discountStartDate?: string | null;
+  discountEndDate?: string | null;
+}
+
+export interface PricedAddOn {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  total: number;
+}
+
+export interface LinePrice {
+  /** Regular price of the item before any discount */
+  basePrice: number;
+  /** Price of the item itself after the discount window is applied */
+  itemPrice: number;
+  /** Per-unit saving from the discount (0 when none applies) */
+  discount: number;
+  variationPrice: number;
+  addOns: PricedAddOn[];
+  addOnsTotal: number;
+  /** Upcharges of the items picked for a combo's slots */
+  bundleUpcharge: number;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface PriceLineInput {
+  item: PricingItem;
+  variation?: Pick<Variation, 'price'> | null;
+  addOns?: AddOn[] | null;
+  bundleSelections?: Pick<BundleSelection, 'upcharge'>[] | null;
+  quantity?: number;
+  now?: Date;
+}
+
+/**
+ * Round a peso amount to centavos
+ */
+export const roundCurrency = (amount: number): number =>
+  Math.round((amount + Number.EPSILON) * 100) / 100;
+
+/**
+ * Total for `quantity` units at an already rounded unit price
+ */
+export const getLineTotal = (unitPrice: number, quantity: number): number =>
+  roundCurrency(unitPrice * quantity);
+
+/**
+ * Whether the item's discount applies at `now`
+ * Both ends of the window are inclusive; a missing end means open-ended.
+ */
+export function isDiscountActive(item: PricingItem, now: Date = new Date()): boolean {
+  if (!item.discountActive || !item.discountPrice) {
+    return false;
+  }
+
+  const start = item.discountStartDate ? new Date(item.discountStartDate) : null;
+  const end = item.discountEndDate ? new Date(item.discountEndDate) : null;
+  return (!start || now >= start) && (!end || now <= end);
+}
+
+/**
+ * The price the item itself currently sells for
+ */
+export function getEffectiveBasePrice(item: PricingItem, now: Date = new Date()): number {
+  return Number(isDiscountActive(item, now) ? item.discountPrice : item.basePrice);
+}
+
+/**
+ * Merge repeated add-ons into one entry with a quantity
+ * The customisation modal passes one entry per unit picked.
+ */
+export function groupAddOns(addOns: AddOn[] | null | undefined): AddOn[] {
+  const groups: AddOn[] = [];
+  (addOns || []).forEach(addOn => {
+    const existing = groups.find(group => group.id === addOn.id);
+    const quantity = addOn.quantity || 1;
+    if (existing) {
+      existing.quantity = (existing.quantity || 1) + quantity;
+    } else {
+      groups.push({ ...addOn, quantity });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Price one cart line
+ * unit = item price (discounted if in its window) + variation + add-on price
+ * x add-on quantity + combo upcharges, rounded to centavos; line = unit x
+ * quantity, rounded.
+ */
+export function priceLine({ item, variation, addOns, bundleSelections, quantity = 1, now = new Date() }: PriceLineInput): LinePrice {
+  const basePrice = Number(item.basePrice);
+  const itemPrice = getEffectiveBasePrice(item, now);
+  const variationPrice = Number(variation?.price ?? 0);
+
+  const pricedAddOns = groupAddOns(addOns).map(addOn => ({
+    id: addOn.id,
+    name: addOn.name,
+    price: Number(addOn.price),
+    quantity: addOn.quantity || 1,
+    total: roundCurrency(Number(addOn.price) * (addOn.quantity || 1))
+  }));
+  const addOnsTotal = roundCurrency(pricedAddOns.reduce((sum, addOn) => sum + addOn.total, 0));
+
+  const bundleUpcharge = roundCurrency((bundleSelections || []).reduce((sum, selection) => sum + Number(selection.upcharge), 0));
+
+  const unitPrice = roundCurrency(itemPrice + variationPrice + addOnsTotal + bundleUpcharge);
+
+  return {
+    basePrice,
+    itemPrice,
+    discount: roundCurrency(basePrice - itemPrice),
+    variationPrice,
+    addOns: pricedAddOns,
+    addOnsTotal,
+    bundleUpcharge,
+    unitPrice,
+    quantity,
+    lineTotal: getLineTotal(unitPrice, quantity)
+  };
+}
+
+/**
+ * Add up line totals without floating point drift
+ */
+export function sumLineTotals(lineTotals: number[]): number {
+  return roundCurrency(lineTotals.reduce((sum, total) => sum + total, 0));
+}
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer, getClientIP } from './supabase-server';
+import { normalizePhone } from './lalamove-server';
+import type { SiteSettings } from '../types';
+
+/**
+ * Server-side rate limiting
+ * Sliding-window limits keyed by IP, phone number and browser session. The
+ * Postgres store is shared by every server instance; the in-memory store is
+ * for local development only. Pick one with RATE_LIMIT_STORE=memory|postgres
+ * (defaults to postgres in production). Only import this from API routes.
+ */
+
+export interface RateLimitRule {
+  key: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+// The rule that refused a request and how long until it would pass
+export interface RateLimitExceeded {
+  key: string;
+  retryAfter: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Record a hit against every rule, but only if none of them is exhausted
+   * Returns the exhausted rule with the longest wait, or null if allowed.
+   */
+  consume(rules: RateLimitRule[]): Promise<RateLimitExceeded | null>;
+
+  /**
+   * Give back the latest hit on each key, for a request that turned out not to count
+   */
+  release(keys: string[]): Promise<void>;
+}
+
+export const ORDER_SESSION_COOKIE_NAME = 'starrs_order_session';
+const ORDER_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Guessing contact numbers on the tracking page is not configurable
+const TRACKING_LOOKUP_RULE = { limit: 30, windowSeconds: 10 * 60 };
+// Nor is guessing voucher codes at checkout
+const VOUCHER_LOOKUP_RULE = { limit: 20, windowSeconds: 10 * 60 };
+// Saved carts are anonymous writes; the storefront saves a second after each change
+const CART_SAVE_RULE = { limit: 120, windowSeconds: 10 * 60 };
+
+/**
+ * Per-process store; limits reset on restart and are not shared between instances
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>();
+
+  return {
+    async consume(rules) {
+      const now = Date.now();
+      let limited: RateLimitExceeded | null = null;
+
+      for (const rule of rules) {
+        const windowMs = rule.windowSeconds * 1000;
+        const recent = (hits.get(rule.key) || []).filter(at => at > now - windowMs);
+        hits.set(rule.key, recent);
+
+        if (recent.length >= rule.limit) {
+          const retryAfter = Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000));
+          if (!limited || retryAfter > limited.retryAfter) {
+            limited = { key: rule.key, retryAfter };
+          }
+        }
+      }
+
+      if (limited) {
+        return limited;
+      }
+
+      for (const rule of rules) {
+        hits.get(rule.key)!.push(now);
+      }
+      return null;
+    },
+
+    async release(keys) {
+      for (const key of keys) {
+        hits.get(key)?.pop();
+      }
+    }
+  };
+}
+
+/**
+ * Store backed by `rate_limit_hits`; the check and the insert happen in one
+ * `consume_rate_limits` call so concurrent requests cannot both get through
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async consume(rules) {
+      const { data, error } = await (supabaseServer as any).rpc('consume_rate_limits', {
+        p_keys: rules.map(rule => rule.key),
+        p_limits: rules.map(rule => rule.limit),
+        p_window_seconds: rules.map(rule => rule.windowSeconds)
+      });
+
+      if (error) {
+        throw new Error(`Rate limit check failed: ${error.message}`);
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row || row.allowed) {
+        return null;
+      }
+      return { key: row.limited_key, retryAfter: Number(row.retry_after) || 1 };
+    },
+
+    async release(keys) {
+      const { error } = await (supabaseServer as any).rpc('release_rate_limits', { p_keys: keys });
+
+      if (error) {
+        throw new Error(`Rate limit release failed: ${error.message}`);
+      }
+    }
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    store = kind === 'memory' ? createMemoryRateLimitStore() : createPostgresRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Consume the rules, letting the request through if the store itself fails
+ * A broken limiter should not stop customers from ordering.
+ */
+async function consume(rules: RateLimitRule[]): Promise<RateLimitExceeded | null> {
+  if (rules.length === 0) {
+    return null;
+  }
+
+  try {
+    return await getRateLimitStore().consume(rules);
+  } catch (error) {
+    console.error('Rate limiter unavailable, allowing request:', error);
+    return null;
+  }
+}
+
+/**
+ * Give hits back; a failure only leaves the hits to expire with their window
+ */
+async function release(keys: string[]): Promise<void> {
+  try {
+    await getRateLimitStore().release(keys);
+  } catch (error) {
+    console.error('Rate limiter unavailable, keeping hits:', error);
+  }
+}
+
+/**
+ * Read a positive whole number from site settings
+ */
+const toPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * The browser's anonymous order session, creating one if it has none yet
+ */
+export function getOrderSessionId(request: NextRequest): string {
+  const existing = request.cookies.get(ORDER_SESSION_COOKIE_NAME)?.value;
+  return existing && /^[0-9a-f-]{36}$/.test(existing) ? existing : randomUUID();
+}
+
+/**
+ * Attach the order session cookie to a response
+ */
+export function setOrderSessionCookie(response: NextResponse, sessionId: string) {
+  response.cookies.set({
+    name: ORDER_SESSION_COOKIE_NAME,
+    value: sessionId,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ORDER_SESSION_TTL_SECONDS
+  });
+}
+
+/**
+ * Limits for placing an order, from the `rate_limit_*` site settings
+ */
+export function getOrderRateLimitRules(
+  siteSettings: SiteSettings | null,
+  subject: { ip: string; phone: string; sessionId: string }
+): RateLimitRule[] {
+  if (siteSettings?.rate_limit_enabled?.trim().toLowerCase() === 'false') {
+    return [];
+  }
+
+  const rule = (dimension: 'ip' | 'phone' | 'session', value: string, max: number, windowMinutes: number) => ({
+    key: `order:${dimension}:${value}`,
+    limit: toPositiveInt(siteSettings?.[`rate_limit_${dimension}_max`], max),
+    windowSeconds: toPositiveInt(siteSettings?.[`rate_limit_${dimension}_window_minutes`], windowMinutes) * 60
+  });
+
+  const phone = normalizePhone(subject.phone).replace(/\D/g, '');
+  return [
+    rule('ip', subject.ip, 5, 10),
+    ...(phone ? [rule('phone', phone, 3, 10)] : []),
+    rule('session', subject.sessionId, 2, 5)
+  ];
+}
+
+/**
+ * Check and record an order placement
+ */
+export function consumeOrderRateLimit(
+  request: NextRequest,
+  siteSettings: SiteSettings | null,
+  contactNumber: string,
+  sessionId: string
+): Promise<RateLimitExceeded | null> {
+  return consume(
+    getOrderRateLimitRules(siteSettings, {
+      ip: getClientIP(request),
+      phone: contactNumber,
+      sessionId
+    })
+  );
+}
+
+const trackingKey = (request: NextRequest) => `track:ip:${getClientIP(request)}`;
+
+/**
+ * Check and record a public order tracking lookup
+ */
+export function consumeTrackingRateLimit(request: NextRequest): Promise<RateLimitExceeded | null> {
+  return consume([{ key: trackingKey(request), ...TRACKING_LOOKUP_RULE }]);
+}
+
+/**
+ * Take back a tracking lookup that found its order
+ * Only wrong order or contact numbers count towards the limit, so an open
+ * tracking page refreshing itself does not lock out others on the same IP.
+ */
+export function releaseTrackingRateLimit(request: NextRequest): Promise<void> {
+  return release([trackingKey(request)]);
+}
+
+/**
+ * Check and record a voucher code check at checkout
+ */
+export function consumeVoucherRateLimit(request: NextRequest): Promise<RateLimitExceeded | null> {
+  return consume([{ key: `voucher:ip:${getClientIP(request)}`, ...VOUCHER_LOOKUP_RULE }]);
+}
+
+/**
+ * Check and record a saved cart write
+ */
+export function consumeCartRateLimit(request: NextRequest): Promise<RateLimitExceeded | null> {
+  return consume([{ key: `cart:ip:${getClientIP(request)}`, ...CART_SAVE_RULE }]);
+}
+
+/**
+ * Customer-facing message for a limit, e.g. "Please wait 4 minutes ..."
+ */
+export function getRateLimitMessage(retryAfter: number): string {
+  if (retryAfter < 60) {
+    return `Too many attempts. Please wait ${retryAfter} second${retryAfter !== 1 ? 's' : ''} before trying again.`;
+  }
+  const minutes = Math.ceil(retryAfter / 60);
+  return `Too many attempts. Please wait ${minutes} minute${minutes !== 1 ? 's' : ''} before trying again.`;
+}
@@ -0,0 +1,179 @@
+import type { SalesReport, StatutoryDiscountEntry, StatutoryDiscountTotals } from '../types';
+import { roundCurrency, sumLineTotals } from './pricing';
+import { STATUTORY_DISCOUNT_LABELS, VAT_RATE } from './statutoryDiscount';
+import { getDeliverySubsidy } from './deliveryFee';
+
+/**
+ * Sales report
+ * Totals completed orders for a date range, splitting VATable sales from the
+ * VAT-exempt senior citizen / PWD sales. The delivery fee is passed through to
+ * the courier and is reported separately, next to what the courier charged
+ * and the part of it the store covered. Pure so it can be tested without the
+ * database; GET /api/orders/report loads the rows.
+ */
+
+// Report days are Philippine calendar days
+const REPORT_UTC_OFFSET = '+08:00';
+const MAX_REPORT_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Columns of `orders` the report needs
+ */
+export const SALES_REPORT_COLUMNS = [
+  'order_number',
+  'created_at',
+  'total',
+  'delivery_fee',
+  'delivery_courier_cost',
+  'lalamove_price',
+  'discount_amount',
+  'statutory_discount_type',
+  'statutory_name',
+  'statutory_id_number',
+  'vat_exempt_sales',
+  'vat_exemption',
+  'statutory_discount'
+].join(', ');
+
+/**
+ * Turn YYYY-MM-DD dates into an ISO [start, end) range, both days inclusive
+ */
+export function toReportRange(
+  dateFrom: string | null,
+  dateTo: string | null
+): { start: string; end: string } | { error: string } {
+  const isDate = (value: string | null) => Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value));
+  if (!isDate(dateFrom) || !isDate(dateTo)) {
+    return { error: 'date_from and date_to must be dates (YYYY-MM-DD)' };
+  }
+
+  const start = new Date(`${dateFrom}T00:00:00${REPORT_UTC_OFFSET}`);
+  const end = new Date(new Date(`${dateTo}T00:00:00${REPORT_UTC_OFFSET}`).getTime() + DAY_MS);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    return { error: 'date_to must be on or after date_from' };
+  }
+  if (end.getTime() - start.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+    return { error: `Reports can cover at most ${MAX_REPORT_DAYS} days` };
+  }
+
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+const emptyTotals = (): StatutoryDiscountTotals => ({
+  order_count: 0,
+  vat_exempt_sales: 0,
+  vat_exemption: 0,
+  discount: 0
+});
+
+/**
+ * Build the report from completed orders rows
+ */
+export function buildSalesReport(rows: any[], dateFrom: string, dateTo: string): SalesReport {
+  const gross: number[] = [];
+  const vatable: number[] = [];
+  const vat: number[] = [];
+  const totals = { senior: emptyTotals(), pwd: emptyTotals() };
+  const entries: StatutoryDiscountEntry[] = [];
+  const courierCosts: number[] = [];
+  const subsidies: number[] = [];
+
+  rows.forEach(row => {
+    const total = Number(row.total);
+    const deliveryFee = Number(row.delivery_fee ?? 0);
+    const voucherDiscount = Number(row.discount_amount ?? 0);
+    const vatExemptSales = Number(row.vat_exempt_sales ?? 0);
+    const vatExemption = Number(row.vat_exemption ?? 0);
+    const statutoryDiscount = Number(row.statutory_discount ?? 0);
+
+    // Undo the deductions to get back to the menu prices of the items
+    const orderGross = roundCurrency(total - deliveryFee + voucherDiscount + vatExemption + statutoryDiscount);
+    const exemptGross = roundCurrency(vatExemptSales + vatExemption);
+    const vatableInclusive = roundCurrency(orderGross - exemptGross - voucherDiscount);
+    const vatableSales = roundCurrency(vatableInclusive / (1 + VAT_RATE));
+
+    const subsidy = getDeliverySubsidy({
+      delivery_fee: deliveryFee,
+      delivery_courier_cost: row.delivery_courier_cost === null || row.delivery_courier_cost === undefined ? null : Number(row.delivery_courier_cost),
+      lalamove_price: row.lalamove_price === null || row.lalamove_price === undefined ? null : Number(row.lalamove_price)
+    });
+    if (subsidy !== null) {
+      courierCosts.push(roundCurrency(subsidy + deliveryFee));
+      subsidies.push(subsidy);
+    }
+
+    gross.push(orderGross);
+    vatable.push(vatableSales);
+    vat.push(roundCurrency(vatableInclusive - vatableSales));
+
+    const type = row.statutory_discount_type as keyof typeof totals | null;
+    if (type && totals[type]) {
+      const typeTotals = totals[type];
+      typeTotals.order_count += 1;
+      typeTotals.vat_exempt_sales = roundCurrency(typeTotals.vat_exempt_sales + vatExemptSales);
+      typeTotals.vat_exemption = roundCurrency(typeTotals.vat_exemption + vatExemption);
+      typeTotals.discount = roundCurrency(typeTotals.discount + statutoryDiscount);
+
+      entries.push({
+        order_number: row.order_number,
+        created_at: row.created_at,
+        type,
+        name: row.statutory_name || '',
+        id_number: row.statutory_id_number || '',
+        gross_amount: exemptGross,
+        vat_exempt_sales: vatExemptSales,
+        vat_exemption: vatExemption,
+        discount: statutoryDiscount
+      });
+    }
+  });
+
+  return {
+    date_from: dateFrom,
+    date_to: dateTo,
+    order_count: rows.length,
+    gross_sales: sumLineTotals(gross),
+    voucher_discounts: sumLineTotals(rows.map(row => Number(row.discount_amount ?? 0))),
+    vatable_sales: sumLineTotals(vatable),
+    vat_amount: sumLineTotals(vat),
+    vat_exempt_sales: roundCurrency(totals.senior.vat_exempt_sales + totals.pwd.vat_exempt_sales),
+    vat_exemption: roundCurrency(totals.senior.vat_exemption + totals.pwd.vat_exemption),
+    statutory_discounts: roundCurrency(totals.senior.discount + totals.pwd.discount),
+    delivery_fees: sumLineTotals(rows.map(row => Number(row.delivery_fee ?? 0))),
+    courier_costs: sumLineTotals(courierCosts),
+    delivery_subsidy: sumLineTotals(subsidies),
+    net_sales: sumLineTotals(rows.map(row => Number(row.total))),
+    senior: totals.senior,
+    pwd: totals.pwd,
+    statutory_entries: entries
+  };
+}
+
+// Quote separators, and keep spreadsheets from running text as a formula
+const toCsvField = (value: string | number): string => {
+  const text = /^[=+\-@]/.test(String(value)) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Senior citizen / PWD discount log as CSV, one row per order
+ */
+export function toStatutoryDiscountCsv(entries: StatutoryDiscountEntry[]): string {
+  const header = ['Date', 'Order Number', 'Type', 'Name', 'ID Number', 'Gross Amount', 'VAT-Exempt Sales', 'VAT Exemption', '20% Discount', 'Amount Due'];
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.order_number,
+    STATUTORY_DISCOUNT_LABELS[entry.type],
+    entry.name,
+    entry.id_number,
+    entry.gross_amount.toFixed(2),
+    entry.vat_exempt_sales.toFixed(2),
+    entry.vat_exemption.toFixed(2),
+    entry.discount.toFixed(2),
+    roundCurrency(entry.vat_exempt_sales - entry.discount).toFixed(2)
+  ]);
+
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n');
+}
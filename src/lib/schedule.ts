@@ -0,0 +1,289 @@
+import type { AvailabilitySchedule, ScheduleTimeRange } from '../types';
+
+/**
+ * Availability schedules
+ * Categories and menu items can be limited to certain days, times of day and
+ * dates, e.g. breakfast before 11am or a category only on weekends. Days and
+ * times are read in the schedule's own time zone, never the browser's, so the
+ * storefront and POST /api/orders agree on what can be ordered.
+ */
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Manila';
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// How far ahead to look for the next opening once the date range has started
+const LOOKAHEAD_DAYS = 8;
+
+// A moment as read on the clock in one time zone
+export interface LocalTime {
+  date: string;
+  day: number;
+  minutes: number;
+}
+
+export interface ScheduleStatus {
+  open: boolean;
+  // When everything is next open; null when open now or never again
+  availableFrom: Date | null;
+  // e.g. "Available from 11:00 AM"; null when open now or never again
+  label: string | null;
+}
+
+/**
+ * Embeds a menu item's category schedule when selecting from menu_items
+ */
+export const CATEGORY_SCHEDULE_SELECT = 'categories (availability_schedule)';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * "HH:MM" to minutes after midnight, or null if malformed
+ */
+export const parseTime = (value: unknown): number | null => {
+  const match = typeof value === 'string' ? TIME_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+export const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+export const toLocalTime = (at: Date, timezone: string): LocalTime => {
+  const parts = Object.fromEntries(getFormatter(timezone).formatToParts(at).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: WEEKDAY_LABELS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+};
+
+/**
+ * The instant a local date and time happens in a time zone
+ */
+export const fromLocalTime = (date: string, minutes: number, timezone: string): Date => {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000;
+  const offsetAt = (at: number) => {
+    const local = toLocalTime(new Date(at), timezone);
+    return Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60 * 1000 - at;
+  };
+  // Second pass settles times near a daylight saving change
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * Minutes after midnight as a clock time, e.g. "6:00 AM"
+ */
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+};
+
+/**
+ * Read a stored `availability_schedule` value
+ * Bad entries are dropped; a schedule that allows every day, all day, on any
+ * date comes back as null (always available).
+ */
+export function normalizeSchedule(raw: any): AvailabilitySchedule | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const days = Array.from(new Set<number>(
+    (Array.isArray(raw.days) ? raw.days : []).filter((day: unknown) => Number.isInteger(day) && Number(day) >= 0 && Number(day) <= 6)
+  )).sort((a, b) => a - b);
+  const timeRanges: ScheduleTimeRange[] = (Array.isArray(raw.timeRanges) ? raw.timeRanges : [])
+    .filter((range: any) => {
+      const start = parseTime(range?.start);
+      const end = parseTime(range?.end);
+      return start !== null && end !== null && start !== end;
+    })
+    .map((range: any) => ({ start: range.start, end: range.end }));
+
+  const schedule: AvailabilitySchedule = {
+    days: days.length === 7 ? [] : days,
+    timeRanges,
+    startDate: isValidDate(raw.startDate) ? raw.startDate : null,
+    endDate: isValidDate(raw.endDate) ? raw.endDate : null,
+    timezone: isValidTimezone(raw.timezone) ? raw.timezone : DEFAULT_SCHEDULE_TIMEZONE
+  };
+
+  const limited = schedule.days.length > 0 || schedule.timeRanges.length > 0 || schedule.startDate || schedule.endDate;
+  return limited ? schedule : null;
+}
+
+/**
+ * Check a schedule from the admin forms
+ * Returns a message for the first problem, or null when it can be saved.
+ */
+export function validateSchedule(schedule: AvailabilitySchedule | null): string | null {
+  if (!schedule) return null;
+
+  for (const range of schedule.timeRanges) {
+    const start = parseTime(range.start);
+    const end = parseTime(range.end);
+    if (start === null || end === null) {
+      return 'Enter a start and end time for each time range';
+    }
+    if (start === end) {
+      return 'A time range cannot start and end at the same time';
+    }
+  }
+  if ((schedule.startDate && !isValidDate(schedule.startDate)) || (schedule.endDate && !isValidDate(schedule.endDate))) {
+    return 'Invalid schedule dates';
+  }
+  if (schedule.startDate && schedule.endDate && schedule.endDate < schedule.startDate) {
+    return 'The schedule cannot end before it starts';
+  }
+  if (!isValidTimezone(schedule.timezone)) {
+    return 'Unknown time zone';
+  }
+  return null;
+}
+
+const isOpenAt = (schedule: AvailabilitySchedule, local: LocalTime): boolean => {
+  const inDates = (date: string) =>
+    (!schedule.startDate || date >= schedule.startDate) && (!schedule.endDate || date <= schedule.endDate);
+  const onDay = (day: number) => schedule.days.length === 0 || schedule.days.includes(day);
+
+  if (schedule.timeRanges.length === 0) {
+    return inDates(local.date) && onDay(local.day);
+  }
+
+  return schedule.timeRanges.some(range => {
+    const start = parseTime(range.start) as number;
+    const end = parseTime(range.end) as number;
+    if (start < end) {
+      return inDates(local.date) && onDay(local.day) && local.minutes >= start && local.minutes < end;
+    }
+    if (local.minutes >= start) {
+      return inDates(local.date) && onDay(local.day);
+    }
+    // The hours after midnight belong to the day the window opened
+    return local.minutes < end && inDates(shiftDate(local.date, -1)) && onDay((local.day + 6) % 7);
+  });
+};
+
+/**
+ * Whether a schedule allows ordering at a moment; no schedule always does
+ */
+export function isScheduleOpen(schedule: AvailabilitySchedule | null | undefined, now: Date = new Date()): boolean {
+  return !schedule || isOpenAt(schedule, toLocalTime(now, schedule.timezone));
+}
+
+/**
+ * The next time a schedule opens after `after`, or null if it never does
+ */
+export function getNextOpening(schedule: AvailabilitySchedule, after: Date): Date | null {
+  const local = toLocalTime(after, schedule.timezone);
+  const firstDate = schedule.startDate && schedule.startDate > local.date ? schedule.startDate : local.date;
+  const starts = schedule.timeRanges.length > 0
+    ? schedule.timeRanges.map(range => parseTime(range.start) as number).sort((a, b) => a - b)
+    : [0];
+
+  for (let offset = 0; offset < LOOKAHEAD_DAYS; offset++) {
+    const date = shiftDate(firstDate, offset);
+    if (schedule.endDate && date > schedule.endDate) return null;
+    if (schedule.days.length > 0 && !schedule.days.includes(dayOfWeek(date))) continue;
+
+    const start = starts.find(minutes => date !== local.date || minutes > local.minutes);
+    if (start !== undefined) {
+      return fromLocalTime(date, start, schedule.timezone);
+    }
+  }
+  return null;
+}
+
+/**
+ * When an opening is, relative to now, in the schedule's time zone
+ */
+export function describeAvailableFrom(at: Date, now: Date, timezone: string = DEFAULT_SCHEDULE_TIMEZONE): string {
+  const when = toLocalTime(at, timezone);
+  const today = toLocalTime(now, timezone).date;
+  const time = formatMinutes(when.minutes);
+
+  if (when.date === today) return `Available from ${time}`;
+  if (when.date === shiftDate(today, 1)) return `Available tomorrow from ${time}`;
+  if (when.date <= shiftDate(today, 6)) return `Available ${WEEKDAY_NAMES[when.day]} from ${time}`;
+
+  const [, month, day] = when.date.split('-').map(Number);
+  return `Available from ${MONTH_LABELS[month - 1]} ${day}`;
+}
+
+/**
+ * Whether something limited by several schedules (an item and its category)
+ * can be ordered now, and if not, when it next can
+ */
+export function getScheduleStatus(
+  schedules: (AvailabilitySchedule | null | undefined)[],
+  now: Date = new Date()
+): ScheduleStatus {
+  const limits = schedules.filter((schedule): schedule is AvailabilitySchedule => Boolean(schedule));
+  let at = now;
+
+  // Each pass moves to the next opening of a schedule that is still closed
+  for (let pass = 0; pass <= limits.length * 4; pass++) {
+    const closed = limits.find(schedule => !isScheduleOpen(schedule, at));
+    if (!closed) {
+      return at === now
+        ? { open: true, availableFrom: null, label: null }
+        : { open: false, availableFrom: at, label: describeAvailableFrom(at, now, limits[0].timezone) };
+    }
+    const next = getNextOpening(closed, at);
+    if (!next) break;
+    at = next;
+  }
+  return { open: false, availableFrom: null, label: null };
+}
+
+/**
+ * A menu item's status from its own and its category's schedule
+ */
+export const getMenuItemScheduleStatus = (
+  item: { schedule?: AvailabilitySchedule | null; categorySchedule?: AvailabilitySchedule | null },
+  now: Date = new Date()
+): ScheduleStatus => getScheduleStatus([item.categorySchedule, item.schedule], now);
+
+/**
+ * A menu_items row's own and category schedule, selected with
+ * CATEGORY_SCHEDULE_SELECT
+ */
+export const toMenuItemSchedules = (row: any) => ({
+  schedule: normalizeSchedule(row?.availability_schedule),
+  categorySchedule: normalizeSchedule(row?.categories?.availability_schedule)
+});
@@ -0,0 +1,134 @@
+import { supabaseServer } from './supabase-server';
+import { SLOT_CLAIM_ERRORS } from './slotCapacity';
+import type { SlotCapacity, SlotUsage } from '../types';
+
+/**
+ * Server-side time-slot capacity
+ * Reads slot usage, claims slots for new orders and lets staff change limits
+ * and block slots. The room checks themselves are in ./slotCapacity.
+ * Only import this from API routes.
+ */
+
+const toSlotKey = (value: string): string => new Date(value).toISOString();
+
+/**
+ * A branch's slot limits, or null if there is no such branch
+ */
+export async function getSlotCapacity(branchId: string): Promise<SlotCapacity | null> {
+  const { data, error } = await (supabaseServer.from('branches' as any) as any)
+    .select('slot_max_orders, slot_max_items')
+    .eq('id', branchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch slot capacity: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return { maxOrders: data.slot_max_orders ?? null, maxItems: data.slot_max_items ?? null };
+}
+
+/**
+ * Orders taken and blocks for every slot in [from, to), keyed by ISO slot start
+ * Slots with no orders and no block are left out.
+ */
+export async function fetchSlotUsage(branchId: string, from: Date, to: Date): Promise<Record<string, SlotUsage>> {
+  const [{ data: orders, error }, { data: blocks, error: blocksError }] = await Promise.all([
+    (supabaseServer.from('orders' as any) as any)
+      .select('slot_start, slot_item_count')
+      .eq('branch_id', branchId)
+      .neq('status', 'cancelled')
+      .gte('slot_start', from.toISOString())
+      .lt('slot_start', to.toISOString()),
+    (supabaseServer.from('branch_slot_blocks' as any) as any)
+      .select('slot_start')
+      .eq('branch_id', branchId)
+      .gte('slot_start', from.toISOString())
+      .lt('slot_start', to.toISOString())
+  ]);
+
+  if (error || blocksError) {
+    throw new Error(`Failed to fetch slot usage: ${(error || blocksError).message}`);
+  }
+
+  const usage: Record<string, SlotUsage> = {};
+  const slotFor = (start: string) => {
+    if (!usage[start]) usage[start] = { start, orders: 0, items: 0, blocked: false };
+    return usage[start];
+  };
+
+  for (const order of orders || []) {
+    const slot = slotFor(toSlotKey(order.slot_start));
+    slot.orders += 1;
+    slot.items += Number(order.slot_item_count) || 0;
+  }
+  for (const block of blocks || []) {
+    slotFor(toSlotKey(block.slot_start)).blocked = true;
+  }
+  return usage;
+}
+
+/**
+ * Count an order against its slot
+ * Returns null on success, or why the slot refused it.
+ */
+export async function claimOrderSlot(
+  orderId: string,
+  branchId: string,
+  slotStart: Date,
+  itemCount: number
+): Promise<string | null> {
+  const { data, error } = await (supabaseServer as any).rpc('claim_order_slot', {
+    p_order_id: orderId,
+    p_branch_id: branchId,
+    p_slot_start: slotStart.toISOString(),
+    p_item_count: itemCount
+  });
+
+  if (error) {
+    console.error('Error claiming order slot:', error);
+    return 'Failed to reserve your time slot';
+  }
+
+  return data ? SLOT_CLAIM_ERRORS[data] || 'That time is no longer available' : null;
+}
+
+/**
+ * Change a branch's slot limits
+ */
+export async function updateSlotCapacity(branchId: string, capacity: SlotCapacity): Promise<void> {
+  const { error } = await (supabaseServer.from('branches' as any) as any)
+    .update({
+      slot_max_orders: capacity.maxOrders,
+      slot_max_items: capacity.maxItems,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', branchId);
+
+  if (error) {
+    throw new Error(`Failed to update slot capacity: ${error.message}`);
+  }
+}
+
+/**
+ * Close a slot to new orders, or open it again
+ * Orders already in the slot are kept either way.
+ */
+export async function setSlotBlocked(
+  branchId: string,
+  slotStart: Date,
+  blocked: boolean,
+  actorName: string
+): Promise<void> {
+  const table = supabaseServer.from('branch_slot_blocks' as any) as any;
+  const { error } = blocked
+    ? await table.upsert(
+      { branch_id: branchId, slot_start: slotStart.toISOString(), created_by: actorName },
+      { onConflict: 'branch_id,slot_start', ignoreDuplicates: true }
+    )
+    : await table.delete().eq('branch_id', branchId).eq('slot_start', slotStart.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to ${blocked ? 'block' : 'unblock'} slot: ${error.message}`);
+  }
+}
@@ -0,0 +1,115 @@
+import type { SlotCapacity, SlotUsage } from '../types';
+import { ORDER_AHEAD_SLOT_MINUTES, getEarliestSlot } from './orderAhead';
+import type { OrderAheadSettings } from './orderAhead';
+import { fromLocalTime, shiftDate, toLocalTime } from './schedule';
+
+/**
+ * Time-slot capacity
+ * A branch can cap how many orders, or how many items, it takes per 15-minute
+ * slot, and block slots outright. Every order for a branch counts against one
+ * slot: its scheduled time, or for orders wanted as soon as possible the first
+ * slot a customer could schedule. POST /api/orders claims the slot with
+ * `claim_order_slot`, so two customers cannot both take the last place.
+ */
+
+export const NO_SLOT_LIMIT: SlotCapacity = { maxOrders: null, maxItems: null };
+
+export const SLOT_CLAIM_ERRORS: Record<string, string> = {
+  blocked: 'That time is no longer taking orders. Please pick another time.',
+  full: 'That time just filled up. Please pick another time.'
+};
+
+const SLOT_MS = ORDER_AHEAD_SLOT_MINUTES * 60 * 1000;
+
+/**
+ * The slot an order counts against
+ */
+export const getOrderSlotStart = (scheduledFor: Date | null, now: Date, settings: OrderAheadSettings): Date =>
+  scheduledFor || getEarliestSlot(now, settings);
+
+/**
+ * Items in a cart, counting quantities
+ */
+export const countOrderItems = (cartItems: { quantity?: unknown }[]): number =>
+  cartItems.reduce((sum, item) => {
+    const quantity = Number(item?.quantity);
+    return sum + (Number.isInteger(quantity) && quantity > 0 ? quantity : 0);
+  }, 0);
+
+/**
+ * Whether one more order of `itemCount` items fits in a slot
+ * Slots nobody has ordered for yet have no usage entry.
+ */
+export function hasRoom(usage: SlotUsage | undefined, capacity: SlotCapacity, itemCount: number): boolean {
+  if (usage?.blocked) return false;
+
+  const orders = usage?.orders ?? 0;
+  const items = usage?.items ?? 0;
+  return (capacity.maxOrders === null || orders + 1 <= capacity.maxOrders) &&
+    (capacity.maxItems === null || items + itemCount <= capacity.maxItems);
+}
+
+/**
+ * The slots customers can order for right now: from the earliest slot to the
+ * end of the last order-ahead day, or just the earliest slot when ordering
+ * ahead is off
+ */
+export function getSlotWindow(now: Date, settings: OrderAheadSettings): { from: Date; to: Date } {
+  const from = getEarliestSlot(now, settings);
+  if (settings.maxDays <= 0) {
+    return { from, to: new Date(from.getTime() + SLOT_MS) };
+  }
+  const lastDate = shiftDate(toLocalTime(now, settings.timezone).date, settings.maxDays);
+  return { from, to: fromLocalTime(shiftDate(lastDate, 1), 0, settings.timezone) };
+}
+
+/**
+ * Every slot start in a local day
+ */
+export function getDaySlotStarts(date: string, timezone: string): Date[] {
+  const starts: Date[] = [];
+  const end = fromLocalTime(shiftDate(date, 1), 0, timezone).getTime();
+  for (let at = fromLocalTime(date, 0, timezone).getTime(); at < end; at += SLOT_MS) {
+    starts.push(new Date(at));
+  }
+  return starts;
+}
+
+/**
+ * Used slots that cannot take one more order of `itemCount` items
+ */
+export const listUnavailableSlots = (
+  usage: Record<string, SlotUsage>,
+  capacity: SlotCapacity,
+  itemCount: number
+): string[] =>
+  Object.values(usage)
+    .filter(slot => !hasRoom(slot, capacity, itemCount))
+    .map(slot => slot.start)
+    .sort();
+
+/**
+ * A slot start from a request, or null unless it is on the quarter hour
+ */
+export function parseSlotStart(value: unknown): Date | null {
+  const at = typeof value === 'string' ? new Date(value) : null;
+  return at && !Number.isNaN(at.getTime()) && at.getTime() % SLOT_MS === 0 ? at : null;
+}
+
+const toLimit = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined || value === '') return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+};
+
+/**
+ * Check a capacity update from the admin
+ */
+export function parseSlotCapacityInput(body: any): { capacity: SlotCapacity } | { error: string } {
+  const maxOrders = toLimit(body?.maxOrders);
+  const maxItems = toLimit(body?.maxItems);
+  if (maxOrders === undefined || maxItems === undefined) {
+    return { error: 'Slot limits must be whole numbers above zero, or empty for no limit' };
+  }
+  return { capacity: { maxOrders, maxItems } };
+}
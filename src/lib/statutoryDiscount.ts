@@ -0,0 +1,105 @@
+import type { StatutoryDiscountClaim, StatutoryDiscountType } from '../types';
+import { roundCurrency, sumLineTotals } from './pricing';
+
+/**
+ * Senior citizen / PWD discount
+ * Eligible lines are VAT-exempt and get 20% off the price net of VAT
+ * (RA 9994 and RA 10754). Pure so the checkout preview and POST /api/orders
+ * agree. Only lines for the senior's / PWD's own use are eligible, and the
+ * delivery fee never is.
+ */
+
+export const VAT_RATE = 0.12;
+export const STATUTORY_DISCOUNT_RATE = 0.2;
+
+export const STATUTORY_DISCOUNT_TYPES: StatutoryDiscountType[] = ['senior', 'pwd'];
+
+export const STATUTORY_DISCOUNT_LABELS: Record<StatutoryDiscountType, string> = {
+  senior: 'Senior Citizen',
+  pwd: 'PWD'
+};
+
+export interface StatutoryLineBreakdown {
+  /** Line total net of VAT */
+  vatExemptBase: number;
+  /** VAT removed from the line */
+  vatExemption: number;
+  /** 20% of the VAT-exempt base */
+  discount: number;
+  /** What the customer pays for the line */
+  amountDue: number;
+}
+
+export interface StatutoryDiscountBreakdown {
+  /** Per line, in cart order; null for lines that are not eligible */
+  lines: (StatutoryLineBreakdown | null)[];
+  vatExemptSales: number;
+  vatExemption: number;
+  discount: number;
+  /** VAT exemption plus discount, i.e. how much comes off the order */
+  totalDeduction: number;
+}
+
+/**
+ * VAT-exempt base and discount for one VAT-inclusive line total
+ */
+export function calculateStatutoryLine(lineTotal: number): StatutoryLineBreakdown {
+  const vatExemptBase = roundCurrency(lineTotal / (1 + VAT_RATE));
+  const vatExemption = roundCurrency(lineTotal - vatExemptBase);
+  const discount = roundCurrency(vatExemptBase * STATUTORY_DISCOUNT_RATE);
+
+  return {
+    vatExemptBase,
+    vatExemption,
+    discount,
+    amountDue: roundCurrency(vatExemptBase - discount)
+  };
+}
+
+/**
+ * Breakdown for a cart, given each line's total and whether it is eligible
+ */
+export function calculateStatutoryDiscount(
+  lines: { lineTotal: number; eligible: boolean }[]
+): StatutoryDiscountBreakdown {
+  const breakdown = lines.map(line => line.eligible ? calculateStatutoryLine(line.lineTotal) : null);
+  const eligible = breakdown.filter((line): line is StatutoryLineBreakdown => line !== null);
+
+  const vatExemption = sumLineTotals(eligible.map(line => line.vatExemption));
+  const discount = sumLineTotals(eligible.map(line => line.discount));
+
+  return {
+    lines: breakdown,
+    vatExemptSales: sumLineTotals(eligible.map(line => line.vatExemptBase)),
+    vatExemption,
+    discount,
+    totalDeduction: roundCurrency(vatExemption + discount)
+  };
+}
+
+const toTrimmedString = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+
+/**
+ * Validate the discount claim sent with an order
+ */
+export function parseStatutoryClaim(value: any): { claim: StatutoryDiscountClaim } | { error: string } {
+  if (!STATUTORY_DISCOUNT_TYPES.includes(value?.type)) {
+    return { error: 'Invalid senior citizen / PWD discount type' };
+  }
+
+  const name = toTrimmedString(value.name, 120);
+  const idNumber = toTrimmedString(value.idNumber, 50);
+  if (!name || !idNumber) {
+    return { error: `Enter the name and ID number on the ${STATUTORY_DISCOUNT_LABELS[value.type as StatutoryDiscountType]} ID` };
+  }
+
+  const lineIds = Array.isArray(value.lineIds)
+    ? value.lineIds.filter((id: unknown): id is string => typeof id === 'string')
+    : [];
+  if (lineIds.length === 0) {
+    return { error: 'Choose the items for the senior citizen or PWD' };
+  }
+
+  return { claim: { type: value.type, name, idNumber, lineIds } };
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from './supabase';
+import type { SiteSettings } from '../types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -47,35 +48,62 @@ export function getClientIP(request: Request): string {
 }
 
 /**
- * Admin password (should match client-side)
+ * Fetch site settings from database
  */
-const ADMIN_PASSWORD = 'Starrs@Admin!2025';
+export async function getSiteSettings(): Promise<SiteSettings | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from('site_settings')
+      .select('*')
+      .order('id');
 
-/**
- * Generate admin auth token from password
- * Simple hash for verification
- */
-function generateAdminToken(): string {
-  // Simple token generation - in production, use a more secure method
-  // For now, using a base64-like encoding of the password
-  return Buffer.from(ADMIN_PASSWORD).toString('base64');
-}
-
-/**
- * Check if a request is from an authenticated admin
- * Verifies the X-Admin-Auth header matches the admin token
- */
-export function isAdminRequest(request: Request): boolean {
-  const adminAuthHeader = request.headers.get('x-admin-auth');
-  
-  if (!adminAuthHeader) {
-    return false;
-  }
-  
-  // Verify the token matches
-  const expectedToken = generateAdminToken();
-  return adminAuthHeader === expectedToken;
-}
+    if (error) {
+      console.error('Error fetching site settings:', error);
+      return null;
+    }
 
+    const settingsLookup: Record<string, string> = {};
+    (data || []).forEach((setting: any) => {
+      settingsLookup[setting.id] = setting.value;
+    });
 
+    const getValue = (key: string, fallback = '') =>
+      settingsLookup[key] ?? fallback;
 
+    return {
+      site_name: getValue('site_name', 'Beracah Cafe'),
+      site_logo: getValue('site_logo', ''),
+      site_description: getValue('site_description', ''),
+      currency: getValue('currency', 'PHP'),
+      currency_code: getValue('currency_code', 'PHP'),
+      lalamove_market: getValue('lalamove_market', ''),
+      lalamove_service_type: getValue('lalamove_service_type', ''),
+      lalamove_sandbox: getValue('lalamove_sandbox', 'true'),
+      lalamove_api_key: getValue('lalamove_api_key', ''),
+      lalamove_api_secret: getValue('lalamove_api_secret', ''),
+      lalamove_store_name: getValue('lalamove_store_name', ''),
+      lalamove_store_phone: getValue('lalamove_store_phone', ''),
+      lalamove_store_address: getValue('lalamove_store_address', ''),
+      lalamove_store_latitude: getValue('lalamove_store_latitude', ''),
+      lalamove_store_longitude: getValue('lalamove_store_longitude', ''),
+      rate_limit_enabled: getValue('rate_limit_enabled', 'true'),
+      rate_limit_ip_max: getValue('rate_limit_ip_max', '5'),
+      rate_limit_ip_window_minutes: getValue('rate_limit_ip_window_minutes', '10'),
+      rate_limit_phone_max: getValue('rate_limit_phone_max', '3'),
+      rate_limit_phone_window_minutes: getValue('rate_limit_phone_window_minutes', '10'),
+      rate_limit_session_max: getValue('rate_limit_session_max', '2'),
+      rate_limit_session_window_minutes: getValue('rate_limit_session_window_minutes', '5'),
+      order_ahead_max_days: getValue('order_ahead_max_days', '7'),
+      order_ahead_lead_minutes: getValue('order_ahead_lead_minutes', '30'),
+      delivery_min_order: getValue('delivery_min_order', '0'),
+      delivery_free_above: getValue('delivery_free_above', '0'),
+      delivery_subsidy_type: getValue('delivery_subsidy_type', 'none'),
+      delivery_subsidy_value: getValue('delivery_subsidy_value', '0'),
+      delivery_markup: getValue('delivery_markup', '0'),
+      delivery_fee_rounding: getValue('delivery_fee_rounding', 'none')
+    };
+  } catch (error) {
+    console.error('Error fetching site settings:', error);
+    return null;
+  }
+}
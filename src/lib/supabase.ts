@@ -220,10 +220,19 @@ export type Database = {
           updated_at: string;
           completed_at: string | null;
           delivery_fee: number | null;
+          delivery_courier_cost: number | null;
           lalamove_quotation_id: string | null;
           lalamove_order_id: string | null;
           lalamove_status: string | null;
           lalamove_tracking_url: string | null;
+          lalamove_driver_id: string | null;
+          lalamove_driver_name: string | null;
+          lalamove_driver_phone: string | null;
+          lalamove_driver_plate: string | null;
+          lalamove_price: number | null;
+          lalamove_status_updated_at: string | null;
+          delivery_lat: number | null;
+          delivery_lng: number | null;
         };
         Insert: {
           id?: string;
@@ -246,10 +255,19 @@ export type Database = {
           updated_at?: string;
           completed_at?: string | null;
           delivery_fee?: number | null;
+          delivery_courier_cost?: number | null;
           lalamove_quotation_id?: string | null;
           lalamove_order_id?: string | null;
           lalamove_status?: string | null;
           lalamove_tracking_url?: string | null;
+          lalamove_driver_id?: string | null;
+          lalamove_driver_name?: string | null;
+          lalamove_driver_phone?: string | null;
+          lalamove_driver_plate?: string | null;
+          lalamove_price?: number | null;
+          lalamove_status_updated_at?: string | null;
+          delivery_lat?: number | null;
+          delivery_lng?: number | null;
         };
         Update: {
           id?: string;
@@ -272,10 +290,19 @@ export type Database = {
           updated_at?: string;
           completed_at?: string | null;
           delivery_fee?: number | null;
+          delivery_courier_cost?: number | null;
           lalamove_quotation_id?: string | null;
           lalamove_order_id?: string | null;
           lalamove_status?: string | null;
           lalamove_tracking_url?: string | null;
+          lalamove_driver_id?: string | null;
+          lalamove_driver_name?: string | null;
+          lalamove_driver_phone?: string | null;
+          lalamove_driver_plate?: string | null;
+          lalamove_price?: number | null;
+          lalamove_status_updated_at?: string | null;
+          delivery_lat?: number | null;
+          delivery_lng?: number | null;
         };
       };
       order_items: {
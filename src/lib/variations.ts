@@ -0,0 +1,164 @@
+import type {
+  MenuItem,
+  Variation,
+  VariationChoice,
+  VariationDimension,
+  VariationPriceOverride
+} from '../types';
+import { roundCurrency } from './pricing';
+
+/**
+ * Variation dimensions
+ * An item can have several independent choices (size × temperature ×
+ * sweetness), each option adding a price delta, with optional fixed prices
+ * for exact combinations. The picked combination travels as one Variation
+ * (id = its option ids, price = deltas or override) so the cart, pricing and
+ * order_items.selected_variation work as they do for flat variations.
+ */
+
+// Embed for menu_items selects: dimensions with their options, and overrides
+export const VARIATION_DIMENSIONS_SELECT = `
+  variation_dimensions (
+    *,
+    variation_dimension_options (*)
+  ),
+  variation_price_overrides (*)`;
+
+// What the customer picked for one dimension, before it is checked against the menu
+export interface VariationPick {
+  dimensionId: string;
+  optionId: string;
+}
+
+const bySortOrder = (a: any, b: any) => (a.sort_order ?? 0) - (b.sort_order ?? 0);
+
+export const hasVariationDimensions = (item: Pick<MenuItem, 'variationDimensions'>): boolean =>
+  (item.variationDimensions?.length || 0) > 0;
+
+/**
+ * Stable key for a combination, whatever order the options come in
+ */
+export const getCombinationKey = (optionIds: string[]): string => [...optionIds].sort().join(',');
+
+/**
+ * Map embedded variation_dimensions rows to the app's shape
+ */
+export function toVariationDimensions(rows: any[] | null | undefined): VariationDimension[] {
+  return [...(rows || [])].sort(bySortOrder).map(dimension => ({
+    id: dimension.id,
+    name: dimension.name,
+    options: [...(dimension.variation_dimension_options || [])].sort(bySortOrder).map(option => ({
+      id: option.id,
+      name: option.name,
+      priceDelta: Number(option.price_delta ?? 0)
+    }))
+  }));
+}
+
+/**
+ * Map embedded variation_price_overrides rows to the app's shape
+ * With `dimensions`, option ids are listed in dimension order (as the admin
+ * form edits them) rather than the sorted order they are stored in.
+ */
+export function toVariationOverrides(rows: any[] | null | undefined, dimensions?: VariationDimension[]): VariationPriceOverride[] {
+  return (rows || []).map(row => {
+    const optionIds: string[] = Array.isArray(row.option_ids) ? row.option_ids : [];
+    return {
+      id: row.id,
+      optionIds: dimensions
+        ? dimensions.map(dimension => optionIds.find(id => dimension.options.some(option => option.id === id)))
+        : optionIds,
+      price: Number(row.price)
+    };
+  });
+}
+
+/**
+ * Price of a combination: its override if there is one, else the summed deltas
+ */
+export function getCombinationPrice(choices: Pick<VariationChoice, 'optionId' | 'priceDelta'>[], overrides: VariationPriceOverride[]): number {
+  const key = getCombinationKey(choices.map(choice => choice.optionId));
+  const override = overrides.find(entry => getCombinationKey(entry.optionIds) === key);
+  return override ? override.price : roundCurrency(choices.reduce((sum, choice) => sum + choice.priceDelta, 0));
+}
+
+/**
+ * Check one pick per dimension and build the combined Variation
+ * Names and prices always come from `dimensions`, never from the picks.
+ */
+export function resolveVariationChoice(
+  dimensions: VariationDimension[],
+  overrides: VariationPriceOverride[],
+  picks: VariationPick[] | null | undefined
+): { variation: Variation } | { error: string } {
+  const list = Array.isArray(picks) ? picks : [];
+
+  if (list.some(pick => !dimensions.some(dimension => dimension.id === pick?.dimensionId))) {
+    return { error: 'A choice no longer matches this item' };
+  }
+
+  const choices: VariationChoice[] = [];
+  for (const dimension of dimensions) {
+    const dimensionPicks = list.filter(pick => pick.dimensionId === dimension.id);
+    if (dimensionPicks.length !== 1) {
+      return { error: `Choose a ${dimension.name.toLowerCase()}` };
+    }
+
+    const option = dimension.options.find(entry => entry.id === dimensionPicks[0].optionId);
+    if (!option) {
+      return { error: `Your ${dimension.name.toLowerCase()} choice is no longer available` };
+    }
+
+    choices.push({
+      dimensionId: dimension.id,
+      dimensionName: dimension.name,
+      optionId: option.id,
+      name: option.name,
+      priceDelta: option.priceDelta
+    });
+  }
+
+  return {
+    variation: {
+      id: getCombinationKey(choices.map(choice => choice.optionId)),
+      name: choices.map(choice => choice.name).join(' / '),
+      price: getCombinationPrice(choices, overrides),
+      options: choices
+    }
+  };
+}
+
+/**
+ * Every combination of one option per dimension
+ */
+export function listCombinations(dimensions: VariationDimension[]): VariationChoice[][] {
+  return dimensions.reduce<VariationChoice[][]>(
+    (combinations, dimension) =>
+      combinations.flatMap(combination =>
+        dimension.options.map(option => [
+          ...combination,
+          { dimensionId: dimension.id, dimensionName: dimension.name, optionId: option.id, name: option.name, priceDelta: option.priceDelta }
+        ])
+      ),
+    [[]]
+  );
+}
+
+/**
+ * Cheapest combination's price, for "from ₱" prices
+ */
+export function getMinVariationPrice(dimensions: VariationDimension[], overrides: VariationPriceOverride[]): number {
+  const prices = listCombinations(dimensions).map(combination => getCombinationPrice(combination, overrides));
+  return prices.length > 0 ? Math.min(...prices) : 0;
+}
+
+/**
+ * Label for a chosen variation, e.g. "Size: Large · Temperature: Iced"
+ * Flat variations are sizes.
+ */
+export function describeVariation(variation: Pick<Variation, 'name' | 'options'>): string {
+  if (variation.options && variation.options.length > 0) {
+    return variation.options.map(choice => `${choice.dimensionName}: ${choice.name}`).join(' · ');
+  }
+  return `Size: ${variation.name}`;
+}
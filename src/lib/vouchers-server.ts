@@ -0,0 +1,355 @@
+import { supabaseServer } from './supabase-server';
+import { normalizePhone } from './lalamove-server';
+import { roundCurrency } from './pricing';
+import { VOUCHER_DISCOUNT_TYPES, calculateVoucherDiscount, normalizeVoucherCode } from './vouchers';
+import type { VoucherLine } from './vouchers';
+import type { PricedOrder, PricedOrderLine, PricingResult } from './orderPricing';
+import type { ServiceType, Voucher } from '../types';
+
+/**
+ * Server-side vouchers
+ * Looks codes up, enforces usage limits and records redemptions. The discount
+ * itself is worked out by calculateVoucherDiscount in ./vouchers.
+ * Only import this from API routes.
+ */
+
+export interface VoucherCheckContext {
+  serviceType: string;
+  branchId: string | null;
+  contactNumber: string | null;
+}
+
+const SERVICE_TYPES: ServiceType[] = ['dine-in', 'pickup', 'delivery'];
+
+const REDEMPTION_ERRORS: Record<string, string> = {
+  inactive: 'This voucher is no longer active',
+  usage_limit: 'This voucher has been fully redeemed',
+  per_customer_limit: 'You have already used this voucher the maximum number of times'
+};
+
+const toNumberOrNull = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+/**
+ * Map a vouchers row to the app's Voucher shape
+ */
+export function toVoucher(row: any): Voucher {
+  return {
+    id: row.id,
+    code: row.code,
+    description: row.description,
+    discount_type: row.discount_type,
+    discount_value: Number(row.discount_value),
+    max_discount: toNumberOrNull(row.max_discount),
+    min_spend: Number(row.min_spend),
+    usage_limit: row.usage_limit,
+    per_customer_limit: row.per_customer_limit,
+    starts_at: row.starts_at,
+    ends_at: row.ends_at,
+    branch_ids: row.branch_ids || [],
+    service_types: row.service_types || [],
+    category_ids: row.category_ids || [],
+    menu_item_ids: row.menu_item_ids || [],
+    active: row.active,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+/**
+ * Contact number as stored on redemptions, so 0917... and +63917... match
+ */
+const toCustomerPhone = (contactNumber: string): string =>
+  normalizePhone(contactNumber).replace(/\D/g, '');
+
+/**
+ * Count redemptions on orders that were not cancelled
+ */
+async function countRedemptions(voucherId: string, customerPhone?: string): Promise<number> {
+  let query = (supabaseServer.from('voucher_redemptions' as any) as any)
+    .select('id, orders!inner(status)', { count: 'exact', head: true })
+    .eq('voucher_id', voucherId)
+    .neq('orders.status', 'cancelled');
+
+  if (customerPhone) {
+    query = query.eq('customer_phone', customerPhone);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count voucher redemptions: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+/**
+ * Categories of the priced lines, for vouchers limited to some categories
+ */
+async function toVoucherLines(lines: PricedOrderLine[], voucher: Voucher): Promise<VoucherLine[]> {
+  const categories = new Map<string, string>();
+
+  if (voucher.category_ids.length > 0) {
+    const { data, error } = await supabaseServer
+      .from('menu_items')
+      .select('id, category')
+      .in('id', lines.map(line => line.menu_item_id));
+
+    if (error) {
+      throw new Error(`Failed to load menu categories: ${error.message}`);
+    }
+    ((data || []) as any[]).forEach(item => categories.set(item.id, item.category));
+  }
+
+  return lines.map(line => ({
+    menuItemId: line.menu_item_id,
+    category: categories.get(line.menu_item_id) ?? null,
+    lineTotal: line.total_price
+  }));
+}
+
+/**
+ * Check a code against a priced cart, including usage limits
+ * Usage limits are checked again, under a lock, when the order is placed.
+ */
+export async function checkVoucher(
+  code: unknown,
+  priced: { lines: PricedOrderLine[]; subtotal: number; deliveryFee: number | null },
+  context: VoucherCheckContext
+): Promise<{ voucher: Voucher; discount: number } | { error: string; status: number }> {
+  const normalized = normalizeVoucherCode(code);
+  if (!normalized) {
+    return { error: 'Enter a voucher code', status: 400 };
+  }
+
+  try {
+    const { data, error } = await (supabaseServer.from('vouchers' as any) as any)
+      .select('*')
+      .eq('code', normalized)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return { error: 'Voucher code not found', status: 404 };
+    }
+
+    const voucher = toVoucher(data);
+    const result = calculateVoucherDiscount(voucher, {
+      lines: await toVoucherLines(priced.lines, voucher),
+      subtotal: priced.subtotal,
+      deliveryFee: priced.deliveryFee,
+      serviceType: context.serviceType,
+      branchId: context.branchId
+    });
+
+    if ('error' in result) {
+      return { error: result.error, status: 400 };
+    }
+
+    if (voucher.usage_limit !== null && await countRedemptions(voucher.id) >= voucher.usage_limit) {
+      return { error: REDEMPTION_ERRORS.usage_limit, status: 400 };
+    }
+
+    const customerPhone = context.contactNumber ? toCustomerPhone(context.contactNumber) : '';
+    if (voucher.per_customer_limit !== null && customerPhone &&
+        await countRedemptions(voucher.id, customerPhone) >= voucher.per_customer_limit) {
+      return { error: REDEMPTION_ERRORS.per_customer_limit, status: 400 };
+    }
+
+    return { voucher, discount: result.discount };
+  } catch (error) {
+    console.error('Error checking voucher:', error);
+    return { error: 'Failed to check voucher', status: 500 };
+  }
+}
+
+/**
+ * Take a voucher's discount off a priced order
+ */
+export async function applyVoucher(
+  order: PricedOrder,
+  code: unknown,
+  context: VoucherCheckContext
+): Promise<PricingResult> {
+  const checked = await checkVoucher(code, order, context);
+  if ('error' in checked) {
+    return checked;
+  }
+
+  return {
+    order: {
+      ...order,
+      discount: checked.discount,
+      voucher: checked.voucher,
+      total: roundCurrency(order.subtotal + (order.deliveryFee ?? 0) - checked.discount)
+    }
+  };
+}
+
+/**
+ * Record a redemption for a newly created order
+ * Returns null on success, or a customer-facing reason the voucher was refused.
+ */
+export async function redeemVoucher(
+  voucherId: string,
+  orderId: string,
+  contactNumber: string,
+  discount: number
+): Promise<string | null> {
+  const { data, error } = await (supabaseServer as any).rpc('redeem_voucher', {
+    p_voucher_id: voucherId,
+    p_order_id: orderId,
+    p_customer_phone: toCustomerPhone(contactNumber),
+    p_discount: discount
+  });
+
+  if (error) {
+    console.error('Error redeeming voucher:', error);
+    return 'Failed to redeem voucher';
+  }
+
+  return data ? REDEMPTION_ERRORS[data] || 'This voucher can no longer be used' : null;
+}
+
+/**
+ * Every voucher with its redemption count and total discount given
+ */
+export async function listVouchers(): Promise<Voucher[]> {
+  const [{ data: rows, error }, { data: redemptions, error: redemptionsError }] = await Promise.all([
+    (supabaseServer.from('vouchers' as any) as any)
+      .select('*')
+      .order('created_at', { ascending: false }),
+    (supabaseServer.from('voucher_redemptions' as any) as any)
+      .select('voucher_id, discount_amount, orders!inner(status)')
+      .neq('orders.status', 'cancelled')
+  ]);
+
+  if (error || redemptionsError) {
+    throw new Error(`Failed to fetch vouchers: ${(error || redemptionsError).message}`);
+  }
+
+  const stats = new Map<string, { count: number; total: number }>();
+  ((redemptions || []) as any[]).forEach(redemption => {
+    const entry = stats.get(redemption.voucher_id) || { count: 0, total: 0 };
+    entry.count += 1;
+    entry.total = roundCurrency(entry.total + Number(redemption.discount_amount));
+    stats.set(redemption.voucher_id, entry);
+  });
+
+  return ((rows || []) as any[]).map(row => ({
+    ...toVoucher(row),
+    redemption_count: stats.get(row.id)?.count ?? 0,
+    discount_total: stats.get(row.id)?.total ?? 0
+  }));
+}
+
+const toStringArray = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string') ? value : null;
+
+const toOptionalPositiveInt = (value: unknown): number | null | undefined => {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const toOptionalDate = (value: unknown): string | null | undefined => {
+  if (value === null || value === '') return null;
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+};
+
+/**
+ * Validate a create/update body from the voucher manager
+ * With `partial`, only the fields present are checked and returned.
+ */
+export function parseVoucherInput(
+  body: any,
+  partial = false
+): { values: Record<string, unknown> } | { error: string } {
+  const values: Record<string, unknown> = {};
+  const has = (field: string) => body?.[field] !== undefined;
+  const required = (field: string) => !partial || has(field);
+
+  if (required('code')) {
+    const code = normalizeVoucherCode(body?.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      return { error: 'Code must be 3-32 letters, numbers, dashes or underscores' };
+    }
+    values.code = code;
+  }
+
+  if (has('description')) {
+    values.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (required('discount_type')) {
+    if (!VOUCHER_DISCOUNT_TYPES.includes(body?.discount_type)) {
+      return { error: 'Invalid discount type' };
+    }
+    values.discount_type = body.discount_type;
+  }
+
+  if (has('discount_value') || (!partial && body?.discount_type !== 'free_delivery')) {
+    const value = Number(body?.discount_value);
+    if (!Number.isFinite(value) || value < 0 || (body?.discount_type === 'percentage' && value > 100)) {
+      return { error: 'Invalid discount value' };
+    }
+    values.discount_value = roundCurrency(value);
+  }
+
+  if (has('max_discount')) {
+    const value = body.max_discount === null || body.max_discount === '' ? null : Number(body.max_discount);
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+      return { error: 'Invalid maximum discount' };
+    }
+    values.max_discount = value;
+  }
+
+  if (has('min_spend')) {
+    const value = Number(body.min_spend || 0);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: 'Invalid minimum spend' };
+    }
+    values.min_spend = roundCurrency(value);
+  }
+
+  for (const field of ['usage_limit', 'per_customer_limit']) {
+    if (has(field)) {
+      const value = toOptionalPositiveInt(body[field]);
+      if (value === undefined) {
+        return { error: `Invalid ${field.replace(/_/g, ' ')}` };
+      }
+      values[field] = value;
+    }
+  }
+
+  for (const field of ['starts_at', 'ends_at']) {
+    if (has(field)) {
+      const value = toOptionalDate(body[field]);
+      if (value === undefined) {
+        return { error: `Invalid ${field === 'starts_at' ? 'start' : 'end'} date` };
+      }
+      values[field] = value;
+    }
+  }
+
+  if (values.starts_at && values.ends_at && String(values.starts_at) >= String(values.ends_at)) {
+    return { error: 'End date must be after the start date' };
+  }
+
+  for (const field of ['branch_ids', 'service_types', 'category_ids', 'menu_item_ids']) {
+    if (has(field)) {
+      const value = toStringArray(body[field]);
+      if (!value || (field === 'service_types' && value.some(type => !SERVICE_TYPES.includes(type as ServiceType)))) {
+        return { error: `Invalid ${field.replace(/_/g, ' ')}` };
+      }
+      values[field] = value;
+    }
+  }
+
+  if (has('active')) {
+    values.active = Boolean(body.active);
+  }
+
+  return { values };
+}
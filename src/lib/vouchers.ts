@@ -0,0 +1,127 @@
+import type { ServiceType, Voucher, VoucherDiscountType } from '../types';
+import { roundCurrency } from './pricing';
+
+/**
+ * Voucher rules
+ * Decides whether a voucher applies to a priced cart and how much it takes
+ * off. Pure so the checkout preview and POST /api/orders agree; usage limits
+ * need the database and are checked in vouchers-server.
+ */
+
+export const VOUCHER_DISCOUNT_TYPES: VoucherDiscountType[] = ['percentage', 'fixed', 'free_delivery'];
+
+export const VOUCHER_TYPE_LABELS: Record<VoucherDiscountType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  free_delivery: 'Free delivery'
+};
+
+// One priced cart line, as far as eligibility is concerned
+export interface VoucherLine {
+  menuItemId: string;
+  category: string | null;
+  lineTotal: number;
+}
+
+export interface VoucherContext {
+  lines: VoucherLine[];
+  subtotal: number;
+  /** Delivery fee being charged, or null when not known yet */
+  deliveryFee: number | null;
+  serviceType: ServiceType | string;
+  branchId: string | null;
+  now?: Date;
+}
+
+/**
+ * Codes are matched ignoring case and surrounding spaces
+ */
+export const normalizeVoucherCode = (code: unknown): string =>
+  typeof code === 'string' ? code.trim().toUpperCase() : '';
+
+/**
+ * Whether the voucher only discounts some categories or items
+ */
+export const hasItemRestrictions = (voucher: Voucher): boolean =>
+  voucher.category_ids.length > 0 || voucher.menu_item_ids.length > 0;
+
+/**
+ * Short customer-facing summary, e.g. "10% off (up to ₱100)"
+ */
+export function describeVoucher(voucher: Pick<Voucher, 'discount_type' | 'discount_value' | 'max_discount'>): string {
+  switch (voucher.discount_type) {
+    case 'percentage':
+      return `${voucher.discount_value}% off${voucher.max_discount ? ` (up to ₱${voucher.max_discount})` : ''}`;
+    case 'fixed':
+      return `₱${voucher.discount_value} off`;
+    case 'free_delivery':
+      return 'Free delivery';
+  }
+}
+
+/**
+ * Work out the discount a voucher gives on a cart
+ * The minimum spend is measured on the whole cart subtotal; percentage and
+ * fixed discounts only come off the eligible lines and never exceed them.
+ */
+export function calculateVoucherDiscount(
+  voucher: Voucher,
+  context: VoucherContext
+): { discount: number } | { error: string } {
+  const now = context.now ?? new Date();
+
+  if (!voucher.active) {
+    return { error: 'This voucher is no longer active' };
+  }
+
+  if (voucher.starts_at && now < new Date(voucher.starts_at)) {
+    return { error: 'This voucher is not valid yet' };
+  }
+
+  if (voucher.ends_at && now > new Date(voucher.ends_at)) {
+    return { error: 'This voucher has expired' };
+  }
+
+  if (voucher.service_types.length > 0 && !voucher.service_types.includes(context.serviceType as ServiceType)) {
+    return { error: `This voucher is only valid for ${voucher.service_types.join(' or ')} orders` };
+  }
+
+  if (voucher.discount_type === 'free_delivery' && context.serviceType !== 'delivery') {
+    return { error: 'This voucher is only valid for delivery orders' };
+  }
+
+  if (voucher.branch_ids.length > 0 && (!context.branchId || !voucher.branch_ids.includes(context.branchId))) {
+    return { error: 'This voucher is not valid at the selected branch' };
+  }
+
+  if (context.subtotal < voucher.min_spend) {
+    return { error: `Spend at least ₱${voucher.min_spend} to use this voucher` };
+  }
+
+  if (voucher.discount_type === 'free_delivery') {
+    return { discount: roundCurrency(context.deliveryFee ?? 0) };
+  }
+
+  const eligibleLines = hasItemRestrictions(voucher)
+    ? context.lines.filter(line =>
+        voucher.menu_item_ids.includes(line.menuItemId) ||
+        (line.category !== null && voucher.category_ids.includes(line.category))
+      )
+    : context.lines;
+
+  if (eligibleLines.length === 0) {
+    return { error: 'This voucher does not apply to any item in your cart' };
+  }
+
+  const eligibleSubtotal = roundCurrency(eligibleLines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  let discount = voucher.discount_type === 'percentage'
+    ? roundCurrency(eligibleSubtotal * voucher.discount_value / 100)
+    : voucher.discount_value;
+
+  if (voucher.discount_type === 'percentage' && voucher.max_discount) {
+    discount = Math.min(discount, voucher.max_discount);
+  }
+
+  return { discount: roundCurrency(Math.min(discount, eligibleSubtotal)) };
+}
@@ -2,6 +2,38 @@ export interface Variation {
   id: string;
   name: string;
   price: number;
+  // Set when the variation is a combination of dimension options
+  options?: VariationChoice[];
+}
+
+// One choice within a dimension, e.g. "Iced" under "Temperature"
+export interface VariationDimensionOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+// An independent choice on an item, e.g. size, temperature or sugar level
+export interface VariationDimension {
+  id: string;
+  name: string;
+  options: VariationDimensionOption[];
+}
+
+// Fixed price for one exact combination, instead of the summed deltas
+export interface VariationPriceOverride {
+  id: string;
+  optionIds: string[];
+  price: number;
+}
+
+// The option picked for a dimension, as kept on the cart line and the order
+export interface VariationChoice {
+  dimensionId: string;
+  dimensionName: string;
+  optionId: string;
+  name: string;
+  priceDelta: number;
 }
 
 export interface AddOn {
@@ -9,9 +41,71 @@ export interface AddOn {
   name: string;
   price: number;
   category: string;
+  // Add-ons in a group are picked under that group's rules
+  groupId?: string | null;
   quantity?: number;
 }
 
+// A set of add-ons with selection rules, e.g. "Choose milk - required, exactly 1"
+export interface AddOnGroup {
+  id: string;
+  name: string;
+  // 1 or more makes the group required
+  minSelect: number;
+  // Most picks from the group, counting quantities; null means no limit
+  maxSelect?: number | null;
+  // Most of any one add-on in the group; null means no limit
+  maxPerOption?: number | null;
+}
+
+export type MenuItemType = 'single' | 'bundle';
+
+// An item a combo slot can be filled with
+export interface BundleSlotOption {
+  id: string;
+  menuItemId: string;
+  name: string;
+  upcharge: number;
+  available?: boolean;
+}
+
+// One step of a combo, e.g. "Choose your shake"
+export interface BundleSlot {
+  id: string;
+  name: string;
+  options: BundleSlotOption[];
+}
+
+// The item picked for a slot, as kept on the cart line and the order
+export interface BundleSelection {
+  slotId: string;
+  slotName: string;
+  optionId: string;
+  menuItemId: string;
+  name: string;
+  upcharge: number;
+}
+
+// A daily time window, "HH:MM" in 24-hour time
+export interface ScheduleTimeRange {
+  start: string;
+  // Earlier than `start` when the window runs past midnight
+  end: string;
+}
+
+// When a category or menu item can be ordered
+export interface AvailabilitySchedule {
+  // 0 = Sunday ... 6 = Saturday; empty means every day
+  days: number[];
+  // Empty means all day
+  timeRanges: ScheduleTimeRange[];
+  // YYYY-MM-DD, both inclusive
+  startDate: string | null;
+  endDate: string | null;
+  // IANA time zone the days and times are in, e.g. "Asia/Manila"
+  timezone: string;
+}
+
 export interface MenuItem {
   id: string;
   name: string;
@@ -21,8 +115,17 @@ export interface MenuItem {
   image?: string;
   popular?: boolean;
   available?: boolean;
+  // Marked unavailable by inventory because it ran out
+  autoSoldOut?: boolean;
   variations?: Variation[];
+  // Used instead of `variations` when set
+  variationDimensions?: VariationDimension[];
+  variationOverrides?: VariationPriceOverride[];
   addOns?: AddOn[];
+  addOnGroups?: AddOnGroup[];
+  // Combos are sold at their own price and filled slot by slot
+  itemType?: MenuItemType;
+  bundleSlots?: BundleSlot[];
   // Discount pricing fields
   discountPrice?: number;
   discountStartDate?: string;
@@ -31,12 +134,32 @@ export interface MenuItem {
   // Computed effective price (calculated in the app)
   effectivePrice?: number;
   isOnDiscount?: boolean;
+  // Only orderable inside these; null means always
+  schedule?: AvailabilitySchedule | null;
+  categorySchedule?: AvailabilitySchedule | null;
+}
+
+// How one branch's menu differs from the main menu
+export interface BranchMenuOverride {
+  id: string;
+  branchId: string;
+  menuItemId: string;
+  // false marks the item sold out at this branch only
+  available: boolean;
+  // null keeps the item's own price
+  price: number | null;
+  // When set, the branch's discount replaces the item's (false: no discount here)
+  discountActive: boolean | null;
+  discountPrice: number | null;
+  discountStartDate: string | null;
+  discountEndDate: string | null;
 }
 
 export interface CartItem extends MenuItem {
   quantity: number;
   selectedVariation?: Variation;
   selectedAddOns?: AddOn[];
+  selectedBundle?: BundleSelection[];
   totalPrice: number;
 }
 
@@ -54,6 +177,7 @@ export interface OrderData {
   referenceNumber?: string;
   total: number;
   notes?: string;
+  statutoryDiscount?: StatutoryDiscountClaim;
 }
 
 export type PaymentMethod = 'gcash' | 'maya' | 'bank-transfer';
@@ -84,6 +208,21 @@ export interface SiteSettings {
   lalamove_store_address?: string;
   lalamove_store_latitude?: string;
   lalamove_store_longitude?: string;
+  rate_limit_enabled?: string;
+  rate_limit_ip_max?: string;
+  rate_limit_ip_window_minutes?: string;
+  rate_limit_phone_max?: string;
+  rate_limit_phone_window_minutes?: string;
+  rate_limit_session_max?: string;
+  rate_limit_session_window_minutes?: string;
+  order_ahead_max_days?: string;
+  order_ahead_lead_minutes?: string;
+  delivery_min_order?: string;
+  delivery_free_above?: string;
+  delivery_subsidy_type?: string;
+  delivery_subsidy_value?: string;
+  delivery_markup?: string;
+  delivery_fee_rounding?: string;
 }
 
 // Order Management Types
@@ -99,6 +238,12 @@ export interface OrderItem {
   total_price: number;
   selected_variation: Variation | null;
   selected_add_ons: AddOn[] | null;
+  bundle_selections?: BundleSelection[] | null;
+  // Senior citizen / PWD breakdown for this line
+  statutory_eligible?: boolean;
+  vat_exempt_base?: number;
+  vat_exemption?: number;
+  statutory_discount?: number;
   created_at: string;
 }
 
@@ -113,6 +258,8 @@ export interface Order {
   pickup_time: string | null;
   party_size: number | null;
   dine_in_time: string | null;
+  // When the order is wanted; null means as soon as possible
+  scheduled_for?: string | null;
   payment_method: string;
   reference_number: string | null;
   status: OrderStatus;
@@ -124,11 +271,176 @@ export interface Order {
   completed_at: string | null;
   order_items?: OrderItem[];
   delivery_fee?: number | null;
+  // Lalamove's quote when the order was placed; `delivery_fee` is what the customer pays
+  delivery_courier_cost?: number | null;
   lalamove_quotation_id?: string | null;
   lalamove_order_id?: string | null;
   lalamove_status?: string | null;
   lalamove_tracking_url?: string | null;
+  lalamove_driver_name?: string | null;
+  lalamove_driver_phone?: string | null;
+  lalamove_driver_plate?: string | null;
+  lalamove_price?: number | null;
+  lalamove_status_updated_at?: string | null;
   branch_id?: string | null;
+  voucher_code?: string | null;
+  discount_amount?: number;
+  statutory_discount_type?: StatutoryDiscountType | null;
+  statutory_name?: string | null;
+  statutory_id_number?: string | null;
+  vat_exempt_sales?: number;
+  vat_exemption?: number;
+  statutory_discount?: number;
+  status_events?: OrderStatusEvent[];
+  delivery_booking?: DeliveryBooking | null;
+}
+
+export type VoucherDiscountType = 'percentage' | 'fixed' | 'free_delivery';
+
+export interface Voucher {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: VoucherDiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_spend: number;
+  usage_limit: number | null;
+  per_customer_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  branch_ids: string[];
+  service_types: ServiceType[];
+  category_ids: string[];
+  menu_item_ids: string[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Redemption stats (staff views only; cancelled orders excluded)
+  redemption_count?: number;
+  discount_total?: number;
+}
+
+// A voucher accepted at checkout, as the customer sees it
+export interface AppliedVoucher {
+  code: string;
+  description: string | null;
+  discount_type: VoucherDiscountType;
+  discount: number;
+}
+
+// A menu item's stock settings, as staff see them in the inventory view
+export interface InventoryItem {
+  id: string;
+  name: string;
+  category: string;
+  available: boolean;
+  track_stock: boolean;
+  stock_quantity: number;
+  low_stock_threshold: number;
+  // Marked unavailable because it ran out; comes back once restocked
+  auto_sold_out: boolean;
+  recipe: RecipeItem[];
+}
+
+// How much of an ingredient one unit of a menu item uses
+export interface RecipeItem {
+  ingredient_id: string;
+  quantity: number;
+}
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: string;
+  stock_quantity: number;
+  low_stock_threshold: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LowStockAlert {
+  kind: 'item' | 'ingredient';
+  id: string;
+  name: string;
+  quantity: number;
+  threshold: number;
+  unit: string | null;
+}
+
+export type StatutoryDiscountType = 'senior' | 'pwd';
+
+// Senior citizen / PWD discount claimed at checkout
+export interface StatutoryDiscountClaim {
+  type: StatutoryDiscountType;
+  name: string;
+  idNumber: string;
+  // Cart item ids for the senior's / PWD's own use
+  lineIds: string[];
+}
+
+export type DeliveryBookingStatus = 'queued' | 'processing' | 'booked' | 'failed' | 'cancelled';
+
+export interface DeliveryBooking {
+  status: DeliveryBookingStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  updated_at: string;
+}
+
+export interface LalamoveDriver {
+  driverId: string;
+  name: string | null;
+  phone: string | null;
+  plateNumber: string | null;
+  photo: string | null;
+  location: { lat: number; lng: number; updatedAt: string | null } | null;
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor_staff_id: string | null;
+  actor_name: string;
+  reason: string | null;
+  created_at: string;
+}
+
+// Customer-facing view of an order, returned by the public tracking lookup
+export interface OrderTracking {
+  order_number: string;
+  status: OrderStatus;
+  service_type: ServiceType;
+  pickup_time: string | null;
+  dine_in_time: string | null;
+  scheduled_for: string | null;
+  total: number;
+  delivery_fee: number | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  estimated_ready_at: string | null;
+  timeline: { status: OrderStatus; at: string }[];
+  items: {
+    name: string;
+    quantity: number;
+    total_price: number;
+    variation: string | null;
+    add_ons: string[];
+    // Items picked for a combo's slots
+    components: string[];
+  }[];
+  courier: {
+    status: string | null;
+    tracking_url: string | null;
+    driver_name: string | null;
+    driver_phone: string | null;
+    driver_plate: string | null;
+  } | null;
 }
 
 export interface Branch {
@@ -140,10 +452,74 @@ export interface Branch {
   longitude: string;
   is_main: boolean;
   is_active: boolean;
+  // Most orders / items taken per 15-minute slot; null means no limit
+  slot_max_orders?: number | null;
+  slot_max_items?: number | null;
+  // Weekly hours in the store time zone; null means always open
+  opening_hours?: BranchOpeningHours | null;
+  holidays?: BranchHoliday[];
+  // Online ordering paused by staff; no `until` means until they resume it
+  ordering_paused_at?: string | null;
+  ordering_paused_until?: string | null;
+  ordering_paused_by?: string | null;
+  // Where the branch delivers; null means anywhere Lalamove goes
+  delivery_zone?: DeliveryZone | null;
   created_at: string;
   updated_at: string;
 }
 
+// Opening hours for each weekday, 0 = Sunday ... 6 = Saturday; an empty day is closed
+export type BranchOpeningHours = ScheduleTimeRange[][];
+
+// A date (YYYY-MM-DD) a branch is closed all day
+export interface BranchHoliday {
+  date: string;
+  label: string;
+}
+
+// A branch's delivery area: a radius around the branch, or a polygon of
+// [lat, lng] corners drawn on the map. `flatFee` replaces the Lalamove price
+// for addresses in the zone.
+export type DeliveryZone = (
+  | { type: 'radius'; radiusKm: number }
+  | { type: 'polygon'; points: [number, number][] }
+) & { flatFee?: number | null };
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// How much a branch takes per 15-minute slot; null means no limit
+export interface SlotCapacity {
+  maxOrders: number | null;
+  maxItems: number | null;
+}
+
+// Orders already taken for one slot, and whether staff have blocked it
+export interface SlotUsage {
+  start: string;
+  orders: number;
+  items: number;
+  blocked: boolean;
+}
+
+export type StaffRole = 'owner' | 'branch_manager' | 'cashier' | 'kitchen';
+
+export interface StaffUser {
+  id: string;
+  username: string;
+  display_name: string;
+  role: StaffRole;
+  branch_id: string | null;
+}
+
+export interface StaffSession {
+  id: string;
+  staff: StaffUser;
+  expires_at: string;
+}
+
 export interface OrderFilters {
   status?: OrderStatus;
   service_type?: ServiceType;
@@ -161,6 +537,51 @@ export interface OrderStats {
   cancelled_orders: number;
 }
 
+export interface StatutoryDiscountTotals {
+  order_count: number;
+  vat_exempt_sales: number;
+  vat_exemption: number;
+  discount: number;
+}
+
+// One senior citizen / PWD sale, as listed in the discount log
+export interface StatutoryDiscountEntry {
+  order_number: string;
+  created_at: string;
+  type: StatutoryDiscountType;
+  name: string;
+  id_number: string;
+  // Eligible lines before the VAT exemption and discount
+  gross_amount: number;
+  vat_exempt_sales: number;
+  vat_exemption: number;
+  discount: number;
+}
+
+// Completed sales for a date range
+export interface SalesReport {
+  date_from: string;
+  date_to: string;
+  order_count: number;
+  // Items before any discount, VAT inclusive
+  gross_sales: number;
+  voucher_discounts: number;
+  vatable_sales: number;
+  vat_amount: number;
+  vat_exempt_sales: number;
+  vat_exemption: number;
+  statutory_discounts: number;
+  delivery_fees: number;
+  // What Lalamove charged for those deliveries, and how much of it the store covered
+  courier_costs: number;
+  delivery_subsidy: number;
+  // What customers paid, delivery included
+  net_sales: number;
+  senior: StatutoryDiscountTotals;
+  pwd: StatutoryDiscountTotals;
+  statutory_entries: StatutoryDiscountEntry[];
+}
+
 export interface RateLimitResponse {
   allowed: boolean;
   cooldown_remaining?: number; // seconds
@@ -0,0 +1,63 @@
+/*
+  # Staff Accounts and Sessions
+
+  1. New Tables
+    - `staff_users`
+      - `id` (uuid, primary key)
+      - `username` (text, unique, stored lowercase)
+      - `display_name` (text)
+      - `password_hash` (text) - scrypt hash, see src/lib/auth.ts
+      - `is_active` (boolean) - deactivating a user ends all of their sessions
+      - `last_login_at` (timestamptz)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `staff_sessions`
+      - `id` (uuid, primary key) - embedded in the signed session cookie
+      - `staff_id` (uuid, references staff_users)
+      - `expires_at` (timestamptz)
+      - `revoked_at` (timestamptz) - set on logout / revocation
+      - `ip_address` (text)
+      - `user_agent` (text)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables with no policies
+    - Only the service role (API routes) can read or write them
+
+  3. Notes
+    - Create accounts with `node scripts/create-staff-user.js <username> <password>`
+*/
+
+CREATE TABLE IF NOT EXISTS staff_users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  username text NOT NULL UNIQUE CHECK (username = lower(username)),
+  display_name text NOT NULL DEFAULT '',
+  password_hash text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  last_login_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS staff_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id uuid NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_staff_id ON staff_sessions(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_expires_at ON staff_sessions(expires_at);
+
+-- Enable RLS (no policies: service role only)
+ALTER TABLE staff_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Trigger for updated_at
+CREATE TRIGGER update_staff_users_updated_at
+  BEFORE UPDATE ON staff_users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
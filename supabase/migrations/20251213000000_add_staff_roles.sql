@@ -0,0 +1,41 @@
+/*
+  # Staff Roles
+
+  1. Changes to `staff_users`
+    - Add `role` (text) - one of owner, branch_manager, cashier, kitchen
+    - Add `branch_id` (uuid, references branches) - limits a staff member to one branch's orders
+
+  2. Notes
+    - Existing accounts become owners so nobody is locked out
+    - New accounts default to cashier
+    - The permission matrix lives in src/lib/permissions.ts
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'staff_users' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE staff_users ADD COLUMN role text NOT NULL DEFAULT 'owner';
+    ALTER TABLE staff_users ALTER COLUMN role SET DEFAULT 'cashier';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'staff_users' AND column_name = 'branch_id'
+  ) THEN
+    ALTER TABLE staff_users ADD COLUMN branch_id uuid REFERENCES branches(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE staff_users DROP CONSTRAINT IF EXISTS staff_users_role_check;
+ALTER TABLE staff_users ADD CONSTRAINT staff_users_role_check
+  CHECK (role IN ('owner', 'branch_manager', 'cashier', 'kitchen'));
+
+-- Branch managers must belong to a branch
+ALTER TABLE staff_users DROP CONSTRAINT IF EXISTS staff_users_branch_manager_branch_check;
+ALTER TABLE staff_users ADD CONSTRAINT staff_users_branch_manager_branch_check
+  CHECK (role <> 'branch_manager' OR branch_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_staff_users_branch_id ON staff_users(branch_id);
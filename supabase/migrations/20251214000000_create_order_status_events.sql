@@ -0,0 +1,66 @@
+/*
+  # Order Status History
+
+  1. New Tables
+    - `order_status_events`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders)
+      - `from_status` (text, null for the creation event)
+      - `to_status` (text)
+      - `actor_staff_id` (uuid, references staff_users, null for customers/system)
+      - `actor_name` (text) - display name at the time, or 'Customer' / 'System'
+      - `reason` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes to `orders`
+    - `completed_at` is now stamped on INSERT as well as UPDATE
+
+  3. Security
+    - Enable RLS on `order_status_events` with no policies (service role only)
+
+  4. Notes
+    - Allowed transitions per service type live in src/lib/orderStatus.ts
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  actor_staff_id uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  actor_name text NOT NULL DEFAULT 'System',
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_events_order_id
+  ON order_status_events(order_id, created_at);
+
+ALTER TABLE order_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Stamp completed_at whenever an order reaches completed
+CREATE OR REPLACE FUNCTION set_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at = now();
+  ELSIF NEW.status != 'completed' THEN
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_orders_completed_at ON orders;
+CREATE TRIGGER set_orders_completed_at
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_completed_at();
+
+-- Seed history for existing orders so every timeline has a starting point
+INSERT INTO order_status_events (order_id, from_status, to_status, actor_name, reason, created_at)
+SELECT id, NULL, status, 'System', 'Imported before status history was recorded', created_at
+FROM orders
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_events e WHERE e.order_id = orders.id
+);
@@ -0,0 +1,68 @@
+/*
+  # Lalamove Webhook Support
+
+  1. Changes to `orders`
+    - Add `lalamove_driver_id`, `lalamove_driver_name`, `lalamove_driver_phone`,
+      `lalamove_driver_plate` (text) - filled in by DRIVER_ASSIGNED
+    - Add `lalamove_price` (numeric) - what Lalamove charges us, updated by ORDER_AMOUNT_CHANGED
+    - Add `lalamove_status_updated_at` (timestamptz)
+    - Index `lalamove_order_id` for webhook lookups
+
+  2. New Tables
+    - `lalamove_webhook_events`
+      - `event_id` (text, primary key) - Lalamove's eventId, so retries are processed once
+      - `event_type` (text)
+      - `lalamove_order_id` (text)
+      - `payload` (jsonb)
+      - `received_at` (timestamptz)
+      - `processed_at` (timestamptz)
+      - `error` (text)
+
+  3. Security
+    - Enable RLS on `lalamove_webhook_events` with no policies (service role only)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'lalamove_driver_id'
+  ) THEN
+    ALTER TABLE orders
+      ADD COLUMN lalamove_driver_id text,
+      ADD COLUMN lalamove_driver_name text,
+      ADD COLUMN lalamove_driver_phone text,
+      ADD COLUMN lalamove_driver_plate text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'lalamove_price'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN lalamove_price numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'lalamove_status_updated_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN lalamove_status_updated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_lalamove_order_id ON orders(lalamove_order_id);
+
+CREATE TABLE IF NOT EXISTS lalamove_webhook_events (
+  event_id text PRIMARY KEY,
+  event_type text NOT NULL,
+  lalamove_order_id text,
+  payload jsonb NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_lalamove_webhook_events_order
+  ON lalamove_webhook_events(lalamove_order_id);
+
+ALTER TABLE lalamove_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,67 @@
+/*
+  # Delivery Booking Jobs
+
+  1. New Tables
+    - `delivery_booking_jobs`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, unique, references orders) - at most one booking job per order
+      - `idempotency_key` (text, unique) - `order:<order id>`; enqueueing twice is a no-op
+      - `status` (text) - queued, processing, booked, failed or cancelled
+      - `attempts` (integer) / `max_attempts` (integer)
+      - `next_attempt_at` (timestamptz) - when a queued job may run again (backoff)
+      - `locked_until` (timestamptz) - lets a crashed attempt be picked up again
+      - `quotation_id` (text) - quotation used for the last attempt (changes when re-quoted)
+      - `lalamove_order_id` (text)
+      - `last_error` (text)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes to `orders`
+    - Add `delivery_lat`, `delivery_lng` (numeric) so an expired quotation can be re-quoted
+
+  3. Security
+    - Enable RLS on `delivery_booking_jobs` with no policies (service role only)
+
+  4. Notes
+    - Jobs are created when a delivery order is confirmed and processed by
+      src/lib/deliveryBooking.ts; POST /api/delivery-bookings/process runs due retries
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_lat'
+  ) THEN
+    ALTER TABLE orders
+      ADD COLUMN delivery_lat numeric(10,7),
+      ADD COLUMN delivery_lng numeric(10,7);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS delivery_booking_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  idempotency_key text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'booked', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  quotation_id text,
+  lalamove_order_id text,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_booking_jobs_due
+  ON delivery_booking_jobs(status, next_attempt_at);
+
+ALTER TABLE delivery_booking_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_delivery_booking_jobs_updated_at ON delivery_booking_jobs;
+CREATE TRIGGER update_delivery_booking_jobs_updated_at
+  BEFORE UPDATE ON delivery_booking_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
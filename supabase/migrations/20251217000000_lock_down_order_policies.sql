@@ -0,0 +1,104 @@
+/*
+  # Lock Down Order Access
+
+  1. Security
+    - Drop "Public can read orders by order number or contact" (USING (true)),
+      which let anyone holding the anon key list every customer's name, phone,
+      address and IP
+    - Drop "Public can read order items"
+    - Drop the public INSERT policies on `orders` and `order_items`; checkout
+      goes through POST /api/orders, which uses the service role
+    - Drop the "Authenticated users can manage ..." policies; staff sign in
+      through the app's own sessions, not Supabase Auth, so these only granted
+      access to arbitrary Supabase Auth sign-ups
+    - With RLS on and no policies, `orders` and `order_items` are service role only
+    - Revoke EXECUTE on `generate_order_number()` from anon/authenticated
+
+  2. Realtime
+    - Remove `orders` and `order_items` from the `supabase_realtime` publication;
+      row changes can no longer be streamed to browsers
+    - Add `broadcast_order_change()` triggers that send payload-free Realtime
+      broadcasts instead:
+      - topic `orders`, event `orders_changed` - any order or order item changed
+        (the admin dashboard refetches through the staff-only API)
+      - topic `order:<order_number>`, event `order_changed` - that order changed
+        (the tracking page refetches through POST /api/orders/track)
+
+  3. Notes
+    - Broadcasts carry no order data, so listening to a topic only reveals that
+      something changed
+    - If `realtime.send` is unavailable the trigger logs a warning and the order
+      write still succeeds; the tracking page also polls as a fallback
+*/
+
+-- Orders
+DROP POLICY IF EXISTS "Public can read orders by order number or contact" ON orders;
+DROP POLICY IF EXISTS "Anyone can create orders" ON orders;
+DROP POLICY IF EXISTS "Authenticated users can manage orders" ON orders;
+
+-- Order items
+DROP POLICY IF EXISTS "Public can read order items" ON order_items;
+DROP POLICY IF EXISTS "Anyone can create order items" ON order_items;
+DROP POLICY IF EXISTS "Authenticated users can manage order items" ON order_items;
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+-- Order numbers are issued by the API only
+REVOKE EXECUTE ON FUNCTION generate_order_number() FROM PUBLIC, anon, authenticated;
+
+-- Stop streaming row changes to browsers
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE orders;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE order_items;
+  END IF;
+END $$;
+
+-- Payload-free change notifications
+CREATE OR REPLACE FUNCTION broadcast_order_change()
+RETURNS trigger AS $$
+BEGIN
+  BEGIN
+    IF TG_LEVEL = 'ROW' THEN
+      PERFORM realtime.send('{}'::jsonb, 'order_changed', 'order:' || NEW.order_number, false);
+    ELSE
+      PERFORM realtime.send('{}'::jsonb, 'orders_changed', 'orders', false);
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    -- A missed notification must never fail the order write
+    RAISE WARNING 'Could not broadcast order change: %', SQLERRM;
+  END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION broadcast_order_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS broadcast_order_row_change ON orders;
+CREATE TRIGGER broadcast_order_row_change
+  AFTER UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_order_change();
+
+DROP TRIGGER IF EXISTS broadcast_orders_change ON orders;
+CREATE TRIGGER broadcast_orders_change
+  AFTER INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION broadcast_order_change();
+
+DROP TRIGGER IF EXISTS broadcast_order_items_change ON order_items;
+CREATE TRIGGER broadcast_order_items_change
+  AFTER INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION broadcast_order_change();
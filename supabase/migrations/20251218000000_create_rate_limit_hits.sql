@@ -0,0 +1,108 @@
+/*
+  # Server-Side Rate Limiting
+
+  1. New Tables
+    - `rate_limit_hits`
+      - `id` (bigserial, primary key)
+      - `key` (text) - what is being limited, e.g. `order:ip:203.0.113.5`,
+        `order:phone:639171234567`, `order:session:<uuid>`
+      - `hit_at` (timestamptz)
+      - `expires_at` (timestamptz) - when the hit leaves its window
+
+  2. New Functions
+    - `consume_rate_limits(p_keys, p_limits, p_window_seconds)` - checks a set of
+      sliding-window limits and, only if all of them pass, records a hit for
+      each key. Returns `allowed`, the `limited_key` that failed and
+      `retry_after` (seconds). Callers sharing a key are serialised with
+      advisory locks so concurrent requests cannot both squeeze in.
+
+  3. Site Settings
+    - `rate_limit_enabled` and, for each of ip / phone / session,
+      `rate_limit_<dimension>_max` orders per `rate_limit_<dimension>_window_minutes`
+
+  4. Security
+    - Enable RLS on `rate_limit_hits` with no policies (service role only)
+    - Revoke EXECUTE on `consume_rate_limits` from anon/authenticated
+
+  5. Notes
+    - Used by src/lib/rateLimit-server.ts when RATE_LIMIT_STORE=postgres (the
+      default in production)
+    - Supersedes `rate_limit_logs` / `check_rate_limit`, which were disabled in
+      20250902000008 and are left in place untouched
+*/
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id bigserial PRIMARY KEY,
+  key text NOT NULL,
+  hit_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at
+  ON rate_limit_hits(key, hit_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_expires_at
+  ON rate_limit_hits(expires_at);
+
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION consume_rate_limits(
+  p_keys text[],
+  p_limits integer[],
+  p_window_seconds integer[]
+)
+RETURNS TABLE (allowed boolean, limited_key text, retry_after integer) AS $$
+DECLARE
+  v_key text;
+  v_count integer;
+  v_oldest timestamptz;
+  v_retry integer;
+  v_limited_key text := NULL;
+  v_max_retry integer := 0;
+BEGIN
+  -- Lock keys in a fixed order so overlapping callers cannot deadlock
+  FOR v_key IN SELECT DISTINCT k FROM unnest(p_keys) AS k ORDER BY k LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || v_key));
+  END LOOP;
+
+  DELETE FROM rate_limit_hits WHERE expires_at < now();
+
+  FOR i IN 1..coalesce(array_length(p_keys, 1), 0) LOOP
+    SELECT count(*), min(hit_at) INTO v_count, v_oldest
+    FROM rate_limit_hits
+    WHERE key = p_keys[i]
+      AND hit_at > now() - make_interval(secs => p_window_seconds[i]);
+
+    IF v_count >= p_limits[i] THEN
+      v_retry := greatest(1, ceil(extract(epoch FROM (v_oldest + make_interval(secs => p_window_seconds[i]) - now())))::integer);
+      IF v_retry > v_max_retry THEN
+        v_max_retry := v_retry;
+        v_limited_key := p_keys[i];
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_limited_key IS NOT NULL THEN
+    RETURN QUERY SELECT false, v_limited_key, v_max_retry;
+    RETURN;
+  END IF;
+
+  FOR i IN 1..coalesce(array_length(p_keys, 1), 0) LOOP
+    INSERT INTO rate_limit_hits (key, expires_at)
+    VALUES (p_keys[i], now() + make_interval(secs => p_window_seconds[i]));
+  END LOOP;
+
+  RETURN QUERY SELECT true, NULL::text, 0;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limits(text[], integer[], integer[]) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO site_settings (id, value, type, description) VALUES
+  ('rate_limit_enabled', 'true', 'boolean', 'Limit how often customers can place orders'),
+  ('rate_limit_ip_max', '5', 'number', 'Orders allowed per IP address in its window'),
+  ('rate_limit_ip_window_minutes', '10', 'number', 'Window for the per-IP order limit (minutes)'),
+  ('rate_limit_phone_max', '3', 'number', 'Orders allowed per contact number in its window'),
+  ('rate_limit_phone_window_minutes', '10', 'number', 'Window for the per-phone order limit (minutes)'),
+  ('rate_limit_session_max', '2', 'number', 'Orders allowed per browser session in its window'),
+  ('rate_limit_session_window_minutes', '5', 'number', 'Window for the per-session order limit (minutes)')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,44 @@
+/*
+  # Server-Side Carts
+
+  1. New Tables
+    - `carts`
+      - `session_id` (text, primary key) - the browser's `starrs_order_session` cookie
+      - `items` (jsonb) - cart lines as saved by the storefront (`{ version, items }`)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `carts` with no policies (service role only); browsers read
+      and write their own cart through /api/cart
+
+  3. Notes
+    - Optional: the storefront only syncs here when NEXT_PUBLIC_SERVER_CART=true,
+      otherwise carts live in localStorage alone
+    - A session's cart is deleted when it places an order; carts untouched for
+      30 days are removed by `cleanup_stale_carts()`
+*/
+
+CREATE TABLE IF NOT EXISTS carts (
+  session_id text PRIMARY KEY,
+  items jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_carts_updated_at ON carts(updated_at);
+
+ALTER TABLE carts ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_carts_updated_at ON carts;
+CREATE TRIGGER update_carts_updated_at
+  BEFORE UPDATE ON carts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION cleanup_stale_carts()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM carts WHERE updated_at < now() - interval '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cleanup_stale_carts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,150 @@
+/*
+  # Vouchers
+
+  1. New Tables
+    - `vouchers`
+      - `id` (uuid, primary key)
+      - `code` (text) - what customers type at checkout; stored upper-case, unique ignoring case
+      - `description` (text, nullable) - shown to the customer once applied
+      - `discount_type` (text) - percentage, fixed or free_delivery
+      - `discount_value` (numeric) - percent off, or pesos off; unused for free_delivery
+      - `max_discount` (numeric, nullable) - cap on a percentage discount
+      - `min_spend` (numeric) - cart subtotal needed before the code applies
+      - `usage_limit` (integer, nullable) - total redemptions allowed
+      - `per_customer_limit` (integer, nullable) - redemptions allowed per contact number
+      - `starts_at`, `ends_at` (timestamptz, nullable) - validity window; null means open-ended
+      - `branch_ids` (uuid[]) - branches the code works at; empty means all
+      - `service_types` (text[]) - dine-in / pickup / delivery; empty means all
+      - `category_ids` (text[]), `menu_item_ids` (uuid[]) - lines the discount applies to;
+        both empty means the whole cart
+      - `active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `voucher_redemptions`
+      - `id` (uuid, primary key)
+      - `voucher_id` (uuid) - the voucher used
+      - `order_id` (uuid, unique) - the order it was used on
+      - `customer_phone` (text) - contact number digits in +63 form, for per-customer limits
+      - `discount_amount` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `orders.voucher_id`, `orders.voucher_code` and `orders.discount_amount` record the
+      voucher applied to an order; `total` is already net of the discount
+
+  3. New Functions
+    - `redeem_voucher(p_voucher_id, p_order_id, p_customer_phone, p_discount)` - locks the
+      voucher, checks both usage limits and records the redemption; returns null on
+      success or the reason it was refused
+
+  4. Security
+    - Enable RLS on both tables with no policies (service role only); customers
+      validate codes through /api/vouchers/validate and staff manage them through
+      /api/vouchers, so codes cannot be listed with the anon key
+    - `redeem_voucher` is not executable by anon or authenticated
+
+  5. Notes
+    - Redemptions on cancelled orders do not count towards either limit
+    - Vouchers that have been redeemed cannot be deleted, only deactivated
+*/
+
+CREATE TABLE IF NOT EXISTS vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_delivery')),
+  discount_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  max_discount numeric(10,2) CHECK (max_discount IS NULL OR max_discount > 0),
+  min_spend numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  usage_limit integer CHECK (usage_limit IS NULL OR usage_limit > 0),
+  per_customer_limit integer CHECK (per_customer_limit IS NULL OR per_customer_limit > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  branch_ids uuid[] NOT NULL DEFAULT '{}',
+  service_types text[] NOT NULL DEFAULT '{}',
+  category_ids text[] NOT NULL DEFAULT '{}',
+  menu_item_ids uuid[] NOT NULL DEFAULT '{}',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vouchers_code ON vouchers (upper(code));
+
+CREATE TABLE IF NOT EXISTS voucher_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id uuid NOT NULL REFERENCES vouchers(id) ON DELETE RESTRICT,
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  customer_phone text NOT NULL,
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voucher_redemptions_voucher ON voucher_redemptions(voucher_id, customer_phone);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS voucher_id uuid REFERENCES vouchers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS voucher_code text,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE voucher_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_vouchers_updated_at ON vouchers;
+CREATE TRIGGER update_vouchers_updated_at
+  BEFORE UPDATE ON vouchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION redeem_voucher(
+  p_voucher_id uuid,
+  p_order_id uuid,
+  p_customer_phone text,
+  p_discount numeric
+)
+RETURNS text AS $$
+DECLARE
+  v vouchers%ROWTYPE;
+  used integer;
+BEGIN
+  -- Serialise redemptions of the same voucher so limits cannot be overshot
+  SELECT * INTO v FROM vouchers WHERE id = p_voucher_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v.active THEN
+    RETURN 'inactive';
+  END IF;
+
+  IF v.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO used
+    FROM voucher_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.voucher_id = p_voucher_id
+      AND o.status <> 'cancelled';
+
+    IF used >= v.usage_limit THEN
+      RETURN 'usage_limit';
+    END IF;
+  END IF;
+
+  IF v.per_customer_limit IS NOT NULL THEN
+    SELECT count(*) INTO used
+    FROM voucher_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.voucher_id = p_voucher_id
+      AND r.customer_phone = p_customer_phone
+      AND o.status <> 'cancelled';
+
+    IF used >= v.per_customer_limit THEN
+      RETURN 'per_customer_limit';
+    END IF;
+  END IF;
+
+  INSERT INTO voucher_redemptions (voucher_id, order_id, customer_phone, discount_amount)
+  VALUES (p_voucher_id, p_order_id, p_customer_phone, p_discount);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION redeem_voucher(uuid, uuid, text, numeric) FROM PUBLIC, anon, authenticated;
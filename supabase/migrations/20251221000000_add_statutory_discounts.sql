@@ -0,0 +1,39 @@
+/*
+  # Senior Citizen / PWD Discounts
+
+  1. Changes
+    - `orders`
+      - `statutory_discount_type` (text, nullable) - senior or pwd
+      - `statutory_name`, `statutory_id_number` (text, nullable) - as written on the
+        OSCA / PWD ID, for the discount log
+      - `vat_exempt_sales` (numeric) - eligible lines net of VAT
+      - `vat_exemption` (numeric) - the 12% VAT removed from eligible lines
+      - `statutory_discount` (numeric) - the 20% taken off `vat_exempt_sales`
+    - `order_items`
+      - `statutory_eligible` (boolean) - for the senior's / PWD's own use
+      - `vat_exempt_base`, `vat_exemption`, `statutory_discount` (numeric) - the same
+        breakdown per line
+
+  2. Notes
+    - `orders.total` is already net of the VAT exemption and the discount
+    - The ID details are only readable through the staff API, like the rest of
+      an order's customer details
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS statutory_discount_type text CHECK (statutory_discount_type IN ('senior', 'pwd')),
+  ADD COLUMN IF NOT EXISTS statutory_name text,
+  ADD COLUMN IF NOT EXISTS statutory_id_number text,
+  ADD COLUMN IF NOT EXISTS vat_exempt_sales numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS vat_exemption numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS statutory_discount numeric(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS statutory_eligible boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS vat_exempt_base numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS vat_exemption numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS statutory_discount numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_orders_statutory_discount_type
+  ON orders(statutory_discount_type)
+  WHERE statutory_discount_type IS NOT NULL;
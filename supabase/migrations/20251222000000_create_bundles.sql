@@ -0,0 +1,84 @@
+/*
+  # Combo Meals and Bundles
+
+  1. Changes
+    - `menu_items.item_type` (text) - `single` (default) or `bundle`. A bundle is
+      sold at its own `base_price` (and discount window) and is made up of slots.
+    - `order_items.bundle_selections` (jsonb, nullable) - the item picked for each
+      slot, copied onto the order so the kitchen sees every component
+
+  2. New Tables
+    - `bundle_slots`
+      - `id` (uuid, primary key)
+      - `menu_item_id` (uuid) - the bundle
+      - `name` (text) - e.g. "Choose your shake"
+      - `sort_order` (integer) - order of the picker steps
+    - `bundle_slot_options`
+      - `id` (uuid, primary key)
+      - `slot_id` (uuid)
+      - `menu_item_id` (uuid) - an item the customer can pick for the slot
+      - `upcharge` (numeric) - added to the bundle price when picked
+      - `sort_order` (integer)
+
+  3. Security
+    - Same as `variations` and `add_ons`: anyone can read, authenticated users
+      can manage
+*/
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS item_type text NOT NULL DEFAULT 'single' CHECK (item_type IN ('single', 'bundle'));
+
+CREATE TABLE IF NOT EXISTS bundle_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bundle_slot_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid NOT NULL REFERENCES bundle_slots(id) ON DELETE CASCADE,
+  -- Removing a menu item also removes it from the combos it was part of
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  upcharge numeric(10,2) NOT NULL DEFAULT 0 CHECK (upcharge >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (slot_id, menu_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bundle_slots_menu_item_id ON bundle_slots(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_slot_options_slot_id ON bundle_slot_options(slot_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_slot_options_menu_item_id ON bundle_slot_options(menu_item_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS bundle_selections jsonb;
+
+ALTER TABLE bundle_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_slot_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read bundle slots"
+  ON bundle_slots
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read bundle slot options"
+  ON bundle_slot_options
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage bundle slots"
+  ON bundle_slots
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage bundle slot options"
+  ON bundle_slot_options
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,55 @@
+/*
+  # Add-on Groups
+
+  1. New Tables
+    - `add_on_groups`
+      - `id` (uuid, primary key)
+      - `menu_item_id` (uuid) - the item the group belongs to
+      - `name` (text) - e.g. "Choose milk", "Toppings"
+      - `min_select` (integer) - add-ons the customer must pick from the group;
+        1 or more makes the group required
+      - `max_select` (integer, nullable) - most add-ons that can be picked from
+        the group, counting quantities; null means no limit
+      - `max_per_option` (integer, nullable) - most of any one add-on, e.g. 2
+        extra shots; null means no limit
+      - `sort_order` (integer)
+
+  2. Changes
+    - `add_ons.group_id` (uuid, nullable) - the group the add-on is picked from.
+      Add-ons without a group keep working as before, with no limits.
+
+  3. Security
+    - Same as `add_ons`: anyone can read, authenticated users can manage
+*/
+
+CREATE TABLE IF NOT EXISTS add_on_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer CHECK (max_select IS NULL OR (max_select >= 1 AND max_select >= min_select)),
+  max_per_option integer CHECK (max_per_option IS NULL OR max_per_option >= 1),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE add_ons
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES add_on_groups(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_add_on_groups_menu_item_id ON add_on_groups(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_add_ons_group_id ON add_ons(group_id);
+
+ALTER TABLE add_on_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read add-on groups"
+  ON add_on_groups
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage add-on groups"
+  ON add_on_groups
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
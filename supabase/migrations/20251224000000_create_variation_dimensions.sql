@@ -0,0 +1,106 @@
+/*
+  # Variation Dimensions
+
+  Lets one menu item carry several independent choices, e.g. size × temperature
+  × sweetness, instead of duplicating "Iced Latte" and "Hot Latte". Items keep
+  using the flat `variations` list when they have no dimensions.
+
+  1. New Tables
+    - `variation_dimensions`
+      - `id` (uuid, primary key)
+      - `menu_item_id` (uuid)
+      - `name` (text) - e.g. "Size", "Temperature", "Sugar level"
+      - `sort_order` (integer)
+    - `variation_dimension_options`
+      - `id` (uuid, primary key)
+      - `dimension_id` (uuid)
+      - `name` (text) - e.g. "Large", "Iced", "50%"
+      - `price_delta` (numeric) - added to the item price when picked
+      - `sort_order` (integer)
+    - `variation_price_overrides`
+      - `id` (uuid, primary key)
+      - `menu_item_id` (uuid)
+      - `option_ids` (uuid[]) - one option per dimension, sorted
+      - `price` (numeric) - used instead of the summed deltas for exactly
+        this combination
+
+  2. Notes
+    - The chosen combination is stored in `order_items.selected_variation` as
+      before, with the picked option of each dimension under `options`.
+
+  3. Security
+    - Same as `variations`: anyone can read, authenticated users can manage
+*/
+
+CREATE TABLE IF NOT EXISTS variation_dimensions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS variation_dimension_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dimension_id uuid NOT NULL REFERENCES variation_dimensions(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta numeric(10,2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS variation_price_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  option_ids uuid[] NOT NULL CHECK (cardinality(option_ids) > 0),
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, option_ids)
+);
+
+CREATE INDEX IF NOT EXISTS idx_variation_dimensions_menu_item_id ON variation_dimensions(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_variation_dimension_options_dimension_id ON variation_dimension_options(dimension_id);
+CREATE INDEX IF NOT EXISTS idx_variation_price_overrides_menu_item_id ON variation_price_overrides(menu_item_id);
+
+ALTER TABLE variation_dimensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE variation_dimension_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE variation_price_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read variation dimensions"
+  ON variation_dimensions
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read variation dimension options"
+  ON variation_dimension_options
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Anyone can read variation price overrides"
+  ON variation_price_overrides
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage variation dimensions"
+  ON variation_dimensions
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage variation dimension options"
+  ON variation_dimension_options
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage variation price overrides"
+  ON variation_price_overrides
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,263 @@
+/*
+  # Inventory Tracking
+
+  1. Changes
+    - `menu_items.track_stock` (boolean) - count stock for this item
+    - `menu_items.stock_quantity` (integer) - units on hand; may go below zero
+      when more is confirmed than was counted
+    - `menu_items.low_stock_threshold` (integer) - alert at or below this
+    - `menu_items.auto_sold_out` (boolean) - the item was marked unavailable
+      because it ran out, so it comes back by itself once restocked. Items staff
+      switch off by hand are never switched back on.
+
+  2. New Tables
+    - `ingredients` - optional per-ingredient stock
+      - `name`, `unit` (e.g. "ml", "pcs"), `stock_quantity`, `low_stock_threshold`
+    - `recipe_items` - how much of an ingredient one unit of a menu item uses
+      - `menu_item_id`, `ingredient_id`, `quantity`
+    - `stock_movements` - every stock change, for auditing and to undo an
+      order's deduction exactly
+      - `menu_item_id` or `ingredient_id`, `order_id` (nullable), `change`,
+        `reason` (`order_confirmed`, `order_cancelled`, `adjustment`), `actor_name`
+
+  3. Functions (service role only)
+    - `deduct_order_stock(p_order_id, p_actor_name)` - takes an order's items,
+      combo components and recipe ingredients out of stock; only once per order
+    - `restore_order_stock(p_order_id, p_actor_name)` - puts back whatever the
+      order took that has not been put back yet
+    - `adjust_stock(p_menu_item_id, p_ingredient_id, p_quantity, p_actor_name)` -
+      sets a counted stock level
+    - `refresh_stock_availability()` - marks items that ran out (or whose
+      ingredients ran out) unavailable, and brings back items it switched off
+
+  4. Realtime
+    - `broadcast_menu_change()` sends a payload-free broadcast on topic `menu`,
+      event `menu_changed`, when menu items are added, removed or edited (but
+      not when only their stock count moves) so the storefront refetches
+
+  5. Security
+    - RLS on the new tables with no policies (service role only); staff manage
+      stock through /api/inventory
+*/
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS track_stock boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS stock_quantity integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS low_stock_threshold integer NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0),
+  ADD COLUMN IF NOT EXISTS auto_sold_out boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  unit text NOT NULL DEFAULT 'pcs',
+  stock_quantity numeric(12,3) NOT NULL DEFAULT 0,
+  low_stock_threshold numeric(12,3) NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingredients_name ON ingredients (lower(name));
+
+CREATE TABLE IF NOT EXISTS recipe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  quantity numeric(12,3) NOT NULL CHECK (quantity > 0),
+  UNIQUE (menu_item_id, ingredient_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE,
+  ingredient_id uuid REFERENCES ingredients(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  change numeric(12,3) NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('order_confirmed', 'order_cancelled', 'adjustment')),
+  actor_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((menu_item_id IS NULL) <> (ingredient_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_items_menu_item_id ON recipe_items(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order_id ON stock_movements(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_menu_item_id ON stock_movements(menu_item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_ingredient_id ON stock_movements(ingredient_id, created_at DESC);
+
+ALTER TABLE ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Units of each menu item an order uses: its own lines plus combo components
+CREATE OR REPLACE FUNCTION order_stock_usage(p_order_id uuid)
+RETURNS TABLE (menu_item_id uuid, quantity integer) AS $$
+  SELECT usage.menu_item_id, sum(usage.quantity)::integer
+  FROM (
+    SELECT oi.menu_item_id, oi.quantity
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id AND oi.menu_item_id IS NOT NULL
+    UNION ALL
+    SELECT (component->>'menuItemId')::uuid, oi.quantity
+    FROM order_items oi,
+      jsonb_array_elements(COALESCE(oi.bundle_selections, '[]'::jsonb)) AS component
+    WHERE oi.order_id = p_order_id AND component ? 'menuItemId'
+  ) AS usage
+  GROUP BY usage.menu_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- Record one stock change and apply it
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_menu_item_id uuid,
+  p_ingredient_id uuid,
+  p_order_id uuid,
+  p_change numeric,
+  p_reason text,
+  p_actor_name text
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO stock_movements (menu_item_id, ingredient_id, order_id, change, reason, actor_name)
+  VALUES (p_menu_item_id, p_ingredient_id, p_order_id, p_change, p_reason, p_actor_name);
+
+  IF p_menu_item_id IS NOT NULL THEN
+    UPDATE menu_items SET stock_quantity = stock_quantity + p_change::integer WHERE id = p_menu_item_id;
+  ELSE
+    UPDATE ingredients SET stock_quantity = stock_quantity + p_change, updated_at = now() WHERE id = p_ingredient_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_stock_availability()
+RETURNS void AS $$
+BEGIN
+  WITH stock AS (
+    SELECT
+      m.id,
+      (m.track_stock AND m.stock_quantity <= 0) OR EXISTS (
+        SELECT 1
+        FROM recipe_items r
+        JOIN ingredients i ON i.id = r.ingredient_id
+        WHERE r.menu_item_id = m.id AND i.stock_quantity < r.quantity
+      ) AS sold_out
+    FROM menu_items m
+  )
+  UPDATE menu_items m
+  SET available = NOT stock.sold_out,
+      auto_sold_out = stock.sold_out
+  FROM stock
+  WHERE m.id = stock.id
+    AND ((stock.sold_out AND m.available) OR (NOT stock.sold_out AND m.auto_sold_out));
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION deduct_order_stock(p_order_id uuid, p_actor_name text)
+RETURNS void AS $$
+DECLARE
+  movement record;
+BEGIN
+  -- Serialise per order so a deduction is only ever made once
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM stock_movements WHERE order_id = p_order_id AND reason = 'order_confirmed') THEN
+    RETURN;
+  END IF;
+
+  FOR movement IN
+    SELECT usage.menu_item_id, NULL::uuid AS ingredient_id, -usage.quantity::numeric AS change
+    FROM order_stock_usage(p_order_id) usage
+    JOIN menu_items m ON m.id = usage.menu_item_id
+    WHERE m.track_stock
+    UNION ALL
+    SELECT NULL::uuid, r.ingredient_id, -sum(r.quantity * usage.quantity)
+    FROM order_stock_usage(p_order_id) usage
+    JOIN recipe_items r ON r.menu_item_id = usage.menu_item_id
+    GROUP BY r.ingredient_id
+  LOOP
+    PERFORM apply_stock_movement(movement.menu_item_id, movement.ingredient_id, p_order_id, movement.change, 'order_confirmed', p_actor_name);
+  END LOOP;
+
+  PERFORM refresh_stock_availability();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION restore_order_stock(p_order_id uuid, p_actor_name text)
+RETURNS void AS $$
+DECLARE
+  movement record;
+BEGIN
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  -- Whatever the order still holds, per item and ingredient
+  FOR movement IN
+    SELECT menu_item_id, ingredient_id, -sum(change) AS change
+    FROM stock_movements
+    WHERE order_id = p_order_id
+    GROUP BY menu_item_id, ingredient_id
+    HAVING sum(change) <> 0
+  LOOP
+    PERFORM apply_stock_movement(movement.menu_item_id, movement.ingredient_id, p_order_id, movement.change, 'order_cancelled', p_actor_name);
+  END LOOP;
+
+  PERFORM refresh_stock_availability();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_menu_item_id uuid,
+  p_ingredient_id uuid,
+  p_quantity numeric,
+  p_actor_name text
+)
+RETURNS void AS $$
+DECLARE
+  current_quantity numeric;
+BEGIN
+  IF p_menu_item_id IS NOT NULL THEN
+    SELECT stock_quantity INTO current_quantity FROM menu_items WHERE id = p_menu_item_id FOR UPDATE;
+  ELSE
+    SELECT stock_quantity INTO current_quantity FROM ingredients WHERE id = p_ingredient_id FOR UPDATE;
+  END IF;
+
+  IF FOUND AND p_quantity <> current_quantity THEN
+    PERFORM apply_stock_movement(p_menu_item_id, p_ingredient_id, NULL, p_quantity - current_quantity, 'adjustment', p_actor_name);
+  END IF;
+
+  PERFORM refresh_stock_availability();
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION order_stock_usage(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(uuid, uuid, uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_stock_availability() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION deduct_order_stock(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_order_stock(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_stock(uuid, uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+
+-- Payload-free change notifications for the storefront menu
+CREATE OR REPLACE FUNCTION broadcast_menu_change()
+RETURNS trigger AS $$
+BEGIN
+  BEGIN
+    PERFORM realtime.send('{}'::jsonb, 'menu_changed', 'menu', false);
+  EXCEPTION WHEN OTHERS THEN
+    -- A missed notification must never fail the menu write
+    RAISE WARNING 'Could not broadcast menu change: %', SQLERRM;
+  END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION broadcast_menu_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS broadcast_menu_items_change ON menu_items;
+CREATE TRIGGER broadcast_menu_items_change
+  AFTER INSERT OR DELETE ON menu_items
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION broadcast_menu_change();
+
+-- Stock counts are not shown on the storefront, so stock-only updates stay quiet
+DROP TRIGGER IF EXISTS broadcast_menu_item_update ON menu_items;
+CREATE TRIGGER broadcast_menu_item_update
+  AFTER UPDATE ON menu_items
+  FOR EACH ROW
+  WHEN (OLD.stock_quantity IS NOT DISTINCT FROM NEW.stock_quantity OR OLD.available IS DISTINCT FROM NEW.available)
+  EXECUTE FUNCTION broadcast_menu_change();
@@ -0,0 +1,68 @@
+/*
+  # Per-branch Menu Overrides
+
+  1. New Tables
+    - `branch_menu_overrides` - how one branch differs from the main menu
+      - `branch_id` (uuid)
+      - `menu_item_id` (uuid)
+      - `available` (boolean) - false marks the item sold out at this branch
+        only; an item that is unavailable on the main menu (or sold out by
+        inventory) stays unavailable everywhere
+      - `price` (numeric, nullable) - the branch's base price; null keeps the
+        item's own
+      - `discount_active` (boolean, nullable) - when set, the branch's discount
+        fields below replace the item's (false means no discount at this
+        branch); null keeps the item's discount
+      - `discount_price`, `discount_start_date`, `discount_end_date`
+      - unique per branch and item
+
+  2. Realtime
+    - Changes broadcast `menu_changed` on the `menu` topic (see the inventory
+      migration) so storefronts refetch
+
+  3. Security
+    - Same as `menu_items`: anyone can read, authenticated users can manage
+*/
+
+CREATE TABLE IF NOT EXISTS branch_menu_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  available boolean NOT NULL DEFAULT true,
+  price decimal(10,2) CHECK (price IS NULL OR price >= 0),
+  discount_active boolean,
+  discount_price decimal(10,2) CHECK (discount_price IS NULL OR discount_price >= 0),
+  discount_start_date timestamptz,
+  discount_end_date timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (branch_id, menu_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_branch_menu_overrides_menu_item_id ON branch_menu_overrides(menu_item_id);
+
+ALTER TABLE branch_menu_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read branch menu overrides"
+  ON branch_menu_overrides
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage branch menu overrides"
+  ON branch_menu_overrides
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_branch_menu_overrides_updated_at
+  BEFORE UPDATE ON branch_menu_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS broadcast_branch_menu_overrides_change ON branch_menu_overrides;
+CREATE TRIGGER broadcast_branch_menu_overrides_change
+  AFTER INSERT OR UPDATE OR DELETE ON branch_menu_overrides
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION broadcast_menu_change();
@@ -0,0 +1,32 @@
+/*
+  # Availability Schedules
+
+  1. Changes
+    - `categories.availability_schedule` (jsonb, nullable)
+    - `menu_items.availability_schedule` (jsonb, nullable)
+      - When the category or item can be ordered; null means always. An item
+        is only orderable when both its own and its category's schedule allow.
+      - Shape: `{ "days": [1, 2, 3, 4, 5], "timeRanges": [{ "start": "06:00",
+        "end": "11:00" }], "startDate": "2025-12-01", "endDate": null,
+        "timezone": "Asia/Manila" }`. Empty `days` means every day, empty
+        `timeRanges` means all day, and a range may run past midnight.
+      - Read by src/lib/schedule.ts on the storefront and in POST /api/orders
+
+  2. Realtime
+    - Category changes broadcast `menu_changed` on the `menu` topic (see the
+      inventory migration) so storefronts pick up new schedules
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS availability_schedule jsonb
+    CHECK (availability_schedule IS NULL OR jsonb_typeof(availability_schedule) = 'object');
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS availability_schedule jsonb
+    CHECK (availability_schedule IS NULL OR jsonb_typeof(availability_schedule) = 'object');
+
+DROP TRIGGER IF EXISTS broadcast_categories_change ON categories;
+CREATE TRIGGER broadcast_categories_change
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION broadcast_menu_change();
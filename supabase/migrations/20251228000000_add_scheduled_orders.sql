@@ -0,0 +1,35 @@
+/*
+  # Scheduled Orders (Order Ahead)
+
+  1. Changes
+    - `orders.scheduled_for` (timestamptz, nullable)
+      - When a pickup, delivery or dine-in order is wanted; null means as soon
+        as possible. Slots are on the quarter hour in the store time zone.
+      - Replaces the free-text `pickup_time`, which checkout no longer
+        collects. Scheduled dine-in orders also fill in `dine_in_time`.
+
+  2. Site Settings
+    - `order_ahead_max_days` - how many days ahead customers can schedule an
+      order; 0 turns ordering ahead off
+    - `order_ahead_lead_minutes` - how long before the scheduled time an
+      order is released to the kitchen; also the shortest notice a customer
+      can schedule with
+
+  3. Notes
+    - Confirmed orders stay in the "Scheduled" queue in the admin order
+      manager until `scheduled_for - order_ahead_lead_minutes`
+    - Scheduled deliveries are booked with Lalamove `scheduleAt` set so the
+      courier arrives in time (see src/lib/orderAhead.ts)
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS scheduled_for timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_scheduled_for
+  ON orders(scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
+
+INSERT INTO site_settings (id, value, type, description) VALUES
+  ('order_ahead_max_days', '7', 'number', 'How many days ahead customers can schedule an order (0 turns it off)'),
+  ('order_ahead_lead_minutes', '30', 'number', 'Minutes before a scheduled order is due that it is sent to the kitchen')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,104 @@
+/*
+  # Order Slot Capacity
+
+  1. Changes
+    - `branches.slot_max_orders` (integer, nullable) - most orders one branch
+      takes for a 15-minute slot; null means no limit
+    - `branches.slot_max_items` (integer, nullable) - most items (summed
+      quantities) per slot; null means no limit
+    - `orders.slot_start` (timestamptz, nullable) - the 15-minute slot the
+      order counts against: its scheduled time, or for orders wanted as soon
+      as possible the first slot after the kitchen lead time
+    - `orders.slot_item_count` (integer) - items the order counts for
+
+  2. New Tables
+    - `branch_slot_blocks` - slots a branch has closed to new orders
+      - `branch_id` (uuid), `slot_start` (timestamptz), unique together
+      - `created_by` (text) - staff member who blocked it
+
+  3. New Functions
+    - `claim_order_slot(p_order_id, p_branch_id, p_slot_start, p_item_count)` -
+      locks the branch, checks the slot is not blocked and has room, and
+      records the slot on the order; returns null on success or the reason it
+      was refused (`blocked` or `full`)
+
+  4. Security
+    - Enable RLS on `branch_slot_blocks` with no policies (service role only);
+      customers see open slots through /api/slots and staff manage them
+      through /api/branches/[id]/slots
+    - `claim_order_slot` is not executable by anon or authenticated
+
+  5. Notes
+    - Cancelled orders do not count towards a slot
+*/
+
+ALTER TABLE branches
+  ADD COLUMN IF NOT EXISTS slot_max_orders integer CHECK (slot_max_orders IS NULL OR slot_max_orders > 0),
+  ADD COLUMN IF NOT EXISTS slot_max_items integer CHECK (slot_max_items IS NULL OR slot_max_items > 0);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS slot_start timestamptz,
+  ADD COLUMN IF NOT EXISTS slot_item_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_orders_branch_slot
+  ON orders(branch_id, slot_start)
+  WHERE slot_start IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS branch_slot_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  slot_start timestamptz NOT NULL,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (branch_id, slot_start)
+);
+
+ALTER TABLE branch_slot_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_order_slot(
+  p_order_id uuid,
+  p_branch_id uuid,
+  p_slot_start timestamptz,
+  p_item_count integer
+)
+RETURNS text AS $$
+DECLARE
+  b branches%ROWTYPE;
+  used_orders integer;
+  used_items integer;
+BEGIN
+  -- Serialise claims for the same branch so the last place cannot be taken twice
+  SELECT * INTO b FROM branches WHERE id = p_branch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'blocked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM branch_slot_blocks
+    WHERE branch_id = p_branch_id AND slot_start = p_slot_start
+  ) THEN
+    RETURN 'blocked';
+  END IF;
+
+  SELECT count(*), coalesce(sum(slot_item_count), 0) INTO used_orders, used_items
+  FROM orders
+  WHERE branch_id = p_branch_id
+    AND slot_start = p_slot_start
+    AND status <> 'cancelled'
+    AND id <> p_order_id;
+
+  IF (b.slot_max_orders IS NOT NULL AND used_orders + 1 > b.slot_max_orders)
+    OR (b.slot_max_items IS NOT NULL AND used_items + p_item_count > b.slot_max_items) THEN
+    RETURN 'full';
+  END IF;
+
+  UPDATE orders
+  SET slot_start = p_slot_start, slot_item_count = p_item_count
+  WHERE id = p_order_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_order_slot(uuid, uuid, timestamptz, integer) FROM PUBLIC, anon, authenticated;
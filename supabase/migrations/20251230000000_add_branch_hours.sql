@@ -0,0 +1,30 @@
+/*
+  # Branch Opening Hours, Holidays and Pausing
+
+  1. Changes
+    - `branches.opening_hours` (jsonb, nullable) - seven lists of
+      `{ start, end }` ranges ("HH:MM"), Sunday first, in the store time zone
+      (Asia/Manila); an empty list closes that day and a range may run past
+      midnight. Null means always open, which keeps existing branches as they
+      are.
+    - `branches.holidays` (jsonb) - `{ date, label }` days the branch is closed
+    - `branches.ordering_paused_at` (timestamptz, nullable) - set while staff
+      have paused online ordering ("busy mode")
+    - `branches.ordering_paused_until` (timestamptz, nullable) - when the pause
+      ends by itself; null keeps it paused until staff resume it
+    - `branches.ordering_paused_by` (text, nullable) - staff member who paused it
+
+  2. Notes
+    - POST /api/orders refuses orders for as soon as possible while a branch
+      is closed or paused, and scheduled orders for times it is closed or
+      paused; see src/lib/branchHours.ts
+    - Staff pause and resume ordering from the order manager through
+      /api/branches/[id]/pause
+*/
+
+ALTER TABLE branches
+  ADD COLUMN IF NOT EXISTS opening_hours jsonb,
+  ADD COLUMN IF NOT EXISTS holidays jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS ordering_paused_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ordering_paused_until timestamptz,
+  ADD COLUMN IF NOT EXISTS ordering_paused_by text;
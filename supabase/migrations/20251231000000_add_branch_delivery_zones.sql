@@ -0,0 +1,18 @@
+/*
+  # Branch Delivery Zones
+
+  1. Changes
+    - `branches.delivery_zone` (jsonb, nullable) - where the branch delivers:
+      `{ type: 'radius', radiusKm }` around the branch's pin, or
+      `{ type: 'polygon', points }` with `[lat, lng]` corners drawn on the map.
+      Null means no limit, which keeps existing branches as they are.
+
+  2. Notes
+    - Checkout suggests the nearest branch that delivers to the customer's
+      address and asks for no Lalamove quote outside every zone
+    - POST /api/orders and the Lalamove quote proxy refuse delivery addresses
+      outside the branch's zone; see src/lib/deliveryZones.ts
+*/
+
+ALTER TABLE branches
+  ADD COLUMN IF NOT EXISTS delivery_zone jsonb;
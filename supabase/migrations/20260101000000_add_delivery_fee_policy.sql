@@ -0,0 +1,37 @@
+/*
+  # Delivery Fee Policy
+
+  1. Changes
+    - `orders.delivery_courier_cost` (numeric, nullable) - what Lalamove quoted
+      for the delivery when the order was placed. `delivery_fee` stays what the
+      customer pays; the difference is what the store covers.
+
+  2. Site Settings
+    - `delivery_min_order` - smallest food subtotal delivered (0: no minimum)
+    - `delivery_free_above` - food subtotal from which delivery is free (0: never)
+    - `delivery_subsidy_type` - `none`, `percent` or `fixed`
+    - `delivery_subsidy_value` - percent of the courier cost, or pesos, the
+      store covers
+    - `delivery_markup` - pesos added to every fee, e.g. for packaging
+    - `delivery_fee_rounding` - `none`, `peso`, `five` or `ten`; fees are
+      rounded up to that step
+
+  3. Notes
+    - A branch's delivery zone (`branches.delivery_zone`) can carry a
+      `flatFee` charged instead of the Lalamove price
+    - Checkout shows the fee and POST /api/orders works it out again from the
+      verified quote; see src/lib/deliveryFee.ts
+    - The sales report totals courier costs and the delivery subsidy
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS delivery_courier_cost numeric(10,2);
+
+INSERT INTO site_settings (id, value, type, description) VALUES
+  ('delivery_min_order', '0', 'number', 'Smallest food subtotal for delivery orders (0 for no minimum)'),
+  ('delivery_free_above', '0', 'number', 'Food subtotal from which delivery is free (0 to never make it free)'),
+  ('delivery_subsidy_type', 'none', 'text', 'How the store subsidises delivery: none, percent or fixed'),
+  ('delivery_subsidy_value', '0', 'number', 'Percent of the courier cost, or pesos, the store covers'),
+  ('delivery_markup', '0', 'number', 'Pesos added to every delivery fee, e.g. for packaging'),
+  ('delivery_fee_rounding', 'none', 'text', 'Round delivery fees up to the next peso, five or ten: none, peso, five or ten')
+ON CONFLICT (id) DO NOTHING;
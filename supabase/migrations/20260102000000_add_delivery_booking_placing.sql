@@ -0,0 +1,30 @@
+/*
+  # Delivery Booking Placing Marker
+
+  1. Changes to `delivery_booking_jobs`
+    - Add `placing_since` (timestamptz) - set just before Lalamove is asked to
+      book a courier and cleared once the answer is saved
+
+  2. Indexes
+    - `lalamove_webhook_events(received_at)` for looking up recent bookings
+
+  3. Notes
+    - A job found with `placing_since` set crashed while booking and may
+      already have a courier. Bookings carry the job's `idempotency_key` in
+      their Lalamove metadata; src/lib/deliveryBooking.ts looks for that
+      booking among the Lalamove orders reported to the webhook before it
+      books again. Retrying from the admin clears the marker.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'delivery_booking_jobs' AND column_name = 'placing_since'
+  ) THEN
+    ALTER TABLE delivery_booking_jobs ADD COLUMN placing_since timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_lalamove_webhook_events_received_at
+  ON lalamove_webhook_events(received_at);
@@ -0,0 +1,14 @@
+/*
+  # Lock Down Branch Menu Overrides
+
+  1. Security
+    - Drop "Authenticated users can manage branch menu overrides". Staff sign
+      in through the app's own sessions, not Supabase Auth, so the policy only
+      let arbitrary Supabase Auth sign-ups rewrite the branch prices and
+      discounts POST /api/orders charges
+    - The public read policy stays; the storefront still reads the table
+    - Writes go through PUT/DELETE /api/branches/[id]/menu/[itemId]
+      (menu.edit, branch staff only for their own branch) with the service role
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can manage branch menu overrides" ON branch_menu_overrides;
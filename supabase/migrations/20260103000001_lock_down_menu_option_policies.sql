@@ -0,0 +1,24 @@
+/*
+  # Lock Down Menu Item Options
+
+  1. Security
+    - Drop the "Authenticated users can manage ..." policies on `bundle_slots`,
+      `bundle_slot_options`, `add_on_groups`, `variation_dimensions`,
+      `variation_dimension_options` and `variation_price_overrides`. Staff sign
+      in through the app's own sessions, not Supabase Auth, so these only let
+      arbitrary Supabase Auth sign-ups rewrite what POST /api/orders charges
+    - The public read policies stay; the storefront still reads these tables
+    - Writes go through PUT /api/menu/[id]/options (menu.edit) with the
+      service role
+
+  2. Notes
+    - Deleting a menu item still removes its rows here through the foreign key
+      cascades, which do not go through row level security
+*/
+
+DROP POLICY IF EXISTS "Authenticated users can manage bundle slots" ON bundle_slots;
+DROP POLICY IF EXISTS "Authenticated users can manage bundle slot options" ON bundle_slot_options;
+DROP POLICY IF EXISTS "Authenticated users can manage add-on groups" ON add_on_groups;
+DROP POLICY IF EXISTS "Authenticated users can manage variation dimensions" ON variation_dimensions;
+DROP POLICY IF EXISTS "Authenticated users can manage variation dimension options" ON variation_dimension_options;
+DROP POLICY IF EXISTS "Authenticated users can manage variation price overrides" ON variation_price_overrides;
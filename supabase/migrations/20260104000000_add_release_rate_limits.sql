@@ -0,0 +1,29 @@
+/*
+  # Give Back Rate Limit Hits
+
+  1. New Functions
+    - `release_rate_limits(p_keys)` - deletes the latest hit on each key.
+      POST /api/orders/track consumes a hit for every lookup, so parallel
+      guesses are still held to the limit, then gives it back when the
+      lookup found its order. Only wrong order or contact numbers count, and
+      a tracking page refreshing itself no longer uses up the limit for
+      everyone on the same IP.
+
+  2. Security
+    - Revoke EXECUTE on `release_rate_limits` from anon/authenticated
+*/
+
+CREATE OR REPLACE FUNCTION release_rate_limits(p_keys text[])
+RETURNS void AS $$
+BEGIN
+  DELETE FROM rate_limit_hits
+  WHERE id IN (
+    SELECT DISTINCT ON (key) id
+    FROM rate_limit_hits
+    WHERE key = ANY(p_keys)
+    ORDER BY key, hit_at DESC, id DESC
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION release_rate_limits(text[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,98 @@
+/**
+ * Add-on Group Tests
+ *
+ * Unit tests for the add-on group rules in src/lib/addOnGroups.ts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkAddOnGroups,
+  describeAddOnGroup,
+  getAddOnMaxQuantity,
+  toAddOnGroups
+} from '../src/lib/addOnGroups';
+import type { AddOn, AddOnGroup } from '../src/types';
+
+const milk: AddOnGroup = { id: 'milk', name: 'Choose milk', minSelect: 1, maxSelect: 1 };
+const toppings: AddOnGroup = { id: 'toppings', name: 'Toppings', minSelect: 0, maxSelect: 3 };
+const shots: AddOnGroup = { id: 'shots', name: 'Extra shots', minSelect: 0, maxSelect: null, maxPerOption: 2 };
+
+const addOn = (id: string, groupId: string | null, quantity = 1): AddOn => ({
+  id,
+  name: id,
+  price: 10,
+  category: 'extras',
+  groupId,
+  quantity
+});
+
+describe('checkAddOnGroups', () => {
+  it('should pass when every rule is met', () => {
+    expect(checkAddOnGroups([milk, toppings, shots], [
+      addOn('oat', 'milk'),
+      addOn('pearls', 'toppings', 2),
+      addOn('espresso', 'shots', 2)
+    ])).toEqual([]);
+  });
+
+  it('should require a pick from required groups', () => {
+    expect(checkAddOnGroups([milk], [])).toEqual([{ groupId: 'milk', message: 'Choose 1 for "Choose milk"' }]);
+    expect(checkAddOnGroups([{ ...milk, maxSelect: null }], null)).toEqual([
+      { groupId: 'milk', message: 'Choose at least 1 for "Choose milk"' }
+    ]);
+  });
+
+  it('should count quantities toward the group maximum', () => {
+    expect(checkAddOnGroups([toppings], [addOn('pearls', 'toppings', 2), addOn('jelly', 'toppings', 2)])).toEqual([
+      { groupId: 'toppings', message: 'Choose up to 3 for "Toppings"' }
+    ]);
+  });
+
+  it('should add up repeated entries for the per-add-on limit', () => {
+    expect(checkAddOnGroups([shots], [addOn('espresso', 'shots'), addOn('espresso', 'shots', 2)])).toEqual([
+      { groupId: 'shots', message: 'Up to 2 espresso allowed' }
+    ]);
+  });
+
+  it('should ignore add-ons without a group', () => {
+    expect(checkAddOnGroups([toppings], [addOn('cheese', null, 20)])).toEqual([]);
+  });
+});
+
+describe('getAddOnMaxQuantity', () => {
+  it('should have no cap outside a group', () => {
+    expect(getAddOnMaxQuantity(undefined, addOn('cheese', null), [])).toBeNull();
+  });
+
+  it('should leave room for what is already picked in the group', () => {
+    const selected = [addOn('pearls', 'toppings', 2)];
+    expect(getAddOnMaxQuantity(toppings, addOn('jelly', 'toppings'), selected)).toBe(1);
+    expect(getAddOnMaxQuantity(toppings, addOn('pearls', 'toppings'), selected)).toBe(3);
+  });
+
+  it('should use the tighter of the group and per-add-on limits', () => {
+    expect(getAddOnMaxQuantity({ ...shots, maxSelect: 5 }, addOn('espresso', 'shots'), [])).toBe(2);
+    expect(getAddOnMaxQuantity({ ...shots, maxSelect: 3 }, addOn('espresso', 'shots'), [addOn('decaf', 'shots', 2)])).toBe(1);
+  });
+});
+
+describe('describeAddOnGroup', () => {
+  it('should describe each kind of rule', () => {
+    expect(describeAddOnGroup(milk)).toBe('Required · choose 1');
+    expect(describeAddOnGroup({ ...milk, maxSelect: 3 })).toBe('Required · choose at least 1, up to 3');
+    expect(describeAddOnGroup(toppings)).toBe('Up to 3');
+    expect(describeAddOnGroup(shots)).toBe('Optional · max 2 each');
+  });
+});
+
+describe('toAddOnGroups', () => {
+  it('should sort groups and keep blank limits as no limit', () => {
+    expect(toAddOnGroups([
+      { id: 'b', name: 'Toppings', min_select: 0, max_select: 3, max_per_option: null, sort_order: 1 },
+      { id: 'a', name: 'Choose milk', min_select: 1, max_select: 1, max_per_option: null, sort_order: 0 }
+    ])).toEqual([
+      { id: 'a', name: 'Choose milk', minSelect: 1, maxSelect: 1, maxPerOption: null },
+      { id: 'b', name: 'Toppings', minSelect: 0, maxSelect: 3, maxPerOption: null }
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Branch Hours Tests
+ *
+ * Unit tests for branch opening hours, holiday closures and pausing in
+ * src/lib/branchHours.ts: the open/closed status shown to customers and the
+ * checks in POST /api/orders.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkBranchOrderTime,
+  getBranchStatus,
+  isBranchOpenAt,
+  normalizeHolidays,
+  normalizeOpeningHours,
+  parsePauseInput
+} from '../src/lib/branchHours';
+
+const DAY = [{ start: '10:00', end: '21:00' }];
+// Closed Sundays, open late on Fridays and Saturdays
+const branch = {
+  name: 'Makati',
+  opening_hours: [[], DAY, DAY, DAY, DAY, [{ start: '10:00', end: '02:00' }], [{ start: '10:00', end: '02:00' }]],
+  holidays: [{ date: '2025-06-18', label: 'Branch anniversary' }],
+  ordering_paused_at: null,
+  ordering_paused_until: null
+};
+
+// Manila is UTC+8: 06:00Z on Monday is 2:00 PM there
+const MONDAY_2PM = new Date('2025-06-16T06:00:00Z');
+
+describe('normalizeOpeningHours', () => {
+  it('should keep good ranges and treat anything but seven days as always open', () => {
+    expect(normalizeOpeningHours([[{ start: '09:00', end: '09:00' }, { start: '09:00', end: '17:00' }], [], [], [], [], [], []])?.[0])
+      .toEqual([{ start: '09:00', end: '17:00' }]);
+    expect(normalizeOpeningHours([DAY])).toBeNull();
+    expect(normalizeOpeningHours(null)).toBeNull();
+  });
+});
+
+describe('normalizeHolidays', () => {
+  it('should drop bad and repeated dates and sort the rest', () => {
+    expect(normalizeHolidays([
+      { date: '2025-12-25', label: 'Christmas' },
+      { date: 'someday', label: 'Later' },
+      { date: '2025-01-01', label: ' New Year ' },
+      { date: '2025-12-25', label: 'Again' }
+    ])).toEqual([{ date: '2025-01-01', label: 'New Year' }, { date: '2025-12-25', label: 'Christmas' }]);
+  });
+});
+
+describe('isBranchOpenAt', () => {
+  it('should follow the weekly hours in the store time zone', () => {
+    expect(isBranchOpenAt(branch, MONDAY_2PM)).toBe(true);
+    // Monday 9:30 PM
+    expect(isBranchOpenAt(branch, new Date('2025-06-16T13:30:00Z'))).toBe(false);
+    // Sunday noon
+    expect(isBranchOpenAt(branch, new Date('2025-06-15T04:00:00Z'))).toBe(false);
+  });
+
+  it('should keep late hours open past midnight', () => {
+    // 1:00 AM on Saturday belongs to Friday's hours
+    expect(isBranchOpenAt(branch, new Date('2025-06-20T17:00:00Z'))).toBe(true);
+    // 1:00 AM on Friday does not
+    expect(isBranchOpenAt(branch, new Date('2025-06-19T17:00:00Z'))).toBe(false);
+  });
+
+  it('should stay closed on holidays and treat no hours as always open', () => {
+    // Wednesday 2:00 PM
+    expect(isBranchOpenAt(branch, new Date('2025-06-18T06:00:00Z'))).toBe(false);
+    expect(isBranchOpenAt({ ...branch, opening_hours: null }, new Date('2025-06-15T19:00:00Z'))).toBe(true);
+  });
+});
+
+describe('getBranchStatus', () => {
+  it('should say when an open branch closes', () => {
+    expect(getBranchStatus(branch, MONDAY_2PM)).toEqual({ state: 'open', opensAt: null, label: 'Open until 9:00 PM' });
+  });
+
+  it('should say when a closed branch opens next', () => {
+    // Sunday noon: opens Monday at 10:00 AM
+    const status = getBranchStatus(branch, new Date('2025-06-15T04:00:00Z'));
+    expect(status.state).toBe('closed');
+    expect(status.opensAt?.toISOString()).toBe('2025-06-16T02:00:00.000Z');
+    expect(status.label).toBe('Closed · Opens tomorrow at 10:00 AM');
+  });
+
+  it('should skip holidays and name them', () => {
+    const status = getBranchStatus(branch, new Date('2025-06-18T06:00:00Z'));
+    expect(status.label).toBe('Closed for Branch anniversary · Opens tomorrow at 10:00 AM');
+  });
+
+  it('should show a pause and when it ends', () => {
+    const paused = { ...branch, ordering_paused_at: '2025-06-16T05:50:00Z', ordering_paused_until: '2025-06-16T06:30:00Z' };
+    expect(getBranchStatus(paused, MONDAY_2PM).label).toBe('Busy · Back at 2:30 PM');
+    expect(getBranchStatus(paused, new Date('2025-06-16T06:30:00Z')).state).toBe('open');
+    expect(getBranchStatus({ ...paused, ordering_paused_until: null }, MONDAY_2PM).label).toBe('Not taking online orders right now');
+  });
+});
+
+describe('checkBranchOrderTime', () => {
+  const paused = { ...branch, ordering_paused_at: '2025-06-16T05:50:00Z', ordering_paused_until: '2025-06-16T06:30:00Z' };
+
+  it('should take orders for now only while open and not paused', () => {
+    expect(checkBranchOrderTime(branch, null, MONDAY_2PM)).toBeNull();
+    expect(checkBranchOrderTime(branch, null, new Date('2025-06-15T04:00:00Z'))).toBe(
+      'Makati is closed right now. Opens tomorrow at 10:00 AM.'
+    );
+    expect(checkBranchOrderTime(paused, null, MONDAY_2PM)).toBe(
+      'Makati is busy and not taking orders right now. Back at 2:30 PM.'
+    );
+  });
+
+  it('should take scheduled orders for open times after a pause', () => {
+    expect(checkBranchOrderTime(paused, new Date('2025-06-16T07:00:00Z'), MONDAY_2PM)).toBeNull();
+    expect(checkBranchOrderTime(paused, new Date('2025-06-16T06:15:00Z'), MONDAY_2PM)).toBe(
+      'Makati is not taking orders for the time you picked'
+    );
+    expect(checkBranchOrderTime(branch, new Date('2025-06-16T13:30:00Z'), MONDAY_2PM)).toBe(
+      'Makati is closed at the time you picked'
+    );
+  });
+});
+
+describe('parsePauseInput', () => {
+  it('should pause for some minutes or until resumed', () => {
+    expect(parsePauseInput({ minutes: 30 }, MONDAY_2PM)).toEqual({ until: new Date('2025-06-16T06:30:00Z') });
+    expect(parsePauseInput({}, MONDAY_2PM)).toEqual({ until: null });
+    expect(parsePauseInput({ minutes: 0 }, MONDAY_2PM)).toEqual({
+      error: 'Pause for between 1 minute and 24 hours, or until resumed'
+    });
+  });
+});
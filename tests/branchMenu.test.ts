@@ -0,0 +1,191 @@
+/**
+ * Branch Menu Tests
+ *
+ * Unit tests for per-branch availability and pricing in src/lib/branchMenu.ts,
+ * shared by the storefront menu and POST /api/orders, and for the input
+ * check behind PUT /api/branches/[id]/menu/[itemId].
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyBranchOverrides,
+  applyBranchPricing,
+  isAvailableAtBranch,
+  parseBranchMenuOverrideInput,
+  toBranchMenuOverrides
+} from '../src/lib/branchMenu';
+import type { BranchMenuOverride, MenuItem } from '../src/types';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const override = (overrides: Partial<BranchMenuOverride> = {}): BranchMenuOverride => ({
+  id: 'override-1',
+  branchId: 'branch-1',
+  menuItemId: 'item-1',
+  available: true,
+  price: null,
+  discountActive: null,
+  discountPrice: null,
+  discountStartDate: null,
+  discountEndDate: null,
+  ...overrides
+});
+
+const menuItem = (overrides: Partial<MenuItem> = {}): MenuItem => ({
+  id: 'item-1',
+  name: 'Classic Shake',
+  description: '',
+  basePrice: 120,
+  category: 'shakes',
+  available: true,
+  effectivePrice: 120,
+  isOnDiscount: false,
+  ...overrides
+});
+
+describe('toBranchMenuOverrides', () => {
+  it('should map rows and convert numeric columns', () => {
+    expect(toBranchMenuOverrides([{
+      id: 'o1',
+      branch_id: 'b1',
+      menu_item_id: 'i1',
+      available: false,
+      price: '135.50',
+      discount_active: null,
+      discount_price: null,
+      discount_start_date: null,
+      discount_end_date: null
+    }])).toEqual([override({ id: 'o1', branchId: 'b1', menuItemId: 'i1', available: false, price: 135.5 })]);
+  });
+
+  it('should handle no rows', () => {
+    expect(toBranchMenuOverrides(null)).toEqual([]);
+  });
+});
+
+describe('isAvailableAtBranch', () => {
+  it('should only let a branch take items off its menu', () => {
+    expect(isAvailableAtBranch(true, undefined)).toBe(true);
+    expect(isAvailableAtBranch(true, { available: false })).toBe(false);
+    expect(isAvailableAtBranch(false, { available: true })).toBe(false);
+  });
+});
+
+describe('applyBranchPricing', () => {
+  it('should keep the item price when the branch has none', () => {
+    expect(applyBranchPricing({ basePrice: 120 }, override())).toEqual({ basePrice: 120 });
+    expect(applyBranchPricing({ basePrice: 120 }, override({ price: 140 }))).toEqual({ basePrice: 140 });
+  });
+
+  it('should replace the item discount only when the branch sets one', () => {
+    const item = { basePrice: 120, discountActive: true, discountPrice: 99 };
+
+    expect(applyBranchPricing(item, override())).toMatchObject({ discountActive: true, discountPrice: 99 });
+    expect(applyBranchPricing(item, override({ discountActive: false }))).toMatchObject({
+      discountActive: false,
+      discountPrice: null
+    });
+    expect(applyBranchPricing(item, override({ discountActive: true, discountPrice: 89 }))).toMatchObject({
+      discountActive: true,
+      discountPrice: 89
+    });
+  });
+});
+
+describe('applyBranchOverrides', () => {
+  it('should return the main menu when the branch has no overrides', () => {
+    const items = [menuItem()];
+    expect(applyBranchOverrides(items, [], NOW)).toBe(items);
+  });
+
+  it('should work out the effective price at the branch', () => {
+    const [item] = applyBranchOverrides(
+      [menuItem({ discountActive: true, discountPrice: 99, effectivePrice: 99, isOnDiscount: true })],
+      [override({ price: 150, discountActive: false })],
+      NOW
+    );
+
+    expect(item).toMatchObject({ basePrice: 150, effectivePrice: 150, isOnDiscount: false, discountActive: false });
+  });
+
+  it('should respect the dates of a branch discount', () => {
+    const [expired] = applyBranchOverrides(
+      [menuItem()],
+      [override({ discountActive: true, discountPrice: 89, discountEndDate: '2025-06-01T00:00:00Z' })],
+      NOW
+    );
+
+    expect(expired).toMatchObject({ effectivePrice: 120, isOnDiscount: false });
+  });
+
+  it('should mark items and combo options sold out at the branch', () => {
+    const items = applyBranchOverrides(
+      [
+        menuItem(),
+        menuItem({
+          id: 'combo-1',
+          name: 'Shake Combo',
+          itemType: 'bundle',
+          bundleSlots: [{
+            id: 'slot-1',
+            name: 'Choose your shake',
+            options: [{ id: 'option-1', menuItemId: 'item-1', name: 'Classic Shake', upcharge: 0, available: true }]
+          }]
+        })
+      ],
+      [override({ available: false })],
+      NOW
+    );
+
+    expect(items[0].available).toBe(false);
+    expect(items[1].available).toBe(true);
+    expect(items[1].bundleSlots?.[0].options[0].available).toBe(false);
+  });
+});
+
+describe('parseBranchMenuOverrideInput', () => {
+  it('should keep the main menu discount unless the branch has its own', () => {
+    expect(parseBranchMenuOverrideInput({
+      available: false,
+      price: '',
+      discountActive: null,
+      discountPrice: 50
+    })).toEqual({
+      values: {
+        available: false,
+        price: null,
+        discountActive: null,
+        discountPrice: null,
+        discountStartDate: null,
+        discountEndDate: null
+      }
+    });
+  });
+
+  it('should read a branch price and discount', () => {
+    const input = parseBranchMenuOverrideInput({
+      price: '120',
+      discountActive: true,
+      discountPrice: 99,
+      discountStartDate: '2025-06-01T00:00:00Z'
+    });
+    expect(input).toEqual({
+      values: {
+        available: true,
+        price: 120,
+        discountActive: true,
+        discountPrice: 99,
+        discountStartDate: '2025-06-01T00:00:00.000Z',
+        discountEndDate: null
+      }
+    });
+  });
+
+  it('should reject bad prices and dates', () => {
+    expect(parseBranchMenuOverrideInput({ price: -1 })).toEqual({ error: 'Please enter a valid branch price' });
+    expect(parseBranchMenuOverrideInput({ discountActive: true })).toEqual({ error: 'Please enter the branch discount price' });
+    expect(parseBranchMenuOverrideInput({ discountActive: true, discountPrice: 10, discountEndDate: 'soon' })).toEqual({
+      error: 'Invalid discount dates'
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Combo Meal Tests
+ *
+ * Unit tests for src/lib/bundles.ts and combo upcharges in src/lib/pricing.ts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getBundleKey, getMinBundleUpcharge, resolveBundleSelections, toBundleSlots } from '../src/lib/bundles';
+import { priceLine } from '../src/lib/pricing';
+import type { BundleSlot } from '../src/types';
+
+const slots: BundleSlot[] = [
+  {
+    id: 'slot-shake',
+    name: 'Shake',
+    options: [
+      { id: 'opt-vanilla', menuItemId: 'item-vanilla', name: 'Vanilla Shake', upcharge: 0 },
+      { id: 'opt-ube', menuItemId: 'item-ube', name: 'Ube Shake', upcharge: 25, available: true }
+    ]
+  },
+  {
+    id: 'slot-side',
+    name: 'Side',
+    options: [
+      { id: 'opt-fries', menuItemId: 'item-fries', name: 'Fries', upcharge: 0, available: false },
+      { id: 'opt-onion', menuItemId: 'item-onion', name: 'Onion Rings', upcharge: 15 }
+    ]
+  }
+];
+
+describe('resolveBundleSelections', () => {
+  it('should return one selection per slot with names and upcharges from the menu', () => {
+    const result = resolveBundleSelections(slots, [
+      { slotId: 'slot-side', optionId: 'opt-onion' },
+      { slotId: 'slot-shake', optionId: 'opt-ube' }
+    ]);
+
+    expect(result).toEqual({
+      selections: [
+        { slotId: 'slot-shake', slotName: 'Shake', optionId: 'opt-ube', menuItemId: 'item-ube', name: 'Ube Shake', upcharge: 25 },
+        { slotId: 'slot-side', slotName: 'Side', optionId: 'opt-onion', menuItemId: 'item-onion', name: 'Onion Rings', upcharge: 15 }
+      ]
+    });
+  });
+
+  it('should ignore upcharges sent with the picks', () => {
+    const result = resolveBundleSelections(slots, [
+      { slotId: 'slot-shake', optionId: 'opt-ube', upcharge: 0 } as any,
+      { slotId: 'slot-side', optionId: 'opt-onion' }
+    ]);
+    expect('selections' in result && result.selections[0].upcharge).toBe(25);
+  });
+
+  it('should require a pick for every slot', () => {
+    expect(resolveBundleSelections(slots, [{ slotId: 'slot-shake', optionId: 'opt-ube' }])).toEqual({
+      error: 'Choose one item for "Side"'
+    });
+    expect(resolveBundleSelections(slots, null)).toEqual({ error: 'Choose one item for "Shake"' });
+  });
+
+  it('should reject two picks for one slot', () => {
+    const result = resolveBundleSelections(slots, [
+      { slotId: 'slot-shake', optionId: 'opt-ube' },
+      { slotId: 'slot-shake', optionId: 'opt-vanilla' },
+      { slotId: 'slot-side', optionId: 'opt-onion' }
+    ]);
+    expect(result).toEqual({ error: 'Choose one item for "Shake"' });
+  });
+
+  it('should reject unknown slots and options', () => {
+    expect(resolveBundleSelections(slots, [
+      { slotId: 'slot-drink', optionId: 'opt-cola' },
+      { slotId: 'slot-shake', optionId: 'opt-ube' },
+      { slotId: 'slot-side', optionId: 'opt-onion' }
+    ])).toEqual({ error: 'A choice no longer matches this combo' });
+
+    expect(resolveBundleSelections(slots, [
+      { slotId: 'slot-shake', optionId: 'opt-mango' },
+      { slotId: 'slot-side', optionId: 'opt-onion' }
+    ])).toEqual({ error: 'Your choice for "Shake" is no longer available' });
+  });
+
+  it('should reject unavailable options', () => {
+    const result = resolveBundleSelections(slots, [
+      { slotId: 'slot-shake', optionId: 'opt-vanilla' },
+      { slotId: 'slot-side', optionId: 'opt-fries' }
+    ]);
+    expect(result).toEqual({ error: 'Fries is currently unavailable' });
+  });
+});
+
+describe('getMinBundleUpcharge', () => {
+  it('should add up the cheapest available option of each slot', () => {
+    // Fries are sold out, so the side costs at least the onion rings upcharge
+    expect(getMinBundleUpcharge(slots)).toBe(15);
+  });
+
+  it('should be 0 without slots', () => {
+    expect(getMinBundleUpcharge([])).toBe(0);
+  });
+});
+
+describe('toBundleSlots', () => {
+  it('should sort slots and options and take option names from their items', () => {
+    const result = toBundleSlots([
+      {
+        id: 'slot-b',
+        name: 'Side',
+        sort_order: 1,
+        bundle_slot_options: [
+          { id: 'opt-2', menu_item_id: 'item-2', upcharge: '15.00', sort_order: 1, menu_items: { id: 'item-2', name: 'Onion Rings', available: true } },
+          { id: 'opt-1', menu_item_id: 'item-1', upcharge: '0', sort_order: 0, menu_items: { id: 'item-1', name: 'Fries', available: false } }
+        ]
+      },
+      { id: 'slot-a', name: 'Shake', sort_order: 0, bundle_slot_options: [] }
+    ]);
+
+    expect(result.map(slot => slot.name)).toEqual(['Shake', 'Side']);
+    expect(result[1].options).toEqual([
+      { id: 'opt-1', menuItemId: 'item-1', name: 'Fries', upcharge: 0, available: false },
+      { id: 'opt-2', menuItemId: 'item-2', name: 'Onion Rings', upcharge: 15, available: true }
+    ]);
+  });
+
+  it('should drop options whose item is missing', () => {
+    const result = toBundleSlots([
+      { id: 'slot-a', name: 'Shake', bundle_slot_options: [{ id: 'opt-1', menu_item_id: 'gone', upcharge: 0, menu_items: null }] }
+    ]);
+    expect(result[0].options).toEqual([]);
+  });
+});
+
+describe('combo pricing', () => {
+  it('should add the picked upcharges to the bundle price', () => {
+    const line = priceLine({
+      item: { basePrice: 199 },
+      bundleSelections: [{ upcharge: 25 }, { upcharge: 15 }],
+      quantity: 2
+    });
+    expect(line.bundleUpcharge).toBe(40);
+    expect(line.unitPrice).toBe(239);
+    expect(line.lineTotal).toBe(478);
+  });
+
+  it('should key cart lines by the picked options', () => {
+    expect(getBundleKey([
+      { slotId: 'slot-shake', slotName: 'Shake', optionId: 'opt-ube', menuItemId: 'item-ube', name: 'Ube Shake', upcharge: 25 },
+      { slotId: 'slot-side', slotName: 'Side', optionId: 'opt-onion', menuItemId: 'item-onion', name: 'Onion Rings', upcharge: 15 }
+    ])).toBe('opt-ube,opt-onion');
+    expect(getBundleKey(undefined)).toBe('');
+  });
+});
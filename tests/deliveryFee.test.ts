@@ -0,0 +1,165 @@
+/**
+ * Delivery Fee Tests
+ *
+ * Unit tests for the delivery fee policy in src/lib/deliveryFee.ts: what
+ * customers pay for delivery on top of the Lalamove quote, the minimum order
+ * for delivery and the subsidy the store covers.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyDeliveryFeePolicy,
+  checkDeliveryMinimum,
+  describeDeliveryFeePolicy,
+  getAmountToFreeDelivery,
+  getDeliveryFeePolicy,
+  getDeliverySubsidy,
+  getFixedDeliveryFee
+} from '../src/lib/deliveryFee';
+
+const NO_POLICY = getDeliveryFeePolicy(null);
+
+describe('getDeliveryFeePolicy', () => {
+  it('should charge the quote as is without settings', () => {
+    expect(NO_POLICY).toEqual({
+      minOrder: 0,
+      freeAbove: null,
+      subsidyType: 'none',
+      subsidyValue: 0,
+      markup: 0,
+      rounding: 'none'
+    });
+  });
+
+  it('should read the settings and ignore bad values', () => {
+    expect(getDeliveryFeePolicy({
+      delivery_min_order: '300',
+      delivery_free_above: '1000',
+      delivery_subsidy_type: 'percent',
+      delivery_subsidy_value: '150',
+      delivery_markup: '-5',
+      delivery_fee_rounding: 'twenty'
+    })).toEqual({
+      minOrder: 300,
+      freeAbove: 1000,
+      subsidyType: 'percent',
+      subsidyValue: 100,
+      markup: 0,
+      rounding: 'none'
+    });
+  });
+});
+
+describe('applyDeliveryFeePolicy', () => {
+  it('should pass the courier cost through without a policy', () => {
+    expect(applyDeliveryFeePolicy(87.5, 500, NO_POLICY)).toEqual({
+      fee: 87.5,
+      courierCost: 87.5,
+      subsidy: 0,
+      reason: null
+    });
+  });
+
+  it('should deliver free from the threshold, even in a flat fee zone', () => {
+    const policy = { ...NO_POLICY, freeAbove: 1000 };
+    expect(applyDeliveryFeePolicy(120, 1000, policy, 49)).toEqual({
+      fee: 0,
+      courierCost: 120,
+      subsidy: 120,
+      reason: 'free'
+    });
+    expect(applyDeliveryFeePolicy(120, 999, policy).fee).toBe(120);
+  });
+
+  it('should charge a zone flat fee instead of the rest of the policy', () => {
+    const policy = { ...NO_POLICY, markup: 10, rounding: 'ten' as const };
+    expect(applyDeliveryFeePolicy(120, 500, policy, 49)).toEqual({
+      fee: 49,
+      courierCost: 120,
+      subsidy: 71,
+      reason: 'flat'
+    });
+  });
+
+  it('should take off a percentage or fixed subsidy, never below zero', () => {
+    expect(applyDeliveryFeePolicy(120, 500, { ...NO_POLICY, subsidyType: 'percent', subsidyValue: 25 }).fee).toBe(90);
+    expect(applyDeliveryFeePolicy(120, 500, { ...NO_POLICY, subsidyType: 'fixed', subsidyValue: 50 }).fee).toBe(70);
+    expect(applyDeliveryFeePolicy(40, 500, { ...NO_POLICY, subsidyType: 'fixed', subsidyValue: 50 }).fee).toBe(0);
+  });
+
+  it('should add the markup and then round up', () => {
+    const policy = { ...NO_POLICY, subsidyType: 'fixed' as const, subsidyValue: 20, markup: 15, rounding: 'five' as const };
+    const quote = applyDeliveryFeePolicy(101.2, 500, policy);
+    expect(quote.fee).toBe(100);
+    expect(quote.subsidy).toBe(1.2);
+
+    expect(applyDeliveryFeePolicy(100, 500, { ...NO_POLICY, rounding: 'ten' })).toEqual(
+      expect.objectContaining({ fee: 100 })
+    );
+    expect(applyDeliveryFeePolicy(100.01, 500, { ...NO_POLICY, rounding: 'peso' }).fee).toBe(101);
+    // Customers paying more than the courier shows as a negative subsidy
+    expect(applyDeliveryFeePolicy(100, 500, { ...NO_POLICY, markup: 10 }).subsidy).toBe(-10);
+  });
+});
+
+describe('getFixedDeliveryFee', () => {
+  it('should only fix the fee for free delivery or a flat fee zone', () => {
+    const policy = { ...NO_POLICY, freeAbove: 1000 };
+    expect(getFixedDeliveryFee(1000, policy, 49)).toBe(0);
+    expect(getFixedDeliveryFee(500, policy, 49)).toBe(49);
+    expect(getFixedDeliveryFee(500, policy, 0)).toBe(0);
+    expect(getFixedDeliveryFee(500, policy)).toBeNull();
+  });
+});
+
+describe('checkDeliveryMinimum', () => {
+  const policy = { ...NO_POLICY, minOrder: 300 };
+
+  it('should say how much more is needed for delivery', () => {
+    expect(checkDeliveryMinimum(250.5, policy)).toBe(
+      'Delivery orders start at ₱300. Add ₱49.5 more to have it delivered.'
+    );
+    expect(checkDeliveryMinimum(300, policy)).toBeNull();
+    expect(checkDeliveryMinimum(0, NO_POLICY)).toBeNull();
+  });
+});
+
+describe('getAmountToFreeDelivery', () => {
+  it('should count down to free delivery', () => {
+    const policy = { ...NO_POLICY, freeAbove: 1000 };
+    expect(getAmountToFreeDelivery(850, policy)).toBe(150);
+    expect(getAmountToFreeDelivery(1000, policy)).toBeNull();
+    expect(getAmountToFreeDelivery(850, NO_POLICY)).toBeNull();
+  });
+});
+
+describe('describeDeliveryFeePolicy', () => {
+  it('should describe each rule', () => {
+    expect(describeDeliveryFeePolicy(NO_POLICY)).toEqual([
+      'No minimum order for delivery',
+      'Customers pay the Lalamove price as quoted'
+    ]);
+    expect(describeDeliveryFeePolicy({
+      minOrder: 300,
+      freeAbove: 1000,
+      subsidyType: 'percent',
+      subsidyValue: 50,
+      markup: 10,
+      rounding: 'five'
+    })).toEqual([
+      'Delivery orders start at ₱300',
+      'Free delivery on orders of ₱1000 or more',
+      'The store covers 50% of the courier cost',
+      '₱10 is added to every fee',
+      'Fees are rounded up to the next ₱5'
+    ]);
+  });
+});
+
+describe('getDeliverySubsidy', () => {
+  it('should use the booked price once known, else the quote', () => {
+    expect(getDeliverySubsidy({ delivery_fee: 80, delivery_courier_cost: 95, lalamove_price: 100 })).toBe(20);
+    expect(getDeliverySubsidy({ delivery_fee: null, delivery_courier_cost: 95, lalamove_price: null })).toBe(95);
+    expect(getDeliverySubsidy({ delivery_fee: 80, delivery_courier_cost: null, lalamove_price: null })).toBeNull();
+  });
+});
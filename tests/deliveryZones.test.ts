@@ -0,0 +1,151 @@
+/**
+ * Delivery Zone Tests
+ *
+ * Unit tests for branch delivery zones in src/lib/deliveryZones.ts: the
+ * nearest-branch suggestion at checkout and the zone checks before a Lalamove
+ * quote and in POST /api/orders.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkDeliveryZone,
+  distanceKm,
+  findNearestDeliveringBranch,
+  isInDeliveryZone,
+  isQuotedRoute,
+  normalizeDeliveryZone,
+  rankBranchesByDistance,
+  validateDeliveryZone
+} from '../src/lib/deliveryZones';
+import type { DeliveryZone } from '../src/types';
+
+const branch = (name: string, latitude: string, longitude: string, delivery_zone: DeliveryZone | null = null) =>
+  ({ name, latitude, longitude, delivery_zone });
+
+// Roughly Makati, Quezon City and Pasig
+const MAKATI = { lat: 14.5547, lng: 121.0244 };
+const QC = { lat: 14.676, lng: 121.0437 };
+const PASIG = { lat: 14.5764, lng: 121.0851 };
+
+// A box around Makati
+const MAKATI_AREA: DeliveryZone = {
+  type: 'polygon',
+  points: [[14.53, 121.0], [14.53, 121.05], [14.58, 121.05], [14.58, 121.0]]
+};
+
+describe('distanceKm', () => {
+  it('should measure the straight-line distance', () => {
+    expect(distanceKm(MAKATI, MAKATI)).toBe(0);
+    expect(Math.round(distanceKm(MAKATI, QC))).toBe(14);
+  });
+});
+
+describe('normalizeDeliveryZone', () => {
+  it('should keep good zones and treat anything else as no limit', () => {
+    expect(normalizeDeliveryZone({ type: 'radius', radiusKm: '5' })).toEqual({ type: 'radius', radiusKm: 5 });
+    expect(normalizeDeliveryZone({ type: 'radius', radiusKm: 0 })).toBeNull();
+    expect(normalizeDeliveryZone({ type: 'polygon', points: [[14.5, 121], [14.6, 121], [200, 121]] })).toBeNull();
+    expect(normalizeDeliveryZone(null)).toBeNull();
+  });
+
+  it('should keep a usable flat fee', () => {
+    expect(normalizeDeliveryZone({ type: 'radius', radiusKm: 5, flatFee: '49' })).toEqual({ type: 'radius', radiusKm: 5, flatFee: 49 });
+    expect(normalizeDeliveryZone({ type: 'radius', radiusKm: 5, flatFee: null })).toEqual({ type: 'radius', radiusKm: 5 });
+    expect(normalizeDeliveryZone({ type: 'radius', radiusKm: 5, flatFee: -1 })).toEqual({ type: 'radius', radiusKm: 5 });
+  });
+});
+
+describe('validateDeliveryZone', () => {
+  it('should need a pin and a sensible radius', () => {
+    expect(validateDeliveryZone({ type: 'radius', radiusKm: 5 }, MAKATI)).toBeNull();
+    expect(validateDeliveryZone({ type: 'radius', radiusKm: 5 }, null)).toBe(
+      'Pin the branch on the map to deliver within a radius of it'
+    );
+    expect(validateDeliveryZone({ type: 'radius', radiusKm: NaN }, MAKATI)).toBe(
+      'The delivery radius must be more than 0 and at most 50 km'
+    );
+  });
+
+  it('should need at least three corners', () => {
+    expect(validateDeliveryZone({ type: 'polygon', points: [[14.5, 121], [14.6, 121]] }, null)).toBe(
+      'Draw at least three corners for the delivery area'
+    );
+    expect(validateDeliveryZone(null, null)).toBeNull();
+  });
+
+  it('should not charge a negative flat fee', () => {
+    expect(validateDeliveryZone({ ...MAKATI_AREA, flatFee: -10 }, null)).toBe('The flat delivery fee must be 0 or more');
+    expect(validateDeliveryZone({ ...MAKATI_AREA, flatFee: 0 }, null)).toBeNull();
+  });
+});
+
+describe('isInDeliveryZone', () => {
+  it('should deliver anywhere without a zone', () => {
+    expect(isInDeliveryZone(branch('Makati', '14.5547', '121.0244'), QC)).toBe(true);
+  });
+
+  it('should check the radius around the pin', () => {
+    const makati = branch('Makati', '14.5547', '121.0244', { type: 'radius', radiusKm: 8 });
+    expect(isInDeliveryZone(makati, PASIG)).toBe(true);
+    expect(isInDeliveryZone(makati, QC)).toBe(false);
+    expect(isInDeliveryZone({ ...makati, latitude: '' }, MAKATI)).toBe(false);
+  });
+
+  it('should check the drawn area', () => {
+    const makati = branch('Makati', '14.5547', '121.0244', MAKATI_AREA);
+    expect(isInDeliveryZone(makati, MAKATI)).toBe(true);
+    expect(isInDeliveryZone(makati, PASIG)).toBe(false);
+  });
+});
+
+describe('checkDeliveryZone', () => {
+  const makati = branch('Makati', '14.5547', '121.0244', MAKATI_AREA);
+
+  it('should say why a branch does not deliver', () => {
+    expect(checkDeliveryZone(makati, MAKATI)).toBeNull();
+    expect(checkDeliveryZone(makati, QC)).toBe("Makati doesn't deliver to this address");
+    expect(checkDeliveryZone(makati, null)).toBe(
+      'Pick your address from the suggestions so we can check that Makati delivers there'
+    );
+  });
+
+  it('should not need a map pin when the branch has no zone', () => {
+    expect(checkDeliveryZone({ ...makati, delivery_zone: null }, null)).toBeNull();
+  });
+});
+
+describe('isQuotedRoute', () => {
+  it('should only accept quotes from the store to the delivery address', () => {
+    expect(isQuotedRoute([MAKATI, QC], MAKATI, QC)).toBe(true);
+    expect(isQuotedRoute([{ lat: 14.55471, lng: 121.02441 }, QC], MAKATI, QC)).toBe(true);
+    expect(isQuotedRoute([MAKATI, PASIG], MAKATI, QC)).toBe(false);
+    expect(isQuotedRoute([PASIG, QC], MAKATI, QC)).toBe(false);
+    expect(isQuotedRoute([MAKATI, PASIG, QC], MAKATI, QC)).toBe(false);
+    expect(isQuotedRoute([{ lat: NaN, lng: NaN }, QC], MAKATI, QC)).toBe(false);
+  });
+});
+
+describe('rankBranchesByDistance', () => {
+  const branches = [
+    branch('Unpinned', '', ''),
+    branch('Quezon City', '14.676', '121.0437', { type: 'radius', radiusKm: 5 }),
+    branch('Makati', '14.5547', '121.0244', MAKATI_AREA),
+    branch('Pasig', '14.5764', '121.0851')
+  ];
+
+  it('should list the nearest first and unpinned branches last', () => {
+    expect(rankBranchesByDistance(branches, PASIG).map(entry => entry.branch.name)).toEqual([
+      'Pasig',
+      'Makati',
+      'Quezon City',
+      'Unpinned'
+    ]);
+  });
+
+  it('should suggest the nearest branch that delivers there', () => {
+    expect(findNearestDeliveringBranch(branches, QC)?.branch.name).toBe('Quezon City');
+    // Makati is nearer, but the address is outside its area
+    expect(findNearestDeliveringBranch(branches, { lat: 14.555, lng: 121.055 })?.branch.name).toBe('Pasig');
+    expect(findNearestDeliveringBranch(branches.slice(1, 3), PASIG)).toBeNull();
+  });
+});
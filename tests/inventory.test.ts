@@ -0,0 +1,139 @@
+/**
+ * Inventory Rules Tests
+ *
+ * Unit tests for the low-stock alerts and input validation in
+ * src/lib/inventory.ts. Deducting and restoring stock happens in the
+ * database (deduct_order_stock / restore_order_stock).
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  describeStockLevel,
+  getLowStockAlerts,
+  isLowStock,
+  parseIngredientInput,
+  parseItemStockInput,
+  parseRecipe
+} from '../src/lib/inventory';
+import type { Ingredient, InventoryItem } from '../src/types';
+
+const item = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+  id: 'item-1',
+  name: 'Classic Shake',
+  category: 'shakes',
+  available: true,
+  track_stock: true,
+  stock_quantity: 10,
+  low_stock_threshold: 5,
+  auto_sold_out: false,
+  recipe: [],
+  ...overrides
+});
+
+const ingredient = (overrides: Partial<Ingredient> = {}): Ingredient => ({
+  id: 'ingredient-1',
+  name: 'Fresh milk',
+  unit: 'ml',
+  stock_quantity: 2000,
+  low_stock_threshold: 500,
+  created_at: '2025-06-15T00:00:00Z',
+  updated_at: '2025-06-15T00:00:00Z',
+  ...overrides
+});
+
+describe('isLowStock', () => {
+  it('should include the threshold itself', () => {
+    expect(isLowStock(5, 5)).toBe(true);
+    expect(isLowStock(6, 5)).toBe(false);
+    expect(isLowStock(0, 0)).toBe(true);
+  });
+});
+
+describe('getLowStockAlerts', () => {
+  it('should alert on tracked items and ingredients at or below their threshold', () => {
+    const alerts = getLowStockAlerts(
+      [item({ id: 'a', name: 'Low', stock_quantity: 3 }), item({ id: 'b', name: 'Fine', stock_quantity: 20 })],
+      [ingredient({ stock_quantity: 400 })]
+    );
+
+    expect(alerts.map(alert => alert.id)).toEqual(['a', 'ingredient-1']);
+    expect(alerts[1]).toMatchObject({ kind: 'ingredient', unit: 'ml', quantity: 400, threshold: 500 });
+  });
+
+  it('should ignore items whose stock is not counted', () => {
+    expect(getLowStockAlerts([item({ track_stock: false, stock_quantity: 0 })], [])).toEqual([]);
+  });
+
+  it('should list the emptiest first', () => {
+    const alerts = getLowStockAlerts(
+      [item({ id: 'a', name: 'Banana Shake', stock_quantity: 4 }), item({ id: 'b', name: 'Ube Shake', stock_quantity: 0 })],
+      []
+    );
+
+    expect(alerts.map(alert => alert.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('describeStockLevel', () => {
+  it('should say sold out at or below zero', () => {
+    expect(describeStockLevel({ quantity: 0, unit: null })).toBe('Sold out');
+    expect(describeStockLevel({ quantity: -2, unit: 'ml' })).toBe('Sold out');
+  });
+
+  it('should show what is left with the unit', () => {
+    expect(describeStockLevel({ quantity: 3, unit: null })).toBe('3 left');
+    expect(describeStockLevel({ quantity: 250.5, unit: 'ml' })).toBe('250.5 ml left');
+  });
+});
+
+describe('parseRecipe', () => {
+  it('should accept ingredient amounts', () => {
+    expect(parseRecipe([{ ingredient_id: 'milk', quantity: '250' }])).toEqual({
+      recipe: [{ ingredient_id: 'milk', quantity: 250 }]
+    });
+  });
+
+  it('should reject missing ingredients, zero amounts and repeats', () => {
+    expect(parseRecipe('milk')).toEqual({ error: 'Invalid recipe' });
+    expect(parseRecipe([{ quantity: 1 }])).toHaveProperty('error');
+    expect(parseRecipe([{ ingredient_id: 'milk', quantity: 0 }])).toHaveProperty('error');
+    expect(parseRecipe([
+      { ingredient_id: 'milk', quantity: 1 },
+      { ingredient_id: 'milk', quantity: 2 }
+    ])).toEqual({ error: 'Each ingredient can only be in a recipe once' });
+  });
+});
+
+describe('parseItemStockInput', () => {
+  it('should only return the fields sent', () => {
+    expect(parseItemStockInput({ track_stock: true })).toEqual({ values: { track_stock: true } });
+    expect(parseItemStockInput({})).toEqual({ values: {} });
+  });
+
+  it('should require whole, non-negative stock counts', () => {
+    expect(parseItemStockInput({ stock_quantity: 12 })).toEqual({ values: { stock_quantity: 12 } });
+    expect(parseItemStockInput({ stock_quantity: 1.5 })).toHaveProperty('error');
+    expect(parseItemStockInput({ stock_quantity: -1 })).toHaveProperty('error');
+    expect(parseItemStockInput({ low_stock_threshold: '' })).toHaveProperty('error');
+  });
+
+  it('should pass recipe errors through', () => {
+    expect(parseItemStockInput({ recipe: [{ ingredient_id: 'milk', quantity: -1 }] })).toEqual({
+      error: 'Recipe amounts must be more than zero'
+    });
+  });
+});
+
+describe('parseIngredientInput', () => {
+  it('should require a name when creating', () => {
+    expect(parseIngredientInput({ unit: 'ml' })).toEqual({ error: 'Ingredient name is required' });
+    expect(parseIngredientInput({ name: '  Fresh milk ', stock_quantity: '1500.25' })).toEqual({
+      values: { name: 'Fresh milk', stock_quantity: 1500.25 }
+    });
+  });
+
+  it('should only check the fields sent when updating', () => {
+    expect(parseIngredientInput({ low_stock_threshold: 300 }, true)).toEqual({ values: { low_stock_threshold: 300 } });
+    expect(parseIngredientInput({ stock_quantity: -5 }, true)).toEqual({ error: 'Stock must be 0 or more' });
+  });
+});
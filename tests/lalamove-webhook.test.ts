@@ -0,0 +1,214 @@
+/**
+ * Lalamove Webhook Tests
+ *
+ * Sends signed fake webhooks to /api/lalamove/webhook, the same way
+ * scripts/send-lalamove-webhook.js does, and checks the matching order.
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { createHmac, randomUUID } from 'crypto';
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+const WEBHOOK_PATH = '/api/lalamove/webhook';
+const TEST_MENU_ITEM_ID = process.env.TEST_MENU_ITEM_ID;
+const LALAMOVE_API_KEY = process.env.LALAMOVE_API_KEY;
+const LALAMOVE_API_SECRET = process.env.LALAMOVE_API_SECRET;
+
+/**
+ * Build a webhook body signed the way Lalamove signs it
+ */
+function signedEvent(
+  eventType: string,
+  data: Record<string, unknown>,
+  secret = LALAMOVE_API_SECRET || '',
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  const message = `${timestamp}\r\nPOST\r\n${WEBHOOK_PATH}\r\n\r\n${JSON.stringify(data)}`;
+
+  return {
+    apiKey: LALAMOVE_API_KEY,
+    timestamp,
+    signature: createHmac('sha256', secret).update(message).digest('hex'),
+    eventId: randomUUID(),
+    eventType,
+    eventVersion: 'v3',
+    data
+  };
+}
+
+async function sendWebhook(event: unknown) {
+  return fetch(`${API_BASE_URL}${WEBHOOK_PATH}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(event),
+  });
+}
+
+async function loginStaff(): Promise<string | null> {
+  const username = process.env.TEST_STAFF_USERNAME;
+  const password = process.env.TEST_STAFF_PASSWORD;
+  if (!username || !password) {
+    return null;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/admin/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const setCookie = response.headers.get('set-cookie');
+  return response.ok && setCookie ? setCookie.split(';')[0] : null;
+}
+
+describe('Lalamove webhook', () => {
+  let staffCookie: string | null = null;
+
+  beforeAll(async () => {
+    staffCookie = await loginStaff();
+    if (!LALAMOVE_API_KEY || !LALAMOVE_API_SECRET) {
+      console.warn('⚠️  LALAMOVE_API_KEY / LALAMOVE_API_SECRET not set. Signed webhook tests will be skipped.');
+    }
+  });
+
+  it('should acknowledge the empty registration request', async () => {
+    const response = await fetch(`${API_BASE_URL}${WEBHOOK_PATH}`, { method: 'POST' });
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject events with a bad signature', async () => {
+    const event = signedEvent(
+      'ORDER_STATUS_CHANGED',
+      { order: { orderId: 'fake-order', status: 'COMPLETED' } },
+      'not-the-secret'
+    );
+
+    const response = await sendWebhook(event);
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject events whose data was tampered with', async () => {
+    if (!LALAMOVE_API_SECRET) {
+      console.warn('Skipping test: LALAMOVE_API_SECRET not set');
+      return;
+    }
+
+    const event = signedEvent('ORDER_STATUS_CHANGED', { order: { orderId: 'fake-order', status: 'PICKED_UP' } });
+    event.data = { order: { orderId: 'fake-order', status: 'COMPLETED' } };
+
+    const response = await sendWebhook(event);
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject correctly signed events with a stale timestamp', async () => {
+    if (!LALAMOVE_API_SECRET) {
+      console.warn('Skipping test: LALAMOVE_API_SECRET not set');
+      return;
+    }
+
+    const event = signedEvent(
+      'ORDER_STATUS_CHANGED',
+      { order: { orderId: 'fake-order', status: 'COMPLETED' } },
+      LALAMOVE_API_SECRET,
+      Math.floor(Date.now() / 1000) - 60 * 60
+    );
+
+    const response = await sendWebhook(event);
+    expect(response.status).toBe(401);
+  });
+
+  it('should ignore events for unknown orders', async () => {
+    if (!LALAMOVE_API_SECRET) {
+      console.warn('Skipping test: LALAMOVE_API_SECRET not set');
+      return;
+    }
+
+    const event = signedEvent('ORDER_STATUS_CHANGED', {
+      order: { orderId: `unknown-${randomUUID()}`, status: 'PICKED_UP' },
+      updatedAt: new Date().toISOString()
+    });
+
+    const response = await sendWebhook(event);
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.handled).toBe(false);
+  });
+
+  it('should sync driver, courier cost and status onto the order', async () => {
+    if (!LALAMOVE_API_SECRET || !TEST_MENU_ITEM_ID || !staffCookie) {
+      console.warn('Skipping test: LALAMOVE_API_SECRET, TEST_MENU_ITEM_ID or staff session not available');
+      return;
+    }
+
+    const lalamoveOrderId = `test-${randomUUID()}`;
+
+    const createResponse = await fetch(`${API_BASE_URL}/api/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        cartItems: [{ id: TEST_MENU_ITEM_ID, name: 'Test Item', quantity: 1, totalPrice: 100 }],
+        customerName: 'Webhook Test',
+        contactNumber: '+639123456789',
+        serviceType: 'delivery',
+        paymentMethod: 'gcash',
+        total: 100,
+        options: { address: 'Test address' }
+      }),
+    });
+    expect(createResponse.status).toBe(201);
+    const orderId = (await createResponse.json()).order.id;
+
+    // Pretend the courier was booked when staff confirmed
+    const confirmResponse = await fetch(`${API_BASE_URL}/api/orders/${orderId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: staffCookie,
+      },
+      body: JSON.stringify({ status: 'confirmed', lalamove_order_id: lalamoveOrderId }),
+    });
+    expect(confirmResponse.status).toBe(200);
+
+    const driverEvent = signedEvent('DRIVER_ASSIGNED', {
+      order: { orderId: lalamoveOrderId },
+      driver: { driverId: '1', name: 'Test Driver', phone: '+639171234567', plateNumber: 'TEST123' }
+    });
+    expect((await sendWebhook(driverEvent)).status).toBe(200);
+
+    // A retried event must only be applied once
+    expect((await sendWebhook(driverEvent)).status).toBe(200);
+
+    const amountEvent = signedEvent('ORDER_AMOUNT_CHANGED', {
+      order: { orderId: lalamoveOrderId, priceBreakdown: { total: '185', currency: 'PHP' } }
+    });
+    expect((await sendWebhook(amountEvent)).status).toBe(200);
+
+    const pickedUpEvent = signedEvent('ORDER_STATUS_CHANGED', {
+      order: { orderId: lalamoveOrderId, status: 'PICKED_UP' },
+      updatedAt: new Date().toISOString()
+    });
+    expect((await sendWebhook(pickedUpEvent)).status).toBe(200);
+
+    const response = await fetch(`${API_BASE_URL}/api/orders/${orderId}`, {
+      headers: { Cookie: staffCookie },
+    });
+    const { order } = await response.json();
+
+    expect(order.status).toBe('out_for_delivery');
+    expect(order.lalamove_status).toBe('PICKED_UP');
+    expect(order.lalamove_driver_name).toBe('Test Driver');
+    expect(order.lalamove_price).toBe(185);
+
+    const lalamoveSteps = order.status_events
+      .filter((event: any) => event.actor_name === 'Lalamove')
+      .map((event: any) => event.to_status);
+    expect(lalamoveSteps).toEqual(['preparing', 'ready', 'out_for_delivery']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Menu Item Options Tests
+ *
+ * Unit tests for the input check in src/lib/menuOptions.ts behind
+ * PUT /api/menu/[id]/options.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseMenuItemOptionsInput } from '../src/lib/menuOptions';
+
+describe('parseMenuItemOptionsInput', () => {
+  it('should save missing lists as empty', () => {
+    expect(parseMenuItemOptionsInput({})).toEqual({
+      options: {
+        addOns: [],
+        addOnGroups: [],
+        variationDimensions: [],
+        variationOverrides: [],
+        bundleSlots: []
+      }
+    });
+  });
+
+  it('should keep the ids that link groups, options and overrides', () => {
+    const input = parseMenuItemOptionsInput({
+      addOnGroups: [{ id: 'group-new', name: ' Choose milk ', minSelect: 1, maxSelect: '1', maxPerOption: '' }],
+      addOns: [{ id: 'a1', name: 'Oat milk', price: '20', category: 'milk', groupId: 'group-new' }],
+      variationDimensions: [{ id: 'size', name: 'Size', options: [{ id: 'large', name: 'Large', priceDelta: 30 }, { id: 'small', name: 'Small', priceDelta: -10 }] }],
+      variationOverrides: [{ optionIds: ['large'], price: 150 }],
+      bundleSlots: [{ id: 'slot-1', name: 'Choose your side', options: [{ menuItemId: 'fries', upcharge: 0 }] }]
+    });
+
+    expect('options' in input).toBe(true);
+    if (!('options' in input)) return;
+    expect(input.options.addOnGroups).toEqual([
+      { id: 'group-new', name: 'Choose milk', minSelect: 1, maxSelect: 1, maxPerOption: null }
+    ]);
+    expect(input.options.addOns[0]).toEqual(expect.objectContaining({ price: 20, groupId: 'group-new' }));
+    expect(input.options.variationDimensions[0].options[1].priceDelta).toBe(-10);
+    expect(input.options.variationOverrides[0]).toEqual(expect.objectContaining({ optionIds: ['large'], price: 150 }));
+    expect(input.options.bundleSlots[0].options[0]).toEqual(expect.objectContaining({ menuItemId: 'fries', upcharge: 0 }));
+  });
+
+  it('should reject negative prices and impossible pick rules', () => {
+    expect(parseMenuItemOptionsInput({ addOns: [{ name: 'Pearls', price: -5 }] })).toEqual({
+      error: 'Add-on "Pearls" needs a price of 0 or more'
+    });
+    expect(parseMenuItemOptionsInput({ addOnGroups: [{ name: 'Toppings', minSelect: 3, maxSelect: 2 }] })).toEqual({
+      error: '"Toppings" must allow at least as many picks as it requires'
+    });
+    expect(parseMenuItemOptionsInput({ variationOverrides: [{ optionIds: ['large'], price: -1 }] })).toEqual({
+      error: 'Combination prices must be 0 or more'
+    });
+    expect(parseMenuItemOptionsInput({ bundleSlots: [{ name: 'Side', options: [{ menuItemId: 'fries', upcharge: -10 }] }] })).toEqual({
+      error: 'Upcharges in "Side" must be 0 or more'
+    });
+    expect(parseMenuItemOptionsInput({ addOns: 'all of them' })).toEqual({ error: 'Invalid add-ons' });
+  });
+});
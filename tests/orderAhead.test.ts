@@ -0,0 +1,118 @@
+/**
+ * Order Ahead Tests
+ *
+ * Unit tests for scheduling orders for later in src/lib/orderAhead.ts: the
+ * slots offered at checkout, the checks in POST /api/orders, the scheduled
+ * queue in the order manager and Lalamove `scheduleAt`.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  describeScheduledFor,
+  getCourierScheduleAt,
+  getEarliestSlot,
+  getOrderAheadDays,
+  getOrderAheadSettings,
+  isHeldForLater,
+  parseScheduledFor
+} from '../src/lib/orderAhead';
+
+const settings = getOrderAheadSettings({ order_ahead_max_days: '2', order_ahead_lead_minutes: '30' });
+
+// Manila is UTC+8: 14:07Z is 10:07 PM there
+const MONDAY_10_07PM = new Date('2025-06-16T14:07:00Z');
+
+describe('getOrderAheadSettings', () => {
+  it('should fall back to the defaults for missing or bad settings', () => {
+    expect(getOrderAheadSettings(null)).toEqual({ maxDays: 7, leadMinutes: 30, timezone: 'Asia/Manila' });
+    expect(getOrderAheadSettings({ order_ahead_max_days: '-1', order_ahead_lead_minutes: '0' }).maxDays).toBe(7);
+    expect(getOrderAheadSettings({ order_ahead_max_days: '0' }).maxDays).toBe(0);
+  });
+});
+
+describe('getOrderAheadDays', () => {
+  it('should start at the lead time rounded up to the quarter hour', () => {
+    expect(getEarliestSlot(MONDAY_10_07PM, settings).toISOString()).toBe('2025-06-16T14:45:00.000Z');
+
+    const [today] = getOrderAheadDays(MONDAY_10_07PM, settings);
+    expect(today.label).toBe('Today');
+    expect(today.slots.map(slot => slot.label)).toEqual(['10:45 PM', '11:00 PM', '11:15 PM', '11:30 PM', '11:45 PM']);
+  });
+
+  it('should offer whole days up to the limit in the store time zone', () => {
+    const days = getOrderAheadDays(MONDAY_10_07PM, settings);
+
+    expect(days.map(day => day.label)).toEqual(['Today', 'Tomorrow', 'Wed, Jun 18']);
+    expect(days[1].slots).toHaveLength(96);
+    expect(days[1].slots[0]).toEqual({ value: '2025-06-16T16:00:00.000Z', label: '12:00 AM' });
+  });
+
+  it('should offer nothing when ordering ahead is off', () => {
+    expect(getOrderAheadDays(MONDAY_10_07PM, { ...settings, maxDays: 0 })).toEqual([]);
+  });
+});
+
+describe('parseScheduledFor', () => {
+  it('should treat an empty value as as soon as possible', () => {
+    expect(parseScheduledFor(undefined, MONDAY_10_07PM, settings)).toEqual({ scheduledFor: null });
+    expect(parseScheduledFor('', MONDAY_10_07PM, settings)).toEqual({ scheduledFor: null });
+  });
+
+  it('should accept a slot that was offered, even a few minutes later', () => {
+    const result = parseScheduledFor('2025-06-16T14:45:00.000Z', new Date('2025-06-16T14:20:00Z'), settings);
+    expect(result).toEqual({ scheduledFor: new Date('2025-06-16T14:45:00.000Z') });
+  });
+
+  it('should reject bad, off-slot, too soon and too far ahead times', () => {
+    expect(parseScheduledFor('tonight', MONDAY_10_07PM, settings)).toEqual({ error: 'Invalid scheduled time' });
+    expect(parseScheduledFor('2025-06-17T01:10:00Z', MONDAY_10_07PM, settings)).toEqual({
+      error: 'Scheduled times must be on the quarter hour'
+    });
+    expect(parseScheduledFor('2025-06-16T14:15:00Z', MONDAY_10_07PM, settings)).toEqual({
+      error: 'Please schedule your order at least 30 minutes ahead'
+    });
+    // Thursday 8:00 AM in Manila is three days out
+    expect(parseScheduledFor('2025-06-19T00:00:00Z', MONDAY_10_07PM, settings)).toEqual({
+      error: 'Orders can only be scheduled up to 2 days ahead'
+    });
+  });
+
+  it('should reject scheduled orders when ordering ahead is off', () => {
+    expect(parseScheduledFor('2025-06-17T01:00:00Z', MONDAY_10_07PM, { ...settings, maxDays: 0 })).toEqual({
+      error: 'Orders cannot be scheduled ahead right now'
+    });
+  });
+});
+
+describe('describeScheduledFor', () => {
+  it('should describe the time relative to today in the store time zone', () => {
+    expect(describeScheduledFor('2025-06-16T14:45:00Z', MONDAY_10_07PM)).toBe('Today, 10:45 PM');
+    expect(describeScheduledFor('2025-06-17T01:00:00Z', MONDAY_10_07PM)).toBe('Tomorrow, 9:00 AM');
+    expect(describeScheduledFor('2025-06-18T04:30:00Z', MONDAY_10_07PM)).toBe('Wed, Jun 18, 12:30 PM');
+  });
+});
+
+describe('isHeldForLater', () => {
+  const order = { status: 'confirmed', scheduled_for: '2025-06-17T01:00:00Z' };
+
+  it('should hold confirmed orders until the lead time before they are due', () => {
+    expect(isHeldForLater(order, 30, new Date('2025-06-17T00:29:00Z'))).toBe(true);
+    expect(isHeldForLater(order, 30, new Date('2025-06-17T00:30:00Z'))).toBe(false);
+  });
+
+  it('should never hold pending or as soon as possible orders', () => {
+    expect(isHeldForLater({ ...order, status: 'pending' }, 30, MONDAY_10_07PM)).toBe(false);
+    expect(isHeldForLater({ ...order, scheduled_for: null }, 30, MONDAY_10_07PM)).toBe(false);
+  });
+});
+
+describe('getCourierScheduleAt', () => {
+  it('should have the courier collect ahead of the scheduled time', () => {
+    expect(getCourierScheduleAt('2025-06-17T01:00:00Z', MONDAY_10_07PM)).toBe('2025-06-17T00:30:00.000Z');
+  });
+
+  it('should book straight away for orders that are nearly due or not scheduled', () => {
+    expect(getCourierScheduleAt('2025-06-16T14:45:00Z', MONDAY_10_07PM)).toBeNull();
+    expect(getCourierScheduleAt(null, MONDAY_10_07PM)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Pricing Engine Tests
+ *
+ * Unit tests for src/lib/pricing.ts, the line pricing shared by the menu,
+ * cart, checkout and POST /api/orders. No server needed.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getEffectiveBasePrice,
+  getLineTotal,
+  groupAddOns,
+  isDiscountActive,
+  priceLine,
+  roundCurrency,
+  sumLineTotals
+} from '../src/lib/pricing';
+import type { PricingItem } from '../src/lib/pricing';
+import type { AddOn } from '../src/types';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const item = (overrides: Partial<PricingItem> = {}): PricingItem => ({
+  basePrice: 150,
+  discountPrice: 120,
+  discountActive: true,
+  discountStartDate: '2025-06-01T00:00:00Z',
+  discountEndDate: '2025-06-30T23:59:59Z',
+  ...overrides
+});
+
+const addOn = (id: string, price: number, quantity?: number): AddOn => ({
+  id,
+  name: `Add-on ${id}`,
+  price,
+  category: 'extras',
+  quantity
+});
+
+describe('Discount window', () => {
+  it('should apply a discount inside its window', () => {
+    expect(isDiscountActive(item(), NOW)).toBe(true);
+    expect(getEffectiveBasePrice(item(), NOW)).toBe(120);
+  });
+
+  it('should treat both ends of the window as inclusive', () => {
+    expect(isDiscountActive(item(), new Date('2025-06-01T00:00:00Z'))).toBe(true);
+    expect(isDiscountActive(item(), new Date('2025-06-30T23:59:59Z'))).toBe(true);
+  });
+
+  it('should not apply a discount that has ended', () => {
+    const expired = item({ discountEndDate: '2025-06-14T23:59:59Z' });
+    expect(isDiscountActive(expired, NOW)).toBe(false);
+    expect(getEffectiveBasePrice(expired, NOW)).toBe(150);
+  });
+
+  it('should not apply a discount that has not started', () => {
+    expect(getEffectiveBasePrice(item({ discountStartDate: '2025-06-16T00:00:00Z' }), NOW)).toBe(150);
+  });
+
+  it('should treat a missing start or end as open-ended', () => {
+    expect(getEffectiveBasePrice(item({ discountStartDate: null, discountEndDate: null }), NOW)).toBe(120);
+  });
+
+  it('should ignore a discount that is switched off or has no price', () => {
+    expect(getEffectiveBasePrice(item({ discountActive: false }), NOW)).toBe(150);
+    expect(getEffectiveBasePrice(item({ discountPrice: null }), NOW)).toBe(150);
+  });
+});
+
+describe('priceLine', () => {
+  it('should add the variation to the discounted price', () => {
+    const price = priceLine({ item: item(), variation: { price: 30 }, now: NOW });
+
+    expect(price.basePrice).toBe(150);
+    expect(price.itemPrice).toBe(120);
+    expect(price.discount).toBe(30);
+    expect(price.variationPrice).toBe(30);
+    expect(price.unitPrice).toBe(150);
+    expect(price.lineTotal).toBe(150);
+  });
+
+  it('should count each add-on by its quantity', () => {
+    const price = priceLine({
+      item: item({ discountActive: false }),
+      addOns: [addOn('a', 25, 2), addOn('b', 10)],
+      quantity: 3,
+      now: NOW
+    });
+
+    expect(price.addOns).toEqual([
+      { id: 'a', name: 'Add-on a', price: 25, quantity: 2, total: 50 },
+      { id: 'b', name: 'Add-on b', price: 10, quantity: 1, total: 10 }
+    ]);
+    expect(price.addOnsTotal).toBe(60);
+    expect(price.unitPrice).toBe(210);
+    expect(price.lineTotal).toBe(630);
+  });
+
+  it('should price repeated add-on entries the same as one entry with a quantity', () => {
+    const repeated = priceLine({ item: item(), addOns: [addOn('a', 25), addOn('a', 25)], now: NOW });
+    const grouped = priceLine({ item: item(), addOns: [addOn('a', 25, 2)], now: NOW });
+
+    expect(repeated).toEqual(grouped);
+  });
+
+  it('should default to one unit with no options', () => {
+    const price = priceLine({ item: item(), now: NOW });
+
+    expect(price.quantity).toBe(1);
+    expect(price.addOns).toEqual([]);
+    expect(price.lineTotal).toBe(120);
+  });
+});
+
+describe('Rounding', () => {
+  it('should round to centavos', () => {
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+    expect(roundCurrency(1.005)).toBe(1.01);
+    expect(roundCurrency(99.994)).toBe(99.99);
+  });
+
+  it('should round the unit price before multiplying by quantity', () => {
+    const price = priceLine({
+      item: item({ basePrice: 49.99, discountActive: false }),
+      addOns: [addOn('a', 0.1), addOn('b', 0.2)],
+      quantity: 3,
+      now: NOW
+    });
+
+    expect(price.addOnsTotal).toBe(0.3);
+    expect(price.unitPrice).toBe(50.29);
+    expect(price.lineTotal).toBe(150.87);
+  });
+
+  it('should add line totals without floating point drift', () => {
+    expect(getLineTotal(19.99, 3)).toBe(59.97);
+    expect(sumLineTotals([0.1, 0.2, 59.97])).toBe(60.27);
+  });
+});
+
+describe('groupAddOns', () => {
+  it('should merge entries for the same add-on and keep their order', () => {
+    expect(groupAddOns([addOn('a', 5), addOn('b', 7, 2), addOn('a', 5, 3)]).map(a => [a.id, a.quantity])).toEqual([
+      ['a', 4],
+      ['b', 2]
+    ]);
+  });
+
+  it('should not change the entries it was given', () => {
+    const entries = [addOn('a', 5, 1), addOn('a', 5, 1)];
+    groupAddOns(entries);
+    expect(entries[0].quantity).toBe(1);
+  });
+});
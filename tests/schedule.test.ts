@@ -0,0 +1,146 @@
+/**
+ * Availability Schedule Tests
+ *
+ * Unit tests for the day, time and date schedules in src/lib/schedule.ts,
+ * shared by the storefront menu, checkout and POST /api/orders.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  describeAvailableFrom,
+  getMenuItemScheduleStatus,
+  getNextOpening,
+  getScheduleStatus,
+  isScheduleOpen,
+  normalizeSchedule,
+  validateSchedule
+} from '../src/lib/schedule';
+import type { AvailabilitySchedule } from '../src/types';
+
+const schedule = (overrides: Partial<AvailabilitySchedule> = {}): AvailabilitySchedule => ({
+  days: [],
+  timeRanges: [],
+  startDate: null,
+  endDate: null,
+  timezone: 'Asia/Manila',
+  ...overrides
+});
+
+const breakfast = schedule({ timeRanges: [{ start: '06:00', end: '11:00' }] });
+const weekends = schedule({ days: [0, 6] });
+
+// Manila is UTC+8: 01:00Z is 9:00 AM there
+const MONDAY_9AM = new Date('2025-06-16T01:00:00Z');
+const MONDAY_2PM = new Date('2025-06-16T06:00:00Z');
+
+describe('normalizeSchedule', () => {
+  it('should treat missing or unlimited schedules as always available', () => {
+    expect(normalizeSchedule(null)).toBeNull();
+    expect(normalizeSchedule({ days: [0, 1, 2, 3, 4, 5, 6], timeRanges: [] })).toBeNull();
+  });
+
+  it('should drop bad days, time ranges and dates', () => {
+    expect(normalizeSchedule({
+      days: [6, 0, 9, 'mon', 6],
+      timeRanges: [{ start: '06:00', end: '11:00' }, { start: '25:00', end: '11:00' }, { start: '08:00', end: '08:00' }],
+      startDate: 'soon',
+      endDate: '2025-12-31',
+      timezone: 'Mars/Olympus'
+    })).toEqual(schedule({
+      days: [0, 6],
+      timeRanges: [{ start: '06:00', end: '11:00' }],
+      endDate: '2025-12-31'
+    }));
+  });
+});
+
+describe('validateSchedule', () => {
+  it('should accept no schedule and complete schedules', () => {
+    expect(validateSchedule(null)).toBeNull();
+    expect(validateSchedule(breakfast)).toBeNull();
+  });
+
+  it('should reject incomplete times, reversed dates and unknown time zones', () => {
+    expect(validateSchedule(schedule({ timeRanges: [{ start: '06:00', end: '' }] }))).toBe('Enter a start and end time for each time range');
+    expect(validateSchedule(schedule({ startDate: '2025-07-01', endDate: '2025-06-01' }))).toBe('The schedule cannot end before it starts');
+    expect(validateSchedule(schedule({ timezone: 'Mars/Olympus' }))).toBe('Unknown time zone');
+  });
+});
+
+describe('isScheduleOpen', () => {
+  it('should read times in the schedule time zone', () => {
+    expect(isScheduleOpen(breakfast, MONDAY_9AM)).toBe(true);
+    expect(isScheduleOpen(breakfast, MONDAY_2PM)).toBe(false);
+    // 9:00 AM in Manila is 9:00 PM the evening before in New York
+    expect(isScheduleOpen({ ...breakfast, timezone: 'America/New_York' }, MONDAY_9AM)).toBe(false);
+  });
+
+  it('should check the day of the week and the date range', () => {
+    expect(isScheduleOpen(weekends, new Date('2025-06-14T04:00:00Z'))).toBe(true);
+    expect(isScheduleOpen(weekends, MONDAY_9AM)).toBe(false);
+    expect(isScheduleOpen(schedule({ endDate: '2025-06-15' }), MONDAY_9AM)).toBe(false);
+  });
+
+  it('should count the hours after midnight as part of the night before', () => {
+    const fridayNights = schedule({ days: [5], timeRanges: [{ start: '22:00', end: '02:00' }] });
+
+    // Saturday 1:00 AM and Friday 11:00 PM in Manila
+    expect(isScheduleOpen(fridayNights, new Date('2025-06-20T17:00:00Z'))).toBe(true);
+    expect(isScheduleOpen(fridayNights, new Date('2025-06-20T15:00:00Z'))).toBe(true);
+    // Friday 1:00 AM belongs to Thursday night
+    expect(isScheduleOpen(fridayNights, new Date('2025-06-19T17:00:00Z'))).toBe(false);
+  });
+
+  it('should always allow items without a schedule', () => {
+    expect(isScheduleOpen(null, MONDAY_2PM)).toBe(true);
+  });
+});
+
+describe('getNextOpening', () => {
+  it('should find the next window in the schedule time zone', () => {
+    expect(getNextOpening(breakfast, MONDAY_2PM)?.toISOString()).toBe('2025-06-16T22:00:00.000Z');
+    expect(getNextOpening(weekends, MONDAY_9AM)?.toISOString()).toBe('2025-06-20T16:00:00.000Z');
+  });
+
+  it('should follow daylight saving time', () => {
+    const nineAm = schedule({ timeRanges: [{ start: '09:00', end: '10:00' }], timezone: 'America/New_York' });
+
+    // Saturday noon before clocks go forward; Sunday 9:00 AM is UTC-4
+    expect(getNextOpening(nineAm, new Date('2025-03-08T17:00:00Z'))?.toISOString()).toBe('2025-03-09T13:00:00.000Z');
+  });
+
+  it('should return null once the date range is over', () => {
+    expect(getNextOpening(schedule({ endDate: '2025-06-15' }), MONDAY_9AM)).toBeNull();
+  });
+});
+
+describe('describeAvailableFrom', () => {
+  it('should describe openings relative to today', () => {
+    expect(describeAvailableFrom(new Date('2025-06-16T03:00:00Z'), MONDAY_9AM)).toBe('Available from 11:00 AM');
+    expect(describeAvailableFrom(new Date('2025-06-16T22:00:00Z'), MONDAY_2PM)).toBe('Available tomorrow from 6:00 AM');
+    expect(describeAvailableFrom(new Date('2025-06-20T16:00:00Z'), MONDAY_9AM)).toBe('Available Saturday from 12:00 AM');
+    expect(describeAvailableFrom(new Date('2025-12-01T00:00:00Z'), MONDAY_9AM)).toBe('Available from Dec 1');
+  });
+});
+
+describe('getScheduleStatus', () => {
+  it('should be open when every schedule allows it', () => {
+    expect(getScheduleStatus([breakfast, null], MONDAY_9AM)).toEqual({ open: true, availableFrom: null, label: null });
+  });
+
+  it('should find when the item and its category are next both open', () => {
+    const status = getMenuItemScheduleStatus({ schedule: breakfast, categorySchedule: weekends }, MONDAY_9AM);
+
+    expect(status.open).toBe(false);
+    expect(status.availableFrom?.toISOString()).toBe('2025-06-20T22:00:00.000Z');
+    expect(status.label).toBe('Available Saturday from 6:00 AM');
+  });
+
+  it('should have no opening once a schedule has ended', () => {
+    expect(getScheduleStatus([schedule({ endDate: '2025-06-15' })], MONDAY_9AM)).toEqual({
+      open: false,
+      availableFrom: null,
+      label: null
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Time-Slot Capacity Tests
+ *
+ * Unit tests for per-branch slot limits in src/lib/slotCapacity.ts: which slot
+ * an order counts against, the room checks behind the checkout slot picker
+ * and the admin capacity input.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getOrderAheadSettings } from '../src/lib/orderAhead';
+import {
+  countOrderItems,
+  getDaySlotStarts,
+  getOrderSlotStart,
+  getSlotWindow,
+  hasRoom,
+  listUnavailableSlots,
+  parseSlotCapacityInput,
+  parseSlotStart
+} from '../src/lib/slotCapacity';
+
+const settings = getOrderAheadSettings({ order_ahead_max_days: '1', order_ahead_lead_minutes: '30' });
+
+// Manila is UTC+8: 14:07Z is 10:07 PM there
+const MONDAY_10_07PM = new Date('2025-06-16T14:07:00Z');
+
+const slot = (start: string, orders: number, items: number, blocked = false) => ({ start, orders, items, blocked });
+
+describe('getOrderSlotStart', () => {
+  it('should use the scheduled time, or the earliest slot for as soon as possible', () => {
+    const scheduled = new Date('2025-06-17T01:00:00Z');
+    expect(getOrderSlotStart(scheduled, MONDAY_10_07PM, settings)).toBe(scheduled);
+    expect(getOrderSlotStart(null, MONDAY_10_07PM, settings).toISOString()).toBe('2025-06-16T14:45:00.000Z');
+  });
+});
+
+describe('countOrderItems', () => {
+  it('should add up quantities and skip bad ones', () => {
+    expect(countOrderItems([{ quantity: 2 }, { quantity: 3 }, { quantity: -1 }, {}])).toBe(5);
+  });
+});
+
+describe('hasRoom', () => {
+  const capacity = { maxOrders: 3, maxItems: 10 };
+
+  it('should allow anything when there are no limits', () => {
+    expect(hasRoom(slot('a', 50, 500), { maxOrders: null, maxItems: null }, 20)).toBe(true);
+  });
+
+  it('should take an order up to the last place', () => {
+    expect(hasRoom(undefined, capacity, 10)).toBe(true);
+    expect(hasRoom(slot('a', 2, 4), capacity, 6)).toBe(true);
+  });
+
+  it('should refuse full, too large and blocked slots', () => {
+    expect(hasRoom(slot('a', 3, 4), capacity, 1)).toBe(false);
+    expect(hasRoom(slot('a', 1, 8), capacity, 3)).toBe(false);
+    expect(hasRoom(undefined, capacity, 11)).toBe(false);
+    expect(hasRoom(slot('a', 0, 0, true), { maxOrders: null, maxItems: null }, 1)).toBe(false);
+  });
+});
+
+describe('listUnavailableSlots', () => {
+  it('should list used slots without room for this order, in time order', () => {
+    const usage = {
+      '2025-06-17T01:15:00.000Z': slot('2025-06-17T01:15:00.000Z', 2, 2),
+      '2025-06-17T01:00:00.000Z': slot('2025-06-17T01:00:00.000Z', 0, 0, true),
+      '2025-06-17T01:30:00.000Z': slot('2025-06-17T01:30:00.000Z', 1, 1)
+    };
+    expect(listUnavailableSlots(usage, { maxOrders: 2, maxItems: null }, 1)).toEqual([
+      '2025-06-17T01:00:00.000Z',
+      '2025-06-17T01:15:00.000Z'
+    ]);
+  });
+});
+
+describe('getSlotWindow', () => {
+  it('should run from the earliest slot to the end of the last order-ahead day', () => {
+    const { from, to } = getSlotWindow(MONDAY_10_07PM, settings);
+    expect(from.toISOString()).toBe('2025-06-16T14:45:00.000Z');
+    // Midnight after Tuesday in Manila
+    expect(to.toISOString()).toBe('2025-06-17T16:00:00.000Z');
+  });
+
+  it('should cover only the earliest slot when ordering ahead is off', () => {
+    const { from, to } = getSlotWindow(MONDAY_10_07PM, { ...settings, maxDays: 0 });
+    expect(to.getTime() - from.getTime()).toBe(15 * 60 * 1000);
+  });
+});
+
+describe('getDaySlotStarts', () => {
+  it('should list every quarter hour of the local day', () => {
+    const starts = getDaySlotStarts('2025-06-17', 'Asia/Manila');
+    expect(starts).toHaveLength(96);
+    expect(starts[0].toISOString()).toBe('2025-06-16T16:00:00.000Z');
+    expect(starts[95].toISOString()).toBe('2025-06-17T15:45:00.000Z');
+  });
+});
+
+describe('parseSlotStart', () => {
+  it('should only accept quarter-hour times', () => {
+    expect(parseSlotStart('2025-06-17T01:15:00Z')).toEqual(new Date('2025-06-17T01:15:00Z'));
+    expect(parseSlotStart('2025-06-17T01:10:00Z')).toBeNull();
+    expect(parseSlotStart('soon')).toBeNull();
+    expect(parseSlotStart(42)).toBeNull();
+  });
+});
+
+describe('parseSlotCapacityInput', () => {
+  it('should treat empty limits as no limit', () => {
+    expect(parseSlotCapacityInput({ maxOrders: 6, maxItems: '' })).toEqual({
+      capacity: { maxOrders: 6, maxItems: null }
+    });
+  });
+
+  it('should reject zero, negative and fractional limits', () => {
+    const error = 'Slot limits must be whole numbers above zero, or empty for no limit';
+    expect(parseSlotCapacityInput({ maxOrders: 0 })).toEqual({ error });
+    expect(parseSlotCapacityInput({ maxItems: 2.5 })).toEqual({ error });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Senior Citizen / PWD Discount Tests
+ *
+ * Unit tests for src/lib/statutoryDiscount.ts and the sales report totals in
+ * src/lib/salesReport.ts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateStatutoryDiscount, calculateStatutoryLine, parseStatutoryClaim } from '../src/lib/statutoryDiscount';
+import { buildSalesReport, toReportRange, toStatutoryDiscountCsv } from '../src/lib/salesReport';
+
+describe('calculateStatutoryLine', () => {
+  it('should remove VAT and take 20% off the VAT-exempt base', () => {
+    expect(calculateStatutoryLine(112)).toEqual({
+      vatExemptBase: 100,
+      vatExemption: 12,
+      discount: 20,
+      amountDue: 80
+    });
+  });
+
+  it('should round each amount to the centavo', () => {
+    const line = calculateStatutoryLine(150);
+    expect(line.vatExemptBase).toBe(133.93);
+    expect(line.vatExemption).toBe(16.07);
+    expect(line.discount).toBe(26.79);
+    expect(line.amountDue).toBe(107.14);
+  });
+});
+
+describe('calculateStatutoryDiscount', () => {
+  it('should only discount eligible lines', () => {
+    const breakdown = calculateStatutoryDiscount([
+      { lineTotal: 112, eligible: true },
+      { lineTotal: 224, eligible: false }
+    ]);
+
+    expect(breakdown.lines[1]).toBeNull();
+    expect(breakdown.vatExemptSales).toBe(100);
+    expect(breakdown.vatExemption).toBe(12);
+    expect(breakdown.discount).toBe(20);
+    expect(breakdown.totalDeduction).toBe(32);
+  });
+
+  it('should add up several eligible lines', () => {
+    const breakdown = calculateStatutoryDiscount([
+      { lineTotal: 112, eligible: true },
+      { lineTotal: 56, eligible: true }
+    ]);
+
+    expect(breakdown.vatExemptSales).toBe(150);
+    expect(breakdown.totalDeduction).toBe(48);
+  });
+});
+
+describe('parseStatutoryClaim', () => {
+  const claim = { type: 'senior', name: ' Juan Dela Cruz ', idNumber: 'OSCA-1', lineIds: ['line-1'] };
+
+  it('should accept a complete claim and trim it', () => {
+    expect(parseStatutoryClaim(claim)).toEqual({
+      claim: { type: 'senior', name: 'Juan Dela Cruz', idNumber: 'OSCA-1', lineIds: ['line-1'] }
+    });
+  });
+
+  it('should require a known type, the ID details and at least one line', () => {
+    expect(parseStatutoryClaim({ ...claim, type: 'student' })).toHaveProperty('error');
+    expect(parseStatutoryClaim({ ...claim, idNumber: ' ' })).toHaveProperty('error');
+    expect(parseStatutoryClaim({ ...claim, lineIds: [] })).toHaveProperty('error');
+  });
+});
+
+describe('buildSalesReport', () => {
+  const rows = [
+    // 224 of items, 80 delivery, no discounts
+    { order_number: 'A1', created_at: '2025-06-01T02:00:00Z', total: 304, delivery_fee: 80, discount_amount: 0, vat_exempt_sales: 0, vat_exemption: 0, statutory_discount: 0 },
+    // 224 of items, one 112 line for a senior
+    {
+      order_number: 'A2', created_at: '2025-06-01T03:00:00Z', total: 192, delivery_fee: null, discount_amount: 0,
+      statutory_discount_type: 'senior', statutory_name: 'Juan Dela Cruz', statutory_id_number: 'OSCA-1',
+      vat_exempt_sales: 100, vat_exemption: 12, statutory_discount: 20
+    }
+  ];
+
+  it('should split VATable and VAT-exempt sales', () => {
+    const report = buildSalesReport(rows, '2025-06-01', '2025-06-01');
+
+    expect(report.gross_sales).toBe(448);
+    expect(report.vatable_sales).toBe(300);
+    expect(report.vat_amount).toBe(36);
+    expect(report.vat_exempt_sales).toBe(100);
+    expect(report.statutory_discounts).toBe(20);
+    expect(report.delivery_fees).toBe(80);
+    expect(report.net_sales).toBe(496);
+    expect(report.senior.order_count).toBe(1);
+    expect(report.pwd.order_count).toBe(0);
+  });
+
+  it('should log each senior citizen / PWD sale', () => {
+    const report = buildSalesReport(rows, '2025-06-01', '2025-06-01');
+    expect(report.statutory_entries).toEqual([
+      expect.objectContaining({ order_number: 'A2', id_number: 'OSCA-1', gross_amount: 112, discount: 20 })
+    ]);
+
+    const csv = toStatutoryDiscountCsv(report.statutory_entries).split('\n');
+    expect(csv).toHaveLength(2);
+    expect(csv[1]).toContain('Senior Citizen,Juan Dela Cruz,OSCA-1,112.00,100.00,12.00,20.00,80.00');
+  });
+
+  it('should report courier costs and the delivery subsidy', () => {
+    const report = buildSalesReport([
+      { ...rows[0], delivery_courier_cost: '95', lalamove_price: '100' },
+      { ...rows[0], order_number: 'A3', total: 224, delivery_fee: 0, delivery_courier_cost: 90, lalamove_price: null },
+      rows[1]
+    ], '2025-06-01', '2025-06-01');
+
+    // The booked price wins over the quote
+    expect(report.courier_costs).toBe(190);
+    expect(report.delivery_subsidy).toBe(110);
+    expect(report.delivery_fees).toBe(80);
+  });
+});
+
+describe('toReportRange', () => {
+  it('should cover whole Philippine days', () => {
+    expect(toReportRange('2025-06-01', '2025-06-01')).toEqual({
+      start: '2025-05-31T16:00:00.000Z',
+      end: '2025-06-01T16:00:00.000Z'
+    });
+  });
+
+  it('should reject malformed or reversed ranges', () => {
+    expect(toReportRange('June 1', '2025-06-01')).toHaveProperty('error');
+    expect(toReportRange('2025-06-02', '2025-06-01')).toHaveProperty('error');
+  });
+});
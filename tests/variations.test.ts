@@ -0,0 +1,133 @@
+/**
+ * Variation Dimension Tests
+ *
+ * Unit tests for size × temperature × sweetness style variations in
+ * src/lib/variations.ts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  describeVariation,
+  getMinVariationPrice,
+  listCombinations,
+  resolveVariationChoice,
+  toVariationOverrides
+} from '../src/lib/variations';
+import { priceLine } from '../src/lib/pricing';
+import type { VariationDimension, VariationPriceOverride } from '../src/types';
+
+const dimensions: VariationDimension[] = [
+  {
+    id: 'size',
+    name: 'Size',
+    options: [
+      { id: 'regular', name: 'Regular', priceDelta: 0 },
+      { id: 'large', name: 'Large', priceDelta: 30 }
+    ]
+  },
+  {
+    id: 'temp',
+    name: 'Temperature',
+    options: [
+      { id: 'hot', name: 'Hot', priceDelta: 0 },
+      { id: 'iced', name: 'Iced', priceDelta: 15 }
+    ]
+  },
+  {
+    id: 'sugar',
+    name: 'Sugar level',
+    options: [
+      { id: 'full', name: '100%', priceDelta: 0 },
+      { id: 'half', name: '50%', priceDelta: 0 }
+    ]
+  }
+];
+
+const picks = (size: string, temp: string, sugar: string) => [
+  { dimensionId: 'size', optionId: size },
+  { dimensionId: 'temp', optionId: temp },
+  { dimensionId: 'sugar', optionId: sugar }
+];
+
+describe('resolveVariationChoice', () => {
+  it('should add up the option deltas', () => {
+    const result = resolveVariationChoice(dimensions, [], picks('large', 'iced', 'half'));
+    expect('variation' in result && result.variation.price).toBe(45);
+    expect('variation' in result && result.variation.name).toBe('Large / Iced / 50%');
+  });
+
+  it('should use an override for its exact combination only', () => {
+    const overrides: VariationPriceOverride[] = [{ id: 'o1', optionIds: ['iced', 'large', 'full'], price: 40 }];
+
+    const overridden = resolveVariationChoice(dimensions, overrides, picks('large', 'iced', 'full'));
+    expect('variation' in overridden && overridden.variation.price).toBe(40);
+
+    const other = resolveVariationChoice(dimensions, overrides, picks('large', 'iced', 'half'));
+    expect('variation' in other && other.variation.price).toBe(45);
+  });
+
+  it('should give the same id whatever order the picks come in', () => {
+    const a = resolveVariationChoice(dimensions, [], picks('large', 'iced', 'half'));
+    const b = resolveVariationChoice(dimensions, [], [...picks('large', 'iced', 'half')].reverse());
+    expect('variation' in a && a.variation.id).toBe('variation' in b && b.variation.id);
+  });
+
+  it('should keep the choice of each dimension in menu order', () => {
+    const result = resolveVariationChoice(dimensions, [], [...picks('regular', 'hot', 'full')].reverse());
+    expect('variation' in result && result.variation.options?.map(choice => choice.dimensionName)).toEqual([
+      'Size',
+      'Temperature',
+      'Sugar level'
+    ]);
+  });
+
+  it('should require one pick per dimension', () => {
+    expect(resolveVariationChoice(dimensions, [], picks('large', 'iced', 'half').slice(0, 2))).toEqual({
+      error: 'Choose a sugar level'
+    });
+    expect(resolveVariationChoice(dimensions, [], null)).toEqual({ error: 'Choose a size' });
+  });
+
+  it('should reject options and dimensions that are not on the item', () => {
+    expect(resolveVariationChoice(dimensions, [], picks('venti', 'iced', 'half'))).toEqual({
+      error: 'Your size choice is no longer available'
+    });
+    expect(resolveVariationChoice(dimensions, [], [...picks('large', 'iced', 'half'), { dimensionId: 'milk', optionId: 'oat' }])).toEqual({
+      error: 'A choice no longer matches this item'
+    });
+  });
+
+  it('should price the line through the combined variation', () => {
+    const result = resolveVariationChoice(dimensions, [], picks('large', 'iced', 'full'));
+    const variation = 'variation' in result ? result.variation : null;
+    expect(priceLine({ item: { basePrice: 120 }, variation, quantity: 2 }).lineTotal).toBe(330);
+  });
+});
+
+describe('getMinVariationPrice', () => {
+  it('should find the cheapest combination, overrides included', () => {
+    expect(listCombinations(dimensions)).toHaveLength(8);
+    expect(getMinVariationPrice(dimensions, [])).toBe(0);
+    // With both hot regulars overridden upwards, the iced regular is cheapest
+    expect(getMinVariationPrice(dimensions, [
+      { id: 'o1', optionIds: ['regular', 'hot', 'full'], price: 20 },
+      { id: 'o2', optionIds: ['regular', 'hot', 'half'], price: 20 }
+    ])).toBe(15);
+  });
+});
+
+describe('toVariationOverrides', () => {
+  it('should list option ids in dimension order when dimensions are given', () => {
+    const rows = [{ id: 'o1', option_ids: ['full', 'iced', 'large'], price: '40.00' }];
+    expect(toVariationOverrides(rows, dimensions)).toEqual([{ id: 'o1', optionIds: ['large', 'iced', 'full'], price: 40 }]);
+    expect(toVariationOverrides(rows)[0].optionIds).toEqual(['full', 'iced', 'large']);
+  });
+});
+
+describe('describeVariation', () => {
+  it('should label each dimension, and flat variations as sizes', () => {
+    const result = resolveVariationChoice(dimensions, [], picks('large', 'iced', 'half'));
+    expect('variation' in result && describeVariation(result.variation)).toBe('Size: Large · Temperature: Iced · Sugar level: 50%');
+    expect(describeVariation({ name: 'Medium' })).toBe('Size: Medium');
+  });
+});
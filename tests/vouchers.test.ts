@@ -0,0 +1,103 @@
+/**
+ * Voucher Rules Tests
+ *
+ * Unit tests for calculateVoucherDiscount in src/lib/vouchers.ts. Usage
+ * limits need the database and are covered in api-orders.test.ts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateVoucherDiscount, normalizeVoucherCode } from '../src/lib/vouchers';
+import type { VoucherContext } from '../src/lib/vouchers';
+import type { Voucher } from '../src/types';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const voucher = (overrides: Partial<Voucher> = {}): Voucher => ({
+  id: 'voucher-1',
+  code: 'SHAKE10',
+  description: null,
+  discount_type: 'percentage',
+  discount_value: 10,
+  max_discount: null,
+  min_spend: 0,
+  usage_limit: null,
+  per_customer_limit: null,
+  starts_at: null,
+  ends_at: null,
+  branch_ids: [],
+  service_types: [],
+  category_ids: [],
+  menu_item_ids: [],
+  active: true,
+  created_at: '2025-06-01T00:00:00Z',
+  updated_at: '2025-06-01T00:00:00Z',
+  ...overrides
+});
+
+const context = (overrides: Partial<VoucherContext> = {}): VoucherContext => ({
+  lines: [
+    { menuItemId: 'shake', category: 'shakes', lineTotal: 300 },
+    { menuItemId: 'fries', category: 'sides', lineTotal: 100 }
+  ],
+  subtotal: 400,
+  deliveryFee: 80,
+  serviceType: 'delivery',
+  branchId: 'branch-1',
+  now: NOW,
+  ...overrides
+});
+
+describe('calculateVoucherDiscount', () => {
+  it('should take a percentage off the whole cart', () => {
+    expect(calculateVoucherDiscount(voucher(), context())).toEqual({ discount: 40 });
+  });
+
+  it('should cap a percentage discount', () => {
+    expect(calculateVoucherDiscount(voucher({ max_discount: 25 }), context())).toEqual({ discount: 25 });
+  });
+
+  it('should never take more than the eligible lines are worth', () => {
+    expect(calculateVoucherDiscount(voucher({ discount_type: 'fixed', discount_value: 500 }), context())).toEqual({ discount: 400 });
+  });
+
+  it('should only discount eligible categories and items', () => {
+    expect(calculateVoucherDiscount(voucher({ category_ids: ['sides'] }), context())).toEqual({ discount: 10 });
+    expect(calculateVoucherDiscount(voucher({ menu_item_ids: ['shake'] }), context())).toEqual({ discount: 30 });
+  });
+
+  it('should refuse a cart with no eligible items', () => {
+    expect(calculateVoucherDiscount(voucher({ category_ids: ['desserts'] }), context())).toHaveProperty('error');
+  });
+
+  it('should waive the delivery fee for free delivery', () => {
+    expect(calculateVoucherDiscount(voucher({ discount_type: 'free_delivery' }), context())).toEqual({ discount: 80 });
+    expect(calculateVoucherDiscount(voucher({ discount_type: 'free_delivery' }), context({ serviceType: 'pickup' }))).toHaveProperty('error');
+  });
+
+  it('should enforce the minimum spend on the whole cart', () => {
+    expect(calculateVoucherDiscount(voucher({ min_spend: 500 }), context())).toHaveProperty('error');
+    expect(calculateVoucherDiscount(voucher({ min_spend: 400, category_ids: ['sides'] }), context())).toEqual({ discount: 10 });
+  });
+
+  it('should respect the validity window', () => {
+    expect(calculateVoucherDiscount(voucher({ starts_at: '2025-06-16T00:00:00Z' }), context())).toHaveProperty('error');
+    expect(calculateVoucherDiscount(voucher({ ends_at: '2025-06-14T00:00:00Z' }), context())).toHaveProperty('error');
+  });
+
+  it('should respect branch and service type restrictions', () => {
+    expect(calculateVoucherDiscount(voucher({ branch_ids: ['branch-2'] }), context())).toHaveProperty('error');
+    expect(calculateVoucherDiscount(voucher({ service_types: ['dine-in'] }), context())).toHaveProperty('error');
+    expect(calculateVoucherDiscount(voucher({ branch_ids: ['branch-1'], service_types: ['delivery'] }), context())).toEqual({ discount: 40 });
+  });
+
+  it('should refuse an inactive voucher', () => {
+    expect(calculateVoucherDiscount(voucher({ active: false }), context())).toHaveProperty('error');
+  });
+});
+
+describe('normalizeVoucherCode', () => {
+  it('should ignore case and surrounding spaces', () => {
+    expect(normalizeVoucherCode('  shake10 ')).toBe('SHAKE10');
+    expect(normalizeVoucherCode(undefined)).toBe('');
+  });
+});